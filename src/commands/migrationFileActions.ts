@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ArtisanService, MigrationRunOptions } from '../services/ArtisanService';
+import { GuardrailService } from '../services/GuardrailService';
+import { LoggerService } from '../services/LoggerService';
+import { MigrationFile, MigrationPathService } from '../services/MigrationPathService';
+import { MigrationRiskService } from '../services/MigrationRiskService';
+import { MigrationRunService } from '../services/MigrationRunService';
+import { ProcessError, ProcessResult } from '../services/ProcessRunner';
+import { MigrationCodeLensProvider } from '../providers/MigrationCodeLensProvider';
+import { SqlPreviewProvider } from '../providers/SqlPreviewProvider';
+import { MigrationPanel } from '../webviews/migration-panel';
+
+/**
+ * Migration actions started from a migration file: the CodeLens above its class and the editor title menu.
+ * They run against the default connection; the Migrations panel offers connection choice.
+ */
+
+/** Migration name from a CodeLens, a file URI from the editor title menu, or the active editor. */
+type MigrationTarget = string | vscode.Uri | undefined;
+
+let artisan: ArtisanService | undefined;
+
+/**
+ * Run a pending migration after confirmation.
+ */
+export async function runMigrationFile(target: MigrationTarget): Promise<void> {
+	const file = await resolveMigration(target);
+	if (!file) {
+		return;
+	}
+
+	const status = await MigrationCodeLensProvider.getStatus(file.name);
+	if (status?.ran) {
+		vscode.window.showInformationMessage(`Migration '${file.name}' already ran in batch ${status.batch ?? '?'}.`);
+		return;
+	}
+
+	const environment = GuardrailService.getEnvironment();
+	const answer = await vscode.window.showInformationMessage(
+		`Run migration '${file.name}'?`,
+		{ modal: true, detail: `Environment: ${environment.name}\nConnection: default` },
+		'Yes'
+	);
+	if (answer !== 'Yes') {
+		return;
+	}
+
+	await runWithProgress(
+		`Running migration ${file.name}`,
+		`Before running ${file.name}`,
+		file.name,
+		(options) => getArtisan().runMigration(file.name, false, options),
+		`✓ Migration '${file.name}' completed successfully`
+	);
+}
+
+/**
+ * Roll back a ran migration through the guardrails, listing what its down() drops.
+ */
+export async function rollbackMigrationFile(target: MigrationTarget): Promise<void> {
+	const file = await resolveMigration(target);
+	if (!file) {
+		return;
+	}
+
+	const status = await MigrationCodeLensProvider.getStatus(file.name);
+	if (status && !status.ran) {
+		vscode.window.showInformationMessage(`Migration '${file.name}' has not run yet.`);
+		return;
+	}
+
+	const detail = ['Runs the migration\'s down() method. Dropped tables and columns lose their data.'];
+	try {
+		const risks = new MigrationRiskService();
+		const summary = risks.describe([risks.analyzeSource(file.name, await fs.promises.readFile(file.path, 'utf8'))]);
+		if (summary) {
+			detail.push(summary);
+		}
+	} catch (err) {
+		LoggerService.warn(`Could not analyze rollback risk of ${file.name}`, err);
+	}
+
+	const confirmed = await GuardrailService.confirmDestructive({
+		label: `Rollback migration '${file.name}'`,
+		detail: detail.join('\n\n')
+	});
+	if (!confirmed) {
+		return;
+	}
+
+	await runWithProgress(
+		`Rolling back migration ${file.name}`,
+		`Before rolling back ${file.name}`,
+		file.name,
+		(options) => getArtisan().rollbackMigration(file.name, options),
+		`✓ Migration '${file.name}' rolled back successfully`
+	);
+}
+
+/**
+ * Preview the SQL of the action the file offers: rolling it back when it ran, running it otherwise.
+ */
+export async function previewMigrationFileSql(target: MigrationTarget): Promise<void> {
+	const file = await resolveMigration(target);
+	if (!file) {
+		return;
+	}
+
+	const rollback = Boolean((await MigrationCodeLensProvider.getStatus(file.name))?.ran);
+
+	try {
+		const { args, previews } = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: 'Generating SQL preview…' },
+			() => getArtisan().pretendMigrations({ migration: file.name, rollback })
+		);
+		await SqlPreviewProvider.show(file.name, args.join(' '), previews);
+	} catch (err) {
+		const errorMsg = err instanceof Error ? err.message : String(err);
+		LoggerService.error('Failed to preview migration SQL', err);
+		vscode.window.showErrorMessage(`Failed to preview SQL: ${errorMsg}`);
+	}
+}
+
+function getArtisan(): ArtisanService {
+	artisan ??= new ArtisanService();
+	return artisan;
+}
+
+/**
+ * Find the migration file a command was invoked for.
+ */
+async function resolveMigration(target: MigrationTarget): Promise<MigrationFile | undefined> {
+	const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+	const name = typeof target === 'string' ? target : uri && path.basename(uri.fsPath, '.php');
+
+	const file = name ? await MigrationPathService.findMigration(name) : undefined;
+	if (!file) {
+		vscode.window.showWarningMessage(name ? `'${name}' is not a known migration file.` : 'Open a migration file first.');
+	}
+	return file;
+}
+
+/**
+ * Run an artisan migration command with a cancellable notification, then refresh the lenses and the panel.
+ * Shares the run lock and the snapshot step with the Migrations panel.
+ */
+async function runWithProgress(
+	title: string,
+	snapshotReason: string,
+	migration: string,
+	run: (options: MigrationRunOptions) => Promise<ProcessResult>,
+	successMessage: string
+): Promise<void> {
+	if (MigrationRunService.isRunning()) {
+		vscode.window.showWarningMessage('Another migration command is still running. Cancel it or wait for it to finish.');
+		return;
+	}
+
+	const proceed = await MigrationRunService.snapshotBeforeRun({
+		reason: snapshotReason,
+		batch: await MigrationCodeLensProvider.getLatestBatch(),
+		migrations: [migration]
+	});
+	if (!proceed) {
+		return;
+	}
+
+	let source: vscode.CancellationTokenSource;
+	try {
+		source = MigrationRunService.start();
+	} catch (err) {
+		vscode.window.showWarningMessage(err instanceof Error ? err.message : String(err));
+		return;
+	}
+
+	try {
+		await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title, cancellable: true },
+			async (progress, token) => {
+				const link = token.onCancellationRequested(() => source.cancel());
+				try {
+					return await run({
+						token: source.token,
+						onOutput: (chunk) => {
+							const lastLine = chunk.split(/\r?\n/).map(l => l.trim()).filter(Boolean).pop();
+							if (lastLine) {
+								progress.report({ message: lastLine.slice(0, 120) });
+							}
+						}
+					});
+				} finally {
+					link.dispose();
+				}
+			}
+		);
+		vscode.window.showInformationMessage(successMessage);
+	} catch (err) {
+		if (err instanceof ProcessError && err.result.cancelled) {
+			vscode.window.showWarningMessage(`${title} was cancelled. The schema may be partially migrated.`);
+		} else {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`${title} failed`, err);
+			vscode.window.showErrorMessage(`${title} failed: ${errorMsg}`);
+		}
+	} finally {
+		MigrationRunService.finish(source);
+		MigrationCodeLensProvider.refresh();
+		await MigrationPanel.currentPanel?.reload();
+	}
+}
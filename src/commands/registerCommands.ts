@@ -4,12 +4,20 @@ import { MigrationPanel } from '../webviews/migration-panel';
 import { RoutesPanel } from '../webviews/routes-panel';
 import { PackagesPanel } from '../webviews/packages-panel';
 import { ModelGraphPanel } from '../webviews/model-graph-panel';
+import { SchemaPanel } from '../webviews/schema-panel';
+import { DatabasePanel } from '../webviews/database-panel';
+import { QueryPanel } from '../webviews/query-panel';
 import { LoggerService } from '../services/LoggerService';
+import { ExecutionEnvironmentService } from '../services/ExecutionEnvironmentService';
+import { RouteCacheService } from '../services/RouteCacheService';
+import { previewMigrationFileSql, rollbackMigrationFile, runMigrationFile } from './migrationFileActions';
+import { copyRouteUrl, filterRouteTree, goToRouteAction, groupRouteTree, lintRoutes } from './routeTreeActions';
+import { RouteItem, RouteTreeProvider } from '../providers/RouteTreeProvider';
 
 /**
  * Register all extension commands.
  */
-export function registerCommands(context: vscode.ExtensionContext): void {
+export function registerCommands(context: vscode.ExtensionContext, routeTree: RouteTreeProvider): void {
 	LoggerService.info('Registering commands...');
 
 	// Open sidebar view
@@ -40,7 +48,7 @@ export function registerCommands(context: vscode.ExtensionContext): void {
 	context.subscriptions.push(
 		vscode.commands.registerCommand('laravel-hero.open-routes', () => {
 			LoggerService.info('open-routes command triggered');
-			RoutesPanel.createOrShow(context.extensionUri);
+			RoutesPanel.createOrShow(context.extensionUri, context.workspaceState, context.secrets);
 		})
 	);
 
@@ -60,6 +68,82 @@ export function registerCommands(context: vscode.ExtensionContext): void {
 		})
 	);
 
+	// Open schema panel (structure computed from migration files)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.open-schema', () => {
+			LoggerService.info('open-schema command triggered');
+			SchemaPanel.createOrShow(context.extensionUri);
+		})
+	);
+
+	// Open database panel (live tables compared with migrations)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.open-database', () => {
+			LoggerService.info('open-database command triggered');
+			DatabasePanel.createOrShow(context.extensionUri);
+		})
+	);
+
+	// Open query console (read-only SQL through the app's connections)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.open-query-console', () => {
+			LoggerService.info('open-query-console command triggered');
+			QueryPanel.createOrShow(context.extensionUri, context.workspaceState);
+		})
+	);
+
+	// Migration file actions (CodeLens and editor title menu)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.migration.run', async (target?: string | vscode.Uri) => {
+			LoggerService.info('migration.run command triggered');
+			await runMigrationFile(target);
+		}),
+		vscode.commands.registerCommand('laravel-hero.migration.rollback', async (target?: string | vscode.Uri) => {
+			LoggerService.info('migration.rollback command triggered');
+			await rollbackMigrationFile(target);
+		}),
+		vscode.commands.registerCommand('laravel-hero.migration.previewSql', async (target?: string | vscode.Uri) => {
+			LoggerService.info('migration.previewSql command triggered');
+			await previewMigrationFileSql(target);
+		})
+	);
+
+	// Route tree actions (inline buttons and view title menu)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.routes.copyUrl', async (item?: RouteItem) => {
+			await copyRouteUrl(item);
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.goToAction', async (item?: RouteItem) => {
+			LoggerService.info('routes.goToAction command triggered');
+			await goToRouteAction(item);
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.filter', async () => {
+			await filterRouteTree(routeTree);
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.clearFilter', () => {
+			routeTree.setFilter('');
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.groupBy', async () => {
+			await groupRouteTree(routeTree);
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.refresh', () => {
+			LoggerService.info('routes.refresh command triggered');
+			RouteCacheService.invalidate();
+		}),
+		vscode.commands.registerCommand('laravel-hero.routes.lint', async () => {
+			LoggerService.info('routes.lint command triggered');
+			await lintRoutes();
+		})
+	);
+
+	// Choose where artisan/composer commands run (local, Sail, docker compose, custom)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('laravel-hero.selectExecutionEnvironment', async () => {
+			LoggerService.info('selectExecutionEnvironment command triggered');
+			await ExecutionEnvironmentService.selectEnvironment();
+		})
+	);
+
 	// Show output channel
 	context.subscriptions.push(
 		vscode.commands.registerCommand('laravel-hero.showOutput', () => {
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { LoggerService } from '../services/LoggerService';
+import { RouteActionService } from '../services/RouteActionService';
+import { RouteDiagnosticsProvider } from '../providers/RouteDiagnosticsProvider';
+import { RouteItem, RouteTreeGrouping, RouteTreeProvider } from '../providers/RouteTreeProvider';
+
+/**
+ * Actions of the route tree in the sidebar: the inline buttons on each route and the view title menu.
+ */
+
+/**
+ * Copy the full URL of a route.
+ */
+export async function copyRouteUrl(item: RouteItem | undefined): Promise<void> {
+	if (!item?.route.fullUrl) {
+		return;
+	}
+
+	try {
+		await vscode.env.clipboard.writeText(item.route.fullUrl);
+		vscode.window.showInformationMessage('Route URL copied to clipboard');
+	} catch (err) {
+		LoggerService.error('Failed to copy to clipboard', err);
+		vscode.window.showErrorMessage('Failed to copy route URL');
+	}
+}
+
+/**
+ * Open the controller method, closure, Livewire component, Inertia page or view behind a route.
+ */
+export async function goToRouteAction(item: RouteItem | undefined): Promise<void> {
+	if (!item) {
+		return;
+	}
+
+	const [location] = await new RouteActionService().resolveAll([item.route]);
+	if (!location) {
+		vscode.window.showWarningMessage('The action of this route could not be located in the workspace.');
+		return;
+	}
+
+	const document = await vscode.workspace.openTextDocument(location.file);
+	const position = new vscode.Position(Math.max(0, location.line - 1), 0);
+	await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}
+
+/**
+ * Ask for a filter on URI, name, action, method or middleware. An empty value clears it.
+ */
+export async function filterRouteTree(tree: RouteTreeProvider): Promise<void> {
+	const filter = await vscode.window.showInputBox({
+		title: 'Filter Routes',
+		prompt: 'Match URI, name, action, HTTP method or middleware',
+		placeHolder: 'e.g. users, admin., POST, auth:sanctum',
+		value: tree.filter
+	});
+	if (filter !== undefined) {
+		tree.setFilter(filter);
+	}
+}
+
+/**
+ * Switch between grouping by URI segment, middleware group and controller.
+ */
+export async function groupRouteTree(tree: RouteTreeProvider): Promise<void> {
+	const options: { label: string; description: string; grouping: RouteTreeGrouping }[] = [
+		{ label: 'URI segment', description: 'api › users › posts', grouping: 'uri' },
+		{ label: 'Middleware group', description: 'web, api', grouping: 'middleware' },
+		{ label: 'Controller', description: 'UserController, Closures', grouping: 'controller' }
+	];
+	const picked = await vscode.window.showQuickPick(
+		options.map(option => ({ ...option, picked: option.grouping === tree.grouping })),
+		{ placeHolder: 'Group routes by' }
+	);
+	if (picked) {
+		await tree.setGrouping(picked.grouping);
+	}
+}
+
+/**
+ * Lint the routes now and show the findings in the Problems view.
+ */
+export async function lintRoutes(): Promise<void> {
+	try {
+		const result = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: 'Checking routes…' },
+			() => RouteDiagnosticsProvider.run(true)
+		);
+		if (!result) {
+			vscode.window.showWarningMessage('Could not load the routes. See the Laravel Hero output for details.');
+			return;
+		}
+
+		const errors = result.issues.filter(issue => issue.severity === 'error').length;
+		const others = result.issues.length - errors;
+		if (result.issues.length === 0) {
+			vscode.window.showInformationMessage(`✓ No route problems found${result.skipped.length ? ' (some checks were skipped)' : ''}`);
+			return;
+		}
+		await vscode.commands.executeCommand('workbench.actions.view.problems');
+		vscode.window.showWarningMessage(`Route check found ${errors} error${errors === 1 ? '' : 's'} and ${others} warning${others === 1 ? '' : 's'}.`);
+	} catch (err) {
+		const errorMsg = err instanceof Error ? err.message : String(err);
+		LoggerService.error('Failed to lint routes', err);
+		vscode.window.showErrorMessage(`Failed to lint routes: ${errorMsg}`);
+	}
+}
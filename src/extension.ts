@@ -1,8 +1,16 @@
 import * as vscode from 'vscode';
 import { LaravelHeroSidebar } from './providers/LaravelHeroSidebar';
+import { SqlPreviewProvider } from './providers/SqlPreviewProvider';
+import { MigrationCodeLensProvider } from './providers/MigrationCodeLensProvider';
+import { RouteCodeLensProvider } from './providers/RouteCodeLensProvider';
+import { RouteTreeProvider } from './providers/RouteTreeProvider';
+import { RouteDiagnosticsProvider } from './providers/RouteDiagnosticsProvider';
 import { registerCommands } from './commands/registerCommands';
 import { LoggerService } from './services/LoggerService';
+import { RouteActionService } from './services/RouteActionService';
+import { RouteCacheService } from './services/RouteCacheService';
 import { WorkspaceService } from './services/WorkspaceService';
+import { ExecutionEnvironmentService } from './services/ExecutionEnvironmentService';
 
 export function activate(context: vscode.ExtensionContext) {
 	LoggerService.initialize();
@@ -17,14 +25,87 @@ export function activate(context: vscode.ExtensionContext) {
 		);
 		LoggerService.info('✓ Sidebar registered successfully');
 
+		// Register the read-only document provider for SQL previews
+		context.subscriptions.push(
+			vscode.workspace.registerTextDocumentContentProvider(SqlPreviewProvider.scheme, new SqlPreviewProvider())
+		);
+
+		// Register the status/action CodeLens for migration files, refreshed when migrations are added or removed
+		const migrationWatcher = vscode.workspace.createFileSystemWatcher('**/migrations/**/*.php', false, true, false);
+		context.subscriptions.push(
+			vscode.languages.registerCodeLensProvider({ language: 'php', scheme: 'file' }, new MigrationCodeLensProvider()),
+			migrationWatcher,
+			migrationWatcher.onDidCreate(() => MigrationCodeLensProvider.refresh()),
+			migrationWatcher.onDidDelete(() => MigrationCodeLensProvider.refresh()),
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('laravelHero.migrationCodeLens')) {
+					MigrationCodeLensProvider.refresh();
+				}
+				if (event.affectsConfiguration('laravelHero.routeCodeLens')) {
+					RouteCodeLensProvider.refresh();
+				}
+				if (event.affectsConfiguration('laravelHero.routeDiagnostics') || event.affectsConfiguration('laravelHero.protectedRoutePrefixes')) {
+					RouteDiagnosticsProvider.schedule();
+				}
+			})
+		);
+
+		// Register the route tree in the sidebar; its description shows the active grouping and filter
+		const routeTree = new RouteTreeProvider(context.workspaceState);
+		const routeTreeView = vscode.window.createTreeView('laravel-hero.routes', { treeDataProvider: routeTree, showCollapseAll: true });
+		const describeRouteTree = () => {
+			const grouping = routeTree.grouping === 'uri' ? undefined : `by ${routeTree.grouping}`;
+			const filter = routeTree.filter ? `"${routeTree.filter}"` : undefined;
+			routeTreeView.description = [grouping, filter].filter(Boolean).join(' · ') || undefined;
+		};
+		describeRouteTree();
+		context.subscriptions.push(routeTreeView, routeTree.onDidChangeTreeData(describeRouteTree));
+
+		// Register the reverse route CodeLens on controller methods. It and the route tree read the shared route cache,
+		// which is dropped when route files change; the route diagnostics re-run then too.
+		// Controllers and service providers change what route:list reports as well, so they drop the cache
+		const refreshRoutes = () => {
+			RouteCacheService.invalidate();
+			RouteDiagnosticsProvider.schedule();
+		};
+		const routeWatcher = vscode.workspace.createFileSystemWatcher('**/routes/**/*.php');
+		const actions = new RouteActionService();
+		const routeSources = [...actions.sourceDirectories('Http/Controllers'), ...actions.sourceDirectories('Providers')];
+		const routeSourceWatcher = vscode.workspace.createFileSystemWatcher(`**/{${routeSources.join(',')}}/**/*.php`);
+		context.subscriptions.push(
+			vscode.languages.registerCodeLensProvider({ language: 'php', scheme: 'file' }, new RouteCodeLensProvider()),
+			RouteCacheService.onDidChange(() => {
+				RouteCodeLensProvider.refresh();
+				RouteTreeProvider.refresh();
+			}),
+			routeWatcher,
+			routeWatcher.onDidCreate(refreshRoutes),
+			routeWatcher.onDidChange(refreshRoutes),
+			routeWatcher.onDidDelete(refreshRoutes),
+			routeSourceWatcher,
+			routeSourceWatcher.onDidCreate(() => RouteCacheService.invalidate()),
+			routeSourceWatcher.onDidChange(() => RouteCacheService.invalidate()),
+			routeSourceWatcher.onDidDelete(() => RouteCacheService.invalidate())
+		);
+
+		// Lint routes once a route file is opened, and again when a controller is saved
+		context.subscriptions.push(
+			RouteDiagnosticsProvider.register(),
+			vscode.workspace.onDidOpenTextDocument(document => RouteDiagnosticsProvider.onDidOpen(document)),
+			vscode.workspace.onDidSaveTextDocument(document => RouteDiagnosticsProvider.onDidSave(document))
+		);
+		vscode.workspace.textDocuments.forEach(document => RouteDiagnosticsProvider.onDidOpen(document));
+
 		// Register all commands
-		registerCommands(context);
+		registerCommands(context, routeTree);
 
 		// Check workspace on activation
 		try {
 			if (WorkspaceService.isLaravelProject()) {
 				LoggerService.info('✓ Laravel project detected');
+				LoggerService.info(`Execution environment: ${ExecutionEnvironmentService.describeMode()}`);
 				vscode.window.showInformationMessage('Laravel Hero: Ready!');
+				ExecutionEnvironmentService.promptForDetectedEnvironment(context);
 			} else {
 				LoggerService.warn('No Laravel project detected in workspace');
 			}
@@ -21,6 +21,9 @@ export class SidebarItem extends vscode.TreeItem {
 		const icons: { [key: string]: string } = {
 			'laravel-hero.open-overview': 'home',
 			'laravel-hero.open-migrations': 'database',
+			'laravel-hero.open-schema': 'symbol-structure',
+			'laravel-hero.open-database': 'server',
+			'laravel-hero.open-query-console': 'terminal',
 			'laravel-hero.open-routes': 'git-branch',
 			'laravel-hero.open-packages': 'package',
 			'laravel-hero.open-model-graph': 'graph'
@@ -52,6 +55,9 @@ export class LaravelHeroSidebar implements vscode.TreeDataProvider<SidebarItem>
 		const items = [
 			new SidebarItem('Overview', 'laravel-hero.open-overview', 'Project overview dashboard'),
 			new SidebarItem('Migrations', 'laravel-hero.open-migrations', 'Manage database migrations'),
+			new SidebarItem('Schema', 'laravel-hero.open-schema', 'Table structure from migrations'),
+			new SidebarItem('Database', 'laravel-hero.open-database', 'Live tables and drift from migrations'),
+			new SidebarItem('Query Console', 'laravel-hero.open-query-console', 'Run read-only SQL queries'),
 			new SidebarItem('Routes', 'laravel-hero.open-routes', 'View and test API routes'),
 			new SidebarItem('Packages', 'laravel-hero.open-packages', 'Manage Laravel packages'),
 			new SidebarItem('Model Graph', 'laravel-hero.open-model-graph', 'Visualize model relationships')
@@ -0,0 +1,152 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ArtisanService, MigrationStatus } from '../services/ArtisanService';
+import { LoggerService } from '../services/LoggerService';
+import { WorkspaceService } from '../services/WorkspaceService';
+import { lineAt, maskComments } from '../utils/phpSource';
+
+interface StatusCache {
+	/** Status keyed by the migration path relative to the workspace root. */
+	byPath: Map<string, MigrationStatus>;
+	error?: string;
+}
+
+/**
+ * Shows the status of a migration file above its class ("Ran in batch 3" / "Pending")
+ * with Run, Rollback and Preview SQL actions.
+ * Status comes from `migrate:status` on the default connection and is cached until a migration command
+ * changes it or the Migrations panel reloads.
+ */
+export class MigrationCodeLensProvider implements vscode.CodeLensProvider {
+	private static readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+	private static readonly artisan = new ArtisanService();
+	private static cache: Promise<StatusCache> | undefined;
+
+	readonly onDidChangeCodeLenses = MigrationCodeLensProvider._onDidChangeCodeLenses.event;
+
+	async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+		if (!vscode.workspace.getConfiguration('laravelHero').get<boolean>('migrationCodeLens', true)) {
+			return [];
+		}
+
+		const relativePath = MigrationCodeLensProvider.relativePath(document.uri);
+		if (!relativePath) {
+			return [];
+		}
+
+		const { byPath, error } = await MigrationCodeLensProvider.load();
+		const status = byPath.get(relativePath);
+		if (!status) {
+			return [];
+		}
+
+		const range = this.classRange(document);
+		const args = [status.name];
+		const lenses: vscode.CodeLens[] = [];
+
+		if (error) {
+			lenses.push(new vscode.CodeLens(range, {
+				title: '$(warning) Status unavailable',
+				tooltip: error,
+				command: 'laravel-hero.showOutput'
+			}));
+		} else {
+			lenses.push(new vscode.CodeLens(range, {
+				title: status.ran ? `$(pass) Ran in batch ${status.batch ?? '?'}` : '$(circle-large-outline) Pending',
+				tooltip: 'Open the Migrations panel',
+				command: 'laravel-hero.open-migrations'
+			}));
+		}
+
+		if (!status.ran || error) {
+			lenses.push(new vscode.CodeLens(range, { title: '$(play) Run', command: 'laravel-hero.migration.run', arguments: args }));
+		}
+		if (status.ran || error) {
+			lenses.push(new vscode.CodeLens(range, { title: '$(discard) Rollback', command: 'laravel-hero.migration.rollback', arguments: args }));
+		}
+		lenses.push(new vscode.CodeLens(range, {
+			title: '$(eye) Preview SQL',
+			tooltip: status.ran ? 'Preview the SQL of rolling this migration back' : 'Preview the SQL of running this migration',
+			command: 'laravel-hero.migration.previewSql',
+			arguments: args
+		}));
+
+		return lenses;
+	}
+
+	/**
+	 * Status of one migration from the cache, loading it when needed.
+	 */
+	static async getStatus(name: string): Promise<MigrationStatus | undefined> {
+		const { byPath, error } = await MigrationCodeLensProvider.load();
+		return error ? undefined : [...byPath.values()].find(status => status.name === name);
+	}
+
+	/**
+	 * Highest batch in the cached status, or null when nothing ran or the status could not be loaded.
+	 */
+	static async getLatestBatch(): Promise<number | null> {
+		const { byPath } = await MigrationCodeLensProvider.load();
+		const batches = [...byPath.values()].filter(m => m.ran && m.batch !== undefined).map(m => m.batch as number);
+		return batches.length > 0 ? Math.max(...batches) : null;
+	}
+
+	/**
+	 * Replace the cached status, e.g. with the list the Migrations panel just loaded.
+	 */
+	static update(migrations: MigrationStatus[], error?: string): void {
+		MigrationCodeLensProvider.cache = Promise.resolve(MigrationCodeLensProvider.toCache(migrations, error));
+		MigrationCodeLensProvider._onDidChangeCodeLenses.fire();
+	}
+
+	/**
+	 * Drop the cached status so the lenses reload it from artisan.
+	 */
+	static refresh(): void {
+		MigrationCodeLensProvider.cache = undefined;
+		MigrationCodeLensProvider._onDidChangeCodeLenses.fire();
+	}
+
+	/**
+	 * Path of a document relative to the workspace root, or undefined when it is outside the workspace.
+	 */
+	static relativePath(uri: vscode.Uri): string | undefined {
+		if (uri.scheme !== 'file' || path.extname(uri.fsPath) !== '.php') {
+			return undefined;
+		}
+
+		try {
+			const relative = path.relative(WorkspaceService.getWorkspaceRoot(), uri.fsPath);
+			return relative.startsWith('..') || path.isAbsolute(relative) ? undefined : relative.split(path.sep).join('/');
+		} catch {
+			return undefined;
+		}
+	}
+
+	private static load(): Promise<StatusCache> {
+		MigrationCodeLensProvider.cache ??= MigrationCodeLensProvider.artisan.getMigrations()
+			.then(result => MigrationCodeLensProvider.toCache(result.migrations, result.error))
+			.catch(err => {
+				LoggerService.warn('Failed to load migration status for CodeLens', err);
+				return { byPath: new Map<string, MigrationStatus>(), error: err instanceof Error ? err.message : String(err) };
+			});
+		return MigrationCodeLensProvider.cache;
+	}
+
+	/**
+	 * Range of the migration class declaration, or the first line when it cannot be found.
+	 */
+	private classRange(document: vscode.TextDocument): vscode.Range {
+		const content = document.getText();
+		const match = /\bclass\b[^{;]*?\bextends\s+[\w\\]*Migration\b/.exec(maskComments(content));
+		const line = match ? lineAt(content, match.index) - 1 : 0;
+		return new vscode.Range(line, 0, line, 0);
+	}
+
+	private static toCache(migrations: MigrationStatus[], error?: string): StatusCache {
+		return {
+			byPath: new Map(migrations.filter(m => m.path).map(m => [m.path as string, m])),
+			error
+		};
+	}
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { RouteActionService } from '../services/RouteActionService';
+import { RouteCacheService } from '../services/RouteCacheService';
+
+/**
+ * Shows the routes bound to each controller method above it, e.g. "GET /users/{user} · auth, verified".
+ * Routes come from the shared route cache, which is dropped when files under routes/ change.
+ */
+export class RouteCodeLensProvider implements vscode.CodeLensProvider {
+	private static readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+	readonly onDidChangeCodeLenses = RouteCodeLensProvider._onDidChangeCodeLenses.event;
+
+	private readonly _actions = new RouteActionService();
+
+	async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+		if (!vscode.workspace.getConfiguration('laravelHero').get<boolean>('routeCodeLens', true)) {
+			return [];
+		}
+
+		const content = document.getText();
+		const className = this._actions.classNameOf(content);
+		if (!className) {
+			return [];
+		}
+
+		const routes = (await RouteCacheService.getRoutes()).routes
+			.map(route => ({ route, action: this._actions.parseAction(route.action) }))
+			.filter(({ action }) => action?.className === className);
+
+		const lenses: vscode.CodeLens[] = [];
+		for (const { route, action } of routes) {
+			const line = this._actions.findMethodLine(content, action?.method ?? '__invoke')
+				?? (action?.method === '__invoke' ? this._actions.findClassLine(content) : undefined);
+			if (line === undefined) {
+				continue;
+			}
+
+			const methods = route.methods.filter(method => method !== 'HEAD');
+			const middleware = route.middleware.map(name => name.split('\\').pop() ?? name);
+			lenses.push(new vscode.CodeLens(new vscode.Range(line - 1, 0, line - 1, 0), {
+				title: `$(globe) ${methods.join('|') || 'ANY'} /${route.uri.replace(/^\/+/, '')}${middleware.length ? ` · ${middleware.join(', ')}` : ''}`,
+				tooltip: [route.name ? `Route name: ${route.name}` : undefined, route.fullUrl].filter(Boolean).join('\n'),
+				command: 'laravel-hero.open-routes'
+			}));
+		}
+		return lenses;
+	}
+
+	/**
+	 * Ask VS Code for new lenses, e.g. after the route cache changed or the setting was toggled.
+	 */
+	static refresh(): void {
+		RouteCodeLensProvider._onDidChangeCodeLenses.fire();
+	}
+}
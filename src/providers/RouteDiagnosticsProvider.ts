@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { LoggerService } from '../services/LoggerService';
+import { RouteCacheService } from '../services/RouteCacheService';
+import { RouteLintIssue, RouteLintResult, RouteLintService } from '../services/RouteLintService';
+
+/**
+ * Publishes route lint findings as diagnostics on the files under routes/ that declare the routes.
+ * Runs when a route file is first opened, after route files change and after a controller is saved,
+ * unless `laravelHero.routeDiagnostics` is off.
+ */
+export class RouteDiagnosticsProvider {
+	private static readonly DEBOUNCE = 1500;
+
+	private static collection: vscode.DiagnosticCollection | undefined;
+	private static timer: NodeJS.Timeout | undefined;
+	private static running: Promise<RouteLintResult | undefined> | undefined;
+	private static next: Promise<RouteLintResult | undefined> | undefined;
+	private static nextForced = false;
+	private static hasRun = false;
+
+	/**
+	 * Create the diagnostic collection. Dispose the returned value on deactivation.
+	 */
+	static register(): vscode.Disposable {
+		RouteDiagnosticsProvider.collection = vscode.languages.createDiagnosticCollection('laravel-hero-routes');
+		return new vscode.Disposable(() => {
+			clearTimeout(RouteDiagnosticsProvider.timer);
+			RouteDiagnosticsProvider.collection?.dispose();
+			RouteDiagnosticsProvider.collection = undefined;
+		});
+	}
+
+	static isEnabled(): boolean {
+		return vscode.workspace.getConfiguration('laravelHero').get<boolean>('routeDiagnostics', true);
+	}
+
+	/**
+	 * Lint once a route file is opened, so diagnostics show up without opening the Routes panel.
+	 */
+	static onDidOpen(document: vscode.TextDocument): void {
+		if (!RouteDiagnosticsProvider.hasRun && document.uri.scheme === 'file' && new RouteLintService().isRouteFile(document.uri.fsPath)) {
+			RouteDiagnosticsProvider.schedule();
+		}
+	}
+
+	/**
+	 * Lint again once a controller is saved, so a missing-action finding clears when the method is added.
+	 */
+	static onDidSave(document: vscode.TextDocument): void {
+		if (RouteDiagnosticsProvider.hasRun && document.uri.scheme === 'file' && new RouteLintService().isControllerFile(document.uri.fsPath)) {
+			RouteDiagnosticsProvider.schedule();
+		}
+	}
+
+	/**
+	 * Re-run the analysis shortly, collapsing bursts of file changes into one run.
+	 */
+	static schedule(): void {
+		clearTimeout(RouteDiagnosticsProvider.timer);
+		if (!RouteDiagnosticsProvider.isEnabled()) {
+			RouteDiagnosticsProvider.collection?.clear();
+			return;
+		}
+		RouteDiagnosticsProvider.hasRun = true;
+		RouteDiagnosticsProvider.timer = setTimeout(() => {
+			RouteDiagnosticsProvider.run().catch(err => LoggerService.warn('Route lint failed', err));
+		}, RouteDiagnosticsProvider.DEBOUNCE);
+	}
+
+	/**
+	 * Load the routes, lint them and publish the result. A call made while a run is going may follow a route
+	 * file change that run has not seen, so it queues one more run after it; further calls share that queued run.
+	 * @param force - Publish even when automatic route diagnostics are turned off
+	 */
+	static run(force = false): Promise<RouteLintResult | undefined> {
+		if (RouteDiagnosticsProvider.running) {
+			RouteDiagnosticsProvider.nextForced ||= force;
+			RouteDiagnosticsProvider.next ??= RouteDiagnosticsProvider.running
+				.catch(() => undefined)
+				.then(() => {
+					const nextForced = RouteDiagnosticsProvider.nextForced;
+					RouteDiagnosticsProvider.next = undefined;
+					RouteDiagnosticsProvider.nextForced = false;
+					return RouteDiagnosticsProvider.run(nextForced);
+				});
+			return RouteDiagnosticsProvider.next;
+		}
+
+		RouteDiagnosticsProvider.running = (async () => {
+			const { routes, error } = await RouteCacheService.getRoutes();
+			if (error && routes.length === 0) {
+				LoggerService.warn(`Skipping route lint: ${error}`);
+				return undefined;
+			}
+			const result = await new RouteLintService().analyze(routes);
+			RouteDiagnosticsProvider.update(result.issues, force);
+			return result;
+		})().finally(() => {
+			RouteDiagnosticsProvider.running = undefined;
+		});
+		return RouteDiagnosticsProvider.running;
+	}
+
+	/**
+	 * Replace the published diagnostics, e.g. with the findings the Routes panel just computed.
+	 */
+	static update(issues: RouteLintIssue[], force = false): void {
+		const collection = RouteDiagnosticsProvider.collection;
+		if (!collection) {
+			return;
+		}
+		collection.clear();
+		RouteDiagnosticsProvider.hasRun = true;
+		if (!force && !RouteDiagnosticsProvider.isEnabled()) {
+			return;
+		}
+
+		const byFile = new Map<string, vscode.Diagnostic[]>();
+		for (const issue of issues) {
+			if (!issue.location) {
+				continue;
+			}
+			const line = Math.max(0, issue.location.line - 1);
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+				issue.message,
+				issue.severity === 'error' ? vscode.DiagnosticSeverity.Error
+					: issue.severity === 'warning' ? vscode.DiagnosticSeverity.Warning
+						: vscode.DiagnosticSeverity.Information
+			);
+			diagnostic.source = 'Laravel Hero';
+			diagnostic.code = issue.rule;
+			byFile.set(issue.location.file, [...(byFile.get(issue.location.file) ?? []), diagnostic]);
+		}
+
+		for (const [file, diagnostics] of byFile) {
+			collection.set(vscode.Uri.file(file), diagnostics);
+		}
+	}
+}
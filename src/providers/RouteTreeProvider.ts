@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { RouteInfo } from '../services/ArtisanService';
+import { RouteActionService } from '../services/RouteActionService';
+import { RouteCacheService } from '../services/RouteCacheService';
+
+export type RouteTreeGrouping = 'uri' | 'middleware' | 'controller';
+
+/**
+ * Folder of routes: a URI segment, a middleware group or a controller.
+ */
+export class RouteGroupItem extends vscode.TreeItem {
+	constructor(
+		public readonly label: string,
+		public readonly routes: RouteInfo[],
+		public readonly groups: RouteGroupItem[] = [],
+		icon = 'folder'
+	) {
+		super(label, vscode.TreeItemCollapsibleState.Collapsed);
+		this.description = `${countRoutes(this)}`;
+		this.contextValue = 'routeGroup';
+		this.iconPath = new vscode.ThemeIcon(icon);
+	}
+}
+
+/**
+ * A single route. Its methods are shown as a highlighted badge in front of the URI.
+ */
+export class RouteItem extends vscode.TreeItem {
+	private static readonly METHOD_COLORS: { [method: string]: string } = {
+		GET: 'charts.green',
+		POST: 'charts.yellow',
+		PUT: 'charts.blue',
+		PATCH: 'charts.purple',
+		DELETE: 'charts.red'
+	};
+
+	constructor(public readonly route: RouteInfo) {
+		const methods = route.methods.filter(method => method !== 'HEAD');
+		const badge = methods.length > 2 ? 'ANY' : methods.join('|') || 'ANY';
+		const uri = `/${route.uri.replace(/^\/+/, '')}`;
+		super({ label: `${badge} ${uri}`, highlights: [[0, badge.length]] }, vscode.TreeItemCollapsibleState.None);
+
+		this.description = route.name ?? undefined;
+		this.contextValue = 'route';
+		this.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(RouteItem.METHOD_COLORS[methods[0]] ?? 'charts.foreground'));
+		this.tooltip = new vscode.MarkdownString([
+			`**${methods.join(' | ')}** \`${uri}\``,
+			route.name ? `Name: \`${route.name}\`` : undefined,
+			route.action ? `Action: \`${route.action}\`` : undefined,
+			route.middleware.length ? `Middleware: ${route.middleware.map(name => `\`${name}\``).join(', ')}` : undefined,
+			route.fullUrl
+		].filter(Boolean).join('\n\n'));
+		this.command = { command: 'laravel-hero.routes.goToAction', title: 'Go to Action', arguments: [this] };
+	}
+}
+
+function countRoutes(group: RouteGroupItem): number {
+	return group.routes.length + group.groups.reduce((total, child) => total + countRoutes(child), 0);
+}
+
+/**
+ * Routes in the sidebar, grouped by URI segment, middleware group or controller, with a text filter.
+ * Routes come from the shared route cache when the view is first expanded and are reloaded when files under routes/ change.
+ */
+export class RouteTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+	private static readonly _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined>();
+
+	private static readonly GROUPING_KEY = 'laravelHero.routeTreeGrouping';
+
+	readonly onDidChangeTreeData = RouteTreeProvider._onDidChangeTreeData.event;
+
+	private readonly _actions = new RouteActionService();
+	private _filter = '';
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	get grouping(): RouteTreeGrouping {
+		return this.state.get<RouteTreeGrouping>(RouteTreeProvider.GROUPING_KEY, 'uri');
+	}
+
+	get filter(): string {
+		return this._filter;
+	}
+
+	async setGrouping(grouping: RouteTreeGrouping): Promise<void> {
+		await this.state.update(RouteTreeProvider.GROUPING_KEY, grouping);
+		RouteTreeProvider._onDidChangeTreeData.fire(undefined);
+	}
+
+	setFilter(filter: string): void {
+		this._filter = filter.trim();
+		vscode.commands.executeCommand('setContext', 'laravelHero.routeTreeFiltered', Boolean(this._filter));
+		RouteTreeProvider._onDidChangeTreeData.fire(undefined);
+	}
+
+	getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+		return element;
+	}
+
+	async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+		if (element instanceof RouteGroupItem) {
+			return [...element.groups, ...element.routes.map(route => new RouteItem(route))];
+		}
+		if (element) {
+			return [];
+		}
+
+		const { routes, error } = await RouteCacheService.getRoutes();
+		if (error && routes.length === 0) {
+			const item = new vscode.TreeItem('Could not load routes', vscode.TreeItemCollapsibleState.None);
+			item.description = error;
+			item.tooltip = error;
+			item.iconPath = new vscode.ThemeIcon('warning');
+			item.command = { command: 'laravel-hero.showOutput', title: 'Show Output' };
+			return [item];
+		}
+
+		const matching = routes.filter(route => this.matches(route));
+		if (matching.length === 0) {
+			const item = new vscode.TreeItem(this._filter ? `No routes match "${this._filter}"` : 'No routes found');
+			item.iconPath = new vscode.ThemeIcon('info');
+			return [item];
+		}
+
+		switch (this.grouping) {
+			case 'middleware':
+				return this.groupBy(matching, route => this.middlewareGroupOf(route), 'layers');
+			case 'controller':
+				return this.groupBy(matching, route => this.controllerOf(route), 'symbol-class');
+			default:
+				return this.groupByUri(matching);
+		}
+	}
+
+	/**
+	 * Rebuild the tree, e.g. after the route cache changed.
+	 */
+	static refresh(): void {
+		RouteTreeProvider._onDidChangeTreeData.fire(undefined);
+	}
+
+	private matches(route: RouteInfo): boolean {
+		if (!this._filter) {
+			return true;
+		}
+		const needle = this._filter.toLowerCase();
+		return [route.uri, route.name ?? '', route.action ?? '', route.methods.join(' '), ...route.middleware]
+			.some(value => value.toLowerCase().includes(needle));
+	}
+
+	private groupBy(routes: RouteInfo[], keyOf: (route: RouteInfo) => string, icon: string): RouteGroupItem[] {
+		const groups = new Map<string, RouteInfo[]>();
+		for (const route of routes) {
+			const key = keyOf(route);
+			groups.set(key, [...(groups.get(key) ?? []), route]);
+		}
+		return [...groups.entries()]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([label, list]) => new RouteGroupItem(label, list, [], icon));
+	}
+
+	/**
+	 * Nest routes by their static URI segments (parameters are skipped), merging folders that hold a single subfolder.
+	 */
+	private groupByUri(routes: RouteInfo[]): vscode.TreeItem[] {
+		interface Folder { folders: Map<string, Folder>; routes: RouteInfo[] }
+		const root: Folder = { folders: new Map(), routes: [] };
+
+		for (const route of routes) {
+			let folder = root;
+			for (const segment of route.uri.split('/').filter(part => part && !part.startsWith('{'))) {
+				let next = folder.folders.get(segment);
+				if (!next) {
+					next = { folders: new Map(), routes: [] };
+					folder.folders.set(segment, next);
+				}
+				folder = next;
+			}
+			folder.routes.push(route);
+		}
+
+		const build = (name: string, folder: Folder): RouteGroupItem => {
+			if (folder.routes.length === 0 && folder.folders.size === 1) {
+				const [[childName, child]] = [...folder.folders.entries()];
+				return build(`${name}/${childName}`, child);
+			}
+			const children = [...folder.folders.entries()]
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([childName, child]) => build(childName, child));
+			return new RouteGroupItem(name, folder.routes, children);
+		};
+
+		const top = [...root.folders.entries()]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([name, folder]) => build(name, folder));
+		return [...root.routes.map(route => new RouteItem(route)), ...top];
+	}
+
+	/**
+	 * route:list reports middleware groups expanded to classes, so the group is recognised by its members.
+	 */
+	private middlewareGroupOf(route: RouteInfo): string {
+		const middleware = route.middleware;
+		const alias = middleware.find(name => name === 'web' || name === 'api');
+		if (alias) {
+			return alias;
+		}
+		if (middleware.some(name => /\\(StartSession|VerifyCsrfToken|ValidateCsrfToken)$/.test(name))) {
+			return 'web';
+		}
+		if (middleware.some(name => /EnsureFrontendRequestsAreStateful$|ThrottleRequests(WithRedis)?:api$/.test(name)) || /^\/?api(\/|$)/.test(route.uri)) {
+			return 'api';
+		}
+		return 'No middleware group';
+	}
+
+	private controllerOf(route: RouteInfo): string {
+		const action = this._actions.parseAction(route.action);
+		if (!action) {
+			return route.action === 'Closure' || !route.action ? 'Closures' : route.action;
+		}
+		return action.className.split('\\').pop() ?? action.className;
+	}
+}
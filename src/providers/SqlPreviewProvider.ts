@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { SqlPreview } from '../services/ArtisanService';
+
+/**
+ * Serves read-only SQL documents for `--pretend` previews.
+ * Documents live under the `laravel-hero-sql` scheme, so VS Code opens them without a save prompt.
+ */
+export class SqlPreviewProvider implements vscode.TextDocumentContentProvider {
+	public static readonly scheme = 'laravel-hero-sql';
+
+	private static readonly contents = new Map<string, string>();
+	private static readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+	private static counter = 0;
+
+	readonly onDidChange = SqlPreviewProvider._onDidChange.event;
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return SqlPreviewProvider.contents.get(uri.toString()) ?? '';
+	}
+
+	/**
+	 * Render previews as SQL and open them in a read-only editor beside the panel.
+	 */
+	static async show(title: string, command: string, previews: SqlPreview[]): Promise<void> {
+		const content = SqlPreviewProvider.render(command, previews);
+		const fileName = title.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'preview';
+		SqlPreviewProvider.counter++;
+		const uri = vscode.Uri.parse(`${SqlPreviewProvider.scheme}:/${fileName}.sql?${SqlPreviewProvider.counter}`);
+
+		SqlPreviewProvider.contents.set(uri.toString(), content);
+		SqlPreviewProvider._onDidChange.fire(uri);
+
+		let document = await vscode.workspace.openTextDocument(uri);
+		if (document.languageId !== 'sql') {
+			document = await vscode.languages.setTextDocumentLanguage(document, 'sql');
+		}
+		await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+	}
+
+	/**
+	 * Build the SQL text shown in the editor.
+	 */
+	static render(command: string, previews: SqlPreview[]): string {
+		const lines = [
+			`-- Laravel Hero: SQL preview for \`php artisan ${command}\``,
+			`-- Generated ${new Date().toLocaleString()}. Nothing has been executed.`,
+			''
+		];
+
+		if (previews.length === 0) {
+			lines.push('-- Nothing to run: no queries were reported.');
+			return lines.join('\n');
+		}
+
+		for (const preview of previews) {
+			lines.push(`-- ${preview.migration}`);
+			if (preview.queries.length === 0) {
+				lines.push('-- (no queries)');
+			}
+			for (const query of preview.queries) {
+				lines.push(query.endsWith(';') ? query : `${query};`);
+			}
+			lines.push('');
+		}
+
+		return lines.join('\n');
+	}
+}
@@ -1,14 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import { LoggerService } from './LoggerService';
 import { WorkspaceService } from './WorkspaceService';
+import { ProcessResult, ProcessRunner, ProcessRunOptions } from './ProcessRunner';
+import { ExecutionEnvironmentService } from './ExecutionEnvironmentService';
+import { MigrationPathService } from './MigrationPathService';
 
 export interface MigrationStatus {
 	ran: boolean;
 	name: string;
 	batch?: number;
+	/** File path relative to the workspace root (forward slashes). */
+	path?: string;
+	/** Source directory relative to the workspace root, used for grouping. */
+	directory?: string;
 }
 
 export interface RouteInfo {
@@ -33,6 +39,33 @@ export interface RouteInfo {
 	permissions: string[];
 }
 
+export interface SqlPreview {
+	migration: string;
+	queries: string[];
+}
+
+export interface SqlPreviewResult {
+	/** Artisan arguments the preview ran with, e.g. `['migrate', '--pretend', '--path=...']`. */
+	args: string[];
+	previews: SqlPreview[];
+}
+
+export interface MigrationRunOptions {
+	/** Cancels the run by killing the artisan process. */
+	token?: vscode.CancellationToken;
+	/** Receives stdout/stderr chunks while the command runs. */
+	onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+	/** Database connection to run against (`--database`). Defaults to the app's default connection. */
+	database?: string;
+}
+
+export type MigrationLifecycleCommand = 'fresh' | 'refresh' | 'reset' | 'install';
+
+export interface DatabaseConnections {
+	default: string;
+	connections: string[];
+}
+
 /**
  * Service to execute Laravel artisan commands and manage migrations.
  * Handles:
@@ -41,10 +74,19 @@ export interface RouteInfo {
  * - Forcing migrations
  * - Creating new migrations
  * 
- * Uses VS Code Terminal API for better UX and output capture.
+ * Migration runs can be mirrored live into a "Laravel Artisan" pseudoterminal
+ * (see the laravelHero.mirrorOutputToTerminal setting).
  */
 export class ArtisanService {
+	/** Timeout for quick availability probes such as `php -v`. */
+	private static readonly PROBE_TIMEOUT = 10_000;
+	/** Timeout for read-only artisan queries (status, route lists). */
+	private static readonly QUERY_TIMEOUT = 60_000;
+
 	private terminal: vscode.Terminal | undefined;
+	private terminalWriter: vscode.EventEmitter<string> | undefined;
+	private terminalOpen = false;
+	private terminalBacklog: string[] = [];
 	private appUrlCache: string | undefined;
 
 	constructor() {
@@ -52,68 +94,114 @@ export class ArtisanService {
 	}
 
 	/**
-	 * Get or create a dedicated terminal for artisan commands.
+	 * Get or create a read-only pseudoterminal that mirrors artisan output.
+	 * Writes made before VS Code opens the terminal are buffered.
 	 */
-	private getOrCreateTerminal(): vscode.Terminal {
-		if (!this.terminal || this.terminal.exitStatus) {
-			const root = WorkspaceService.getWorkspaceRoot();
-			this.terminal = vscode.window.createTerminal({
-				name: 'Laravel Artisan',
-				cwd: root,
-				shellPath: undefined
-			});
+	private getOrCreateTerminal(): vscode.EventEmitter<string> {
+		if (this.terminal && !this.terminal.exitStatus && this.terminalWriter) {
+			return this.terminalWriter;
 		}
-		return this.terminal;
+
+		const writer = new vscode.EventEmitter<string>();
+		this.terminalOpen = false;
+		this.terminalBacklog = [];
+
+		const pty: vscode.Pseudoterminal = {
+			onDidWrite: writer.event,
+			open: () => {
+				this.terminalOpen = true;
+				for (const text of this.terminalBacklog) {
+					writer.fire(text);
+				}
+				this.terminalBacklog = [];
+			},
+			close: () => {
+				this.terminal = undefined;
+				this.terminalWriter = undefined;
+				writer.dispose();
+			}
+		};
+
+		this.terminal = vscode.window.createTerminal({ name: 'Laravel Artisan', pty });
+		this.terminalWriter = writer;
+		return writer;
 	}
 
 	/**
-	 * Execute an artisan command via child_process and return stdout.
-	 * This is used for commands where we need the output directly (like migrate:status --json).
+	 * Write text to the artisan pseudoterminal, normalizing line endings.
 	 */
-	private async execSync(command: string, options: { silent?: boolean } = {}): Promise<string> {
-		const root = WorkspaceService.getWorkspaceRoot();
-		const phpCmd = WorkspaceService.getPhpCommand();
-
-		// Replace 'php' prefix with configured command if needed
-		let finalCommand = command;
-		if (command.startsWith('php ')) {
-			finalCommand = phpCmd + command.substring(3);
+	private writeToTerminal(text: string): void {
+		const writer = this.getOrCreateTerminal();
+		const normalized = text.replace(/\r?\n/g, '\r\n');
+		if (this.terminalOpen) {
+			writer.fire(normalized);
+		} else {
+			this.terminalBacklog.push(normalized);
 		}
+	}
 
-		LoggerService.debug(`Executing (sync): ${finalCommand}`, { cwd: root });
-
-		return new Promise((resolve, reject) => {
-			cp.exec(finalCommand, { cwd: root, maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
-				if (err) {
-					if (!options.silent) {
-						LoggerService.error(`Command failed: ${finalCommand}`, stderr);
-					}
+	/**
+	 * Run a state-changing artisan command, streaming output to the caller and,
+	 * when enabled, to the artisan pseudoterminal.
+	 */
+	private async runStreaming(baseArgs: string[], options: MigrationRunOptions): Promise<ProcessResult> {
+		const args = this.withDatabase(baseArgs, options.database);
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		const mirror = config.get<boolean>('mirrorOutputToTerminal', false);
+
+		if (mirror) {
+			this.writeToTerminal(`\n$ php artisan ${args.join(' ')}\n`);
+			this.terminal?.show(true);
+		}
 
-					// Provide helpful error messages
-					if (stdout.includes('vendor/autoload.php') || stderr.includes('vendor/autoload.php')) {
-						reject(new Error('Laravel dependencies missing. Please run `composer install` in your project root.'));
-					} else if (stderr.includes('PHP version')) {
-						reject(new Error('PHP Version Mismatch. Check "laravelHero.phpCommand" setting.'));
-					} else {
-						reject(new Error(stderr || err.message));
+		try {
+			const result = await ProcessRunner.artisan(args, {
+				token: options.token,
+				onOutput: (chunk, stream) => {
+					options.onOutput?.(chunk, stream);
+					if (mirror) {
+						this.writeToTerminal(chunk);
 					}
-				} else {
-					LoggerService.debug(`Command succeeded: ${finalCommand}`, { outputLength: stdout.length });
-					resolve(stdout.trim());
 				}
 			});
-		});
+			if (mirror) {
+				this.writeToTerminal(`\n[done in ${result.durationMs}ms]\n`);
+			}
+			return result;
+		} catch (err) {
+			if (mirror) {
+				this.writeToTerminal(`\n[failed] ${err instanceof Error ? err.message : String(err)}\n`);
+			}
+			throw err;
+		}
+	}
+
+	/**
+	 * Append `--database=<connection>` when a non-default connection is selected.
+	 */
+	private withDatabase(args: string[], database?: string): string[] {
+		return database ? [...args, `--database=${database}`] : args;
+	}
+
+	/**
+	 * Execute an artisan command through the shared ProcessRunner and return trimmed stdout.
+	 * This is used for commands where we need the output directly (like migrate:status --json).
+	 */
+	private async artisan(args: string[], options: ProcessRunOptions = {}): Promise<string> {
+		const result = await ProcessRunner.artisan(args, options);
+		return result.stdout.trim();
 	}
 
 	/**
 	 * Get all migrations with their status.
 	 * Merges file system data with artisan status.
+	 * @param database - Connection to read the migrations table from (defaults to the app default)
 	 */
-	public async getMigrations(): Promise<{ migrations: MigrationStatus[]; error?: string }> {
+	public async getMigrations(database?: string): Promise<{ migrations: MigrationStatus[]; error?: string }> {
 		// 1. Get files from disk (works offline)
 		let files: MigrationStatus[] = [];
 		try {
-			files = await this.getMigrationFiles();
+			files = await this.getMigrationFiles(true);
 			LoggerService.info(`Found ${files.length} migration files on disk`);
 		} catch (err) {
 			LoggerService.warn('Failed to scan migration files', err);
@@ -123,19 +211,21 @@ export class ArtisanService {
 		let statuses: MigrationStatus[] = [];
 		let errorMsg: string | undefined;
 
+		const pathArgs = this.getPathArguments(files);
+
 		try {
 			// Check if PHP is available
-			await this.execSync('php -v', { silent: true });
+			await ProcessRunner.php(['-v'], { silent: true, timeout: ArtisanService.PROBE_TIMEOUT });
 
 			// Try JSON output first (more reliable)
 			try {
-				const jsonOut = await this.execSync('php artisan migrate:status --json', { silent: true });
+				const jsonOut = await this.artisan(this.withDatabase(['migrate:status', '--json', ...pathArgs], database), { silent: true, timeout: ArtisanService.QUERY_TIMEOUT });
 				statuses = JSON.parse(jsonOut);
 				LoggerService.info(`Got migration status for ${statuses.length} items`);
 			} catch (jsonErr) {
 				// Fallback to text parsing
 				LoggerService.warn('JSON format failed, trying text format', jsonErr);
-				const textOut = await this.execSync('php artisan migrate:status', { silent: true });
+				const textOut = await this.artisan(this.withDatabase(['migrate:status', ...pathArgs], database), { silent: true, timeout: ArtisanService.QUERY_TIMEOUT });
 				statuses = this.parseMigrationTable(textOut);
 			}
 		} catch (cmdErr) {
@@ -162,15 +252,15 @@ export class ArtisanService {
 
 		try {
 			// Validate PHP is available
-			await this.execSync('php -v', { silent: true });
+			await ProcessRunner.php(['-v'], { silent: true, timeout: ArtisanService.PROBE_TIMEOUT });
 
 			try {
-				const jsonOut = await this.execSync('php artisan route:list --json', { silent: true });
+				const jsonOut = await this.artisan(['route:list', '--json'], { silent: true, timeout: ArtisanService.QUERY_TIMEOUT });
 				routes = this.parseRoutesFromJson(jsonOut, baseUrl);
 				LoggerService.info(`Got ${routes.length} routes from JSON output`);
 			} catch (jsonErr) {
 				LoggerService.warn('Route list JSON failed, falling back to text parsing', jsonErr);
-				const textOut = await this.execSync('php artisan route:list', { silent: true });
+				const textOut = await this.artisan(['route:list'], { silent: true, timeout: ArtisanService.QUERY_TIMEOUT });
 				routes = this.parseRouteTable(textOut, baseUrl);
 			}
 		} catch (err) {
@@ -182,23 +272,34 @@ export class ArtisanService {
 	}
 
 	/**
-	 * Get migration files from disk.
+	 * Get migration files from disk, across all known migration directories.
+	 * @param refresh - Re-resolve the paths registered in the application
+	 */
+	private async getMigrationFiles(refresh: boolean = false): Promise<MigrationStatus[]> {
+		const files = await MigrationPathService.getMigrationFiles(refresh);
+		return files.map(f => ({
+			name: f.name,
+			ran: false,
+			batch: undefined,
+			path: f.relativePath,
+			directory: f.directory
+		}));
+	}
+
+	/**
+	 * `--path` options covering every directory that holds migrations.
+	 * Empty when everything lives directly in database/migrations, so Laravel's defaults
+	 * (including paths registered by packages) apply unchanged.
 	 */
-	private async getMigrationFiles(): Promise<MigrationStatus[]> {
-		const migrationDir = WorkspaceService.getMigrationsDir();
-		if (!fs.existsSync(migrationDir)) {
+	private getPathArguments(files: MigrationStatus[]): string[] {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const defaultDir = path.relative(root, WorkspaceService.getMigrationsDir()).split(path.sep).join('/');
+		const directories = [...new Set(files.map(f => f.directory).filter((dir): dir is string => Boolean(dir)))];
+
+		if (directories.length === 0 || (directories.length === 1 && directories[0] === defaultDir)) {
 			return [];
 		}
-
-		const files = await fs.promises.readdir(migrationDir);
-		return files
-			.filter(f => f.endsWith('.php'))
-			.map(f => ({
-				name: path.basename(f, '.php'),
-				ran: false,
-				batch: undefined
-			}))
-			.sort((a, b) => a.name.localeCompare(b.name));
+		return directories.map(dir => `--path=${dir}`);
 	}
 
 	/**
@@ -268,7 +369,7 @@ export class ArtisanService {
 				middleware,
 				domain: route.domain ?? null,
 				fullUrl: this.buildFullUrl(baseUrl, route.domain, route.uri || ''),
-				permissions: this.extractPermissions(middleware)
+				permissions: ArtisanService.extractPermissions(middleware)
 			};
 		});
 	}
@@ -314,7 +415,7 @@ export class ArtisanService {
 				middleware: middlewareList,
 				domain: domain || null,
 				fullUrl: this.buildFullUrl(baseUrl, domain || null, uri),
-				permissions: this.extractPermissions(middlewareList)
+				permissions: ArtisanService.extractPermissions(middlewareList)
 			});
 		}
 
@@ -372,7 +473,7 @@ export class ArtisanService {
 	/**
 	 * Extract permission-like middleware entries.
 	 */
-	private extractPermissions(middleware: string[]): string[] {
+	public static extractPermissions(middleware: string[]): string[] {
 		const permissionMarkers = ['can:', 'permission:', 'abilities:', 'ability:', 'role:', 'scope:'];
 		return middleware.filter(m => permissionMarkers.some(marker => m.includes(marker)));
 	}
@@ -402,7 +503,7 @@ export class ArtisanService {
 	/**
 	 * Resolve the application's base URL from .env or fallback.
 	 */
-	private getBaseAppUrl(): string {
+	public getBaseAppUrl(): string {
 		if (this.appUrlCache) {
 			return this.appUrlCache;
 		}
@@ -438,141 +539,380 @@ export class ArtisanService {
 	/**
 	 * Run a specific migration.
 	 */
-	public async runMigration(migrationName: string, force: boolean = false): Promise<void> {
-		const root = WorkspaceService.getWorkspaceRoot();
-
-		// Find the actual file to get the correct path
-		const files = await this.getMigrationFiles();
-		const found = files.find(f => f.name === migrationName);
+	public async runMigration(migrationName: string, force: boolean = false, options: MigrationRunOptions = {}): Promise<ProcessResult> {
+		const migrationPath = await this.getMigrationPath(migrationName);
 
-		if (!found) {
-			throw new Error(`Migration file not found: ${migrationName}`);
+		const args = ['migrate', `--path=${migrationPath}`];
+		if (force) {
+			args.push('--force');
 		}
 
-		const relativePath = path.join('database', 'migrations', migrationName + '.php');
-		const forceFlag = force ? ' --force' : '';
-		const command = `php artisan migrate --path=${relativePath}${forceFlag}`;
-
 		LoggerService.info(`Running migration: ${migrationName}`, { force });
 
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd: root }, (err, stdout, stderr) => {
-				if (err) {
-					LoggerService.error(`Migration failed: ${migrationName}`, stderr);
-					reject(new Error(stderr || err.message));
-				} else {
-					LoggerService.info(`Migration succeeded: ${migrationName}`);
-					resolve();
-				}
-			});
-		});
+		const result = await this.runStreaming(args, options);
+		LoggerService.info(`Migration succeeded: ${migrationName}`, { durationMs: result.durationMs });
+		return result;
 	}
 
 	/**
 	 * Run all pending migrations.
 	 */
-	public async runAllMigrations(force: boolean = false): Promise<void> {
-		const forceFlag = force ? ' --force' : '';
-		const command = `php artisan migrate${forceFlag}`;
+	public async runAllMigrations(force: boolean = false, options: MigrationRunOptions = {}): Promise<ProcessResult> {
+		const args = ['migrate', ...this.getPathArguments(await this.getMigrationFiles())];
+		if (force) {
+			args.push('--force');
+		}
 
 		LoggerService.info('Running all pending migrations', { force });
 
-		const root = WorkspaceService.getWorkspaceRoot();
-
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd: root }, (err, stdout, stderr) => {
-				if (err) {
-					LoggerService.error('Migrate all failed', stderr);
-					reject(new Error(stderr || err.message));
-				} else {
-					LoggerService.info('All migrations completed');
-					resolve();
-				}
-			});
-		});
+		const result = await this.runStreaming(args, options);
+		LoggerService.info('All migrations completed', { durationMs: result.durationMs });
+		return result;
 	}
 
 	/**
 	 * Create a new migration file.
+	 * @param table - `create` or `table` to generate from the create/update stub (`--create` / `--table`)
 	 */
-	public async createMigration(name: string): Promise<string> {
-		const root = WorkspaceService.getWorkspaceRoot();
-		const command = `php artisan make:migration ${name}`;
-
-		LoggerService.info(`Creating migration: ${name}`);
-
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd: root }, (err, stdout, stderr) => {
-				if (err) {
-					LoggerService.error('Create migration failed', stderr);
-					reject(new Error(stderr || err.message));
-				} else {
-					LoggerService.info(`Migration created: ${name}`);
-					resolve(stdout.trim());
-				}
-			});
-		});
+	public async createMigration(name: string, table: { create?: string; table?: string } = {}): Promise<string> {
+		LoggerService.info(`Creating migration: ${name}`, table);
+
+		const args = ['make:migration', name];
+		if (table.create) {
+			args.push(`--create=${table.create}`);
+		} else if (table.table) {
+			args.push(`--table=${table.table}`);
+		}
+
+		const output = await this.artisan(args, { timeout: ArtisanService.QUERY_TIMEOUT });
+		LoggerService.info(`Migration created: ${name}`);
+		return output;
 	}
 
 	/**
-	 * Rollback a specific migration.
+	 * Run `db:seed`, optionally limited to one seeder class.
+	 * `--force` is passed because callers confirm first and Laravel's production prompt needs a TTY.
+	 * @param className - Seeder class (short or fully qualified); omit to run DatabaseSeeder
 	 */
-	public async rollbackMigration(migrationName: string): Promise<void> {
-		const root = WorkspaceService.getWorkspaceRoot();
+	public async runSeeder(className?: string, options: MigrationRunOptions = {}): Promise<ProcessResult> {
+		const args = ['db:seed', '--force'];
+		if (className) {
+			args.push(`--class=${className}`);
+		}
 
-		// Find the actual file to get the correct path
-		const files = await this.getMigrationFiles();
-		const found = files.find(f => f.name === migrationName);
+		LoggerService.info(`Seeding database${className ? ` with ${className}` : ''}`, { database: options.database });
 
-		if (!found) {
-			throw new Error(`Migration file not found: ${migrationName}`);
+		const result = await this.runStreaming(args, options);
+		LoggerService.info('Seeding completed', { durationMs: result.durationMs });
+		return result;
+	}
+
+	/**
+	 * Create a new seeder class.
+	 */
+	public async createSeeder(name: string): Promise<string> {
+		LoggerService.info(`Creating seeder: ${name}`);
+
+		const output = await this.artisan(['make:seeder', name], { timeout: ArtisanService.QUERY_TIMEOUT });
+		LoggerService.info(`Seeder created: ${name}`);
+		return output;
+	}
+
+	/**
+	 * Create a new model factory.
+	 * @param model - Model the factory builds (`--model`)
+	 */
+	public async createFactory(name: string, model?: string): Promise<string> {
+		LoggerService.info(`Creating factory: ${name}`, { model });
+
+		const args = ['make:factory', name];
+		if (model) {
+			args.push(`--model=${model}`);
 		}
 
-		const relativePath = path.join('database', 'migrations', migrationName + '.php');
-		const command = `php artisan migrate:rollback --path=${relativePath}`;
+		const output = await this.artisan(args, { timeout: ArtisanService.QUERY_TIMEOUT });
+		LoggerService.info(`Factory created: ${name}`);
+		return output;
+	}
+
+	/**
+	 * Resolve the host path of a file reported by a `make:*` command.
+	 * Handles `[path/to/file.php]` (Laravel 9+), container absolute paths and the
+	 * older `Created Migration: name` format by falling back to a directory scan.
+	 */
+	public resolveGeneratedFile(output: string, directory: string, suffix: string): string | undefined {
+		const bracketMatch = output.match(/\[([^\]]+\.php)\]/);
+		if (bracketMatch) {
+			const hostPath = ExecutionEnvironmentService.toHostPath(bracketMatch[1]);
+			if (fs.existsSync(hostPath)) {
+				return hostPath;
+			}
+		}
+
+		if (!fs.existsSync(directory)) {
+			return undefined;
+		}
+
+		const candidates = fs.readdirSync(directory)
+			.filter(f => f.endsWith(`${suffix}.php`))
+			.sort();
+		const latest = candidates[candidates.length - 1];
+		return latest ? path.join(directory, latest) : undefined;
+	}
+
+	/**
+	 * Rollback a specific migration.
+	 */
+	public async rollbackMigration(migrationName: string, options: MigrationRunOptions = {}): Promise<ProcessResult> {
+		const migrationPath = await this.getMigrationPath(migrationName);
 
 		LoggerService.info(`Rolling back migration: ${migrationName}`);
 
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd: root }, (err, stdout, stderr) => {
-				if (err) {
-					LoggerService.error(`Migration rollback failed: ${migrationName}`, stderr);
-					reject(new Error(stderr || err.message));
-				} else {
-					LoggerService.info(`Migration rolled back: ${migrationName}`);
-					resolve();
-				}
-			});
-		});
+		const result = await this.runStreaming(['migrate:rollback', `--path=${migrationPath}`], options);
+		LoggerService.info(`Migration rolled back: ${migrationName}`, { durationMs: result.durationMs });
+		return result;
 	}
 
 	/**
 	 * Rollback all migrations or a specific number of steps/batches.
 	 * @param steps - Number of steps/batches to rollback, or null to rollback all
 	 */
-	public async rollbackAllMigrations(steps: number | null = null): Promise<void> {
+	public async rollbackAllMigrations(steps: number | null = null, options: MigrationRunOptions = {}): Promise<ProcessResult> {
 		const stepsLabel = steps === null ? 'all' : `${steps} step(s)`;
-		let command = 'php artisan migrate:rollback';
+		const args = ['migrate:rollback', ...this.getPathArguments(await this.getMigrationFiles())];
 
 		if (steps !== null && steps > 0) {
-			command += ` --step=${steps}`;
+			args.push(`--step=${steps}`);
 		}
 
 		LoggerService.info(`Rolling back ${stepsLabel} migrations`);
 
-		const root = WorkspaceService.getWorkspaceRoot();
+		const result = await this.runStreaming(args, options);
+		LoggerService.info(`Rolled back ${stepsLabel} migrations`, { durationMs: result.durationMs });
+		return result;
+	}
+
+	/**
+	 * Batch of every row in the migrations table, keyed by migration name. Unlike `migrate:status`, this includes
+	 * rows whose migration file is gone, which `migrate:rollback --step` counts too.
+	 * @param database - Connection whose migrations table to read; the default connection when omitted
+	 */
+	public async getMigrationBatches(database?: string): Promise<Record<string, number>> {
+		if (database && !/^[\w.-]+$/.test(database)) {
+			throw new Error(`Invalid connection name: ${database}`);
+		}
+
+		const script = `
+			$repository = app('migration.repository');
+			$repository->setSource(${database ? `'${database}'` : 'null'});
+			echo json_encode((object) ($repository->repositoryExists() ? $repository->getMigrationBatches() : []));
+		`;
+		const result = await ProcessRunner.laravelScript(script, { silent: true, timeout: ArtisanService.QUERY_TIMEOUT });
+		const output = result.stdout;
+		return JSON.parse(output.slice(output.indexOf('{'), output.lastIndexOf('}') + 1)) as Record<string, number>;
+	}
+
+	/**
+	 * Run one of the whole-database lifecycle commands:
+	 * `migrate:fresh`, `migrate:refresh`, `migrate:reset` or `migrate:install`.
+	 * Callers confirm first; `--force` is passed so Laravel does not prompt again in production,
+	 * which would abort because the process has no TTY.
+	 * @param seed - Run seeders afterwards (fresh and refresh only)
+	 */
+	public async runLifecycleCommand(
+		command: MigrationLifecycleCommand,
+		options: MigrationRunOptions & { seed?: boolean } = {}
+	): Promise<ProcessResult> {
+		const args = [`migrate:${command}`];
+		if (command !== 'install') {
+			args.push('--force', ...this.getPathArguments(await this.getMigrationFiles()));
+		}
+		if (options.seed && (command === 'fresh' || command === 'refresh')) {
+			args.push('--seed');
+		}
+
+		LoggerService.info(`Running migrate:${command}`, { seed: options.seed, database: options.database });
+
+		const result = await this.runStreaming(args, options);
+		LoggerService.info(`migrate:${command} completed`, { durationMs: result.durationMs });
+		return result;
+	}
+
+	/**
+	 * Run `schema:dump`, optionally with `--prune` to delete the migrations it now covers.
+	 */
+	public async dumpSchema(options: MigrationRunOptions & { prune?: boolean } = {}): Promise<ProcessResult> {
+		const args = ['schema:dump'];
+		if (options.prune) {
+			args.push('--prune');
+		}
+
+		LoggerService.info('Running schema:dump', { prune: options.prune, database: options.database });
+
+		const result = await this.runStreaming(args, options);
+		LoggerService.info('schema:dump completed', { durationMs: result.durationMs });
+		return result;
+	}
+
+	/**
+	 * List configured database connections by booting the app.
+	 * Falls back to scanning config/database.php and DB_CONNECTION when the app cannot boot.
+	 */
+	public async getDatabaseConnections(): Promise<DatabaseConnections> {
+		const envDefault = WorkspaceService.readEnv().DB_CONNECTION;
+
+		try {
+			const result = await ProcessRunner.laravelScript(
+				'echo json_encode(["default" => config("database.default"), "connections" => array_keys(config("database.connections", []))]);',
+				{ silent: true, timeout: ArtisanService.QUERY_TIMEOUT }
+			);
+			const parsed = JSON.parse(result.stdout.trim());
+			if (Array.isArray(parsed.connections)) {
+				return { default: String(parsed.default || envDefault || ''), connections: parsed.connections.map(String) };
+			}
+		} catch (err) {
+			LoggerService.warn('Could not list database connections from config, scanning config/database.php', err);
+		}
+
+		const connections = this.scanDatabaseConfig();
+		const fallbackDefault = envDefault || connections[0] || '';
+		if (fallbackDefault && !connections.includes(fallbackDefault)) {
+			connections.unshift(fallbackDefault);
+		}
+		return { default: fallbackDefault, connections };
+	}
+
+	/**
+	 * Read connection names from the 'connections' array in config/database.php.
+	 */
+	private scanDatabaseConfig(): string[] {
+		try {
+			const root = WorkspaceService.getWorkspaceRoot();
+			const configPath = path.join(root, 'config', 'database.php');
+			if (!fs.existsSync(configPath)) {
+				return [];
+			}
+
+			const content = fs.readFileSync(configPath, 'utf8');
+			const start = content.search(/['"]connections['"]\s*=>\s*\[/);
+			if (start < 0) {
+				return [];
+			}
 
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd: root }, (err, stdout, stderr) => {
-				if (err) {
-					LoggerService.error(`Rollback all failed`, stderr);
-					reject(new Error(stderr || err.message));
-				} else {
-					LoggerService.info(`Rolled back ${stepsLabel} migrations`);
-					resolve();
+			// Walk the array and collect keys that sit exactly one bracket level deep.
+			const names: string[] = [];
+			let depth = 0;
+			const body = content.slice(content.indexOf('[', start));
+			const keyRegex = /^['"]([\w.-]+)['"]\s*=>\s*\[/;
+
+			for (let i = 0; i < body.length; i++) {
+				const char = body[i];
+				if (char === '[') {
+					depth++;
+				} else if (char === ']') {
+					depth--;
+					if (depth === 0) {
+						break;
+					}
+				} else if (depth === 1 && (char === '\'' || char === '"')) {
+					const match = body.slice(i).match(keyRegex);
+					if (match) {
+						names.push(match[1]);
+						i += match[0].length - 2;
+					}
 				}
-			});
-		});
+			}
+
+			return names;
+		} catch (err) {
+			LoggerService.warn('Failed to scan config/database.php', err);
+			return [];
+		}
+	}
+
+	/**
+	 * Preview the SQL a migrate or rollback would execute, using `--pretend`.
+	 * @param migration - Limit the preview to one migration file (uses --path)
+	 * @param rollback - Preview `migrate:rollback` instead of `migrate`
+	 * @param steps - Number of batches to preview for a rollback
+	 * @returns the queries per migration and the artisan arguments that produced them
+	 */
+	public async pretendMigrations(
+		options: { migration?: string; rollback?: boolean; steps?: number | null; database?: string } = {}
+	): Promise<SqlPreviewResult> {
+		const args = [options.rollback ? 'migrate:rollback' : 'migrate', '--pretend'];
+
+		if (options.migration) {
+			args.push(`--path=${await this.getMigrationPath(options.migration)}`);
+		} else {
+			args.push(...this.getPathArguments(await this.getMigrationFiles()));
+		}
+		if (options.rollback && options.steps) {
+			args.push(`--step=${options.steps}`);
+		}
+
+		LoggerService.info('Previewing migration SQL', options);
+
+		const finalArgs = this.withDatabase(args, options.database);
+		const output = await this.artisan(finalArgs, { timeout: ArtisanService.QUERY_TIMEOUT });
+		return { args: finalArgs, previews: this.parsePretendOutput(output) };
+	}
+
+	/**
+	 * Parse `--pretend` output into queries grouped by migration.
+	 * Handles the Laravel 9+ format (migration header followed by `⇂ query` lines)
+	 * and the older `ClassName: query` format.
+	 */
+	private parsePretendOutput(output: string): SqlPreview[] {
+		const previews: SqlPreview[] = [];
+		let current: SqlPreview | undefined;
+
+		for (const rawLine of output.split(/\r?\n/)) {
+			const line = rawLine.trim();
+			if (!line) {
+				continue;
+			}
+
+			const headerMatch = line.match(/^(\d{4}_\d{2}_\d{2}_\d{6}_\w+)(?:\s*\.+.*)?$/);
+			if (headerMatch) {
+				current = { migration: headerMatch[1], queries: [] };
+				previews.push(current);
+				continue;
+			}
+
+			const queryMatch = line.match(/^⇂\s*(.+)$/);
+			if (queryMatch) {
+				if (!current) {
+					current = { migration: 'unknown', queries: [] };
+					previews.push(current);
+				}
+				current.queries.push(queryMatch[1].trim());
+				continue;
+			}
+
+			const legacyMatch = line.match(/^([A-Z]\w*):\s+(.+)$/);
+			if (legacyMatch && legacyMatch[1] !== 'INFO' && legacyMatch[1] !== 'WARN') {
+				if (!current || current.migration !== legacyMatch[1]) {
+					current = { migration: legacyMatch[1], queries: [] };
+					previews.push(current);
+				}
+				current.queries.push(legacyMatch[2].trim());
+			}
+		}
+
+		return previews;
+	}
+
+	/**
+	 * Relative --path argument for a migration file.
+	 * Throws if the migration file does not exist in any known migration directory.
+	 */
+	public async getMigrationPath(migrationName: string): Promise<string> {
+		const file = await MigrationPathService.findMigration(migrationName);
+		if (!file) {
+			throw new Error(`Migration file not found: ${migrationName}`);
+		}
+		return file.relativePath;
 	}
 
 	/**
@@ -583,5 +923,7 @@ export class ArtisanService {
 			this.terminal.dispose();
 			this.terminal = undefined;
 		}
+		this.terminalWriter?.dispose();
+		this.terminalWriter = undefined;
 	}
 }
@@ -1,8 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as cp from 'child_process';
 import { LoggerService } from './LoggerService';
 import { WorkspaceService } from './WorkspaceService';
+import { ProcessRunner } from './ProcessRunner';
 
 export interface PackageInfo {
 	name: string;
@@ -33,6 +33,9 @@ interface PackageResult {
  * ComposerService handles reading installed packages and detecting upgrades.
  */
 export class ComposerService {
+	/** `composer outdated` queries Packagist and can be slow on large projects. */
+	private static readonly OUTDATED_TIMEOUT = 120_000;
+
 	/**
 	 * Load package details from composer.lock and merge upgrade info.
 	 */
@@ -108,12 +111,12 @@ export class ComposerService {
 	 * Errors are captured as warnings so the rest of the view can still render.
 	 */
 	private async getOutdatedPackages(warnings: string[]): Promise<Map<string, OutdatedPackageInfo>> {
-		const root = WorkspaceService.getWorkspaceRoot();
-		const command = 'composer outdated --direct --format=json';
-
 		try {
-			const output = await this.exec(command, root);
-			return this.parseOutdatedJson(output);
+			const result = await ProcessRunner.composer(['outdated', '--direct', '--format=json'], {
+				silent: true,
+				timeout: ComposerService.OUTDATED_TIMEOUT
+			});
+			return this.parseOutdatedJson(result.stdout.trim());
 		} catch (err) {
 			const msg = err instanceof Error ? err.message : String(err);
 			LoggerService.warn('composer outdated failed', err);
@@ -122,22 +125,6 @@ export class ComposerService {
 		}
 	}
 
-	/**
-	 * Run a shell command and return stdout.
-	 */
-	private async exec(command: string, cwd: string): Promise<string> {
-		return new Promise((resolve, reject) => {
-			cp.exec(command, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
-				if (error) {
-					reject(new Error(stderr || error.message));
-					return;
-				}
-
-				resolve(stdout.trim());
-			});
-		});
-	}
-
 	/**
 	 * Parse JSON from composer outdated output.
 	 */
@@ -0,0 +1,483 @@
+import { LoggerService } from './LoggerService';
+import { ProcessResult, ProcessRunner, ProcessRunOptions } from './ProcessRunner';
+import { MigrationSchemaResult, SchemaColumn, SchemaSource, SchemaTable } from './MigrationSchemaService';
+
+export interface LiveColumn {
+	name: string;
+	/** Base type reported by the driver, e.g. varchar, bigint. */
+	typeName: string;
+	/** Full type, e.g. varchar(255). */
+	type: string;
+	nullable: boolean;
+	default?: string | null;
+	autoIncrement: boolean;
+	comment?: string | null;
+}
+
+export interface LiveIndex {
+	name: string;
+	columns: string[];
+	unique: boolean;
+	primary: boolean;
+}
+
+export interface LiveForeignKey {
+	name?: string | null;
+	columns: string[];
+	foreignTable: string;
+	foreignColumns: string[];
+	onUpdate?: string | null;
+	onDelete?: string | null;
+}
+
+export interface LiveTable {
+	name: string;
+	schema?: string | null;
+	rows?: number | null;
+	/** Size in bytes, when the driver reports it. */
+	size?: number | null;
+	columns: LiveColumn[];
+	indexes: LiveIndex[];
+	foreignKeys: LiveForeignKey[];
+}
+
+export interface LiveSchema {
+	connection: string;
+	driver: string;
+	database?: string;
+	tables: LiveTable[];
+}
+
+export type DriftKind =
+	| 'missing-table'
+	| 'extra-table'
+	| 'missing-column'
+	| 'extra-column'
+	| 'type-mismatch'
+	| 'nullability-mismatch'
+	| 'missing-index'
+	| 'extra-index'
+	| 'missing-foreign-key'
+	| 'extra-foreign-key';
+
+export interface DriftItem {
+	table: string;
+	kind: DriftKind;
+	message: string;
+	/** Migration line behind the expected side, when there is one. */
+	source?: SchemaSource;
+}
+
+/**
+ * Reads the live database structure through the application's connection
+ * and compares it with the schema computed from migration files.
+ */
+export class DatabaseInspectorService {
+	/** Counting rows touches every table, so allow more time than status probes. */
+	private static readonly INSPECT_TIMEOUT = 120_000;
+
+	/** Tables Laravel manages itself; never reported as drift. */
+	private static readonly IGNORED_TABLES = new Set(['migrations', 'sqlite_sequence']);
+
+	/**
+	 * Blueprint types grouped into families that survive the trip through any driver.
+	 */
+	private static readonly BLUEPRINT_FAMILIES: Record<string, string> = {
+		integer: 'integer', tinyInteger: 'integer', smallInteger: 'integer', mediumInteger: 'integer', bigInteger: 'integer', year: 'integer',
+		boolean: 'boolean',
+		string: 'string', char: 'string', uuid: 'string', ulid: 'string', ipAddress: 'string', macAddress: 'string', enum: 'string', set: 'string',
+		tinyText: 'text', text: 'text', mediumText: 'text', longText: 'text',
+		json: 'json', jsonb: 'json',
+		date: 'date',
+		dateTime: 'datetime', dateTimeTz: 'datetime', timestamp: 'datetime', timestampTz: 'datetime',
+		time: 'time', timeTz: 'time',
+		decimal: 'numeric', float: 'numeric', double: 'numeric',
+		binary: 'binary'
+	};
+
+	/** Families that drivers legitimately store as each other (e.g. JSON as TEXT on SQLite). */
+	private static readonly COMPATIBLE_FAMILIES = [
+		['json', 'text'],
+		['boolean', 'integer'],
+		['string', 'text'],
+		['datetime', 'string'],
+		['date', 'string'],
+		['time', 'string']
+	];
+
+	/**
+	 * @param runScript - Runs a PHP snippet inside the booted application; defaults to ProcessRunner.laravelScript
+	 */
+	constructor(
+		private readonly runScript: (body: string, options: ProcessRunOptions) => Promise<ProcessResult> = ProcessRunner.laravelScript
+	) {}
+
+	/**
+	 * Read tables, row counts, sizes, columns, indexes and foreign keys.
+	 * Uses the Schema builder (Laravel 11+) and falls back to `db:show` / `db:table --json`.
+	 * @param connection - Connection name; defaults to the app's default connection
+	 */
+	public async getLiveSchema(connection?: string): Promise<LiveSchema> {
+		if (connection && !/^[\w.-]+$/.test(connection)) {
+			throw new Error(`Invalid connection name: ${connection}`);
+		}
+
+		try {
+			return await this.inspectWithSchemaBuilder(connection);
+		} catch (err) {
+			LoggerService.warn('Schema builder inspection failed, falling back to db:show / db:table', err instanceof Error ? err.message : err);
+			return this.inspectWithArtisan(connection);
+		}
+	}
+
+	/**
+	 * Compare the live database with the schema the migration files produce.
+	 */
+	public compare(live: LiveSchema, expected: MigrationSchemaResult): DriftItem[] {
+		const drift: DriftItem[] = [];
+		const liveTables = new Map(live.tables.map(t => [t.name, t]));
+		const expectedTables = new Map(expected.tables.map(t => [t.name, t]));
+
+		for (const table of expected.tables) {
+			const liveTable = liveTables.get(table.name);
+			if (!liveTable) {
+				drift.push({
+					table: table.name,
+					kind: 'missing-table',
+					message: `Table '${table.name}' is defined in migrations but does not exist in the database`,
+					source: table.createdBy
+				});
+				continue;
+			}
+			this.compareTable(table, liveTable, drift);
+		}
+
+		for (const table of live.tables) {
+			if (!expectedTables.has(table.name) && !DatabaseInspectorService.IGNORED_TABLES.has(table.name)) {
+				drift.push({
+					table: table.name,
+					kind: 'extra-table',
+					message: `Table '${table.name}' exists in the database but no migration creates it`
+				});
+			}
+		}
+
+		return drift;
+	}
+
+	private compareTable(expected: SchemaTable, live: LiveTable, drift: DriftItem[]): void {
+		const liveColumns = new Map(live.columns.map(c => [c.name, c]));
+		const expectedNames = new Set(expected.columns.map(c => c.name));
+
+		for (const column of expected.columns) {
+			const liveColumn = liveColumns.get(column.name);
+			const source = column.changedBy[column.changedBy.length - 1] ?? column.source;
+
+			if (!liveColumn) {
+				drift.push({ table: expected.name, kind: 'missing-column', message: `Column '${column.name}' is missing`, source });
+				continue;
+			}
+
+			if (!this.typesCompatible(column, liveColumn)) {
+				drift.push({
+					table: expected.name,
+					kind: 'type-mismatch',
+					message: `Column '${column.name}' is ${liveColumn.type} in the database, migrations define ${column.type}${column.params ? `(${column.params})` : ''}`,
+					source
+				});
+			}
+
+			// Primary keys are implicitly NOT NULL; some drivers report them either way
+			if (column.nullable !== liveColumn.nullable && !column.autoIncrement) {
+				drift.push({
+					table: expected.name,
+					kind: 'nullability-mismatch',
+					message: `Column '${column.name}' is ${liveColumn.nullable ? 'nullable' : 'NOT NULL'} in the database, migrations define it as ${column.nullable ? 'nullable' : 'NOT NULL'}`,
+					source
+				});
+			}
+		}
+
+		for (const column of live.columns) {
+			if (!expectedNames.has(column.name)) {
+				drift.push({ table: expected.name, kind: 'extra-column', message: `Column '${column.name}' (${column.type}) is not defined in migrations` });
+			}
+		}
+
+		this.compareIndexes(expected, live, drift);
+		this.compareForeignKeys(expected, live, drift);
+	}
+
+	/**
+	 * Compare non-primary indexes by uniqueness and column list; names differ too often between drivers.
+	 */
+	private compareIndexes(expected: SchemaTable, live: LiveTable, drift: DriftItem[]): void {
+		const key = (unique: boolean, columns: string[]) => `${unique ? 'unique' : 'index'}:${columns.join(',')}`;
+		const liveKeys = new Set(live.indexes.filter(i => !i.primary).map(i => key(i.unique, i.columns)));
+		const expectedIndexes = expected.indexes.filter(i => i.type === 'unique' || i.type === 'index');
+		const expectedKeys = new Set(expectedIndexes.map(i => key(i.type === 'unique', i.columns)));
+
+		for (const index of expectedIndexes) {
+			if (!liveKeys.has(key(index.type === 'unique', index.columns))) {
+				drift.push({
+					table: expected.name,
+					kind: 'missing-index',
+					message: `${index.type === 'unique' ? 'Unique index' : 'Index'} on (${index.columns.join(', ')}) is missing`,
+					source: index.source
+				});
+			}
+		}
+
+		for (const index of live.indexes) {
+			if (!index.primary && !expectedKeys.has(key(index.unique, index.columns))) {
+				drift.push({
+					table: expected.name,
+					kind: 'extra-index',
+					message: `${index.unique ? 'Unique index' : 'Index'} '${index.name}' on (${index.columns.join(', ')}) is not defined in migrations`
+				});
+			}
+		}
+	}
+
+	/**
+	 * Compare foreign keys by local columns and referenced table.
+	 */
+	private compareForeignKeys(expected: SchemaTable, live: LiveTable, drift: DriftItem[]): void {
+		const key = (columns: string[], table: string) => `${columns.join(',')}->${table}`;
+		const liveKeys = new Set(live.foreignKeys.map(fk => key(fk.columns, fk.foreignTable)));
+		const expectedKeys = new Set(expected.foreignKeys.map(fk => key(fk.columns, fk.on)));
+
+		for (const fk of expected.foreignKeys) {
+			if (!liveKeys.has(key(fk.columns, fk.on))) {
+				drift.push({
+					table: expected.name,
+					kind: 'missing-foreign-key',
+					message: `Foreign key (${fk.columns.join(', ')}) → ${fk.on} is missing`,
+					source: fk.source
+				});
+			}
+		}
+
+		for (const fk of live.foreignKeys) {
+			if (!expectedKeys.has(key(fk.columns, fk.foreignTable))) {
+				drift.push({
+					table: expected.name,
+					kind: 'extra-foreign-key',
+					message: `Foreign key (${fk.columns.join(', ')}) → ${fk.foreignTable} is not defined in migrations`
+				});
+			}
+		}
+	}
+
+	private typesCompatible(column: SchemaColumn, live: LiveColumn): boolean {
+		const expectedFamily = DatabaseInspectorService.BLUEPRINT_FAMILIES[column.type];
+		const liveFamily = this.liveFamily(live);
+		if (!expectedFamily || !liveFamily || expectedFamily === liveFamily) {
+			return true;
+		}
+		return DatabaseInspectorService.COMPATIBLE_FAMILIES.some(pair =>
+			pair.includes(expectedFamily) && pair.includes(liveFamily)
+		);
+	}
+
+	/**
+	 * Map a driver type to the same families used for Blueprint types.
+	 */
+	private liveFamily(column: LiveColumn): string | undefined {
+		const typeName = column.typeName.toLowerCase();
+		const fullType = column.type.toLowerCase();
+
+		if (fullType.startsWith('tinyint(1)') || typeName === 'bool' || typeName === 'boolean') {
+			return 'boolean';
+		}
+		if (/^(tiny|small|medium|big)?int(eger)?\d*$|^(big|small)?serial\d*$|^year$/.test(typeName)) {
+			return 'integer';
+		}
+		if (/^(var)?char|^character|^bpchar$|^n?varchar|^uuid$|^enum$|^set$|^inet$|^macaddr/.test(typeName)) {
+			return 'string';
+		}
+		if (/text$|^clob$/.test(typeName)) {
+			return 'text';
+		}
+		if (/^jsonb?$/.test(typeName)) {
+			return 'json';
+		}
+		if (typeName === 'date') {
+			return 'date';
+		}
+		if (/^(datetime|timestamp)/.test(typeName)) {
+			return 'datetime';
+		}
+		if (/^time/.test(typeName)) {
+			return 'time';
+		}
+		if (/^(decimal|numeric|float|double|real)/.test(typeName)) {
+			return 'numeric';
+		}
+		if (/blob$|^bytea$|binary$/.test(typeName)) {
+			return 'binary';
+		}
+		return undefined;
+	}
+
+	/**
+	 * Inspect via Schema::getTables()/getColumns()/getIndexes()/getForeignKeys() in one app boot.
+	 */
+	private async inspectWithSchemaBuilder(connection?: string): Promise<LiveSchema> {
+		const connectionArg = connection ? `'${connection}'` : 'null';
+		const script = `
+			$db = $app->make('db')->connection(${connectionArg});
+			$schema = $db->getSchemaBuilder();
+			foreach (['getTables', 'getColumns', 'getIndexes', 'getForeignKeys'] as $method) {
+				if (!method_exists($schema, $method)) {
+					fwrite(STDERR, "Schema builder does not support $method");
+					exit(2);
+				}
+			}
+			$tables = [];
+			foreach ($schema->getTables() as $table) {
+				$name = $table['name'];
+				try {
+					$rows = $db->table($name)->count();
+				} catch (Throwable $e) {
+					$rows = null;
+				}
+				$tables[] = [
+					'name' => $name,
+					'schema' => $table['schema'] ?? null,
+					'size' => $table['size'] ?? null,
+					'rows' => $rows,
+					'columns' => $schema->getColumns($name),
+					'indexes' => $schema->getIndexes($name),
+					'foreignKeys' => $schema->getForeignKeys($name),
+				];
+			}
+			echo json_encode([
+				'connection' => $db->getName(),
+				'driver' => $db->getDriverName(),
+				'database' => $db->getDatabaseName(),
+				'tables' => $tables,
+			]);
+		`;
+
+		const result = await this.runScript(script, { silent: true, timeout: DatabaseInspectorService.INSPECT_TIMEOUT });
+		const parsed = this.parseJson(result.stdout);
+
+		return {
+			connection: String(parsed.connection ?? connection ?? ''),
+			driver: String(parsed.driver ?? ''),
+			database: parsed.database ? String(parsed.database) : undefined,
+			tables: (parsed.tables || []).map((table: any): LiveTable => ({
+				name: String(table.name),
+				schema: table.schema,
+				rows: typeof table.rows === 'number' ? table.rows : null,
+				size: typeof table.size === 'number' ? table.size : null,
+				columns: (table.columns || []).map((column: any): LiveColumn => ({
+					name: String(column.name),
+					typeName: String(column.type_name ?? column.type ?? ''),
+					type: String(column.type ?? column.type_name ?? ''),
+					nullable: Boolean(column.nullable),
+					default: column.default ?? null,
+					autoIncrement: Boolean(column.auto_increment),
+					comment: column.comment ?? null
+				})),
+				indexes: (table.indexes || []).map((index: any): LiveIndex => ({
+					name: String(index.name),
+					columns: (index.columns || []).map(String),
+					unique: Boolean(index.unique),
+					primary: Boolean(index.primary)
+				})),
+				foreignKeys: (table.foreignKeys || []).map((fk: any): LiveForeignKey => ({
+					name: fk.name ?? null,
+					columns: (fk.columns || []).map(String),
+					foreignTable: String(fk.foreign_table ?? ''),
+					foreignColumns: (fk.foreign_columns || []).map(String),
+					onUpdate: fk.on_update ?? null,
+					onDelete: fk.on_delete ?? null
+				}))
+			}))
+		};
+	}
+
+	/**
+	 * Older Laravel versions: `db:show --json --counts` for the table list, then `db:table <name> --json` per table.
+	 */
+	private async inspectWithArtisan(connection?: string): Promise<LiveSchema> {
+		const databaseArgs = connection ? [`--database=${connection}`] : [];
+		const show = await ProcessRunner.artisan(['db:show', '--json', '--counts', ...databaseArgs], {
+			silent: true,
+			timeout: DatabaseInspectorService.INSPECT_TIMEOUT
+		});
+		const summary = this.parseJson(show.stdout);
+		const tables: LiveTable[] = [];
+
+		for (const entry of summary.tables || []) {
+			const name = String(entry.table ?? entry.name);
+			let detail: any = {};
+			try {
+				const result = await ProcessRunner.artisan(['db:table', name, '--json', ...databaseArgs], {
+					silent: true,
+					timeout: DatabaseInspectorService.INSPECT_TIMEOUT
+				});
+				detail = this.parseJson(result.stdout);
+			} catch (err) {
+				LoggerService.warn(`db:table failed for ${name}`, err instanceof Error ? err.message : err);
+			}
+
+			tables.push({
+				name,
+				schema: entry.schema ?? null,
+				rows: typeof entry.rows === 'number' ? entry.rows : null,
+				size: typeof entry.size === 'number' ? entry.size : null,
+				columns: (detail.columns || []).map((column: any): LiveColumn => {
+					const attributes: string[] = (column.attributes || []).map(String);
+					const type = String(column.type ?? '');
+					return {
+						name: String(column.column ?? column.name),
+						typeName: type.replace(/\(.*$/, ''),
+						type,
+						nullable: attributes.includes('nullable'),
+						default: column.default ?? null,
+						autoIncrement: attributes.includes('autoincrement')
+					};
+				}),
+				indexes: (detail.indexes || []).map((index: any): LiveIndex => {
+					const attributes: string[] = (index.attributes || []).map(String);
+					return {
+						name: String(index.name),
+						columns: String(index.columns ?? '').split(',').map(c => c.trim()).filter(Boolean),
+						unique: attributes.includes('unique') || attributes.includes('primary'),
+						primary: attributes.includes('primary')
+					};
+				}),
+				foreignKeys: (detail.foreign_keys || []).map((fk: any): LiveForeignKey => ({
+					name: fk.name ?? null,
+					columns: String(fk.local_columns ?? '').split(',').map(c => c.trim()).filter(Boolean),
+					foreignTable: String(fk.foreign_table ?? ''),
+					foreignColumns: String(fk.foreign_columns ?? '').split(',').map(c => c.trim()).filter(Boolean),
+					onUpdate: fk.on_update ?? null,
+					onDelete: fk.on_delete ?? null
+				}))
+			});
+		}
+
+		return {
+			connection: connection ?? String(summary.platform?.config?.name ?? ''),
+			driver: String(summary.platform?.name ?? ''),
+			database: summary.platform?.config?.database ? String(summary.platform.config.database) : undefined,
+			tables
+		};
+	}
+
+	/**
+	 * Parse JSON from command output, ignoring PHP notices printed around it.
+	 */
+	private parseJson(output: string): any {
+		const start = output.indexOf('{');
+		const end = output.lastIndexOf('}');
+		if (start < 0 || end < start) {
+			throw new Error('Unexpected output while reading the database schema');
+		}
+		return JSON.parse(output.slice(start, end + 1));
+	}
+}
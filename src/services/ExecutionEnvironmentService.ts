@@ -0,0 +1,415 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+
+export type ExecutionMode = 'local' | 'sail' | 'docker-compose' | 'custom';
+
+export type ToolBinary = 'php' | 'composer';
+
+export interface ResolvedCommand {
+	command: string;
+	args: string[];
+}
+
+export interface DetectedEnvironment {
+	hasSail: boolean;
+	composeFile?: string;
+	services: string[];
+}
+
+/**
+ * Resolves where PHP and Composer actually run: on the host, inside Laravel Sail,
+ * through `docker compose exec`, or behind a user-defined command template.
+ * Also maps file paths between the container and the host workspace.
+ */
+export class ExecutionEnvironmentService {
+	private static readonly SAIL_BINARY = path.join('vendor', 'bin', 'sail');
+	private static readonly COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yml', 'docker-compose.yaml'];
+	private static readonly DISMISSED_KEY = 'laravelHero.executionEnvironmentPromptDismissed';
+
+	/**
+	 * Get the configured execution mode. Falls back to 'local'.
+	 */
+	static getMode(): ExecutionMode {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		const mode = config.get<string>('executionEnvironment');
+		if (mode === 'sail' || mode === 'docker-compose' || mode === 'custom') {
+			return mode;
+		}
+		return 'local';
+	}
+
+	/**
+	 * Human readable label for the current mode, used in logs and error messages.
+	 */
+	static describeMode(mode: ExecutionMode = ExecutionEnvironmentService.getMode()): string {
+		switch (mode) {
+			case 'sail':
+				return 'Laravel Sail';
+			case 'docker-compose':
+				return `docker compose (${ExecutionEnvironmentService.getComposeService()})`;
+			case 'custom':
+				return 'custom command template';
+			default:
+				return 'local';
+		}
+	}
+
+	/**
+	 * Build the final argv for running a PHP or Composer command in the configured environment.
+	 * `hostBinary` is the locally configured executable (phpCommand / composerCommand).
+	 */
+	static resolve(tool: ToolBinary, hostBinary: string, args: string[]): ResolvedCommand {
+		const mode = ExecutionEnvironmentService.getMode();
+
+		switch (mode) {
+			case 'sail': {
+				const root = WorkspaceService.getWorkspaceRoot();
+				return {
+					command: path.join(root, ExecutionEnvironmentService.SAIL_BINARY),
+					args: [tool, ...args]
+				};
+			}
+
+			case 'docker-compose': {
+				const composeArgs = ['compose', 'exec', '-T'];
+				const workdir = ExecutionEnvironmentService.getContainerWorkspacePath();
+				if (workdir) {
+					composeArgs.push('-w', workdir);
+				}
+				composeArgs.push(ExecutionEnvironmentService.getComposeService(), tool, ...args);
+				return { command: ExecutionEnvironmentService.getDockerCommand(), args: composeArgs };
+			}
+
+			case 'custom':
+				return ExecutionEnvironmentService.applyTemplate(hostBinary, args);
+
+			default:
+				return { command: hostBinary, args };
+		}
+	}
+
+	/**
+	 * Build the argv for a database client or dump tool (mysqldump, psql, ...). In Sail and docker compose mode it runs
+	 * in the PHP service container, where the database host Laravel reports resolves. `envNames` are passed through
+	 * from this process's environment, since `exec` does not forward it.
+	 */
+	static resolveDatabaseTool(binary: string, args: string[], envNames: string[] = []): ResolvedCommand {
+		const mode = ExecutionEnvironmentService.getMode();
+		const envArgs = envNames.flatMap(name => ['-e', name]);
+
+		switch (mode) {
+			case 'sail':
+				// Sail hands unknown commands to docker compose
+				return {
+					command: path.join(WorkspaceService.getWorkspaceRoot(), ExecutionEnvironmentService.SAIL_BINARY),
+					args: ['exec', '-T', ...envArgs, ExecutionEnvironmentService.getComposeService(), binary, ...args]
+				};
+
+			case 'docker-compose':
+				return {
+					command: ExecutionEnvironmentService.getDockerCommand(),
+					args: ['compose', 'exec', '-T', ...envArgs, ExecutionEnvironmentService.getComposeService(), binary, ...args]
+				};
+
+			case 'custom':
+				return ExecutionEnvironmentService.applyTemplate(binary, args);
+
+			default:
+				return { command: binary, args };
+		}
+	}
+
+	/**
+	 * Map a path reported by a command running in the container back to the host workspace.
+	 * Relative paths are resolved against the workspace root.
+	 */
+	static toHostPath(reportedPath: string): string {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const trimmed = reportedPath.trim();
+
+		if (ExecutionEnvironmentService.getMode() !== 'local') {
+			const containerRoot = ExecutionEnvironmentService.getContainerWorkspacePath().replace(/\/+$/, '');
+			if (containerRoot && (trimmed === containerRoot || trimmed.startsWith(containerRoot + '/'))) {
+				const relative = trimmed.slice(containerRoot.length).replace(/^\/+/, '');
+				return path.join(root, ...relative.split('/'));
+			}
+		}
+
+		return path.isAbsolute(trimmed) ? trimmed : path.join(root, trimmed);
+	}
+
+	/**
+	 * Map a host workspace path to the path the container sees.
+	 * Returns the input unchanged in local mode or for paths outside the workspace.
+	 */
+	static toContainerPath(hostPath: string): string {
+		if (ExecutionEnvironmentService.getMode() === 'local') {
+			return hostPath;
+		}
+
+		const root = WorkspaceService.getWorkspaceRoot();
+		const relative = path.relative(root, hostPath);
+		if (relative.startsWith('..') || path.isAbsolute(relative)) {
+			return hostPath;
+		}
+
+		const containerRoot = ExecutionEnvironmentService.getContainerWorkspacePath().replace(/\/+$/, '');
+		const posixRelative = relative.split(path.sep).join('/');
+		return posixRelative ? `${containerRoot}/${posixRelative}` : containerRoot;
+	}
+
+	/**
+	 * Look for Sail and docker compose files in the workspace.
+	 */
+	static detect(): DetectedEnvironment {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const hasSail = fs.existsSync(path.join(root, ExecutionEnvironmentService.SAIL_BINARY));
+		const composeFile = ExecutionEnvironmentService.COMPOSE_FILES
+			.map(file => path.join(root, file))
+			.find(file => fs.existsSync(file));
+
+		let services: string[] = [];
+		if (composeFile) {
+			try {
+				services = ExecutionEnvironmentService.parseComposeServices(fs.readFileSync(composeFile, 'utf8'));
+			} catch (err) {
+				LoggerService.warn('Failed to read docker compose file', err);
+			}
+		}
+
+		return { hasSail, composeFile, services };
+	}
+
+	/**
+	 * Offer to switch away from local execution when Sail or docker compose is detected.
+	 * The prompt is skipped once the user picks an option or dismisses it for the workspace.
+	 */
+	static async promptForDetectedEnvironment(context: vscode.ExtensionContext): Promise<void> {
+		if (ExecutionEnvironmentService.getMode() !== 'local') {
+			return;
+		}
+		if (context.workspaceState.get<boolean>(ExecutionEnvironmentService.DISMISSED_KEY)) {
+			return;
+		}
+
+		const detected = ExecutionEnvironmentService.detect();
+		if (!detected.hasSail && !detected.composeFile) {
+			return;
+		}
+
+		LoggerService.info('Container environment detected', detected);
+
+		const useSail = 'Use Sail';
+		const useCompose = 'Use docker compose';
+		const dontAsk = "Don't ask again";
+		const options = detected.hasSail ? [useSail, useCompose, dontAsk] : [useCompose, dontAsk];
+		const label = detected.hasSail ? 'Laravel Sail' : 'A docker compose file';
+
+		const choice = await vscode.window.showInformationMessage(
+			`Laravel Hero: ${label} was detected. Run artisan and composer commands inside the container?`,
+			...options
+		);
+
+		if (choice === useSail) {
+			await ExecutionEnvironmentService.updateSettings('sail');
+		} else if (choice === useCompose) {
+			await ExecutionEnvironmentService.pickComposeService(detected.services);
+		} else if (choice === dontAsk) {
+			await context.workspaceState.update(ExecutionEnvironmentService.DISMISSED_KEY, true);
+		}
+	}
+
+	/**
+	 * Quick pick for choosing the execution environment manually.
+	 */
+	static async selectEnvironment(): Promise<void> {
+		const current = ExecutionEnvironmentService.getMode();
+		const detected = ExecutionEnvironmentService.detect();
+
+		const items: Array<vscode.QuickPickItem & { mode: ExecutionMode }> = [
+			{ label: 'Local', description: 'Use PHP and Composer installed on this machine', mode: 'local' },
+			{
+				label: 'Laravel Sail',
+				description: detected.hasSail ? 'vendor/bin/sail detected' : 'vendor/bin/sail not found',
+				mode: 'sail'
+			},
+			{
+				label: 'docker compose exec',
+				description: detected.composeFile ? path.basename(detected.composeFile) : 'No compose file found',
+				mode: 'docker-compose'
+			},
+			{ label: 'Custom command template', description: 'Use the laravelHero.commandTemplate setting', mode: 'custom' }
+		];
+
+		for (const item of items) {
+			if (item.mode === current) {
+				item.detail = 'Current';
+			}
+		}
+
+		const picked = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Where should Laravel Hero run artisan and composer commands?'
+		});
+
+		if (!picked) {
+			return;
+		}
+
+		if (picked.mode === 'docker-compose') {
+			await ExecutionEnvironmentService.pickComposeService(detected.services);
+			return;
+		}
+
+		if (picked.mode === 'custom') {
+			const config = vscode.workspace.getConfiguration('laravelHero');
+			const template = await vscode.window.showInputBox({
+				prompt: 'Command template. {command} is replaced by the PHP/Composer command; if omitted it is appended.',
+				placeHolder: 'e.g. docker exec -i my-app {command}',
+				value: config.get<string>('commandTemplate') || ''
+			});
+			if (template === undefined) {
+				return;
+			}
+			await config.update('commandTemplate', template, vscode.ConfigurationTarget.Workspace);
+		}
+
+		await ExecutionEnvironmentService.updateSettings(picked.mode);
+	}
+
+	/**
+	 * Extract top-level service names from a docker compose YAML file.
+	 */
+	static parseComposeServices(content: string): string[] {
+		const services: string[] = [];
+		const lines = content.split(/\r?\n/);
+		let inServices = false;
+		let serviceIndent: number | undefined;
+
+		for (const line of lines) {
+			if (!line.trim() || line.trim().startsWith('#')) {
+				continue;
+			}
+
+			const indent = line.length - line.trimStart().length;
+
+			if (indent === 0) {
+				inServices = /^services:\s*$/.test(line);
+				serviceIndent = undefined;
+				continue;
+			}
+
+			if (!inServices) {
+				continue;
+			}
+
+			if (serviceIndent === undefined) {
+				serviceIndent = indent;
+			}
+
+			if (indent === serviceIndent) {
+				const match = line.trim().match(/^['"]?([\w.-]+)['"]?:/);
+				if (match) {
+					services.push(match[1]);
+				}
+			}
+		}
+
+		return services;
+	}
+
+	private static async pickComposeService(services: string[]): Promise<void> {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		let service: string | undefined;
+
+		if (services.length > 0) {
+			service = await vscode.window.showQuickPick(services, {
+				placeHolder: 'Which docker compose service runs PHP?'
+			});
+		} else {
+			service = await vscode.window.showInputBox({
+				prompt: 'Docker compose service that runs PHP',
+				value: ExecutionEnvironmentService.getComposeService()
+			});
+		}
+
+		if (!service) {
+			return;
+		}
+
+		await config.update('dockerComposeService', service, vscode.ConfigurationTarget.Workspace);
+		await ExecutionEnvironmentService.updateSettings('docker-compose');
+	}
+
+	private static async updateSettings(mode: ExecutionMode): Promise<void> {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		await config.update('executionEnvironment', mode, vscode.ConfigurationTarget.Workspace);
+		LoggerService.info(`Execution environment set to ${mode}`);
+		vscode.window.showInformationMessage(`Laravel Hero: commands now run via ${ExecutionEnvironmentService.describeMode(mode)}.`);
+	}
+
+	private static getComposeService(): string {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		return config.get<string>('dockerComposeService') || 'laravel.test';
+	}
+
+	private static getDockerCommand(): string {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		return config.get<string>('dockerCommand') || 'docker';
+	}
+
+	private static getContainerWorkspacePath(): string {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		return config.get<string>('containerWorkspacePath') || '/var/www/html';
+	}
+
+	/**
+	 * Expand the custom command template into argv.
+	 * `{command}` receives the tool and its arguments; `{workspace}` the host workspace root.
+	 */
+	private static applyTemplate(hostBinary: string, args: string[]): ResolvedCommand {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		const template = (config.get<string>('commandTemplate') || '').trim();
+		if (!template) {
+			throw new Error('The "laravelHero.commandTemplate" setting is empty. Set it or switch "laravelHero.executionEnvironment" back to local.');
+		}
+
+		const root = WorkspaceService.getWorkspaceRoot();
+		const tokens = ExecutionEnvironmentService.tokenize(template);
+		const expanded: string[] = [];
+		let hasCommand = false;
+
+		for (const token of tokens) {
+			if (token === '{command}') {
+				expanded.push(hostBinary, ...args);
+				hasCommand = true;
+			} else {
+				expanded.push(token.replaceAll('{workspace}', root));
+			}
+		}
+
+		if (!hasCommand) {
+			expanded.push(hostBinary, ...args);
+		}
+
+		const [command, ...rest] = expanded;
+		return { command, args: rest };
+	}
+
+	/**
+	 * Split a command template into tokens, honouring single and double quotes.
+	 */
+	private static tokenize(template: string): string[] {
+		const tokens: string[] = [];
+		const regex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(template)) !== null) {
+			tokens.push(match[1] ?? match[2] ?? match[3]);
+		}
+
+		return tokens;
+	}
+}
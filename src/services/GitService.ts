@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { ProcessRunner } from './ProcessRunner';
+import { WorkspaceService } from './WorkspaceService';
+
+/**
+ * Thin wrapper around the git CLI for the workspace repository.
+ * Git always runs on the host, even when PHP runs in Sail or Docker.
+ */
+export class GitService {
+	private static readonly TIMEOUT = 30_000;
+
+	/**
+	 * Get the configured git command from settings.
+	 * Falls back to 'git' if not configured.
+	 */
+	static getGitCommand(): string {
+		return vscode.workspace.getConfiguration('laravelHero').get<string>('gitCommand') || 'git';
+	}
+
+	/**
+	 * Run git in the workspace root and return stdout, throwing a ProcessError on failure.
+	 */
+	static async run(args: string[]): Promise<string> {
+		const result = await ProcessRunner.hostTool(
+			GitService.getGitCommand(),
+			// Keep non-ASCII paths unquoted so they match the workspace file names
+			['-c', 'core.quotepath=false', ...args],
+			{ cwd: WorkspaceService.getWorkspaceRoot(), silent: true, timeout: GitService.TIMEOUT },
+			'laravelHero.gitCommand'
+		);
+		return result.stdout;
+	}
+
+	/**
+	 * Whether the workspace root is inside a git work tree.
+	 */
+	static async isRepository(): Promise<boolean> {
+		try {
+			return (await GitService.run(['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Name of the checked-out branch, or undefined on a detached HEAD.
+	 */
+	static async getCurrentBranch(): Promise<string | undefined> {
+		const branch = (await GitService.run(['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+		return branch && branch !== 'HEAD' ? branch : undefined;
+	}
+
+	/**
+	 * Branch new work is merged into: laravelHero.defaultBranch, then origin/HEAD, then main or master.
+	 */
+	static async getDefaultBranch(): Promise<string | undefined> {
+		const configured = vscode.workspace.getConfiguration('laravelHero').get<string>('defaultBranch');
+		const candidates = configured ? [configured] : [];
+
+		try {
+			candidates.push((await GitService.run(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'])).trim());
+		} catch {
+			// No remote HEAD; fall back to the usual names
+		}
+		candidates.push('main', 'master', 'origin/main', 'origin/master');
+
+		for (const candidate of candidates.filter(Boolean)) {
+			try {
+				await GitService.run(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`]);
+				return candidate;
+			} catch {
+				continue;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Commit where HEAD diverged from the given branch.
+	 */
+	static async getMergeBase(ref: string): Promise<string | undefined> {
+		try {
+			return (await GitService.run(['merge-base', 'HEAD', ref])).trim() || undefined;
+		} catch {
+			return undefined;
+		}
+	}
+}
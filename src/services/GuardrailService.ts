@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface EnvironmentInfo {
+	name: string;
+	isProtected: boolean;
+	blocksDestructive: boolean;
+}
+
+export interface DestructiveAction {
+	/** Short label, e.g. "Rollback migration 'x'". */
+	label: string;
+	/** Extra explanation shown in the confirmation dialog. */
+	detail?: string;
+}
+
+/**
+ * Environment-aware safety layer for destructive operations (rollbacks, force runs, config:cache).
+ * Reads APP_ENV from .env and applies the laravelHero.protectedEnvironments settings.
+ */
+export class GuardrailService {
+	/**
+	 * Describe the current environment and whether it is protected.
+	 */
+	static getEnvironment(): EnvironmentInfo {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		const name = (WorkspaceService.readEnv().APP_ENV || 'unknown').toLowerCase();
+		const protectedEnvs = (config.get<string[]>('protectedEnvironments') || ['production', 'staging'])
+			.map(env => env.toLowerCase());
+		const isProtected = protectedEnvs.includes(name);
+
+		return {
+			name,
+			isProtected,
+			blocksDestructive: isProtected && config.get<boolean>('blockDestructiveActions', false)
+		};
+	}
+
+	/**
+	 * Confirm a destructive action.
+	 * - Unprotected environments get a standard modal.
+	 * - Protected environments require typing the project name.
+	 * - When blocking is enabled for protected environments the action is refused.
+	 * @returns true when the action may proceed
+	 */
+	static async confirmDestructive(action: DestructiveAction): Promise<boolean> {
+		const env = GuardrailService.getEnvironment();
+
+		if (!env.isProtected) {
+			const confirmed = await vscode.window.showWarningMessage(
+				`${action.label}?`,
+				{ modal: true, detail: action.detail },
+				'Yes'
+			);
+			return confirmed === 'Yes';
+		}
+
+		if (env.blocksDestructive) {
+			LoggerService.warn(`Blocked destructive action in ${env.name}: ${action.label}`);
+			vscode.window.showErrorMessage(
+				`${action.label} is blocked: APP_ENV is "${env.name}" and "laravelHero.blockDestructiveActions" is enabled.`
+			);
+			return false;
+		}
+
+		const proceed = await vscode.window.showWarningMessage(
+			`⚠ ${action.label} in ${env.name.toUpperCase()}?`,
+			{
+				modal: true,
+				detail: [action.detail, `APP_ENV is "${env.name}". You will be asked to type the project name to confirm.`]
+					.filter(Boolean)
+					.join('\n\n')
+			},
+			'Continue'
+		);
+
+		if (proceed !== 'Continue') {
+			return false;
+		}
+
+		const projectName = WorkspaceService.getProjectName();
+		const typed = await vscode.window.showInputBox({
+			title: `Confirm in ${env.name}`,
+			prompt: `Type the project name "${projectName}" to confirm: ${action.label}`,
+			placeHolder: projectName,
+			ignoreFocusOut: true,
+			validateInput: (value) => value === projectName ? undefined : 'Project name does not match'
+		});
+
+		const confirmed = typed === projectName;
+		LoggerService.info(`Destructive action ${confirmed ? 'confirmed' : 'aborted'} in ${env.name}: ${action.label}`);
+		return confirmed;
+	}
+}
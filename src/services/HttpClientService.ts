@@ -0,0 +1,323 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+
+export interface HttpKeyValue {
+	key: string;
+	value: string;
+	enabled?: boolean;
+}
+
+export type HttpAuth =
+	| { type: 'none' }
+	| { type: 'bearer'; token: string }
+	| { type: 'basic'; username: string; password: string }
+	| { type: 'cookie'; cookie: string };
+
+export type HttpBodyType = 'none' | 'json' | 'form';
+
+export interface HttpRequestDefinition {
+	method: string;
+	/** Route URL template, e.g. http://localhost/users/{user}/posts/{post?}. */
+	url: string;
+	pathParams: Record<string, string>;
+	query: HttpKeyValue[];
+	headers: HttpKeyValue[];
+	bodyType: HttpBodyType;
+	/** JSON text when bodyType is json. */
+	body?: string;
+	/** Fields when bodyType is form. */
+	form?: HttpKeyValue[];
+	auth: HttpAuth;
+	/** Accept self-signed certificates, e.g. from Valet or Herd. */
+	insecure?: boolean;
+}
+
+export interface HttpResponseInfo {
+	url: string;
+	status: number;
+	statusText: string;
+	headers: Record<string, string>;
+	durationMs: number;
+	/** Response size in bytes, before truncation. */
+	size: number;
+	contentType: string;
+	/** Body as text, pretty-printed when it is JSON. */
+	body: string;
+	truncated: boolean;
+}
+
+export interface SavedHttpRequest {
+	label: string;
+	savedAt: string;
+	request: HttpRequestDefinition;
+	/** Secret storage key holding the credentials; the request in workspace state keeps only the auth type. */
+	authSecret?: string;
+}
+
+export interface RouteParameter {
+	name: string;
+	optional: boolean;
+}
+
+/**
+ * Sends requests to the application's routes for the Routes panel request tester,
+ * and keeps saved requests per route in workspace state. Tokens, passwords and cookies go to secret storage.
+ */
+export class HttpClientService {
+	private static readonly TIMEOUT = 30_000;
+
+	/** Bytes of response body kept for display; the rest is counted but dropped. */
+	private static readonly MAX_BODY = 2 * 1024 * 1024;
+
+	private static readonly SAVED_KEY = 'laravelHero.savedRequests';
+
+	constructor(
+		private readonly state: vscode.Memento,
+		private readonly secrets: vscode.SecretStorage
+	) {}
+
+	/**
+	 * Route parameters in a URL template: `{id}` is required, `{slug?}` optional.
+	 */
+	public getParameters(url: string): RouteParameter[] {
+		return [...url.matchAll(/\{(\w+)(\?)?\}/g)].map(match => ({ name: match[1], optional: Boolean(match[2]) }));
+	}
+
+	/**
+	 * Fill route parameters and append the enabled query parameters.
+	 * Empty optional parameters are dropped together with their leading slash.
+	 */
+	public buildUrl(definition: HttpRequestDefinition): string {
+		const missing: string[] = [];
+		let url = definition.url.replace(/(\/?)\{(\w+)(\?)?\}/g, (_match, slash: string, name: string, optional: string) => {
+			const value = definition.pathParams[name]?.trim();
+			if (value) {
+				return `${slash}${encodeURIComponent(value)}`;
+			}
+			if (!optional) {
+				missing.push(name);
+			}
+			return '';
+		});
+
+		if (missing.length > 0) {
+			throw new Error(`Fill in the route parameter${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`);
+		}
+
+		const query = new URLSearchParams();
+		this.enabled(definition.query).forEach(({ key, value }) => query.append(key, value));
+		const search = query.toString();
+		if (search) {
+			url += `${url.includes('?') ? '&' : '?'}${search}`;
+		}
+		return url;
+	}
+
+	/**
+	 * Send a request and collect the response. Redirects are returned as-is rather than followed.
+	 */
+	public async send(definition: HttpRequestDefinition, token?: vscode.CancellationToken): Promise<HttpResponseInfo> {
+		const url = new URL(this.buildUrl(definition));
+		const method = definition.method.toUpperCase();
+		const headers: Record<string, string> = { 'Accept': 'application/json', 'User-Agent': 'Laravel Hero' };
+		let body: string | undefined;
+
+		if (definition.bodyType === 'json' && definition.body?.trim() && method !== 'GET' && method !== 'HEAD') {
+			try {
+				JSON.parse(definition.body);
+			} catch (err) {
+				throw new Error(`The request body is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+			}
+			headers['Content-Type'] = 'application/json';
+			body = definition.body;
+		} else if (definition.bodyType === 'form' && method !== 'GET' && method !== 'HEAD') {
+			const form = new URLSearchParams();
+			this.enabled(definition.form ?? []).forEach(({ key, value }) => form.append(key, value));
+			headers['Content-Type'] = 'application/x-www-form-urlencoded';
+			body = form.toString();
+		}
+
+		Object.assign(headers, this.authHeaders(definition.auth));
+		// Headers entered by hand win over the defaults above
+		for (const { key, value } of this.enabled(definition.headers)) {
+			for (const existing of Object.keys(headers).filter(name => name.toLowerCase() === key.toLowerCase())) {
+				delete headers[existing];
+			}
+			headers[key] = value;
+		}
+		if (body !== undefined) {
+			headers['Content-Length'] = String(Buffer.byteLength(body));
+		}
+
+		LoggerService.info(`HTTP ${method} ${url.toString()}`);
+		const started = Date.now();
+
+		return new Promise<HttpResponseInfo>((resolve, reject) => {
+			const transport = url.protocol === 'https:' ? https : http;
+			const request = transport.request(url, {
+				method,
+				headers,
+				timeout: HttpClientService.TIMEOUT,
+				rejectUnauthorized: !definition.insecure
+			}, (response) => {
+				const chunks: Buffer[] = [];
+				let size = 0;
+				response.on('data', (chunk: Buffer) => {
+					if (size < HttpClientService.MAX_BODY) {
+						chunks.push(chunk);
+					}
+					size += chunk.length;
+				});
+				response.on('end', () => {
+					const contentType = String(response.headers['content-type'] ?? '');
+					const text = Buffer.concat(chunks).subarray(0, HttpClientService.MAX_BODY).toString('utf8');
+					resolve({
+						url: url.toString(),
+						status: response.statusCode ?? 0,
+						statusText: response.statusMessage ?? '',
+						headers: this.flattenHeaders(response.headers),
+						durationMs: Date.now() - started,
+						size,
+						contentType,
+						body: this.format(text, contentType, size > HttpClientService.MAX_BODY),
+						truncated: size > HttpClientService.MAX_BODY
+					});
+				});
+				response.on('error', reject);
+			});
+
+			const cancellation = token?.onCancellationRequested(() => request.destroy(new Error('Request cancelled')));
+			request.on('timeout', () => request.destroy(new Error(`No response after ${HttpClientService.TIMEOUT / 1000} seconds`)));
+			request.on('error', reject);
+			request.on('close', () => cancellation?.dispose());
+
+			if (body !== undefined) {
+				request.write(body);
+			}
+			request.end();
+		});
+	}
+
+	/**
+	 * Saved requests for a route, most recently saved first, with their credentials read back from secret storage.
+	 * Credentials that are no longer in secret storage come back empty, to be entered again.
+	 */
+	public async getSaved(routeKey: string): Promise<SavedHttpRequest[]> {
+		const saved = this.state.get<Record<string, SavedHttpRequest[]>>(HttpClientService.SAVED_KEY, {})[routeKey] ?? [];
+		return Promise.all(saved.map(entry => this.withSecrets(entry)));
+	}
+
+	/**
+	 * Save a request under a label, replacing an earlier one with the same label.
+	 */
+	public async save(routeKey: string, label: string, request: HttpRequestDefinition): Promise<SavedHttpRequest[]> {
+		const all = this.state.get<Record<string, SavedHttpRequest[]>>(HttpClientService.SAVED_KEY, {});
+		const replaced = (all[routeKey] ?? []).find(entry => entry.label === label);
+		await this.deleteSecret(replaced);
+
+		const entry: SavedHttpRequest = { label, savedAt: new Date().toISOString(), request: { ...request, auth: this.withoutSecrets(request.auth) } };
+		if (request.auth.type !== 'none') {
+			entry.authSecret = `${HttpClientService.SAVED_KEY}.${crypto.randomUUID()}`;
+			await this.secrets.store(entry.authSecret, JSON.stringify(request.auth));
+		}
+
+		const saved = [entry, ...(all[routeKey] ?? []).filter(other => other.label !== label)];
+		await this.state.update(HttpClientService.SAVED_KEY, { ...all, [routeKey]: saved });
+		return this.getSaved(routeKey);
+	}
+
+	public async deleteSaved(routeKey: string, label: string): Promise<SavedHttpRequest[]> {
+		const all = this.state.get<Record<string, SavedHttpRequest[]>>(HttpClientService.SAVED_KEY, {});
+		await this.deleteSecret((all[routeKey] ?? []).find(entry => entry.label === label));
+		const saved = (all[routeKey] ?? []).filter(entry => entry.label !== label);
+		const next = { ...all, [routeKey]: saved };
+		if (saved.length === 0) {
+			delete next[routeKey];
+		}
+		await this.state.update(HttpClientService.SAVED_KEY, next);
+		return this.getSaved(routeKey);
+	}
+
+	/**
+	 * The auth type with its token, password or cookie blanked, as kept in workspace state.
+	 */
+	private withoutSecrets(auth: HttpAuth): HttpAuth {
+		switch (auth.type) {
+			case 'bearer':
+				return { type: 'bearer', token: '' };
+			case 'basic':
+				return { type: 'basic', username: auth.username, password: '' };
+			case 'cookie':
+				return { type: 'cookie', cookie: '' };
+			default:
+				return { type: 'none' };
+		}
+	}
+
+	/**
+	 * A saved request with its credentials read back from secret storage.
+	 * A missing or unreadable secret leaves the blanked credentials in place.
+	 */
+	private async withSecrets(entry: SavedHttpRequest): Promise<SavedHttpRequest> {
+		if (!entry.authSecret) {
+			return entry;
+		}
+		try {
+			const secret = await this.secrets.get(entry.authSecret);
+			return secret ? { ...entry, request: { ...entry.request, auth: JSON.parse(secret) as HttpAuth } } : entry;
+		} catch (err) {
+			LoggerService.warn(`Could not read the saved credentials of '${entry.label}'`, err);
+			return entry;
+		}
+	}
+
+	private async deleteSecret(entry: SavedHttpRequest | undefined): Promise<void> {
+		if (entry?.authSecret) {
+			await this.secrets.delete(entry.authSecret);
+		}
+	}
+
+	private authHeaders(auth: HttpAuth): Record<string, string> {
+		switch (auth.type) {
+			case 'bearer':
+				return auth.token ? { 'Authorization': `Bearer ${auth.token.trim()}` } : {};
+			case 'basic':
+				return { 'Authorization': `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+			case 'cookie':
+				return auth.cookie ? { 'Cookie': auth.cookie.trim() } : {};
+			default:
+				return {};
+		}
+	}
+
+	private enabled(items: HttpKeyValue[]): HttpKeyValue[] {
+		return items.filter(item => item.enabled !== false && item.key.trim()).map(item => ({ ...item, key: item.key.trim() }));
+	}
+
+	private flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+		const flat: Record<string, string> = {};
+		for (const [name, value] of Object.entries(headers)) {
+			if (value !== undefined) {
+				flat[name] = Array.isArray(value) ? value.join('\n') : String(value);
+			}
+		}
+		return flat;
+	}
+
+	/**
+	 * Pretty-print JSON bodies; anything else is returned unchanged.
+	 */
+	private format(text: string, contentType: string, truncated: boolean): string {
+		if (truncated || !/json/i.test(contentType)) {
+			return text;
+		}
+		try {
+			return JSON.stringify(JSON.parse(text), null, 2);
+		} catch {
+			return text;
+		}
+	}
+}
@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArtisanService, RouteInfo } from './ArtisanService';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+import { findClosing, maskComments, resolveClassName, splitArguments, stringArg } from '../utils/phpSource';
+
+export interface MiddlewareDefinitions {
+	/** Group name to its members, as class names with `:parameters`. */
+	groups: Record<string, string[]>;
+	/** Alias to class name. */
+	aliases: Record<string, string>;
+	/** Project-relative file the definitions were read from; undefined when only framework defaults apply. */
+	source?: string;
+}
+
+export interface RouteMiddlewareProfile {
+	/** Groups whose members are all applied to the route. */
+	groups: string[];
+	/** Middleware not covered by those groups, in alias form where an alias exists. */
+	middleware: string[];
+	/** Every middleware of the route in alias form, groups expanded. */
+	expanded: string[];
+	/** Authorization middleware (`can:`, `role:`, `permission:`...). */
+	permissions: string[];
+}
+
+/**
+ * Reads the middleware groups and aliases of the application without booting it, from `app/Http/Kernel.php`
+ * or, for the Laravel 11 structure, `bootstrap/app.php` on top of the framework defaults.
+ * route:list reports middleware expanded to classes, so routes are mapped back to the groups and aliases they were declared with.
+ */
+export class MiddlewareService {
+	private static readonly KERNEL = 'app/Http/Kernel.php';
+	private static readonly BOOTSTRAP = 'bootstrap/app.php';
+
+	/** Groups registered by `Illuminate\Foundation\Configuration\Middleware` when bootstrap/app.php changes nothing. */
+	private static readonly DEFAULT_GROUPS: Record<string, string[]> = {
+		web: [
+			'Illuminate\\Cookie\\Middleware\\EncryptCookies',
+			'Illuminate\\Cookie\\Middleware\\AddQueuedCookiesToResponse',
+			'Illuminate\\Session\\Middleware\\StartSession',
+			'Illuminate\\View\\Middleware\\ShareErrorsFromSession',
+			'Illuminate\\Foundation\\Http\\Middleware\\ValidateCsrfToken',
+			'Illuminate\\Routing\\Middleware\\SubstituteBindings'
+		],
+		api: ['Illuminate\\Routing\\Middleware\\SubstituteBindings']
+	};
+
+	private static readonly DEFAULT_ALIASES: Record<string, string> = {
+		'auth': 'Illuminate\\Auth\\Middleware\\Authenticate',
+		'auth.basic': 'Illuminate\\Auth\\Middleware\\AuthenticateWithBasicAuth',
+		'auth.session': 'Illuminate\\Session\\Middleware\\AuthenticateSession',
+		'cache.headers': 'Illuminate\\Http\\Middleware\\SetCacheHeaders',
+		'can': 'Illuminate\\Auth\\Middleware\\Authorize',
+		'guest': 'Illuminate\\Auth\\Middleware\\RedirectIfAuthenticated',
+		'password.confirm': 'Illuminate\\Auth\\Middleware\\RequirePassword',
+		'precognitive': 'Illuminate\\Foundation\\Http\\Middleware\\HandlePrecognitiveRequests',
+		'signed': 'Illuminate\\Routing\\Middleware\\ValidateSignature',
+		'throttle': 'Illuminate\\Routing\\Middleware\\ThrottleRequests',
+		'verified': 'Illuminate\\Auth\\Middleware\\EnsureEmailIsVerified'
+	};
+
+	private static readonly STATEFUL_API = 'Laravel\\Sanctum\\Http\\Middleware\\EnsureFrontendRequestsAreStateful';
+
+	public getDefinitions(): MiddlewareDefinitions {
+		const root = WorkspaceService.getWorkspaceRoot();
+		try {
+			const kernel = path.join(root, MiddlewareService.KERNEL);
+			if (fs.existsSync(kernel)) {
+				return this.readKernel(fs.readFileSync(kernel, 'utf8'));
+			}
+			const bootstrap = path.join(root, MiddlewareService.BOOTSTRAP);
+			if (fs.existsSync(bootstrap)) {
+				return this.readBootstrap(fs.readFileSync(bootstrap, 'utf8'));
+			}
+		} catch (err) {
+			LoggerService.warn('Failed to read middleware groups', err);
+		}
+		return this.defaults();
+	}
+
+	/**
+	 * Describe a route's middleware as the matrix shows it: groups it carries in full, the rest by alias.
+	 * Larger groups are matched first and claim their members, so `api` (SubstituteBindings only) does not also match every web route.
+	 */
+	public profile(route: RouteInfo, definitions: MiddlewareDefinitions): RouteMiddlewareProfile {
+		const expanded = route.middleware.map(name => this.toAlias(name, definitions));
+		const remaining = new Set(route.middleware);
+		const groups: string[] = [];
+
+		if (route.middleware.some(name => definitions.groups[name])) {
+			// The text fallback of route:list keeps group names as written
+			groups.push(...route.middleware.filter(name => definitions.groups[name]));
+			groups.forEach(name => remaining.delete(name));
+		} else {
+			const candidates = Object.entries(definitions.groups)
+				.map(([name, members]) => [name, members.map(member => this.toClass(member, definitions))] as const)
+				.filter(([, members]) => members.length > 0)
+				.sort(([, a], [, b]) => b.length - a.length);
+			for (const [name, members] of candidates) {
+				if (members.every(member => remaining.has(member))) {
+					groups.push(name);
+					members.forEach(member => remaining.delete(member));
+				}
+			}
+		}
+
+		const middleware = [...remaining].map(name => this.toAlias(name, definitions));
+		return {
+			groups,
+			middleware,
+			expanded,
+			permissions: ArtisanService.extractPermissions(expanded)
+		};
+	}
+
+	/**
+	 * Group members in alias form, for display.
+	 */
+	public describeGroups(definitions: MiddlewareDefinitions): Record<string, string[]> {
+		return Object.fromEntries(Object.entries(definitions.groups).map(([name, members]) => [
+			name,
+			members.map(member => this.toAlias(this.toClass(member, definitions), definitions))
+		]));
+	}
+
+	private defaults(source?: string): MiddlewareDefinitions {
+		return {
+			groups: Object.fromEntries(Object.entries(MiddlewareService.DEFAULT_GROUPS).map(([name, members]) => [name, [...members]])),
+			aliases: { ...MiddlewareService.DEFAULT_ALIASES },
+			source
+		};
+	}
+
+	/**
+	 * Laravel 10 and earlier: `$middlewareGroups` plus `$middlewareAliases` (or the older `$routeMiddleware`).
+	 */
+	private readKernel(content: string): MiddlewareDefinitions {
+		const code = maskComments(content);
+		const definitions: MiddlewareDefinitions = { groups: {}, aliases: {}, source: MiddlewareService.KERNEL };
+
+		for (const [key, value] of this.readArrayProperty(code, 'middlewareGroups')) {
+			const name = stringArg(key);
+			if (name) {
+				definitions.groups[name] = this.readMiddlewareList(value, code);
+			}
+		}
+		for (const property of ['routeMiddleware', 'middlewareAliases']) {
+			for (const [key, value] of this.readArrayProperty(code, property)) {
+				const alias = stringArg(key);
+				const [middleware] = this.readMiddlewareList(value, code);
+				if (alias && middleware) {
+					definitions.aliases[alias] = middleware;
+				}
+			}
+		}
+
+		return definitions;
+	}
+
+	/**
+	 * Laravel 11+: the framework defaults, changed by the calls on `$middleware` inside `->withMiddleware(...)`.
+	 */
+	private readBootstrap(content: string): MiddlewareDefinitions {
+		const code = maskComments(content);
+		const definitions = this.defaults(MiddlewareService.BOOTSTRAP);
+		const { groups, aliases } = definitions;
+
+		const appendTo = (group: string, items: string[], prepend = false) => {
+			const members = (groups[group] ?? []).filter(member => !items.includes(member));
+			groups[group] = prepend ? [...items, ...members] : [...members, ...items];
+		};
+
+		for (const match of code.matchAll(/\$(\w+)\s*->\s*(web|api|group|appendToGroup|prependToGroup|removeFromGroup|alias|statefulApi|throttleApi)\s*\(/g)) {
+			if (match[1] !== 'middleware') {
+				continue;
+			}
+			const open = (match.index ?? 0) + match[0].length - 1;
+			const close = findClosing(code, open);
+			if (close >= code.length) {
+				// Unterminated call; reading on would pick up the rest of the file
+				continue;
+			}
+			const args = this.namedArguments(code.slice(open + 1, close));
+
+			switch (match[2]) {
+				case 'web':
+				case 'api': {
+					const group = match[2];
+					const list = (name: string, index: number) => this.readMiddlewareList(args.named[name] ?? args.positional[index], code);
+					const removed = list('remove', 2);
+					groups[group] = groups[group].filter(member => !removed.includes(member));
+					for (const [key, value] of this.readArrayEntries(args.named.replace ?? args.positional[3] ?? '')) {
+						const [from] = this.readMiddlewareList(key, code);
+						const [to] = this.readMiddlewareList(value, code);
+						groups[group] = groups[group].map(member => member === from && to ? to : member);
+					}
+					appendTo(group, list('prepend', 1), true);
+					appendTo(group, list('append', 0));
+					break;
+				}
+				case 'group': {
+					const name = stringArg(args.positional[0]);
+					if (name) {
+						groups[name] = this.readMiddlewareList(args.positional[1], code);
+					}
+					break;
+				}
+				case 'appendToGroup':
+				case 'prependToGroup': {
+					const name = stringArg(args.positional[0]);
+					if (name) {
+						appendTo(name, this.readMiddlewareList(args.positional[1], code), match[2] === 'prependToGroup');
+					}
+					break;
+				}
+				case 'removeFromGroup': {
+					const name = stringArg(args.positional[0]);
+					const removed = this.readMiddlewareList(args.positional[1], code);
+					if (name && groups[name]) {
+						groups[name] = groups[name].filter(member => !removed.includes(member));
+					}
+					break;
+				}
+				case 'alias':
+					for (const [key, value] of this.readArrayEntries(args.positional[0] ?? '')) {
+						const alias = stringArg(key);
+						const [middleware] = this.readMiddlewareList(value, code);
+						if (alias && middleware) {
+							aliases[alias] = middleware;
+						}
+					}
+					break;
+				case 'statefulApi':
+					appendTo('api', [MiddlewareService.STATEFUL_API], true);
+					break;
+				case 'throttleApi':
+					appendTo('api', [`throttle:${stringArg(args.named.limiter ?? args.positional[0]) ?? 'api'}`]);
+					break;
+			}
+		}
+
+		return definitions;
+	}
+
+	/**
+	 * Arguments of a call, keeping PHP 8 named arguments (`append: [...]`) apart from positional ones.
+	 */
+	private namedArguments(text: string): { named: Record<string, string>; positional: string[] } {
+		const named: Record<string, string> = {};
+		const positional: string[] = [];
+		for (const arg of splitArguments(text, true)) {
+			const match = arg.match(/^(\w+)\s*:(?!:)\s*([\s\S]*)$/);
+			if (match) {
+				named[match[1]] = match[2];
+			} else {
+				positional.push(arg);
+			}
+		}
+		return { named, positional };
+	}
+
+	private readArrayProperty(code: string, property: string): [string, string][] {
+		const match = new RegExp(`\\$${property}\\s*=\\s*(\\[|array\\s*\\()`).exec(code);
+		if (!match) {
+			return [];
+		}
+		const open = match.index + match[0].length - 1;
+		const close = findClosing(code, open);
+		return close >= code.length ? [] : this.readArrayEntries(code.slice(open, close + 1));
+	}
+
+	/**
+	 * Key/value pairs of a PHP array literal. Entries without a key are skipped.
+	 */
+	private readArrayEntries(text: string): [string, string][] {
+		const body = text.trim().replace(/^(?:\[|array\s*\()/, '').replace(/[\])]$/, '');
+		return splitArguments(body, true)
+			.map(entry => entry.match(/^([\s\S]+?)\s*=>\s*([\s\S]+)$/))
+			.filter((match): match is RegExpMatchArray => Boolean(match))
+			.map(match => [match[1].trim(), match[2].trim()]);
+	}
+
+	/**
+	 * Middleware in a list or single value: `Foo::class`, `Foo::class.':param'` and strings such as `'throttle:api'`.
+	 */
+	private readMiddlewareList(text: string | undefined, code: string): string[] {
+		if (!text) {
+			return [];
+		}
+		const trimmed = text.trim();
+		const items = /^(?:\[|array\s*\()/.test(trimmed)
+			? splitArguments(trimmed.replace(/^(?:\[|array\s*\()/, '').replace(/[\])]$/, ''))
+			: [trimmed];
+
+		const result: string[] = [];
+		for (const item of items) {
+			const classMatch = item.match(/^([\\\w]+)::class(?:\s*\.\s*(['"])(.*)\2)?$/);
+			if (classMatch) {
+				result.push(resolveClassName(classMatch[1], code) + (classMatch[3] ?? ''));
+				continue;
+			}
+			const literal = stringArg(item);
+			if (literal) {
+				result.push(literal.replace(/^\\/, ''));
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * `throttle:api` → `Illuminate\Routing\Middleware\ThrottleRequests:api`, matching route:list output.
+	 */
+	private toClass(name: string, definitions: MiddlewareDefinitions): string {
+		const [alias, ...params] = name.split(':');
+		const target = definitions.aliases[alias];
+		return target ? [target, ...params].join(':') : name;
+	}
+
+	/**
+	 * `Illuminate\Auth\Middleware\Authorize:update,post` → `can:update,post`. The first alias of a class wins.
+	 */
+	private toAlias(name: string, definitions: MiddlewareDefinitions): string {
+		const [className, ...params] = name.split(':');
+		const alias = Object.keys(definitions.aliases).find(key => definitions.aliases[key] === className);
+		return alias ? [alias, ...params].join(':') : name;
+	}
+}
@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import { LoggerService } from './LoggerService';
+
+export type MigrationWizardMode = 'create' | 'alter' | 'blank';
+
+export type ForeignKeyAction = 'cascade' | 'restrict' | 'set null' | 'no action';
+
+export interface MigrationColumnDefinition {
+	name: string;
+	/** Blueprint method, e.g. string, unsignedBigInteger, foreignId. */
+	type: string;
+	/** Extra arguments after the column name, e.g. "100" for string or "8, 2" for decimal. */
+	params?: string;
+	nullable?: boolean;
+	unsigned?: boolean;
+	unique?: boolean;
+	index?: boolean;
+	/** Raw default as typed: numbers, true/false/null and CURRENT_TIMESTAMP are not quoted. */
+	default?: string;
+	comment?: string;
+	foreign?: {
+		table: string;
+		column?: string;
+		onDelete?: ForeignKeyAction;
+		onUpdate?: ForeignKeyAction;
+	};
+}
+
+export interface MigrationWizardDefinition {
+	name: string;
+	mode: MigrationWizardMode;
+	table?: string;
+	columns: MigrationColumnDefinition[];
+}
+
+/**
+ * Turns column definitions from the migration wizard into Blueprint code and
+ * writes it into the file generated by `make:migration --create/--table`.
+ */
+export class MigrationGeneratorService {
+	/** Blueprint column methods offered by the wizard. */
+	public static readonly COLUMN_TYPES = [
+		'string', 'text', 'mediumText', 'longText', 'char',
+		'integer', 'tinyInteger', 'smallInteger', 'bigInteger', 'unsignedInteger', 'unsignedBigInteger',
+		'foreignId', 'foreignUuid', 'decimal', 'float', 'double', 'boolean',
+		'date', 'dateTime', 'timestamp', 'time', 'year',
+		'json', 'jsonb', 'uuid', 'ulid', 'enum', 'binary', 'ipAddress'
+	];
+
+	private static readonly IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+	private static readonly FOREIGN_ACTIONS: ForeignKeyAction[] = ['cascade', 'restrict', 'set null', 'no action'];
+
+	/**
+	 * Check a wizard definition and return the first problem found, if any.
+	 */
+	public validate(definition: MigrationWizardDefinition): string | undefined {
+		if (!/^[a-z0-9_]+$/.test(definition.name || '')) {
+			return 'Migration name can only contain lowercase letters, numbers, and underscores';
+		}
+		if (definition.mode === 'blank') {
+			return undefined;
+		}
+		if (!definition.table || !MigrationGeneratorService.IDENTIFIER.test(definition.table)) {
+			return 'Enter a valid table name';
+		}
+
+		const seen = new Set<string>();
+		for (const column of definition.columns) {
+			if (!MigrationGeneratorService.IDENTIFIER.test(column.name || '')) {
+				return `Invalid column name: '${column.name}'`;
+			}
+			if (seen.has(column.name)) {
+				return `Column '${column.name}' is listed twice`;
+			}
+			seen.add(column.name);
+			if (!MigrationGeneratorService.COLUMN_TYPES.includes(column.type)) {
+				return `Unsupported column type '${column.type}' for '${column.name}'`;
+			}
+			if (column.params && !/^[\w\s,.'"[\]-]+$/.test(column.params)) {
+				return `Invalid arguments for '${column.name}': ${column.params}`;
+			}
+			if (column.foreign) {
+				const { table, column: referenced, onDelete, onUpdate } = column.foreign;
+				if (!MigrationGeneratorService.IDENTIFIER.test(table || '')) {
+					return `Enter the table '${column.name}' references`;
+				}
+				if (referenced && !MigrationGeneratorService.IDENTIFIER.test(referenced)) {
+					return `Invalid referenced column for '${column.name}': ${referenced}`;
+				}
+				if ([onDelete, onUpdate].some(action => action && !MigrationGeneratorService.FOREIGN_ACTIONS.includes(action))) {
+					return `Unsupported foreign key action for '${column.name}'`;
+				}
+			}
+		}
+
+		if (definition.mode === 'alter' && definition.columns.length === 0) {
+			return 'Add at least one column';
+		}
+		return undefined;
+	}
+
+	/**
+	 * Blueprint statements for up(), one per line without indentation.
+	 */
+	public renderUp(columns: MigrationColumnDefinition[]): string[] {
+		const lines: string[] = [];
+
+		for (const column of columns) {
+			const params = column.params?.trim() ? `, ${column.params.trim()}` : '';
+			let line = `$table->${column.type}('${column.name}'${params})`;
+
+			if (column.unsigned && !/^(unsigned|foreign)/.test(column.type)) {
+				line += '->unsigned()';
+			}
+			if (column.nullable) {
+				line += '->nullable()';
+			}
+			if (column.default !== undefined && column.default !== '') {
+				line += this.renderDefault(column.default);
+			}
+			if (column.comment) {
+				line += `->comment(${this.quote(column.comment)})`;
+			}
+
+			// foreignId / foreignUuid chain constrained(); other types get a separate foreign() call below
+			const inlineForeign = column.foreign && /^foreign(Id|Uuid)$/.test(column.type);
+			if (inlineForeign && column.foreign) {
+				const referenced = column.foreign.column && column.foreign.column !== 'id' ? `, '${column.foreign.column}'` : '';
+				line += `->constrained('${column.foreign.table}'${referenced})`;
+				line += this.renderForeignActions(column.foreign);
+			}
+			if (column.unique) {
+				line += '->unique()';
+			} else if (column.index && !inlineForeign) {
+				line += '->index()';
+			}
+
+			lines.push(`${line};`);
+		}
+
+		for (const column of columns) {
+			if (column.foreign && !/^foreign(Id|Uuid)$/.test(column.type)) {
+				lines.push(
+					`$table->foreign('${column.name}')->references('${column.foreign.column || 'id'}')->on('${column.foreign.table}')` +
+					`${this.renderForeignActions(column.foreign)};`
+				);
+			}
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Blueprint statements for down() when columns were added to an existing table.
+	 * Foreign keys are dropped before their columns.
+	 */
+	public renderDown(columns: MigrationColumnDefinition[]): string[] {
+		if (columns.length === 0) {
+			return [];
+		}
+
+		const lines = columns
+			.filter(column => column.foreign)
+			.map(column => `$table->dropForeign(['${column.name}']);`);
+
+		const names = columns.map(column => `'${column.name}'`);
+		lines.push(names.length === 1 ? `$table->dropColumn(${names[0]});` : `$table->dropColumn([${names.join(', ')}]);`);
+		return lines;
+	}
+
+	/**
+	 * Write the generated statements into a file created from Laravel's create/update stubs.
+	 * @returns false when the stub layout was not recognised and nothing was written
+	 */
+	public async applyToFile(filePath: string, definition: MigrationWizardDefinition): Promise<boolean> {
+		if (definition.mode === 'blank' || definition.columns.length === 0) {
+			return true;
+		}
+
+		const original = await fs.promises.readFile(filePath, 'utf8');
+		// Stubs published on Windows, or checked out with autocrlf, use CRLF; the inserted lines follow the file
+		const eol = original.includes('\r\n') ? '\r\n' : '\n';
+		const updated = definition.mode === 'create'
+			? this.fillCreateStub(original, this.renderUp(definition.columns), eol)
+			: this.fillAlterStub(original, this.renderUp(definition.columns), this.renderDown(definition.columns), eol);
+
+		if (!updated) {
+			LoggerService.warn(`Could not find the Blueprint closure in ${filePath}; leaving the file unchanged`);
+			return false;
+		}
+
+		await fs.promises.writeFile(filePath, updated, 'utf8');
+		return true;
+	}
+
+	/**
+	 * Insert columns into `Schema::create(...)`, between `$table->id();` and `$table->timestamps();` when present.
+	 */
+	private fillCreateStub(content: string, lines: string[], eol: string): string | undefined {
+		const block = content.match(/Schema::create\([^)]*function\s*\(Blueprint \$table\)\s*\{\r?\n([\s\S]*?)\r?\n([ \t]*)\}\);/);
+		if (!block || block.index === undefined) {
+			return undefined;
+		}
+
+		const body = block[1];
+		const indent = body.match(/^([ \t]*)\S/m)?.[1] ?? `${block[2]}    `;
+		const rendered = lines.map(line => indent + line).join(eol);
+		const timestamps = body.search(/^[ \t]*\$table->timestamps\(\);/m);
+		const newBody = timestamps >= 0
+			? `${body.slice(0, timestamps)}${rendered}${eol}${body.slice(timestamps)}`
+			: `${body}${eol}${rendered}`;
+
+		const start = block.index + block[0].indexOf(body);
+		return content.slice(0, start) + newBody + content.slice(start + body.length);
+	}
+
+	/**
+	 * Replace the `//` placeholders of the up() and down() `Schema::table(...)` closures.
+	 */
+	private fillAlterStub(content: string, upLines: string[], downLines: string[], eol: string): string | undefined {
+		const placeholder = /(Schema::table\([^)]*function\s*\(Blueprint \$table\)\s*\{\r?\n)([ \t]*)\/\/\r?\n/g;
+		const matches = [...content.matchAll(placeholder)];
+		if (matches.length === 0) {
+			return undefined;
+		}
+
+		let index = 0;
+		return content.replace(placeholder, (_match, head: string, indent: string) => {
+			const lines = index++ === 0 ? upLines : downLines;
+			return head + (lines.length > 0 ? lines.map(line => indent + line).join(eol) + eol : `${indent}//${eol}`);
+		});
+	}
+
+	private renderDefault(value: string): string {
+		const trimmed = value.trim();
+		if (/^current_timestamp(\(\))?$/i.test(trimmed)) {
+			return '->useCurrent()';
+		}
+		if (/^(-?\d+(\.\d+)?|true|false|null)$/i.test(trimmed)) {
+			return `->default(${trimmed.toLowerCase()})`;
+		}
+		return `->default(${this.quote(trimmed.replace(/^(['"])(.*)\1$/, '$2'))})`;
+	}
+
+	private renderForeignActions(foreign: NonNullable<MigrationColumnDefinition['foreign']>): string {
+		let chain = '';
+		if (foreign.onDelete) {
+			chain += `->onDelete('${foreign.onDelete}')`;
+		}
+		if (foreign.onUpdate) {
+			chain += `->onUpdate('${foreign.onUpdate}')`;
+		}
+		return chain;
+	}
+
+	private quote(value: string): string {
+		return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+	}
+}
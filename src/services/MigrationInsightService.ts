@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerService } from './LoggerService';
+import { MigrationStatus } from './ArtisanService';
+import { GitService } from './GitService';
+import { WorkspaceService } from './WorkspaceService';
+import { findClosing, maskComments, resolveTableName, splitArguments } from '../utils/phpSource';
+
+export type MigrationInsightKind = 'new-on-branch' | 'out-of-order' | 'duplicate-class' | 'duplicate-table' | 'modified-after-run';
+
+export interface MigrationInsight {
+	kind: MigrationInsightKind;
+	severity: 'info' | 'warning';
+	message: string;
+}
+
+export interface MigrationInsightReport {
+	/** Insights keyed by migration name; migrations without findings are omitted. */
+	insights: Record<string, MigrationInsight[]>;
+	branch?: string;
+	/** Branch the current one is compared with, e.g. main or origin/main. */
+	baseBranch?: string;
+	/** Why the git-based checks were skipped, if they were. */
+	gitError?: string;
+	/** ISO date each migration file was added in git, or its modification time when git has no record. */
+	dates: Record<string, string>;
+}
+
+interface GitCommit {
+	hash: string;
+	date: string;
+	subject: string;
+}
+
+/**
+ * Team-oriented checks on the migration list:
+ * - migrations added since the branch diverged from the default branch
+ * - pending migrations dated before the last ran batch (Laravel will run them out of order)
+ * - duplicate class names and tables created by more than one migration
+ * - ran migrations whose file changed after the commit that added it
+ *
+ * Laravel does not record when a migration ran, so any later edit of a ran migration is reported.
+ */
+export class MigrationInsightService {
+	/**
+	 * Collect insights for the given migrations (as returned by ArtisanService.getMigrations()).
+	 */
+	public async getInsights(migrations: MigrationStatus[]): Promise<MigrationInsightReport> {
+		const report: MigrationInsightReport = { insights: {}, dates: {} };
+		const add = (name: string, insight: MigrationInsight) => {
+			(report.insights[name] ??= []).push(insight);
+		};
+
+		this.checkOrdering(migrations, add);
+		await this.checkDuplicates(migrations, add);
+
+		try {
+			await this.checkGitHistory(migrations, report, add);
+		} catch (err) {
+			report.gitError = err instanceof Error ? err.message : String(err);
+			LoggerService.warn('Skipping git-based migration insights', err);
+		}
+
+		await this.fillFileDates(migrations, report);
+		return report;
+	}
+
+	/**
+	 * Pending migrations named before the newest migration of the last batch run after it,
+	 * which usually means they were written on another branch.
+	 */
+	private checkOrdering(migrations: MigrationStatus[], add: (name: string, insight: MigrationInsight) => void): void {
+		const ran = migrations.filter(m => m.ran);
+		const lastBatch = Math.max(0, ...ran.map(m => m.batch ?? 0));
+		const newest = ran
+			.filter(m => (m.batch ?? 0) === lastBatch)
+			.map(m => m.name)
+			.sort()
+			.pop();
+
+		if (!newest) {
+			return;
+		}
+
+		for (const migration of migrations.filter(m => !m.ran && m.name < newest)) {
+			add(migration.name, {
+				kind: 'out-of-order',
+				severity: 'warning',
+				message: `Dated before ${newest} (batch ${lastBatch}) but not run yet; it will run after newer migrations`
+			});
+		}
+	}
+
+	/**
+	 * Named migration classes declared twice, and tables created again while they still exist.
+	 */
+	private async checkDuplicates(migrations: MigrationStatus[], add: (name: string, insight: MigrationInsight) => void): Promise<void> {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const classes = new Map<string, string[]>();
+		const tables = new Map<string, string>();
+
+		for (const migration of [...migrations].sort((a, b) => a.name.localeCompare(b.name))) {
+			if (!migration.path) {
+				continue;
+			}
+
+			let code: string;
+			try {
+				code = maskComments(await fs.promises.readFile(path.join(root, migration.path), 'utf8'));
+			} catch {
+				continue;
+			}
+
+			const className = code.match(/\bclass\s+(\w+)\s+extends\s+[\w\\]*Migration\b/)?.[1];
+			if (className) {
+				classes.set(className, [...(classes.get(className) ?? []), migration.name]);
+			}
+
+			for (const [operation, table] of this.upTableOperations(code)) {
+				if (operation !== 'create') {
+					tables.delete(table);
+					continue;
+				}
+				const creator = tables.get(table);
+				if (creator) {
+					add(migration.name, { kind: 'duplicate-table', severity: 'warning', message: `Creates table '${table}', which ${creator} already creates` });
+					add(creator, { kind: 'duplicate-table', severity: 'warning', message: `Table '${table}' is created again by ${migration.name}` });
+				}
+				tables.set(table, migration.name);
+			}
+		}
+
+		for (const [className, names] of classes) {
+			if (names.length < 2) {
+				continue;
+			}
+			for (const name of names) {
+				const others = names.filter(other => other !== name).join(', ');
+				add(name, { kind: 'duplicate-class', severity: 'warning', message: `Class ${className} is also declared in ${others}` });
+			}
+		}
+	}
+
+	/**
+	 * Schema::create / drop / dropIfExists calls in up(), in source order.
+	 */
+	private upTableOperations(code: string): [string, string][] {
+		const upMatch = /function\s+up\s*\(/.exec(code);
+		const bodyStart = upMatch ? code.indexOf('{', upMatch.index) : -1;
+		if (bodyStart < 0) {
+			return [];
+		}
+
+		const bodyEnd = findClosing(code, bodyStart);
+		const schemaCall = /Schema\s*::\s*(?:connection\s*\([^)]*\)\s*->\s*)?(create|drop|dropIfExists)\s*\(/g;
+		schemaCall.lastIndex = bodyStart;
+
+		const operations: [string, string][] = [];
+		let match: RegExpExecArray | null;
+		while ((match = schemaCall.exec(code)) !== null && match.index < bodyEnd) {
+			const openParen = match.index + match[0].length - 1;
+			const closeParen = findClosing(code, openParen);
+			const table = resolveTableName(splitArguments(code.slice(openParen + 1, closeParen))[0], code);
+			if (table) {
+				operations.push([match[1] === 'create' ? 'create' : 'drop', table]);
+			}
+			schemaCall.lastIndex = closeParen;
+		}
+		return operations;
+	}
+
+	/**
+	 * Branch additions and edits to ran migrations, from git history and the working tree.
+	 */
+	private async checkGitHistory(
+		migrations: MigrationStatus[],
+		report: MigrationInsightReport,
+		add: (name: string, insight: MigrationInsight) => void
+	): Promise<void> {
+		if (!(await GitService.isRepository())) {
+			throw new Error('The workspace is not a git repository');
+		}
+
+		const byPath = new Map(migrations.filter(m => m.path).map(m => [m.path as string, m]));
+		const directories = [...new Set(migrations.map(m => m.directory).filter((dir): dir is string => Boolean(dir) && !dir?.startsWith('..')))];
+		if (directories.length === 0) {
+			return;
+		}
+
+		report.branch = await GitService.getCurrentBranch();
+		report.baseBranch = await GitService.getDefaultBranch();
+		const mergeBase = report.baseBranch ? await GitService.getMergeBase(report.baseBranch) : undefined;
+
+		if (mergeBase) {
+			const added = [
+				...this.lines(await GitService.run(['diff', '--name-only', '--relative', '--diff-filter=A', mergeBase, '--', ...directories])),
+				...this.lines(await GitService.run(['ls-files', '--others', '--exclude-standard', '--', ...directories]))
+			];
+			for (const file of new Set(added)) {
+				const migration = byPath.get(file);
+				if (migration) {
+					add(migration.name, { kind: 'new-on-branch', severity: 'info', message: `Added since this branch diverged from ${report.baseBranch}` });
+				}
+			}
+		}
+
+		const { edits, added: addedAt } = await this.readHistory(directories);
+		for (const [file, date] of addedAt) {
+			const migration = byPath.get(file);
+			if (migration) {
+				report.dates[migration.name] = date;
+			}
+		}
+		const uncommitted = new Set(this.lines(await GitService.run(['diff', '--name-only', '--relative', 'HEAD', '--', ...directories])));
+
+		for (const migration of migrations.filter(m => m.ran && m.path)) {
+			const commits = edits.get(migration.path as string) ?? [];
+			if (commits.length > 0) {
+				const latest = commits[0];
+				add(migration.name, {
+					kind: 'modified-after-run',
+					severity: 'warning',
+					message: `Already ran, but changed in ${commits.length} commit${commits.length === 1 ? '' : 's'} after it was added ` +
+						`(latest ${latest.hash} on ${latest.date.slice(0, 10)}: ${latest.subject}). Existing databases keep the old version.`
+				});
+			}
+			if (uncommitted.has(migration.path as string)) {
+				add(migration.name, {
+					kind: 'modified-after-run',
+					severity: 'warning',
+					message: 'Already ran, but has uncommitted changes. Existing databases keep the old version.'
+				});
+			}
+		}
+	}
+
+	/**
+	 * When each migration file was first added, and the commits that modified it afterwards (newest first).
+	 */
+	private async readHistory(directories: string[]): Promise<{ edits: Map<string, GitCommit[]>; added: Map<string, string> }> {
+		const output = await GitService.run([
+			'log', '--no-renames', '--relative', '--name-status', '--format=%x1e%h%x1f%aI%x1f%s', '--', ...directories
+		]);
+
+		const edits = new Map<string, GitCommit[]>();
+		const added = new Map<string, string>();
+		for (const entry of output.split('\x1e').filter(Boolean)) {
+			const [header, ...files] = entry.split('\n');
+			const [hash, date, subject] = header.split('\x1f');
+			for (const line of files) {
+				const [status, file] = line.split('\t');
+				if (status === 'M' && file) {
+					edits.set(file, [...(edits.get(file) ?? []), { hash, date, subject }]);
+				} else if (status === 'A' && file) {
+					// The log is newest first, so the last addition seen is the original one
+					added.set(file, date);
+				}
+			}
+		}
+		return { edits, added };
+	}
+
+	/**
+	 * Fall back to file modification times for migrations git knows nothing about.
+	 */
+	private async fillFileDates(migrations: MigrationStatus[], report: MigrationInsightReport): Promise<void> {
+		const root = WorkspaceService.getWorkspaceRoot();
+		for (const migration of migrations.filter(m => m.path && !report.dates[m.name])) {
+			try {
+				const stats = await fs.promises.stat(path.join(root, migration.path as string));
+				report.dates[migration.name] = stats.mtime.toISOString();
+			} catch {
+				continue;
+			}
+		}
+	}
+
+	private lines(output: string): string[] {
+		return output.split('\n').map(line => line.trim()).filter(Boolean);
+	}
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+import { ProcessRunner } from './ProcessRunner';
+import { ExecutionEnvironmentService } from './ExecutionEnvironmentService';
+
+export interface MigrationFile {
+	/** Migration name as reported by `migrate:status` (file name without .php). */
+	name: string;
+	/** Absolute path on the host. */
+	path: string;
+	/** Path relative to the workspace root with forward slashes, suitable for `--path`. */
+	relativePath: string;
+	/** Directory relative to the workspace root, used to group migrations by source. */
+	directory: string;
+}
+
+/**
+ * Discovers migration files across every directory Laravel knows about:
+ * - database/migrations, including nested subfolders
+ * - paths registered with loadMigrationsFrom() (resolved by booting the app)
+ * - globs from the laravelHero.migrationPaths setting
+ */
+export class MigrationPathService {
+	/** Timeout for booting the app to read the migrator paths. */
+	private static readonly RESOLVE_TIMEOUT = 30_000;
+
+	/** Laravel only picks up files named like `<timestamp>_<name>.php`. */
+	private static readonly MIGRATION_FILE = /^[^_]+_.+\.php$/;
+
+	private static appPaths: string[] | undefined;
+
+	/**
+	 * List all migration files, ordered by name like Laravel's migrator.
+	 * When a name exists in several directories, the first directory found wins.
+	 * @param refresh - Re-read the paths registered in the application
+	 */
+	static async getMigrationFiles(refresh: boolean = false): Promise<MigrationFile[]> {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const files = new Map<string, MigrationFile>();
+		const add = (filePath: string) => {
+			const name = path.basename(filePath, '.php');
+			if (files.has(name)) {
+				return;
+			}
+			const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+			files.set(name, {
+				name,
+				path: filePath,
+				relativePath,
+				directory: path.posix.dirname(relativePath)
+			});
+		};
+
+		MigrationPathService.readDirectory(WorkspaceService.getMigrationsDir(), true).forEach(add);
+
+		for (const dir of await MigrationPathService.getApplicationPaths(refresh)) {
+			MigrationPathService.readDirectory(dir, false).forEach(add);
+		}
+
+		for (const filePath of await MigrationPathService.findConfiguredFiles()) {
+			add(filePath);
+		}
+
+		return [...files.values()].sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Find a single migration file by name.
+	 */
+	static async findMigration(name: string): Promise<MigrationFile | undefined> {
+		const files = await MigrationPathService.getMigrationFiles();
+		return files.find(f => f.name === name);
+	}
+
+	/**
+	 * Directories registered with the migrator (`loadMigrationsFrom()`), mapped to host paths.
+	 * Results are cached until the next refresh; failures fall back to no extra paths.
+	 */
+	private static async getApplicationPaths(refresh: boolean): Promise<string[]> {
+		if (MigrationPathService.appPaths && !refresh) {
+			return MigrationPathService.appPaths;
+		}
+
+		try {
+			const result = await ProcessRunner.laravelScript(
+				'echo json_encode(array_values(app("migrator")->paths()));',
+				{ silent: true, timeout: MigrationPathService.RESOLVE_TIMEOUT }
+			);
+			const reported = JSON.parse(result.stdout.trim());
+			MigrationPathService.appPaths = Array.isArray(reported)
+				? reported.map((dir: string) => ExecutionEnvironmentService.toHostPath(String(dir)))
+				: [];
+			LoggerService.debug('Resolved migration paths from application', MigrationPathService.appPaths);
+		} catch (err) {
+			LoggerService.warn('Could not resolve migration paths from the application', err instanceof Error ? err.message : err);
+			MigrationPathService.appPaths = MigrationPathService.appPaths ?? [];
+		}
+
+		return MigrationPathService.appPaths;
+	}
+
+	/**
+	 * Expand laravelHero.migrationPaths. Entries may be globs of directories or of .php files.
+	 */
+	private static async findConfiguredFiles(): Promise<string[]> {
+		const patterns = vscode.workspace.getConfiguration('laravelHero').get<string[]>('migrationPaths') || [];
+		if (patterns.length === 0) {
+			return [];
+		}
+
+		const root = WorkspaceService.getWorkspaceRoot();
+		const found: string[] = [];
+
+		for (const raw of patterns) {
+			const pattern = raw.trim().replace(/\\/g, '/').replace(/\/+$/, '');
+			if (!pattern) {
+				continue;
+			}
+			const glob = pattern.endsWith('.php') ? pattern : `${pattern}/*.php`;
+			const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(root, glob), '**/node_modules/**');
+			found.push(...uris
+				.map(uri => uri.fsPath)
+				.filter(filePath => MigrationPathService.MIGRATION_FILE.test(path.basename(filePath)))
+				.sort());
+		}
+
+		return found;
+	}
+
+	/**
+	 * Read migration files from a directory, optionally descending into subfolders.
+	 */
+	private static readDirectory(dir: string, recursive: boolean): string[] {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(dir, { withFileTypes: true });
+		} catch {
+			return [];
+		}
+
+		const files: string[] = [];
+		for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isFile() && MigrationPathService.MIGRATION_FILE.test(entry.name)) {
+				files.push(fullPath);
+			} else if (recursive && entry.isDirectory()) {
+				files.push(...MigrationPathService.readDirectory(fullPath, true));
+			}
+		}
+
+		return files;
+	}
+}
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import { LoggerService } from './LoggerService';
+import { MigrationFile } from './MigrationPathService';
+import {
+	findClosing,
+	findStatementEnd,
+	lineAt,
+	maskComments,
+	parseChain,
+	resolveTableName,
+	splitArguments,
+	stringArg,
+	stringListArgs
+} from '../utils/phpSource';
+
+export type MigrationRiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export type RiskFindingKind = 'drop-table' | 'drop-column' | 'drop-foreign' | 'raw-drop' | 'empty-down' | 'missing-down';
+
+export interface RiskFinding {
+	kind: RiskFindingKind;
+	level: MigrationRiskLevel;
+	table?: string;
+	columns: string[];
+	/** 1-based line in the migration file. */
+	line: number;
+	message: string;
+}
+
+export interface MigrationRisk {
+	migration: string;
+	/** Highest level among the findings. */
+	level: MigrationRiskLevel;
+	findings: RiskFinding[];
+}
+
+/**
+ * Estimates what rolling back a migration destroys by reading its down() method:
+ * dropped tables, dropped columns, dropped foreign keys and raw DROP / TRUNCATE statements.
+ * An empty or missing down() is reported too, since the rollback then leaves up()'s changes behind.
+ */
+export class MigrationRiskService {
+	private static readonly LEVELS: MigrationRiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+	/** Blueprint methods that drop columns, with the columns they drop when not given explicitly. */
+	private static readonly COLUMN_DROPS: Record<string, (args: string[]) => string[]> = {
+		dropColumn: args => stringListArgs(args),
+		dropConstrainedForeignId: args => stringListArgs(args.slice(0, 1)),
+		dropConstrainedForeignIdFor: () => [],
+		dropMorphs: args => {
+			const name = stringArg(args[0]);
+			return name ? [`${name}_type`, `${name}_id`] : [];
+		},
+		dropTimestamps: () => ['created_at', 'updated_at'],
+		dropTimestampsTz: () => ['created_at', 'updated_at'],
+		dropSoftDeletes: args => [stringArg(args[0]) ?? 'deleted_at'],
+		dropSoftDeletesTz: args => [stringArg(args[0]) ?? 'deleted_at'],
+		dropRememberToken: () => ['remember_token']
+	};
+
+	/**
+	 * Analyze every given migration file. Unreadable files are skipped.
+	 */
+	public async analyzeMigrations(files: MigrationFile[]): Promise<Map<string, MigrationRisk>> {
+		const risks = new Map<string, MigrationRisk>();
+		for (const file of files) {
+			try {
+				risks.set(file.name, this.analyzeSource(file.name, await fs.promises.readFile(file.path, 'utf8')));
+			} catch (err) {
+				LoggerService.warn(`Could not analyze rollback risk of ${file.name}`, err);
+			}
+		}
+		return risks;
+	}
+
+	/**
+	 * Analyze the down() method of one migration's source.
+	 */
+	public analyzeSource(migration: string, content: string): MigrationRisk {
+		const code = maskComments(content);
+		const downMatch = /function\s+down\s*\(/.exec(code);
+		const bodyStart = downMatch ? code.indexOf('{', downMatch.index) : -1;
+
+		if (!downMatch || bodyStart < 0) {
+			return this.result(migration, [{
+				kind: 'missing-down',
+				level: 'medium',
+				columns: [],
+				line: 1,
+				message: 'No down() method: rolling back only removes the migration record and leaves its changes in place'
+			}]);
+		}
+
+		const bodyEnd = findClosing(code, bodyStart);
+		if (!code.slice(bodyStart + 1, bodyEnd).trim()) {
+			return this.result(migration, [{
+				kind: 'empty-down',
+				level: 'medium',
+				columns: [],
+				line: lineAt(content, downMatch.index),
+				message: 'down() is empty: rolling back only removes the migration record and leaves its changes in place'
+			}]);
+		}
+
+		return this.result(migration, [
+			...this.schemaFindings(content, code, bodyStart, bodyEnd),
+			...this.rawFindings(content, code, bodyStart, bodyEnd)
+		].sort((a, b) => a.line - b.line));
+	}
+
+	/**
+	 * Highest level among several migrations, e.g. everything a multi-step rollback touches.
+	 */
+	public highestLevel(risks: MigrationRisk[]): MigrationRiskLevel {
+		return risks.reduce<MigrationRiskLevel>((level, risk) => this.max(level, risk.level), 'none');
+	}
+
+	/**
+	 * Plain-text summary for confirmation dialogs, or undefined when nothing risky was found.
+	 */
+	public describe(risks: MigrationRisk[]): string | undefined {
+		const risky = risks.filter(risk => risk.level !== 'none');
+		if (risky.length === 0) {
+			return undefined;
+		}
+
+		const lines = [`Data-loss risk: ${this.highestLevel(risky).toUpperCase()}`];
+		for (const risk of risky) {
+			const prefix = risks.length > 1 ? `${risk.migration}: ` : '';
+			risk.findings.forEach(finding => lines.push(`• ${prefix}${finding.message} (line ${finding.line})`));
+		}
+		return lines.join('\n');
+	}
+
+	/**
+	 * Drops made through the Schema facade and Blueprint closures.
+	 */
+	private schemaFindings(content: string, code: string, start: number, end: number): RiskFinding[] {
+		const findings: RiskFinding[] = [];
+		const schemaCall = /Schema\s*::\s*(?:connection\s*\([^)]*\)\s*->\s*)?(create|table|drop|dropIfExists|dropColumns)\s*\(/g;
+		schemaCall.lastIndex = start;
+
+		let match: RegExpExecArray | null;
+		while ((match = schemaCall.exec(code)) !== null && match.index < end) {
+			const openParen = match.index + match[0].length - 1;
+			const closeParen = findClosing(code, openParen);
+			const args = splitArguments(code.slice(openParen + 1, closeParen));
+			const table = resolveTableName(args[0], code) ?? args[0] ?? '?';
+			const line = lineAt(content, match.index);
+
+			switch (match[1]) {
+				case 'drop':
+				case 'dropIfExists':
+					findings.push({ kind: 'drop-table', level: 'high', table, columns: [], line, message: `Drops table '${table}' and all of its rows` });
+					break;
+				case 'dropColumns': {
+					const columns = stringListArgs(args.slice(1));
+					findings.push(this.columnFinding(table, columns, line));
+					break;
+				}
+				default:
+					findings.push(...this.blueprintFindings(table, content, code, openParen + 1, closeParen));
+			}
+
+			schemaCall.lastIndex = closeParen;
+		}
+
+		return findings;
+	}
+
+	/**
+	 * Drop statements inside a Schema::table/create closure.
+	 */
+	private blueprintFindings(table: string, content: string, code: string, start: number, end: number): RiskFinding[] {
+		const region = code.slice(start, end);
+		const paramMatch = region.match(/(?:function|fn)\s*\(\s*(?:[\w\\]+\s+)?\$(\w+)/);
+		if (!paramMatch) {
+			return [];
+		}
+
+		const findings: RiskFinding[] = [];
+		const statementStart = new RegExp(`\\$${paramMatch[1]}\\s*->`, 'g');
+		statementStart.lastIndex = start + (paramMatch.index ?? 0) + paramMatch[0].length;
+
+		let match: RegExpExecArray | null;
+		while ((match = statementStart.exec(code)) !== null && match.index < end) {
+			const statementEnd = findStatementEnd(code, match.index, end);
+			const [head] = parseChain(code.slice(match.index + match[0].length - 2, statementEnd));
+			const line = lineAt(content, match.index);
+
+			if (head && MigrationRiskService.COLUMN_DROPS[head.method]) {
+				findings.push(this.columnFinding(table, MigrationRiskService.COLUMN_DROPS[head.method](head.args), line, head.method));
+			}
+			if (head && /^(dropForeign|dropConstrainedForeignId|dropConstrainedForeignIdFor)$/.test(head.method)) {
+				const key = head.method === 'dropForeign' ? (stringArg(head.args[0]) ?? stringListArgs(head.args).join(', ')) : '';
+				findings.push({
+					kind: 'drop-foreign',
+					level: 'low',
+					table,
+					columns: head.method === 'dropForeign' ? stringListArgs(head.args) : [],
+					line,
+					message: `Drops foreign key${key ? ` ${key}` : ''} on '${table}'; referential integrity is no longer enforced`
+				});
+			}
+			statementStart.lastIndex = statementEnd;
+		}
+
+		return findings;
+	}
+
+	/**
+	 * Raw SQL run through DB::statement / DB::unprepared / DB::delete.
+	 */
+	private rawFindings(content: string, code: string, start: number, end: number): RiskFinding[] {
+		const findings: RiskFinding[] = [];
+		const rawCall = /DB\s*::\s*(?:connection\s*\([^)]*\)\s*->\s*)?(statement|unprepared|delete)\s*\(/g;
+		rawCall.lastIndex = start;
+
+		let match: RegExpExecArray | null;
+		while ((match = rawCall.exec(code)) !== null && match.index < end) {
+			const openParen = match.index + match[0].length - 1;
+			const closeParen = findClosing(code, openParen);
+			const [first] = splitArguments(code.slice(openParen + 1, closeParen));
+			const sql = stringArg(first) ?? first ?? '';
+			const line = lineAt(content, match.index);
+			const table = sql.match(/\b(?:drop\s+table|truncate(?:\s+table)?|alter\s+table|delete\s+from)\s+(?:if\s+exists\s+)?[`"[]?([\w.]+)/i)?.[1];
+
+			let level: MigrationRiskLevel | undefined;
+			if (/\b(drop\s+(table|database|schema)|truncate)\b/i.test(sql)) {
+				level = 'high';
+			} else if (/\b(drop\s+column|delete\s+from)\b/i.test(sql) || match[1] === 'delete') {
+				level = 'medium';
+			} else if (/\bdrop\s+\w+/i.test(sql)) {
+				level = 'low';
+			}
+
+			if (level) {
+				const statement = sql.replace(/\s+/g, ' ').trim();
+				findings.push({
+					kind: 'raw-drop',
+					level,
+					table,
+					columns: [],
+					line,
+					message: `Raw SQL: ${statement.length > 80 ? `${statement.slice(0, 77)}...` : statement}`
+				});
+			}
+			rawCall.lastIndex = closeParen;
+		}
+
+		return findings;
+	}
+
+	private columnFinding(table: string, columns: string[], line: number, method: string = 'dropColumn'): RiskFinding {
+		const list = columns.length > 0 ? columns.map(column => `'${column}'`).join(', ') : `the columns of ${method}()`;
+		return {
+			kind: 'drop-column',
+			level: 'medium',
+			table,
+			columns,
+			line,
+			message: `Drops ${list} from '${table}' with their data`
+		};
+	}
+
+	private result(migration: string, findings: RiskFinding[]): MigrationRisk {
+		return {
+			migration,
+			level: findings.reduce<MigrationRiskLevel>((level, finding) => this.max(level, finding.level), 'none'),
+			findings
+		};
+	}
+
+	private max(a: MigrationRiskLevel, b: MigrationRiskLevel): MigrationRiskLevel {
+		return MigrationRiskService.LEVELS.indexOf(a) >= MigrationRiskService.LEVELS.indexOf(b) ? a : b;
+	}
+}
@@ -0,0 +1,96 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { SnapshotContext, SnapshotInfo, SnapshotService } from './SnapshotService';
+
+/**
+ * The steps every migration command goes through, whether it starts in the Migrations panel or from a
+ * migration file: one run at a time across the workspace, and a snapshot first when
+ * laravelHero.snapshotBeforeMigrate is on.
+ */
+export class MigrationRunService {
+	private static readonly snapshots = new SnapshotService();
+	private static active: vscode.CancellationTokenSource | undefined;
+
+	/**
+	 * Whether a migration command is running.
+	 */
+	static isRunning(): boolean {
+		return MigrationRunService.active !== undefined;
+	}
+
+	/**
+	 * Claim the run lock, throwing when another migration command is still running.
+	 * @returns a token source that cancels the run; hand it back to finish()
+	 */
+	static start(): vscode.CancellationTokenSource {
+		if (MigrationRunService.active) {
+			throw new Error('Another migration command is still running. Cancel it or wait for it to finish.');
+		}
+		MigrationRunService.active = new vscode.CancellationTokenSource();
+		return MigrationRunService.active;
+	}
+
+	/**
+	 * Release the run lock taken by start().
+	 */
+	static finish(source: vscode.CancellationTokenSource): void {
+		if (MigrationRunService.active === source) {
+			MigrationRunService.active = undefined;
+		}
+		source.dispose();
+	}
+
+	/**
+	 * Cancel the running migration command, if any.
+	 */
+	static cancel(): void {
+		if (!MigrationRunService.active) {
+			return;
+		}
+		LoggerService.info('Cancelling active migration command');
+		MigrationRunService.active.cancel();
+	}
+
+	/**
+	 * Snapshot the connection before a run when "snapshot before run" is on.
+	 * @returns false when the snapshot failed and the user chose not to run without one
+	 */
+	static async snapshotBeforeRun(context: Omit<SnapshotContext, 'token'>): Promise<boolean> {
+		if (!MigrationRunService.snapshots.isEnabled()) {
+			return true;
+		}
+		if (await MigrationRunService.takeSnapshot(context)) {
+			return true;
+		}
+
+		const answer = await vscode.window.showWarningMessage(
+			'The snapshot could not be created. Continue without one?',
+			{ modal: true, detail: 'Without a snapshot, data removed by this run can only be recovered from your own backups.' },
+			'Continue'
+		);
+		return answer === 'Continue';
+	}
+
+	/**
+	 * Snapshot a connection with a cancellable progress notification.
+	 * @returns the snapshot, or undefined when it failed or was cancelled
+	 */
+	static async takeSnapshot(context: Omit<SnapshotContext, 'token'>): Promise<SnapshotInfo | undefined> {
+		const connectionLabel = context.connection ?? 'default connection';
+
+		try {
+			const snapshot = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: `Creating database snapshot (${connectionLabel})`, cancellable: true },
+				(_progress, token) => MigrationRunService.snapshots.createSnapshot({ ...context, token })
+			);
+			vscode.window.showInformationMessage(`✓ Snapshot saved: ${path.basename(snapshot.file)}`);
+			return snapshot;
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to create snapshot', err);
+			vscode.window.showErrorMessage(`Failed to create snapshot: ${errorMsg}`);
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,791 @@
+import * as fs from 'fs';
+import { LoggerService } from './LoggerService';
+import { MigrationFile, MigrationPathService } from './MigrationPathService';
+import {
+	ChainCall,
+	findClosing,
+	findStatementEnd,
+	lineAt,
+	maskComments,
+	parseChain,
+	resolveTableName,
+	splitArguments,
+	stringArg,
+	stringListArg,
+	stringListArgs
+} from '../utils/phpSource';
+
+/**
+ * Location in a migration file that introduced or changed part of the schema.
+ */
+export interface SchemaSource {
+	migration: string;
+	/** Path relative to the workspace root. */
+	path: string;
+	/** 1-based line number. */
+	line: number;
+}
+
+export interface SchemaColumn {
+	name: string;
+	/** Blueprint type, e.g. string, bigInteger, decimal. */
+	type: string;
+	/** Type arguments as written, e.g. "100" for string('name', 100). */
+	params?: string;
+	nullable: boolean;
+	/** Default value as written in PHP, e.g. 'draft' or 0. */
+	default?: string;
+	unsigned: boolean;
+	autoIncrement: boolean;
+	/** Other modifiers (useCurrent, comment, charset...). */
+	modifiers: string[];
+	source: SchemaSource;
+	/** Later migrations that changed this column with ->change(). */
+	changedBy: SchemaSource[];
+}
+
+export type SchemaIndexType = 'primary' | 'unique' | 'index' | 'fulltext' | 'spatial';
+
+export interface SchemaIndex {
+	name: string;
+	type: SchemaIndexType;
+	columns: string[];
+	source: SchemaSource;
+}
+
+export interface SchemaForeignKey {
+	name: string;
+	columns: string[];
+	references: string[];
+	on: string;
+	onDelete?: string;
+	onUpdate?: string;
+	source: SchemaSource;
+}
+
+export interface SchemaTable {
+	name: string;
+	columns: SchemaColumn[];
+	indexes: SchemaIndex[];
+	foreignKeys: SchemaForeignKey[];
+	createdBy?: SchemaSource;
+	/** Migrations that altered the table after it was created. */
+	modifiedBy: SchemaSource[];
+}
+
+export interface MigrationSchemaResult {
+	tables: SchemaTable[];
+	migrationCount: number;
+	warnings: string[];
+}
+
+/** Column definitions produced by a Blueprint helper, before chain modifiers are applied. */
+type ColumnDraft = Omit<SchemaColumn, 'source' | 'changedBy'>;
+
+/**
+ * Builds the table structure implied by migration files, without a database connection.
+ * Parses the `up()` method of every migration in run order and replays
+ * Schema::create / Schema::table blueprints, renames and drops.
+ */
+export class MigrationSchemaService {
+	/** Blueprint methods that define a single column, mapped to [type, unsigned, autoIncrement]. */
+	private static readonly COLUMN_TYPES: Record<string, [string, boolean, boolean]> = {
+		id: ['bigInteger', true, true],
+		increments: ['integer', true, true],
+		integerIncrements: ['integer', true, true],
+		tinyIncrements: ['tinyInteger', true, true],
+		smallIncrements: ['smallInteger', true, true],
+		mediumIncrements: ['mediumInteger', true, true],
+		bigIncrements: ['bigInteger', true, true],
+		integer: ['integer', false, false],
+		tinyInteger: ['tinyInteger', false, false],
+		smallInteger: ['smallInteger', false, false],
+		mediumInteger: ['mediumInteger', false, false],
+		bigInteger: ['bigInteger', false, false],
+		unsignedInteger: ['integer', true, false],
+		unsignedTinyInteger: ['tinyInteger', true, false],
+		unsignedSmallInteger: ['smallInteger', true, false],
+		unsignedMediumInteger: ['mediumInteger', true, false],
+		unsignedBigInteger: ['bigInteger', true, false],
+		foreignId: ['bigInteger', true, false],
+		foreignUuid: ['uuid', false, false],
+		foreignUlid: ['ulid', false, false],
+		float: ['float', false, false],
+		double: ['double', false, false],
+		decimal: ['decimal', false, false],
+		unsignedFloat: ['float', true, false],
+		unsignedDouble: ['double', true, false],
+		unsignedDecimal: ['decimal', true, false],
+		boolean: ['boolean', false, false],
+		char: ['char', false, false],
+		string: ['string', false, false],
+		tinyText: ['tinyText', false, false],
+		text: ['text', false, false],
+		mediumText: ['mediumText', false, false],
+		longText: ['longText', false, false],
+		enum: ['enum', false, false],
+		set: ['set', false, false],
+		json: ['json', false, false],
+		jsonb: ['jsonb', false, false],
+		date: ['date', false, false],
+		dateTime: ['dateTime', false, false],
+		dateTimeTz: ['dateTimeTz', false, false],
+		time: ['time', false, false],
+		timeTz: ['timeTz', false, false],
+		timestamp: ['timestamp', false, false],
+		timestampTz: ['timestampTz', false, false],
+		year: ['year', false, false],
+		binary: ['binary', false, false],
+		uuid: ['uuid', false, false],
+		ulid: ['ulid', false, false],
+		ipAddress: ['ipAddress', false, false],
+		macAddress: ['macAddress', false, false],
+		geometry: ['geometry', false, false],
+		geography: ['geography', false, false],
+		point: ['point', false, false],
+		lineString: ['lineString', false, false],
+		polygon: ['polygon', false, false],
+		multiPoint: ['multiPoint', false, false],
+		multiLineString: ['multiLineString', false, false],
+		multiPolygon: ['multiPolygon', false, false],
+		computed: ['computed', false, false],
+		vector: ['vector', false, false]
+	};
+
+	/** Methods whose first argument is not the column name, or that have no default name. */
+	private static readonly DEFAULT_COLUMN_NAMES: Record<string, string> = {
+		id: 'id',
+		ipAddress: 'ip_address',
+		macAddress: 'mac_address'
+	};
+
+	private static readonly INDEX_METHODS: Record<string, SchemaIndexType> = {
+		primary: 'primary',
+		unique: 'unique',
+		index: 'index',
+		fullText: 'fulltext',
+		fulltext: 'fulltext',
+		spatialIndex: 'spatial'
+	};
+
+	private static readonly DROP_INDEX_METHODS: Record<string, SchemaIndexType> = {
+		dropPrimary: 'primary',
+		dropUnique: 'unique',
+		dropIndex: 'index',
+		dropFullText: 'fulltext',
+		dropSpatialIndex: 'spatial'
+	};
+
+	/** Chain methods that only describe placement or metadata; kept as modifiers for display. */
+	private static readonly DISPLAY_MODIFIERS = new Set([
+		'useCurrent', 'useCurrentOnUpdate', 'comment', 'charset', 'collation', 'storedAs', 'virtualAs',
+		'generatedAs', 'always', 'invisible', 'autoIncrement', 'from', 'startingValue', 'isGeometry', 'projection', 'srid'
+	]);
+
+	/**
+	 * Replay every migration's up() and return the resulting tables.
+	 * @param files - Migrations to replay, in order; defaults to every migration file in the workspace
+	 */
+	public async getSchema(files?: MigrationFile[]): Promise<MigrationSchemaResult> {
+		files ??= await MigrationPathService.getMigrationFiles();
+		const tables = new Map<string, SchemaTable>();
+		const warnings: string[] = [];
+
+		for (const file of files) {
+			try {
+				const content = await fs.promises.readFile(file.path, 'utf8');
+				this.applyMigration(file, content, tables, warnings);
+			} catch (err) {
+				LoggerService.warn(`Failed to parse migration ${file.name}`, err);
+				warnings.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+			}
+		}
+
+		return {
+			tables: [...tables.values()].sort((a, b) => a.name.localeCompare(b.name)),
+			migrationCount: files.length,
+			warnings
+		};
+	}
+
+	/**
+	 * Apply the Schema calls found in one migration's up() method.
+	 */
+	private applyMigration(file: MigrationFile, content: string, tables: Map<string, SchemaTable>, warnings: string[]): void {
+		const code = maskComments(content);
+		const upMatch = /function\s+up\s*\(/.exec(code);
+		if (!upMatch) {
+			return;
+		}
+
+		const bodyStart = code.indexOf('{', upMatch.index);
+		if (bodyStart < 0) {
+			return;
+		}
+		const bodyEnd = findClosing(code, bodyStart);
+		const schemaCall = /Schema\s*::\s*(?:connection\s*\([^)]*\)\s*->\s*)?(create|table|drop|dropIfExists|rename|dropColumns)\s*\(/g;
+		schemaCall.lastIndex = bodyStart;
+
+		let match: RegExpExecArray | null;
+		while ((match = schemaCall.exec(code)) !== null && match.index < bodyEnd) {
+			const openParen = match.index + match[0].length - 1;
+			const closeParen = findClosing(code, openParen);
+			const args = splitArguments(code.slice(openParen + 1, closeParen));
+			const source = this.sourceAt(file, content, match.index);
+			const tableName = resolveTableName(args[0], code);
+
+			if (!tableName) {
+				warnings.push(`${file.name}:${source.line}: could not resolve table name ${args[0] ?? ''}`.trim());
+				schemaCall.lastIndex = closeParen;
+				continue;
+			}
+
+			switch (match[1]) {
+				case 'create': {
+					const table: SchemaTable = { name: tableName, columns: [], indexes: [], foreignKeys: [], createdBy: source, modifiedBy: [] };
+					tables.set(tableName, table);
+					this.applyBlueprint(table, file, content, code, openParen + 1, closeParen, tables, warnings);
+					break;
+				}
+				case 'table': {
+					let table = tables.get(tableName);
+					if (!table) {
+						warnings.push(`${file.name}:${source.line}: alters '${tableName}', which no earlier migration creates`);
+						table = { name: tableName, columns: [], indexes: [], foreignKeys: [], modifiedBy: [] };
+						tables.set(tableName, table);
+					}
+					this.addModifiedBy(table, source);
+					this.applyBlueprint(table, file, content, code, openParen + 1, closeParen, tables, warnings);
+					break;
+				}
+				case 'drop':
+				case 'dropIfExists':
+					tables.delete(tableName);
+					break;
+				case 'rename': {
+					const newName = stringArg(args[1]);
+					const table = tables.get(tableName);
+					if (table && newName) {
+						tables.delete(tableName);
+						table.name = newName;
+						this.addModifiedBy(table, source);
+						tables.set(newName, table);
+					}
+					break;
+				}
+				case 'dropColumns': {
+					const table = tables.get(tableName);
+					if (table) {
+						this.dropColumns(table, stringListArgs(args.slice(1)));
+						this.addModifiedBy(table, source);
+					}
+					break;
+				}
+			}
+
+			schemaCall.lastIndex = closeParen;
+		}
+	}
+
+	/**
+	 * Replay `$table->...` statements from the closure inside a Schema::create/table call.
+	 * `start`/`end` delimit the call arguments in the masked code.
+	 */
+	private applyBlueprint(
+		table: SchemaTable,
+		file: MigrationFile,
+		content: string,
+		code: string,
+		start: number,
+		end: number,
+		tables: Map<string, SchemaTable>,
+		warnings: string[]
+	): void {
+		const region = code.slice(start, end);
+		const paramMatch = region.match(/(?:function|fn)\s*\(\s*(?:[\w\\]+\s+)?\$(\w+)/);
+		if (!paramMatch) {
+			return;
+		}
+
+		const variable = paramMatch[1];
+		const statementStart = new RegExp(`\\$${variable}\\s*->`, 'g');
+		statementStart.lastIndex = start + (paramMatch.index ?? 0) + paramMatch[0].length;
+
+		let match: RegExpExecArray | null;
+		while ((match = statementStart.exec(code)) !== null && match.index < end) {
+			const statementEnd = findStatementEnd(code, match.index, end);
+			const chain = parseChain(code.slice(match.index + match[0].length - 2, statementEnd));
+			const source = this.sourceAt(file, content, match.index);
+
+			if (chain.length > 0) {
+				this.applyStatement(table, chain, source, tables, warnings);
+			}
+			statementStart.lastIndex = statementEnd;
+		}
+	}
+
+	/**
+	 * Apply one `$table->first(...)->modifier(...)` statement.
+	 */
+	private applyStatement(
+		table: SchemaTable,
+		chain: ChainCall[],
+		source: SchemaSource,
+		tables: Map<string, SchemaTable>,
+		warnings: string[]
+	): void {
+		const [head, ...modifiers] = chain;
+		const method = head.method;
+		const args = head.args;
+
+		const drafts = this.columnDrafts(method, args, table.name);
+		if (drafts) {
+			this.applyColumns(table, drafts, method, args, modifiers, source);
+			return;
+		}
+
+		if (MigrationSchemaService.INDEX_METHODS[method]) {
+			const columns = stringListArg(args[0]);
+			const type = MigrationSchemaService.INDEX_METHODS[method];
+			this.addIndex(table, type, columns, stringArg(args[1]), source);
+			return;
+		}
+
+		if (MigrationSchemaService.DROP_INDEX_METHODS[method]) {
+			const type = MigrationSchemaService.DROP_INDEX_METHODS[method];
+			const name = this.indexNameFromArg(table.name, type, args[0]);
+			table.indexes = table.indexes.filter(index =>
+				name ? index.name !== name : index.type !== type
+			);
+			return;
+		}
+
+		switch (method) {
+			case 'foreign': {
+				const columns = stringListArg(args[0]);
+				this.addForeignKey(table, columns, stringArg(args[1]), modifiers, source);
+				return;
+			}
+			case 'dropForeign': {
+				const name = this.indexNameFromArg(table.name, 'foreign', args[0]);
+				table.foreignKeys = table.foreignKeys.filter(fk => fk.name !== name);
+				return;
+			}
+			case 'dropConstrainedForeignId': {
+				const column = stringArg(args[0]);
+				if (column) {
+					const name = this.defaultIndexName(table.name, 'foreign', [column]);
+					table.foreignKeys = table.foreignKeys.filter(fk => fk.name !== name);
+					this.dropColumns(table, [column]);
+				}
+				return;
+			}
+			case 'dropColumn':
+				this.dropColumns(table, stringListArgs(args));
+				return;
+			case 'dropTimestamps':
+			case 'dropTimestampsTz':
+				this.dropColumns(table, ['created_at', 'updated_at']);
+				return;
+			case 'dropSoftDeletes':
+			case 'dropSoftDeletesTz':
+				this.dropColumns(table, [stringArg(args[0]) ?? 'deleted_at']);
+				return;
+			case 'dropRememberToken':
+				this.dropColumns(table, ['remember_token']);
+				return;
+			case 'dropMorphs': {
+				const name = stringArg(args[0]);
+				if (name) {
+					this.dropColumns(table, [`${name}_type`, `${name}_id`]);
+				}
+				return;
+			}
+			case 'renameColumn': {
+				const from = stringArg(args[0]);
+				const to = stringArg(args[1]);
+				if (from && to) {
+					this.renameColumn(table, from, to);
+				}
+				return;
+			}
+			case 'renameIndex': {
+				const from = stringArg(args[0]);
+				const to = stringArg(args[1]);
+				const index = table.indexes.find(i => i.name === from);
+				if (index && to) {
+					index.name = to;
+				}
+				return;
+			}
+			case 'rename': {
+				const to = stringArg(args[0]);
+				if (to) {
+					tables.delete(table.name);
+					table.name = to;
+					tables.set(to, table);
+				}
+				return;
+			}
+			case 'drop':
+			case 'dropIfExists':
+				tables.delete(table.name);
+				return;
+			case 'engine':
+			case 'charset':
+			case 'collation':
+			case 'temporary':
+			case 'comment':
+				return;
+		}
+
+		warnings.push(`${source.migration}:${source.line}: unrecognised blueprint method '${method}'`);
+	}
+
+	/**
+	 * Expand a column-defining Blueprint call into the columns it creates.
+	 * Returns undefined when the method does not define columns.
+	 */
+	private columnDrafts(method: string, args: string[], tableName: string): ColumnDraft[] | undefined {
+		const draft = (name: string, type: string, extra: Partial<ColumnDraft> = {}): ColumnDraft => ({
+			name,
+			type,
+			nullable: false,
+			unsigned: false,
+			autoIncrement: false,
+			modifiers: [],
+			...extra
+		});
+
+		switch (method) {
+			case 'timestamps':
+			case 'nullableTimestamps':
+			case 'timestampsTz': {
+				const type = method === 'timestampsTz' ? 'timestampTz' : 'timestamp';
+				const params = args[0];
+				return [
+					draft('created_at', type, { nullable: true, params }),
+					draft('updated_at', type, { nullable: true, params })
+				];
+			}
+			case 'softDeletes':
+			case 'softDeletesTz':
+				return [draft(stringArg(args[0]) ?? 'deleted_at', method === 'softDeletesTz' ? 'timestampTz' : 'timestamp', { nullable: true, params: args[1] })];
+			case 'rememberToken':
+				return [draft('remember_token', 'string', { nullable: true, params: '100' })];
+			case 'morphs':
+			case 'nullableMorphs':
+			case 'uuidMorphs':
+			case 'nullableUuidMorphs':
+			case 'ulidMorphs':
+			case 'nullableUlidMorphs': {
+				const name = stringArg(args[0]) ?? 'morphable';
+				const nullable = method.startsWith('nullable');
+				const idType = /uuid/i.test(method) ? 'uuid' : (/ulid/i.test(method) ? 'ulid' : 'bigInteger');
+				return [
+					draft(`${name}_type`, 'string', { nullable }),
+					draft(`${name}_id`, idType, { nullable, unsigned: idType === 'bigInteger' })
+				];
+			}
+			case 'foreignIdFor': {
+				const model = (args[0] ?? '').replace(/::class$/, '').split('\\').pop() || 'model';
+				const name = stringArg(args[1]) ?? `${this.snakeCase(model)}_id`;
+				return [draft(name, 'bigInteger', { unsigned: true })];
+			}
+		}
+
+		const definition = MigrationSchemaService.COLUMN_TYPES[method];
+		if (!definition) {
+			return undefined;
+		}
+
+		const [type, unsigned, autoIncrement] = definition;
+		const name = stringArg(args[0]) ?? MigrationSchemaService.DEFAULT_COLUMN_NAMES[method];
+		if (!name) {
+			return undefined;
+		}
+
+		const params = this.columnParams(method, args.slice(1));
+		return [draft(name, type, { unsigned, autoIncrement, params })];
+	}
+
+	/**
+	 * Type arguments worth showing, e.g. string length, decimal precision or enum values.
+	 */
+	private columnParams(method: string, rest: string[]): string | undefined {
+		if (method === 'enum' || method === 'set') {
+			return rest[0];
+		}
+		if (['string', 'char', 'decimal', 'unsignedDecimal', 'float', 'double', 'unsignedFloat', 'unsignedDouble',
+			'timestamp', 'timestampTz', 'dateTime', 'dateTimeTz', 'time', 'timeTz', 'binary', 'vector'].includes(method)) {
+			const values = rest.filter(arg => /^\d+$|^null$|^true$|^false$/.test(arg.trim()));
+			return values.length > 0 ? values.join(', ') : undefined;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Add (or, with ->change(), update) columns and apply chain modifiers.
+	 */
+	private applyColumns(
+		table: SchemaTable,
+		drafts: ColumnDraft[],
+		method: string,
+		args: string[],
+		modifiers: ChainCall[],
+		source: SchemaSource
+	): void {
+		const isChange = modifiers.some(m => m.method === 'change');
+
+		for (const draft of drafts) {
+			for (const modifier of modifiers) {
+				this.applyModifier(draft, modifier);
+			}
+
+			const existing = table.columns.find(c => c.name === draft.name);
+			if (isChange && existing) {
+				Object.assign(existing, draft);
+				existing.changedBy.push(source);
+				continue;
+			}
+
+			const column: SchemaColumn = { ...draft, source, changedBy: [] };
+			if (existing) {
+				table.columns = table.columns.filter(c => c !== existing);
+			}
+			this.insertColumn(table, column, modifiers);
+		}
+
+		const names = drafts.map(d => d.name);
+
+		// Auto-incrementing columns are primary keys unless the column is only being changed
+		if (drafts.some(d => d.autoIncrement) && !isChange) {
+			this.addIndex(table, 'primary', [names[0]], undefined, source);
+		}
+		if (/orphs$/.test(method)) {
+			this.addIndex(table, 'index', names, stringArg(args[1]), source);
+		}
+
+		for (const modifier of modifiers) {
+			const indexType = MigrationSchemaService.INDEX_METHODS[modifier.method];
+			if (indexType) {
+				const indexName = modifier.args[0] && modifier.args[0].trim() !== 'true' ? stringArg(modifier.args[0]) : undefined;
+				this.addIndex(table, indexType, names, indexName, source);
+			}
+		}
+
+		if (modifiers.some(m => m.method === 'constrained' || m.method === 'references')) {
+			this.addForeignKey(table, [names[0]], undefined, modifiers, source);
+		}
+	}
+
+	/**
+	 * Apply a single chain modifier such as nullable() or default() to a column draft.
+	 */
+	private applyModifier(draft: ColumnDraft, modifier: ChainCall): void {
+		const arg = modifier.args[0]?.trim();
+
+		switch (modifier.method) {
+			case 'nullable':
+				draft.nullable = arg === undefined || arg === '' || arg === 'true';
+				return;
+			case 'default':
+				draft.default = arg;
+				return;
+			case 'unsigned':
+				draft.unsigned = true;
+				return;
+			case 'autoIncrement':
+				draft.autoIncrement = true;
+				return;
+		}
+
+		if (MigrationSchemaService.DISPLAY_MODIFIERS.has(modifier.method)) {
+			const label = arg ? `${modifier.method}(${arg})` : modifier.method;
+			if (!draft.modifiers.includes(label)) {
+				draft.modifiers.push(label);
+			}
+		}
+	}
+
+	/**
+	 * Insert a column honouring ->after('col') and ->first().
+	 */
+	private insertColumn(table: SchemaTable, column: SchemaColumn, modifiers: ChainCall[]): void {
+		if (modifiers.some(m => m.method === 'first')) {
+			table.columns.unshift(column);
+			return;
+		}
+
+		const after = modifiers.find(m => m.method === 'after');
+		const afterName = after ? stringArg(after.args[0]) : undefined;
+		const position = afterName ? table.columns.findIndex(c => c.name === afterName) : -1;
+		if (position >= 0) {
+			// Consecutive columns declared after the same column keep their declaration order
+			let insertAt = position + 1;
+			while (insertAt < table.columns.length && table.columns[insertAt].source === column.source) {
+				insertAt++;
+			}
+			table.columns.splice(insertAt, 0, column);
+			return;
+		}
+
+		table.columns.push(column);
+	}
+
+	/**
+	 * Record a foreign key from foreign(...)->references()->on() or foreignId(...)->constrained().
+	 */
+	private addForeignKey(
+		table: SchemaTable,
+		columns: string[],
+		name: string | undefined,
+		modifiers: ChainCall[],
+		source: SchemaSource
+	): void {
+		if (columns.length === 0) {
+			return;
+		}
+
+		let on: string | undefined;
+		let references: string[] = ['id'];
+		let onDelete: string | undefined;
+		let onUpdate: string | undefined;
+
+		for (const modifier of modifiers) {
+			const arg = modifier.args[0];
+			switch (modifier.method) {
+				case 'constrained': {
+					const column = stringArg(modifier.args[1]) ?? 'id';
+					references = [column];
+					on = stringArg(arg) ?? this.pluralize(columns[0].replace(new RegExp(`_${column}$`), ''));
+					name = stringArg(modifier.args[2]) ?? name;
+					break;
+				}
+				case 'references':
+					references = stringListArg(arg);
+					break;
+				case 'on':
+					on = stringArg(arg);
+					break;
+				case 'onDelete':
+					onDelete = stringArg(arg);
+					break;
+				case 'onUpdate':
+					onUpdate = stringArg(arg);
+					break;
+				case 'cascadeOnDelete':
+					onDelete = 'cascade';
+					break;
+				case 'restrictOnDelete':
+					onDelete = 'restrict';
+					break;
+				case 'nullOnDelete':
+					onDelete = 'set null';
+					break;
+				case 'noActionOnDelete':
+					onDelete = 'no action';
+					break;
+				case 'cascadeOnUpdate':
+					onUpdate = 'cascade';
+					break;
+				case 'restrictOnUpdate':
+					onUpdate = 'restrict';
+					break;
+				case 'nullOnUpdate':
+					onUpdate = 'set null';
+					break;
+				case 'noActionOnUpdate':
+					onUpdate = 'no action';
+					break;
+			}
+		}
+
+		if (!on) {
+			return;
+		}
+
+		const fkName = name ?? this.defaultIndexName(table.name, 'foreign', columns);
+		table.foreignKeys = table.foreignKeys.filter(fk => fk.name !== fkName);
+		table.foreignKeys.push({ name: fkName, columns, references, on, onDelete, onUpdate, source });
+	}
+
+	private addIndex(table: SchemaTable, type: SchemaIndexType, columns: string[], name: string | undefined, source: SchemaSource): void {
+		if (columns.length === 0) {
+			return;
+		}
+		const indexName = name ?? (type === 'primary' ? 'primary' : this.defaultIndexName(table.name, type, columns));
+		table.indexes = table.indexes.filter(index => index.name !== indexName);
+		table.indexes.push({ name: indexName, type, columns, source });
+	}
+
+	/**
+	 * Remove columns along with indexes and foreign keys that use them.
+	 */
+	private dropColumns(table: SchemaTable, names: string[]): void {
+		const dropped = new Set(names);
+		table.columns = table.columns.filter(c => !dropped.has(c.name));
+		table.indexes = table.indexes.filter(index => !index.columns.some(c => dropped.has(c)));
+		table.foreignKeys = table.foreignKeys.filter(fk => !fk.columns.some(c => dropped.has(c)));
+	}
+
+	private renameColumn(table: SchemaTable, from: string, to: string): void {
+		const column = table.columns.find(c => c.name === from);
+		if (column) {
+			column.name = to;
+		}
+		const rename = (c: string) => (c === from ? to : c);
+		table.indexes.forEach(index => (index.columns = index.columns.map(rename)));
+		table.foreignKeys.forEach(fk => (fk.columns = fk.columns.map(rename)));
+	}
+
+	private addModifiedBy(table: SchemaTable, source: SchemaSource): void {
+		if (table.createdBy?.migration === source.migration) {
+			return;
+		}
+		if (!table.modifiedBy.some(s => s.migration === source.migration)) {
+			table.modifiedBy.push(source);
+		}
+	}
+
+	/**
+	 * Name Laravel gives an index when none is passed: {table}_{columns}_{type}.
+	 */
+	private defaultIndexName(tableName: string, type: string, columns: string[]): string {
+		return `${tableName}_${columns.join('_')}_${type}`.toLowerCase().replace(/[-.]/g, '_');
+	}
+
+	/**
+	 * Resolve the index name targeted by dropIndex('name') or dropIndex(['col']).
+	 */
+	private indexNameFromArg(tableName: string, type: string, arg: string | undefined): string | undefined {
+		if (!arg) {
+			return undefined;
+		}
+		if (arg.trim().startsWith('[')) {
+			return this.defaultIndexName(tableName, type, stringListArg(arg));
+		}
+		return stringArg(arg);
+	}
+
+	private sourceAt(file: MigrationFile, content: string, offset: number): SchemaSource {
+		return { migration: file.name, path: file.relativePath, line: lineAt(content, offset) };
+	}
+
+	private snakeCase(value: string): string {
+		return value.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase();
+	}
+
+	/**
+	 * Rough English pluralisation matching the common cases of Laravel's Str::plural().
+	 */
+	private pluralize(word: string): string {
+		if (/[^aeiou]y$/.test(word)) {
+			return word.slice(0, -1) + 'ies';
+		}
+		if (/(s|x|z|ch|sh)$/.test(word)) {
+			return word + 'es';
+		}
+		return word + 's';
+	}
+}
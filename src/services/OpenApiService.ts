@@ -0,0 +1,409 @@
+import { LoggerService } from './LoggerService';
+import { RouteInfo } from './ArtisanService';
+import { RouteActionService } from './RouteActionService';
+import { findClosing, maskComments, resolveClassName, splitArguments, stringArg } from '../utils/phpSource';
+import { toYaml } from '../utils/yaml';
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+export interface OpenApiOptions {
+	title: string;
+	/** Base URL of the application, used as the server entry. */
+	baseUrl: string;
+	/** Only export routes under api/. */
+	apiOnly: boolean;
+}
+
+type Schema = Record<string, unknown>;
+
+interface SecurityScheme {
+	name: string;
+	definition: Schema;
+}
+
+interface RequestBodyInfo {
+	className: string;
+	schema: Schema;
+	hasFiles: boolean;
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the route list. Path parameter types come from `where()` constraints,
+ * security from auth middleware and request bodies from the `rules()` of FormRequests type-hinted on the controller method.
+ */
+export class OpenApiService {
+	private static readonly BODY_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+	private readonly _bodies = new Map<string, RequestBodyInfo | undefined>();
+
+	/**
+	 * @param _actions - Shares its route table and sources, so the Routes panel boots the application once
+	 */
+	constructor(private readonly _actions = new RouteActionService()) {}
+
+	public isApiRoute(route: RouteInfo): boolean {
+		const uri = route.uri.replace(/^\/+/, '');
+		return uri === 'api' || uri.startsWith('api/');
+	}
+
+	/**
+	 * Build the document. Route constraints come from the route table of the booted application.
+	 */
+	public async build(routes: RouteInfo[], options: OpenApiOptions): Promise<Schema> {
+		const selected = options.apiOnly ? routes.filter(route => this.isApiRoute(route)) : routes;
+		const runtime = await this._actions.readRuntimeTable();
+		const paths: Record<string, Record<string, unknown>> = {};
+		const tags = new Set<string>();
+		const securitySchemes: Record<string, Schema> = {};
+		const operationIds = new Set<string>();
+
+		for (const route of selected) {
+			const methods = route.methods.filter(method => method !== 'HEAD').map(method => method.toLowerCase());
+			if (methods.length === 0) {
+				continue;
+			}
+
+			const wheres = runtime?.wheres[RouteActionService.routeKey(route)] ?? {};
+			const tag = this.tagFor(route);
+			const security = this.securityFor(route);
+			security.forEach(scheme => { securitySchemes[scheme.name] = scheme.definition; });
+			tags.add(tag);
+
+			for (const variant of this.pathVariants(route.uri)) {
+				const parameters = [...variant.matchAll(/\{(\w+)\}/g)].map(match => ({
+					name: match[1],
+					in: 'path',
+					required: true,
+					schema: this.parameterSchema(match[1], wheres[match[1]])
+				}));
+				const item = paths[variant] ??= {};
+
+				for (const method of methods) {
+					const body = OpenApiService.BODY_METHODS.includes(method.toUpperCase()) ? this.requestBodyFor(route) : undefined;
+					const responses: Record<string, Schema> = { '200': { description: 'Successful response' } };
+					if (security.length > 0) {
+						responses['401'] = { description: 'Unauthenticated' };
+					}
+					if (body) {
+						responses['422'] = { description: 'Validation failed' };
+					}
+
+					item[method] = {
+						tags: [tag],
+						summary: route.name ?? undefined,
+						description: route.action && route.action !== 'Closure' ? `Handled by ${route.action}` : undefined,
+						operationId: this.operationId(route, method, variant, operationIds),
+						parameters: parameters.length > 0 ? parameters : undefined,
+						requestBody: body ? {
+							required: true,
+							description: `Validated by ${body.className}`,
+							content: { [body.hasFiles ? 'multipart/form-data' : 'application/json']: { schema: body.schema } }
+						} : undefined,
+						responses,
+						security: security.length > 0 ? security.map(scheme => ({ [scheme.name]: [] })) : undefined
+					};
+				}
+			}
+		}
+
+		return {
+			openapi: '3.1.0',
+			info: { title: options.title, version: '1.0.0' },
+			servers: [{ url: options.baseUrl }],
+			tags: [...tags].sort().map(name => ({ name })),
+			paths,
+			components: Object.keys(securitySchemes).length > 0 ? { securitySchemes } : undefined
+		};
+	}
+
+	public serialize(document: Schema, format: OpenApiFormat): string {
+		return format === 'yaml' ? toYaml(document) : JSON.stringify(document, null, 2) + '\n';
+	}
+
+	/**
+	 * `{slug?}` is not valid in OpenAPI paths, so routes with optional parameters are listed with and without them.
+	 */
+	private pathVariants(uri: string): string[] {
+		const segments = uri.replace(/^\/+/, '').split('/').filter(Boolean);
+		const firstOptional = segments.findIndex(segment => /\{\w+\?\}/.test(segment));
+		const clean = (parts: string[]) => '/' + parts.map(segment => segment.replace(/\{(\w+)\?\}/g, '{$1}')).join('/');
+
+		if (firstOptional === -1) {
+			return [clean(segments)];
+		}
+		const variants: string[] = [];
+		for (let length = firstOptional; length <= segments.length; length++) {
+			variants.push(clean(segments.slice(0, length)));
+		}
+		return variants;
+	}
+
+	private parameterSchema(name: string, pattern: string | undefined): Schema {
+		if (!pattern) {
+			return /^(id|\w+_id)$/.test(name) ? { type: 'integer' } : { type: 'string' };
+		}
+		if (/^(\[0-9\]|\\d)(\+|\*)$/.test(pattern)) {
+			return { type: 'integer' };
+		}
+		if (/\{8\}-.*\{12\}/.test(pattern)) {
+			return { type: 'string', format: 'uuid' };
+		}
+		if (/^[\w-]+(\|[\w-]+)+$/.test(pattern)) {
+			return { type: 'string', enum: pattern.split('|') };
+		}
+		return { type: 'string', pattern: `^${pattern}$` };
+	}
+
+	/**
+	 * Controller short name without the Controller suffix, else the route name prefix, else the first URI segment.
+	 */
+	private tagFor(route: RouteInfo): string {
+		const shortName = this._actions.parseAction(route.action)?.className.split('\\').pop();
+		if (shortName && !/^(View|Redirect)?Controller$/.test(shortName)) {
+			return shortName.replace(/Controller$/, '');
+		}
+		if (route.name?.includes('.')) {
+			return route.name.split('.')[0];
+		}
+		const segments = route.uri.replace(/^\/+/, '').split('/').filter(segment => segment && !segment.startsWith('{'));
+		return segments.find(segment => segment !== 'api') ?? segments[0] ?? 'default';
+	}
+
+	private operationId(route: RouteInfo, method: string, path: string, used: Set<string>): string {
+		const base = route.name
+			? (route.methods.filter(m => m !== 'HEAD').length > 1 ? `${route.name}.${method}` : route.name)
+			: `${method}${path.replace(/[{}]/g, '').replace(/[^\w]+/g, '_').replace(/_+$/, '')}`;
+		let id = base;
+		for (let i = 2; used.has(id); i++) {
+			id = `${base}_${i}`;
+		}
+		used.add(id);
+		return id;
+	}
+
+	/**
+	 * Security schemes from `auth`, `auth:guard,...` and `auth.basic`, in either alias or class form.
+	 */
+	private securityFor(route: RouteInfo): SecurityScheme[] {
+		const schemes: SecurityScheme[] = [];
+		for (const middleware of route.middleware) {
+			if (/^(auth\.basic|[\w\\]*AuthenticateWithBasicAuth)(:|$)/.test(middleware)) {
+				schemes.push({ name: 'basicAuth', definition: { type: 'http', scheme: 'basic' } });
+				continue;
+			}
+			const match = middleware.match(/^(?:auth|[\w\\]*\\Authenticate)(?::(.+))?$/);
+			if (!match) {
+				continue;
+			}
+			for (const guard of (match[1] ?? 'web').split(',').map(name => name.trim())) {
+				if (guard === 'sanctum' || guard === 'api' || guard === 'passport') {
+					schemes.push({
+						name: `${guard}Token`,
+						definition: { type: 'http', scheme: 'bearer', description: `Token for the ${guard} guard` }
+					});
+				} else {
+					schemes.push({
+						name: 'sessionCookie',
+						definition: { type: 'apiKey', in: 'cookie', name: 'laravel_session', description: `Session of the ${guard} guard` }
+					});
+				}
+			}
+		}
+		return schemes.filter((scheme, index) => schemes.findIndex(other => other.name === scheme.name) === index);
+	}
+
+	/**
+	 * Request body from the first FormRequest type-hinted on the controller method, when its rules() returns a literal array.
+	 */
+	private requestBodyFor(route: RouteInfo): RequestBodyInfo | undefined {
+		const action = this._actions.parseAction(route.action);
+		if (!action) {
+			return undefined;
+		}
+		const key = `${action.className}@${action.method}`;
+		if (!this._bodies.has(key)) {
+			try {
+				this._bodies.set(key, this.readRequestBody(action.className, action.method));
+			} catch (err) {
+				LoggerService.warn(`Could not read the request rules of ${key}`, err);
+				this._bodies.set(key, undefined);
+			}
+		}
+		return this._bodies.get(key);
+	}
+
+	private readRequestBody(className: string, method: string): RequestBodyInfo | undefined {
+		const controllerFile = this._actions.resolveClassFile(className);
+		if (!controllerFile) {
+			return undefined;
+		}
+		const code = maskComments(this._actions.readSource(controllerFile));
+		const signature = new RegExp(`\\bfunction\\s+&?${method}\\s*\\(`, 'i').exec(code);
+		if (!signature) {
+			return undefined;
+		}
+
+		const open = signature.index + signature[0].length - 1;
+		for (const parameter of splitArguments(code.slice(open + 1, findClosing(code, open)))) {
+			const type = parameter.match(/^(?:(?:public|protected|private|readonly)\s+)*\??([\\\w]+)\s+&?\.{0,3}\$/)?.[1];
+			if (!type || !/^[A-Z\\]/.test(type)) {
+				continue;
+			}
+			const requestClass = resolveClassName(type, code);
+			const requestFile = this._actions.resolveClassFile(requestClass);
+			if (!requestFile) {
+				continue;
+			}
+			const requestCode = maskComments(this._actions.readSource(requestFile));
+			if (!/\bfunction\s+rules\s*\(/.test(requestCode)) {
+				continue;
+			}
+			const rules = this.parseRules(requestCode);
+			if (!rules) {
+				continue;
+			}
+			const { schema, hasFiles } = this.rulesToSchema(rules);
+			return { className: requestClass, schema, hasFiles };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Field rules from `return [...]` in rules(). Rule objects other than Rule::in() are skipped.
+	 */
+	private parseRules(code: string): Map<string, string[]> | undefined {
+		const rulesMethod = /\bfunction\s+rules\s*\([^)]*\)[^{]*\{/.exec(code);
+		if (!rulesMethod) {
+			return undefined;
+		}
+		const bodyStart = rulesMethod.index + rulesMethod[0].length - 1;
+		const body = code.slice(bodyStart, findClosing(code, bodyStart));
+		const returned = /\breturn\s*(\[|array\s*\()/.exec(body);
+		if (!returned) {
+			return undefined;
+		}
+
+		const open = returned.index + returned[0].length - 1;
+		const rules = new Map<string, string[]>();
+		for (const entry of splitArguments(body.slice(open + 1, findClosing(body, open)))) {
+			const match = entry.match(/^(['"])(.+?)\1\s*=>\s*([\s\S]+)$/);
+			if (!match) {
+				continue;
+			}
+			rules.set(match[2], this.ruleList(match[3].trim()));
+		}
+		return rules;
+	}
+
+	private ruleList(value: string): string[] {
+		const literal = stringArg(value);
+		if (literal !== undefined) {
+			return literal.split('|').map(rule => rule.trim()).filter(Boolean);
+		}
+		const array = value.match(/^(?:\[|array\s*\()([\s\S]*)(?:\]|\))$/);
+		if (!array) {
+			return [];
+		}
+		return splitArguments(array[1]).flatMap(item => {
+			const text = stringArg(item);
+			if (text !== undefined) {
+				return text.split('|').map(rule => rule.trim()).filter(Boolean);
+			}
+			const values = item.match(/^Rule::in\(\s*\[([\s\S]*)\]\s*\)$/)?.[1];
+			if (values !== undefined) {
+				return [`in:${splitArguments(values).map(v => stringArg(v) ?? v).join(',')}`];
+			}
+			return [];
+		});
+	}
+
+	/**
+	 * Turn `field => rules` into an object schema. Dotted keys (`items.*.id`, `address.city`) become nested schemas.
+	 */
+	private rulesToSchema(rules: Map<string, string[]>): { schema: Schema; hasFiles: boolean } {
+		const root: Schema = { type: 'object', properties: {} };
+		let hasFiles = false;
+
+		for (const [field, fieldRules] of rules) {
+			const names = fieldRules.map(rule => rule.split(':')[0].toLowerCase());
+			hasFiles ||= names.some(name => ['file', 'image', 'mimes', 'mimetypes'].includes(name));
+
+			let parent = root;
+			const parts = field.split('.');
+			parts.forEach((part, index) => {
+				const last = index === parts.length - 1;
+				if (part === '*') {
+					parent.type = 'array';
+					delete parent.properties;
+					parent.items ??= last ? {} : { type: 'object', properties: {} };
+					parent = parent.items as Schema;
+				} else {
+					// 'address' => 'array' followed by 'address.city' describes an object
+					if (parent.type === 'array' && !parent.items) {
+						parent.type = 'object';
+					}
+					const properties = (parent.properties ??= {}) as Record<string, Schema>;
+					properties[part] ??= last ? {} : { type: 'object', properties: {} };
+					if (last && names.includes('required')) {
+						parent.required = [...((parent.required as string[] | undefined) ?? []), part];
+					}
+					parent = properties[part];
+				}
+				if (last) {
+					Object.assign(parent, this.ruleSchema(fieldRules));
+				}
+			});
+		}
+
+		return { schema: root, hasFiles };
+	}
+
+	private ruleSchema(rules: string[]): Schema {
+		const schema: Schema = {};
+		const names = rules.map(rule => rule.split(':')[0].toLowerCase());
+		const parameter = (name: string) => rules.find(rule => rule.split(':')[0].toLowerCase() === name)?.split(':').slice(1).join(':');
+
+		if (names.includes('integer') || names.includes('int')) {
+			schema.type = 'integer';
+		} else if (names.includes('numeric') || names.includes('decimal')) {
+			schema.type = 'number';
+		} else if (names.includes('boolean') || names.includes('bool') || names.includes('accepted')) {
+			schema.type = 'boolean';
+		} else if (names.includes('array')) {
+			schema.type = 'array';
+		} else if (names.some(name => ['file', 'image', 'mimes', 'mimetypes'].includes(name))) {
+			schema.type = 'string';
+			schema.format = 'binary';
+		} else {
+			schema.type = 'string';
+			const format = names.includes('email') ? 'email'
+				: names.includes('uuid') ? 'uuid'
+					: names.includes('url') ? 'uri'
+						: names.includes('date') ? 'date-time'
+							: undefined;
+			if (format) {
+				schema.format = format;
+			}
+		}
+
+		const min = parameter('min');
+		const max = parameter('max');
+		const numeric = schema.type === 'integer' || schema.type === 'number';
+		const [minKey, maxKey] = numeric ? ['minimum', 'maximum'] : schema.type === 'array' ? ['minItems', 'maxItems'] : ['minLength', 'maxLength'];
+		if (min !== undefined && !isNaN(Number(min)) && schema.format !== 'binary') {
+			schema[minKey] = Number(min);
+		}
+		if (max !== undefined && !isNaN(Number(max)) && schema.format !== 'binary') {
+			schema[maxKey] = Number(max);
+		}
+
+		const values = parameter('in');
+		if (values) {
+			schema.enum = values.split(',').map(value => numeric && !isNaN(Number(value)) ? Number(value) : value);
+		}
+		if (names.includes('nullable')) {
+			schema.type = [schema.type, 'null'];
+		}
+		return schema;
+	}
+}
@@ -1,8 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as cp from 'child_process';
 import { LoggerService } from './LoggerService';
 import { WorkspaceService } from './WorkspaceService';
+import { ProcessRunner } from './ProcessRunner';
 
 export interface ConnectionStatus {
 	name: string;
@@ -16,6 +16,8 @@ export interface ArtisanCommandDefinition {
 	id: string;
 	label: string;
 	description: string;
+	/** Requires the production guardrails before running. */
+	destructive?: boolean;
 }
 
 export interface OverviewData {
@@ -30,52 +32,57 @@ export interface OverviewData {
 }
 
 export class OverviewService {
+	/** Timeout for status probes and bootstrap scripts. */
+	private static readonly QUERY_TIMEOUT = 30_000;
+
 	private static readonly ARTISAN_COMMANDS: Array<
-		ArtisanCommandDefinition & { command: string }
+		ArtisanCommandDefinition & { args: string[] }
 	> = [
 		{
 			id: 'config-cache',
 			label: 'Config Cache',
 			description: 'Rebuild the configuration cache for faster boot.',
-			command: 'php artisan config:cache'
+			args: ['config:cache'],
+			destructive: true
 		},
 		{
 			id: 'config-clear',
 			label: 'Clear Config Cache',
 			description: 'Remove cached configuration files.',
-			command: 'php artisan config:clear'
+			args: ['config:clear']
 		},
 		{
 			id: 'optimize',
 			label: 'Optimize',
 			description: 'Optimize framework bootstrap files.',
-			command: 'php artisan optimize'
+			args: ['optimize']
 		},
 		{
 			id: 'cache-clear',
 			label: 'Clear Cache',
 			description: 'Flush the default cache store.',
-			command: 'php artisan cache:clear'
+			args: ['cache:clear']
 		},
 		{
 			id: 'route-clear',
 			label: 'Clear Routes Cache',
 			description: 'Remove cached routes.',
-			command: 'php artisan route:clear'
+			args: ['route:clear']
 		},
 		{
 			id: 'view-clear',
 			label: 'Clear Compiled Views',
 			description: 'Delete compiled Blade views.',
-			command: 'php artisan view:clear'
+			args: ['view:clear']
 		}
 	];
 
 	public getArtisanCommands(): ArtisanCommandDefinition[] {
-		return OverviewService.ARTISAN_COMMANDS.map(({ id, label, description }) => ({
+		return OverviewService.ARTISAN_COMMANDS.map(({ id, label, description, destructive }) => ({
 			id,
 			label,
-			description
+			description,
+			destructive
 		}));
 	}
 
@@ -115,12 +122,13 @@ export class OverviewService {
 
 		LoggerService.info(`Running artisan command from overview: ${entry.label}`);
 
-		return this.runCommand(entry.command);
+		const result = await ProcessRunner.artisan(entry.args);
+		return result.stdout.trim();
 	}
 
 	private async resolveProjectName(warnings: string[]): Promise<string> {
 		try {
-			const env = this.readEnv();
+			const env = WorkspaceService.readEnv();
 			const envName = this.cleanName(env.APP_NAME);
 			if (envName) {
 				return envName;
@@ -154,7 +162,7 @@ export class OverviewService {
 
 	private async getLaravelVersion(warnings: string[]): Promise<string | null> {
 		try {
-			const output = await this.runCommand('php artisan --version', { silent: true });
+			const output = await this.runArtisan(['--version']);
 			const match = output.match(/Laravel Framework\s+([\\w\\.\\-]+)/i);
 			if (match && match[1]) {
 				return match[1];
@@ -192,7 +200,8 @@ export class OverviewService {
 
 	private async getPhpVersion(warnings: string[]): Promise<string | null> {
 		try {
-			const output = await this.runCommand('php -v', { silent: true });
+			const result = await ProcessRunner.php(['-v'], { silent: true, timeout: OverviewService.QUERY_TIMEOUT });
+			const output = result.stdout.trim();
 			const [firstLine] = output.split(/\r?\n/);
 			const match = firstLine.match(/PHP\s+([\d\.]+)/i);
 			if (match && match[1]) {
@@ -207,13 +216,13 @@ export class OverviewService {
 	}
 
 	private async getEnvironment(warnings: string[]): Promise<string | null> {
-		const env = this.readEnv();
+		const env = WorkspaceService.readEnv();
 		if (env.APP_ENV) {
 			return this.normalizeEnv(env.APP_ENV);
 		}
 
 		try {
-			const output = await this.runCommand('php artisan env', { silent: true });
+			const output = await this.runArtisan(['env']);
 			const match = output.match(/environment[:\[]\s*([^\]\n]+)/i);
 			if (match && match[1]) {
 				return this.normalizeEnv(match[1]);
@@ -237,7 +246,7 @@ export class OverviewService {
 	}
 
 	private async getDatabaseStatus(warnings: string[]): Promise<ConnectionStatus> {
-		const env = this.readEnv();
+		const env = WorkspaceService.readEnv();
 		let connection = env.DB_CONNECTION;
 
 		if (!connection) {
@@ -328,7 +337,7 @@ export class OverviewService {
 	}
 
 	private async getCacheStatus(warnings: string[]): Promise<ConnectionStatus> {
-		const env = this.readEnv();
+		const env = WorkspaceService.readEnv();
 		let driver = env.CACHE_DRIVER;
 
 		if (!driver) {
@@ -443,59 +452,14 @@ export class OverviewService {
 		}
 	}
 
-	private readEnv(): Record<string, string> {
-		const envVars: Record<string, string> = {};
-
-		try {
-			const root = WorkspaceService.getWorkspaceRoot();
-			const envPath = path.join(root, '.env');
-			if (!fs.existsSync(envPath)) {
-				return envVars;
-			}
-
-			const content = fs.readFileSync(envPath, 'utf8');
-			for (const line of content.split(/\\r?\\n/)) {
-				if (!line || line.trim().startsWith('#')) {
-					continue;
-				}
-				const [key, ...rest] = line.split('=');
-				if (!key || rest.length === 0) {
-					continue;
-				}
-				const value = rest.join('=').trim().replace(/^['"]|['"]$/g, '');
-				envVars[key.trim()] = value;
-			}
-		} catch (err) {
-			LoggerService.warn('Failed to parse .env file', err);
-		}
-
-		return envVars;
-	}
-
-	private async runPhpScript(snippet: string): Promise<string> {
-		const phpCmd = WorkspaceService.getPhpCommand();
-
-		// Use single quotes for php -r to avoid backslash doubling; escape single quotes only.
-		const sanitized = snippet
-			.replace(/\r?\n/g, ' ')
-			.replace(/\s+/g, ' ')
-			.replace(/'/g, `'\\''`)
-			.trim();
-
-		const command = `${phpCmd} -r '${sanitized}'`;
-		return this.runCommand(command);
+	private async runArtisan(args: string[]): Promise<string> {
+		const result = await ProcessRunner.artisan(args, { silent: true, timeout: OverviewService.QUERY_TIMEOUT });
+		return result.stdout.trim();
 	}
 
 	private async runLaravelScript(body: string): Promise<string> {
-		const snippet = `
-			$base = getcwd();
-			require $base . '/vendor/autoload.php';
-			$app = require $base . '/bootstrap/app.php';
-			$kernel = $app->make(Illuminate\\Contracts\\Console\\Kernel::class);
-			$kernel->bootstrap();
-			${body}
-		`;
-		return this.runPhpScript(snippet);
+		const result = await ProcessRunner.laravelScript(body, { timeout: OverviewService.QUERY_TIMEOUT });
+		return result.stdout.trim();
 	}
 
 	private normalizeEnv(value: string): string {
@@ -573,41 +537,4 @@ export class OverviewService {
 
 		return cleaned || undefined;
 	}
-
-	private async runCommand(command: string, options: { silent?: boolean } = {}): Promise<string> {
-		const root = WorkspaceService.getWorkspaceRoot();
-		const phpCmd = WorkspaceService.getPhpCommand();
-
-		let finalCommand = command;
-		if (command.startsWith('php ')) {
-			finalCommand = `${phpCmd}${command.substring(3)}`;
-		}
-
-		LoggerService.debug(`Executing overview command: ${finalCommand}`, { cwd: root });
-
-		return new Promise((resolve, reject) => {
-			cp.exec(finalCommand, { cwd: root, maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
-				if (err) {
-					if (!options.silent) {
-						LoggerService.error(`Overview command failed: ${finalCommand}`, stderr || err.message);
-					}
-
-					if ((stdout + stderr).includes('vendor/autoload.php')) {
-						reject(new Error('Laravel dependencies missing. Please run `composer install` in your project.'));
-						return;
-					}
-
-					if (stderr.includes('PHP version')) {
-						reject(new Error('PHP version mismatch. Check "laravelHero.phpCommand" setting.'));
-						return;
-					}
-
-					reject(new Error(stderr || err.message));
-					return;
-				}
-
-				resolve(stdout.trim());
-			});
-		});
-	}
 }
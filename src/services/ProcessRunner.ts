@@ -0,0 +1,355 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+import { ExecutionEnvironmentService, ToolBinary } from './ExecutionEnvironmentService';
+
+/**
+ * Structured outcome of a spawned process.
+ */
+export interface ProcessResult {
+	command: string;
+	args: string[];
+	exitCode: number | null;
+	signal: NodeJS.Signals | null;
+	stdout: string;
+	stderr: string;
+	durationMs: number;
+	timedOut: boolean;
+	cancelled: boolean;
+}
+
+export interface ProcessRunOptions {
+	/** Working directory. Defaults to the workspace root. */
+	cwd?: string;
+	/** Kill the process after this many milliseconds. 0 or undefined disables the timeout. */
+	timeout?: number;
+	/** Kill the process when the token is cancelled. */
+	token?: vscode.CancellationToken;
+	/** Skip error logging (used for probes where failure is expected). */
+	silent?: boolean;
+	/** Extra environment variables merged over process.env. */
+	env?: Record<string, string>;
+	/** Receives output chunks as they arrive, for live streaming. */
+	onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+	/** Stream this file to the process's stdin. */
+	stdinFile?: string;
+	/** Write stdout to this file instead of collecting it, for output too large to buffer. */
+	stdoutFile?: string;
+}
+
+/**
+ * Error raised when a process exits unsuccessfully.
+ * The message is already mapped to something user-facing; the raw result is kept for callers that need it.
+ */
+export class ProcessError extends Error {
+	constructor(message: string, public readonly result: ProcessResult) {
+		super(message);
+		this.name = 'ProcessError';
+	}
+}
+
+/**
+ * Single entry point for spawning external processes (php, artisan, composer).
+ * Commands are passed as argv arrays, never interpolated into a shell string.
+ */
+export class ProcessRunner {
+	private static readonly MAX_BUFFER = 10 * 1024 * 1024;
+
+	/**
+	 * Get the configured Composer command from settings.
+	 * Falls back to 'composer' if not configured.
+	 */
+	static getComposerCommand(): string {
+		const config = vscode.workspace.getConfiguration('laravelHero');
+		const composerCmd = config.get<string>('composerCommand');
+		return composerCmd || 'composer';
+	}
+
+	/**
+	 * Run `php artisan <args>` and return the result, throwing a ProcessError on failure.
+	 */
+	static async artisan(args: string[], options: ProcessRunOptions = {}): Promise<ProcessResult> {
+		return ProcessRunner.php(['artisan', ...args], options);
+	}
+
+	/**
+	 * Run the configured PHP binary with the given arguments.
+	 */
+	static async php(args: string[], options: ProcessRunOptions = {}): Promise<ProcessResult> {
+		return ProcessRunner.runTool('php', WorkspaceService.getPhpCommand(), args, options, 'laravelHero.phpCommand');
+	}
+
+	/**
+	 * Boot the Laravel application via `php -r` and run a PHP snippet inside it.
+	 * `$app` is available to the snippet. The snippet is a single argv entry, so no shell quoting is required.
+	 */
+	static async laravelScript(body: string, options: ProcessRunOptions = {}): Promise<ProcessResult> {
+		const snippet = `
+			$base = getcwd();
+			require $base . '/vendor/autoload.php';
+			$app = require $base . '/bootstrap/app.php';
+			$kernel = $app->make(Illuminate\\Contracts\\Console\\Kernel::class);
+			$kernel->bootstrap();
+			${body}
+		`;
+		return ProcessRunner.php(['-r', snippet], options);
+	}
+
+	/**
+	 * Run the configured Composer binary with the given arguments.
+	 */
+	static async composer(args: string[], options: ProcessRunOptions = {}): Promise<ProcessResult> {
+		return ProcessRunner.runTool('composer', ProcessRunner.getComposerCommand(), args, options, 'laravelHero.composerCommand');
+	}
+
+	/**
+	 * Run a host executable configured by a setting (e.g. git), throwing a ProcessError on failure.
+	 * Unlike php() and composer(), this always runs on the host, never inside the execution environment.
+	 */
+	static async hostTool(command: string, args: string[], options: ProcessRunOptions, settingKey: string): Promise<ProcessResult> {
+		return ProcessRunner.runOrThrow(command, args, options, settingKey);
+	}
+
+	/**
+	 * Run a database client or dump tool configured by a setting, in the execution environment next to PHP,
+	 * so it reaches the database through the same host name Laravel uses. `options.env` is passed into the container.
+	 */
+	static async databaseTool(command: string, args: string[], options: ProcessRunOptions, settingKey: string): Promise<ProcessResult> {
+		const resolved = ExecutionEnvironmentService.resolveDatabaseTool(command, args, Object.keys(options.env ?? {}));
+		const key = ExecutionEnvironmentService.getMode() === 'local' ? settingKey : 'laravelHero.executionEnvironment';
+		return ProcessRunner.runOrThrow(resolved.command, resolved.args, options, key);
+	}
+
+	/**
+	 * Spawn a process and collect its output. Never rejects for non-zero exits;
+	 * only rejects when the process could not be started at all.
+	 */
+	static run(command: string, args: string[], options: ProcessRunOptions = {}): Promise<ProcessResult> {
+		const cwd = options.cwd ?? WorkspaceService.getWorkspaceRoot();
+		const display = ProcessRunner.formatCommand(command, args);
+		const started = Date.now();
+
+		LoggerService.debug(`Executing: ${display}`, { cwd });
+
+		return new Promise((resolve, reject) => {
+			let stdout = '';
+			let stderr = '';
+			let timedOut = false;
+			let cancelled = false;
+			let settled = false;
+			let timer: NodeJS.Timeout | undefined;
+			let cancelListener: vscode.Disposable | undefined;
+
+			if (options.token?.isCancellationRequested) {
+				resolve(ProcessRunner.buildResult(command, args, null, null, '', '', started, false, true));
+				return;
+			}
+
+			const child = cp.spawn(command, args, {
+				cwd,
+				env: options.env ? { ...process.env, ...options.env } : process.env,
+				shell: ProcessRunner.needsShell(command),
+				windowsHide: true
+			});
+
+			const cleanup = () => {
+				settled = true;
+				if (timer) {
+					clearTimeout(timer);
+				}
+				cancelListener?.dispose();
+			};
+
+			const output = options.stdoutFile ? fs.createWriteStream(options.stdoutFile) : undefined;
+			if (output) {
+				output.on('error', (err) => {
+					stderr += err.message;
+					child.kill();
+				});
+				child.stdout?.pipe(output);
+			} else {
+				child.stdout?.on('data', (chunk: Buffer) => {
+					const text = chunk.toString();
+					if (stdout.length < ProcessRunner.MAX_BUFFER) {
+						stdout += text;
+					}
+					options.onOutput?.(text, 'stdout');
+				});
+			}
+
+			if (options.stdinFile && child.stdin) {
+				const input = fs.createReadStream(options.stdinFile);
+				input.on('error', (err) => {
+					stderr += err.message;
+					child.kill();
+				});
+				// The process may exit before reading everything; its exit code reports why
+				child.stdin.on('error', () => undefined);
+				input.pipe(child.stdin);
+			}
+
+			child.stderr?.on('data', (chunk: Buffer) => {
+				const text = chunk.toString();
+				if (stderr.length < ProcessRunner.MAX_BUFFER) {
+					stderr += text;
+				}
+				options.onOutput?.(text, 'stderr');
+			});
+
+			child.on('error', (err) => {
+				if (settled) {
+					return;
+				}
+				cleanup();
+				output?.destroy();
+				reject(err);
+			});
+
+			child.on('close', (code, signal) => {
+				if (settled) {
+					return;
+				}
+				cleanup();
+				const finish = () => resolve(ProcessRunner.buildResult(command, args, code, signal, stdout, stderr, started, timedOut, cancelled));
+				if (output && !output.closed) {
+					output.once('close', finish);
+				} else {
+					finish();
+				}
+			});
+
+			if (options.timeout && options.timeout > 0) {
+				timer = setTimeout(() => {
+					timedOut = true;
+					child.kill();
+				}, options.timeout);
+			}
+
+			if (options.token) {
+				cancelListener = options.token.onCancellationRequested(() => {
+					cancelled = true;
+					child.kill();
+				});
+			}
+		});
+	}
+
+	/**
+	 * Run PHP or Composer in the configured execution environment (local, Sail, docker compose, custom).
+	 */
+	private static async runTool(
+		tool: ToolBinary,
+		hostBinary: string,
+		args: string[],
+		options: ProcessRunOptions,
+		localSettingKey: string
+	): Promise<ProcessResult> {
+		const resolved = ExecutionEnvironmentService.resolve(tool, hostBinary, args);
+		const settingKey = ExecutionEnvironmentService.getMode() === 'local'
+			? localSettingKey
+			: 'laravelHero.executionEnvironment';
+		return ProcessRunner.runOrThrow(resolved.command, resolved.args, options, settingKey);
+	}
+
+	/**
+	 * Run a process and map any failure to a ProcessError with a helpful message.
+	 */
+	private static async runOrThrow(
+		command: string,
+		args: string[],
+		options: ProcessRunOptions,
+		settingKey: string
+	): Promise<ProcessResult> {
+		const display = ProcessRunner.formatCommand(command, args);
+		let result: ProcessResult;
+
+		try {
+			result = await ProcessRunner.run(command, args, options);
+		} catch (err) {
+			const code = (err as NodeJS.ErrnoException).code;
+			const message = code === 'ENOENT'
+				? `Command not found: ${command}. Check the "${settingKey}" setting.`
+				: (err instanceof Error ? err.message : String(err));
+			if (!options.silent) {
+				LoggerService.error(`Command failed to start: ${display}`, message);
+			}
+			throw new ProcessError(message, ProcessRunner.buildResult(command, args, null, null, '', message, Date.now(), false, false));
+		}
+
+		if (result.exitCode === 0 && !result.timedOut && !result.cancelled) {
+			LoggerService.debug(`Command succeeded: ${display}`, { durationMs: result.durationMs, outputLength: result.stdout.length });
+			return result;
+		}
+
+		const message = ProcessRunner.describeFailure(result, settingKey);
+		if (!options.silent) {
+			LoggerService.error(`Command failed: ${display}`, result.stderr || message);
+		}
+		throw new ProcessError(message, result);
+	}
+
+	/**
+	 * Translate a failed result into a user-facing message.
+	 */
+	static describeFailure(result: ProcessResult, settingKey: string = 'laravelHero.phpCommand'): string {
+		const display = ProcessRunner.formatCommand(result.command, result.args);
+		const combined = result.stdout + result.stderr;
+
+		if (result.cancelled) {
+			return `Command cancelled: ${display}`;
+		}
+		if (result.timedOut) {
+			return `Command timed out after ${Math.round(result.durationMs / 1000)}s: ${display}`;
+		}
+		if (combined.includes('vendor/autoload.php')) {
+			return 'Laravel dependencies missing. Please run `composer install` in your project root.';
+		}
+		if (result.stderr.includes('PHP version')) {
+			return `PHP version mismatch. Check the "${settingKey}" setting.`;
+		}
+
+		return result.stderr.trim() || result.stdout.trim() || `Command exited with code ${result.exitCode}: ${display}`;
+	}
+
+	/**
+	 * Render a command for logs and messages.
+	 */
+	static formatCommand(command: string, args: string[]): string {
+		return [command, ...args]
+			.map(part => (/[\s"']/.test(part) ? JSON.stringify(part) : part))
+			.join(' ');
+	}
+
+	/**
+	 * Batch scripts (composer.bat, sail.cmd) can only be started through the shell on Windows.
+	 */
+	private static needsShell(command: string): boolean {
+		return process.platform === 'win32' && /\.(bat|cmd)$/i.test(command);
+	}
+
+	private static buildResult(
+		command: string,
+		args: string[],
+		exitCode: number | null,
+		signal: NodeJS.Signals | null,
+		stdout: string,
+		stderr: string,
+		started: number,
+		timedOut: boolean,
+		cancelled: boolean
+	): ProcessResult {
+		return {
+			command,
+			args,
+			exitCode,
+			signal,
+			stdout,
+			stderr,
+			durationMs: Date.now() - started,
+			timedOut,
+			cancelled
+		};
+	}
+}
@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { ProcessRunner } from './ProcessRunner';
+
+export interface QueryResult {
+	columns: string[];
+	rows: unknown[][];
+	/** Rows returned by the database before truncation. */
+	total: number;
+	truncated: boolean;
+	/** Affected row count for write statements. */
+	affected?: number;
+	/** Execution time in milliseconds, measured inside PHP. */
+	time: number;
+	connection: string;
+}
+
+export interface QueryHistoryEntry {
+	sql: string;
+	connection?: string;
+	ranAt: string;
+}
+
+export interface QueryOptions {
+	connection?: string;
+	/** Allow statements that change data or structure. */
+	allowWrites?: boolean;
+}
+
+/**
+ * Runs SQL through the application's configured connections.
+ * Read-only by default: only SELECT-like statements pass, and they run inside
+ * a read-only transaction that is always rolled back.
+ */
+export class QueryConsoleService {
+	private static readonly QUERY_TIMEOUT = 60_000;
+
+	/** Rows sent to the webview; the rest are counted but dropped. */
+	private static readonly MAX_ROWS = 5000;
+
+	private static readonly HISTORY_KEY = 'laravelHero.queryHistory';
+	private static readonly HISTORY_LIMIT = 50;
+
+	private static readonly READ_ONLY_STATEMENTS = new Set(['select', 'show', 'describe', 'desc', 'explain', 'pragma', 'with', 'values', 'table']);
+
+	/** Keywords that make a SELECT / WITH / EXPLAIN statement write or lock something. */
+	private static readonly MUTATING_KEYWORDS = /\b(insert|update|delete|merge|upsert|drop|alter|create|truncate|rename|grant|revoke|call|exec|execute|vacuum|reindex|attach|detach|into)\b/i;
+
+	/** Functions that change state a rollback does not undo (sequences, other sessions, locks, server config). */
+	private static readonly SIDE_EFFECT_FUNCTIONS = /\b(setval|nextval|pg_terminate_backend|pg_cancel_backend|pg_reload_conf|pg_rotate_logfile|pg_switch_wal|pg_advisory_(?:xact_)?lock\w*|get_lock|release_lock|release_all_locks|dblink\w*)\s*\(/i;
+
+	/**
+	 * Drivers where `#` starts a line comment and a backslash escapes a quote. Elsewhere `#` is an operator,
+	 * e.g. `#>` on PostgreSQL, and only a doubled quote (or an E'' string) escapes one.
+	 */
+	private static readonly MYSQL_DRIVERS = ['mysql', 'mariadb'];
+
+	/** Comments, strings and quoted identifiers, matched in one pass so each hides the others' markers. */
+	private static readonly MYSQL_LITERALS = /\/\*[\s\S]*?(?:\*\/|$)|(?:--|#)[^\n]*|'(?:[^'\\]|\\[\s\S]|'')*'|"(?:[^"\\]|\\[\s\S]|"")*"|`(?:[^`]|``)*`/g;
+	private static readonly STANDARD_LITERALS = /\/\*[\s\S]*?(?:\*\/|$)|--[^\n]*|\b[eE]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|`(?:[^`]|``)*`/g;
+
+	private static readonly READ_ONLY_ERROR = 'Read-only mode: only SELECT, SHOW, DESCRIBE, EXPLAIN and PRAGMA statements are allowed. Unlock writes to run this statement.';
+
+	/** PRAGMAs that take an argument but only report information. */
+	private static readonly READ_PRAGMAS = new Set(['table_info', 'table_xinfo', 'index_list', 'index_info', 'index_xinfo', 'foreign_key_list', 'foreign_key_check', 'integrity_check', 'quick_check']);
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	/**
+	 * Check whether a statement only reads data on a connection using `driver`.
+	 * Comments and string literals are ignored so `'drop'` inside a WHERE clause does not count.
+	 */
+	public isReadOnly(sql: string, driver: string): boolean {
+		const code = this.stripLiterals(sql, driver).trim();
+		const keyword = code.match(/^\(*\s*(\w+)/)?.[1]?.toLowerCase();
+		if (!keyword || !QueryConsoleService.READ_ONLY_STATEMENTS.has(keyword)) {
+			return false;
+		}
+		if (keyword === 'show' || keyword === 'describe' || keyword === 'desc') {
+			return true;
+		}
+		// PRAGMA name = value and PRAGMA name(value) change settings, except the introspection ones
+		if (keyword === 'pragma') {
+			const name = code.match(/^pragma\s+(?:\w+\.)?(\w+)/i)?.[1]?.toLowerCase() ?? '';
+			return !code.includes('=') && (!code.includes('(') || QueryConsoleService.READ_PRAGMAS.has(name));
+		}
+		const rest = code.slice(keyword.length);
+		return !QueryConsoleService.MUTATING_KEYWORDS.test(rest) && !QueryConsoleService.SIDE_EFFECT_FUNCTIONS.test(rest);
+	}
+
+	/**
+	 * Execute a single SQL statement and return its rows.
+	 * @throws Error when the statement is rejected in read-only mode or the database reports an error
+	 */
+	public async execute(sql: string, options: QueryOptions = {}): Promise<QueryResult> {
+		const statement = sql.trim().replace(/;\s*$/, '');
+		if (!statement) {
+			throw new Error('Enter a SQL statement to run');
+		}
+		// The driver is only known once the app boots, so the statement is checked as MySQL and as any other driver
+		// here and the script picks the verdict that matches the connection
+		if (this.countStatements(statement, 'mysql') > 1 || this.countStatements(statement, 'pgsql') > 1) {
+			throw new Error('Run one statement at a time');
+		}
+		if (options.connection && !/^[\w.-]+$/.test(options.connection)) {
+			throw new Error(`Invalid connection name: ${options.connection}`);
+		}
+
+		const readOnlyOnMysql = this.isReadOnly(statement, 'mysql');
+		const readOnlyElsewhere = this.isReadOnly(statement, 'pgsql');
+		if (!readOnlyOnMysql && !readOnlyElsewhere && !options.allowWrites) {
+			throw new Error(QueryConsoleService.READ_ONLY_ERROR);
+		}
+
+		// Base64 keeps quotes and newlines in the SQL out of the PHP source
+		const encoded = Buffer.from(statement, 'utf8').toString('base64');
+		const connectionArg = options.connection ? `'${options.connection}'` : 'null';
+		const script = `
+			$db = $app->make('db')->connection(${connectionArg});
+			$sql = base64_decode('${encoded}');
+			$started = microtime(true);
+			$output = ['connection' => $db->getName(), 'columns' => [], 'rows' => [], 'total' => 0];
+			$driver = $db->getDriverName();
+			$isMysql = in_array($driver, ['${QueryConsoleService.MYSQL_DRIVERS.join("', '")}'], true);
+			$readOnly = $isMysql ? ${readOnlyOnMysql ? 'true' : 'false'} : ${readOnlyElsewhere ? 'true' : 'false'};
+			try {
+				if (!$readOnly && ${options.allowWrites ? 'false' : 'true'}) {
+					$output['rejected'] = true;
+				} elseif ($readOnly) {
+					// Let the database refuse writes the keyword check missed, e.g. in functions
+					if ($driver === 'sqlite') {
+						$db->statement('PRAGMA query_only = ON');
+					}
+					if ($isMysql) {
+						$db->unprepared('START TRANSACTION READ ONLY');
+					} else {
+						$db->beginTransaction();
+						if ($driver === 'pgsql') {
+							$db->statement('SET TRANSACTION READ ONLY');
+						}
+					}
+					try {
+						// The write connection is the one holding the transaction
+						$rows = $db->select($sql, [], false);
+					} finally {
+						$isMysql ? $db->unprepared('ROLLBACK') : $db->rollBack();
+					}
+					$output['total'] = count($rows);
+					$output['columns'] = $rows ? array_keys((array) $rows[0]) : [];
+					foreach (array_slice($rows, 0, ${QueryConsoleService.MAX_ROWS}) as $row) {
+						$output['rows'][] = array_values((array) $row);
+					}
+				} else {
+					$output['affected'] = $db->affectingStatement($sql);
+				}
+			} catch (Throwable $e) {
+				$output['error'] = $e->getMessage();
+			}
+			$output['time'] = round((microtime(true) - $started) * 1000, 2);
+			echo json_encode($output, JSON_INVALID_UTF8_SUBSTITUTE | JSON_PARTIAL_OUTPUT_ON_ERROR);
+		`;
+
+		LoggerService.info(`Running query on ${options.connection ?? 'default'} connection${options.allowWrites ? ' with writes unlocked' : ''}`);
+		const result = await ProcessRunner.laravelScript(script, { silent: true, timeout: QueryConsoleService.QUERY_TIMEOUT });
+		const start = result.stdout.indexOf('{');
+		const end = result.stdout.lastIndexOf('}');
+		if (start < 0 || end < start) {
+			throw new Error('Unexpected output while running the query');
+		}
+
+		const parsed = JSON.parse(result.stdout.slice(start, end + 1));
+		if (parsed.rejected) {
+			throw new Error(QueryConsoleService.READ_ONLY_ERROR);
+		}
+		if (parsed.error) {
+			throw new Error(String(parsed.error));
+		}
+
+		return {
+			columns: (parsed.columns || []).map(String),
+			rows: parsed.rows || [],
+			total: Number(parsed.total ?? 0),
+			truncated: Number(parsed.total ?? 0) > QueryConsoleService.MAX_ROWS,
+			affected: typeof parsed.affected === 'number' ? parsed.affected : undefined,
+			time: Number(parsed.time ?? 0),
+			connection: String(parsed.connection ?? options.connection ?? '')
+		};
+	}
+
+	/**
+	 * Queries run in this workspace, most recent first.
+	 */
+	public getHistory(): QueryHistoryEntry[] {
+		return this.state.get<QueryHistoryEntry[]>(QueryConsoleService.HISTORY_KEY, []);
+	}
+
+	/**
+	 * Record a query, moving repeats to the top and capping the list.
+	 */
+	public async addToHistory(sql: string, connection?: string): Promise<QueryHistoryEntry[]> {
+		const trimmed = sql.trim();
+		const history = [
+			{ sql: trimmed, connection, ranAt: new Date().toISOString() },
+			...this.getHistory().filter(entry => entry.sql !== trimmed || entry.connection !== connection)
+		].slice(0, QueryConsoleService.HISTORY_LIMIT);
+
+		await this.state.update(QueryConsoleService.HISTORY_KEY, history);
+		return history;
+	}
+
+	public async clearHistory(): Promise<void> {
+		await this.state.update(QueryConsoleService.HISTORY_KEY, []);
+	}
+
+	/**
+	 * Render a result as CSV (RFC 4180 quoting).
+	 */
+	public toCsv(result: QueryResult): string {
+		const escape = (value: unknown) => {
+			if (value === null || value === undefined) {
+				return '';
+			}
+			const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+			return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+		return [result.columns, ...result.rows]
+			.map(row => row.map(escape).join(','))
+			.join('\r\n') + '\r\n';
+	}
+
+	/**
+	 * Render a result as a JSON array of objects keyed by column name.
+	 */
+	public toJson(result: QueryResult): string {
+		const records = result.rows.map(row =>
+			Object.fromEntries(result.columns.map((column, index) => [column, row[index]]))
+		);
+		return JSON.stringify(records, null, 2) + '\n';
+	}
+
+	/**
+	 * Blank out comments and quoted strings/identifiers so keyword checks only see SQL.
+	 */
+	public stripLiterals(sql: string, driver: string): string {
+		const literals = QueryConsoleService.MYSQL_DRIVERS.includes(driver)
+			? QueryConsoleService.MYSQL_LITERALS
+			: QueryConsoleService.STANDARD_LITERALS;
+		return sql.replace(literals, match => {
+			const quote = match.replace(/^[eE](?=')/, '')[0];
+			return quote === "'" || quote === '"' || quote === '`' ? quote + quote : ' ';
+		});
+	}
+
+	/**
+	 * Count statements separated by semicolons outside comments and literals.
+	 */
+	private countStatements(sql: string, driver: string): number {
+		return this.stripLiterals(sql, driver).split(';').filter(part => part.trim().length > 0).length;
+	}
+}
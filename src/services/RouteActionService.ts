@@ -0,0 +1,322 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerService } from './LoggerService';
+import { RouteInfo } from './ArtisanService';
+import { ExecutionEnvironmentService } from './ExecutionEnvironmentService';
+import { ProcessRunner } from './ProcessRunner';
+import { WorkspaceService } from './WorkspaceService';
+import { lineAt, maskComments } from '../utils/phpSource';
+
+export type RouteActionKind = 'controller' | 'invokable' | 'livewire' | 'closure' | 'inertia' | 'view';
+
+export interface RouteActionLocation {
+	kind: RouteActionKind;
+	/** Absolute path on the host. */
+	file: string;
+	/** 1-based line of the method, closure or class. */
+	line: number;
+	/** Short description, e.g. UserController@show or Pages/Dashboard.vue. */
+	label: string;
+}
+
+/**
+ * What the booted router knows about each route, keyed by routeKey(): registration order, `where()`
+ * constraints (with global `Route::pattern()` ones), fallback routes, actions whose class or method is missing,
+ * closure locations and the Inertia page / view of `Route::inertia()` and `Route::view()` routes.
+ */
+export interface RuntimeRouteTable {
+	order: string[];
+	wheres: Record<string, Record<string, string>>;
+	fallback: string[];
+	missing: Record<string, 'class' | 'method'>;
+	closures: Record<string, { file: string; line: number }>;
+	defaults: Record<string, { component?: string; view?: string }>;
+}
+
+/** What the application reports for routes that cannot be resolved from their action string. */
+interface RuntimeRouteInfo {
+	file?: string;
+	line?: number;
+	component?: string;
+	view?: string;
+}
+
+/**
+ * Resolves route actions to source locations:
+ * - `Controller@method` and invokable controllers through the PSR-4 map in composer.json
+ * - Livewire full-page components (their render() method when there is no __invoke())
+ * - closures, via reflection inside the booted application
+ * - `Route::inertia()` pages and `Route::view()` templates, from the route defaults
+ */
+export class RouteActionService {
+	private static readonly RESOLVE_TIMEOUT = 30_000;
+
+	private static readonly PAGE_EXTENSIONS = ['.vue', '.tsx', '.jsx', '.svelte', '.ts', '.js'];
+
+	private _psr4: [string, string[]][] | undefined;
+	private _runtime: Promise<RuntimeRouteTable | undefined> | undefined;
+	private readonly _sources = new Map<string, string>();
+
+	/**
+	 * Resolve every route, booting the application once when closures, Inertia pages or views are present.
+	 */
+	public async resolveAll(routes: RouteInfo[]): Promise<(RouteActionLocation | undefined)[]> {
+		const needsRuntime = routes.some(route => this.needsRuntime(route.action));
+		const runtime = needsRuntime ? await this.readRuntimeTable() : undefined;
+
+		return routes.map(route => {
+			const key = RouteActionService.routeKey(route);
+			try {
+				return this.resolve(route, runtime && { ...runtime.closures[key], ...runtime.defaults[key] });
+			} catch (err) {
+				LoggerService.warn(`Could not resolve the action of ${route.uri}`, err);
+				return undefined;
+			}
+		});
+	}
+
+	/**
+	 * Split an action string into class and method. Invokable controllers get __invoke.
+	 */
+	public parseAction(action: string | undefined): { className: string; method: string } | undefined {
+		const trimmed = (action ?? '').trim().replace(/^\\+/, '');
+		if (!trimmed || trimmed === 'Closure' || !/^[\w\\]+(@\w+)?$/.test(trimmed)) {
+			return undefined;
+		}
+		const [className, method] = trimmed.split('@');
+		return { className, method: method || '__invoke' };
+	}
+
+	/**
+	 * File a class lives in according to composer's PSR-4 autoload map.
+	 */
+	public resolveClassFile(className: string): string | undefined {
+		const root = WorkspaceService.getWorkspaceRoot();
+		for (const [prefix, directories] of this.getPsr4Map()) {
+			if (!className.startsWith(prefix)) {
+				continue;
+			}
+			const relative = className.slice(prefix.length).split('\\').join(path.sep) + '.php';
+			for (const directory of directories) {
+				const file = path.join(root, directory, relative);
+				if (fs.existsSync(file)) {
+					return file;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Workspace-relative directories for a path below each PSR-4 root,
+	 * e.g. app/Http/Controllers for 'Http/Controllers'. Falls back to app/ without a PSR-4 map.
+	 */
+	public sourceDirectories(subdirectory: string): string[] {
+		const roots = [...new Set(this.getPsr4Map().flatMap(([, directories]) => directories))];
+		return (roots.length > 0 ? roots : ['app'])
+			.map(root => root.replace(/^\.\/?/, ''))
+			.map(root => (root ? `${root}/${subdirectory}` : subdirectory));
+	}
+
+	/**
+	 * Fully qualified class declared in a PHP source, e.g. App\Http\Controllers\UserController.
+	 */
+	public classNameOf(content: string): string | undefined {
+		const code = maskComments(content);
+		const className = code.match(/^\s*(?:(?:abstract|final|readonly)\s+)*class\s+(\w+)/m)?.[1];
+		if (!className) {
+			return undefined;
+		}
+		const namespace = code.match(/^\s*namespace\s+([\w\\]+)\s*;/m)?.[1];
+		return namespace ? `${namespace}\\${className}` : className;
+	}
+
+	/**
+	 * 1-based line of a method declaration, or undefined when the class does not declare it.
+	 */
+	public findMethodLine(content: string, method: string): number | undefined {
+		const match = new RegExp(`\\bfunction\\s+&?${method}\\s*\\(`, 'i').exec(maskComments(content));
+		return match ? lineAt(content, match.index) : undefined;
+	}
+
+	/**
+	 * Key matching a route in route:list output and in the router, e.g. "GET|HEAD users/{user}".
+	 */
+	public static routeKey(route: RouteInfo): string {
+		return `${route.methods.join('|')} ${route.uri.replace(/^\/+/, '') || '/'}`;
+	}
+
+	private resolve(route: RouteInfo, runtime: RuntimeRouteInfo | undefined): RouteActionLocation | undefined {
+		if (runtime?.component) {
+			return this.resolveInertiaPage(runtime.component);
+		}
+		if (runtime?.view) {
+			return this.resolveView(runtime.view);
+		}
+		if (runtime?.file) {
+			const file = ExecutionEnvironmentService.toHostPath(runtime.file);
+			return { kind: 'closure', file, line: runtime.line ?? 1, label: `Closure in ${path.basename(file)}` };
+		}
+
+		const parsed = this.parseAction(route.action);
+		if (!parsed) {
+			return undefined;
+		}
+
+		const file = this.resolveClassFile(parsed.className);
+		if (!file) {
+			return undefined;
+		}
+
+		const content = this.readSource(file);
+		const shortName = parsed.className.split('\\').pop() ?? parsed.className;
+		const methodLine = this.findMethodLine(content, parsed.method);
+		const classLine = this.findClassLine(content);
+
+		if (parsed.method !== '__invoke') {
+			return { kind: 'controller', file, line: methodLine ?? classLine, label: `${shortName}@${parsed.method}` };
+		}
+		if (methodLine === undefined && /\bextends\s+[\w\\]*Component\b/.test(maskComments(content))) {
+			const renderLine = this.findMethodLine(content, 'render');
+			return { kind: 'livewire', file, line: renderLine ?? classLine, label: `${shortName} (Livewire)` };
+		}
+		return { kind: 'invokable', file, line: methodLine ?? classLine, label: shortName };
+	}
+
+	private resolveInertiaPage(component: string): RouteActionLocation | undefined {
+		const root = WorkspaceService.getWorkspaceRoot();
+		for (const dir of ['resources/js/Pages', 'resources/js/pages', 'resources/ts/Pages']) {
+			for (const extension of RouteActionService.PAGE_EXTENSIONS) {
+				const file = path.join(root, dir, `${component}${extension}`);
+				if (fs.existsSync(file)) {
+					return { kind: 'inertia', file, line: 1, label: `${component}${extension} (Inertia)` };
+				}
+			}
+		}
+		return undefined;
+	}
+
+	private resolveView(view: string): RouteActionLocation | undefined {
+		if (view.includes('::')) {
+			return undefined;
+		}
+		const relative = `${view.split('.').join('/')}.blade.php`;
+		const file = path.join(WorkspaceService.getWorkspaceRoot(), 'resources', 'views', relative);
+		return fs.existsSync(file) ? { kind: 'view', file, line: 1, label: relative } : undefined;
+	}
+
+	/**
+	 * Closures and the ViewController / Inertia controller carry no usable class@method.
+	 */
+	private needsRuntime(action: string | undefined): boolean {
+		return !this.parseAction(action)
+			|| /^\\?(Illuminate\\Routing\\ViewController|Inertia\\Controller)\b/.test(action ?? '');
+	}
+
+	/**
+	 * The route table of the booted router. The application boots once per instance; the route lint and the
+	 * OpenAPI export share it when they are given this instance.
+	 * @returns undefined when the application could not be booted
+	 */
+	public readRuntimeTable(): Promise<RuntimeRouteTable | undefined> {
+		this._runtime ??= this.loadRuntimeTable();
+		return this._runtime;
+	}
+
+	private async loadRuntimeTable(): Promise<RuntimeRouteTable | undefined> {
+		const script = `
+			$router = app('router');
+			$patterns = $router->getPatterns();
+			$out = ['order' => [], 'wheres' => [], 'fallback' => [], 'missing' => [], 'closures' => [], 'defaults' => []];
+			foreach ($router->getRoutes()->getRoutes() as $route) {
+				$key = implode('|', $route->methods()) . ' ' . $route->uri();
+				$out['order'][] = $key;
+				$wheres = array_intersect_key(array_merge($patterns, $route->wheres), array_flip($route->parameterNames()));
+				if ($wheres) {
+					$out['wheres'][$key] = $wheres;
+				}
+				if ($route->isFallback) {
+					$out['fallback'][] = $key;
+				}
+				$defaults = array_filter(array_intersect_key($route->defaults, ['component' => 0, 'view' => 0]), 'is_string');
+				if ($defaults) {
+					$out['defaults'][$key] = $defaults;
+				}
+				$uses = $route->getAction('uses');
+				if ($uses instanceof Closure) {
+					$reflection = new ReflectionFunction($uses);
+					$out['closures'][$key] = ['file' => $reflection->getFileName(), 'line' => $reflection->getStartLine()];
+				} elseif (is_string($uses)) {
+					[$class, $method] = array_pad(explode('@', $uses, 2), 2, '__invoke');
+					try {
+						if (!class_exists($class)) {
+							$out['missing'][$key] = 'class';
+						} elseif (!method_exists($class, $method) && !method_exists($class, '__call')) {
+							$out['missing'][$key] = 'method';
+						}
+					} catch (Throwable $e) {
+						$out['missing'][$key] = 'class';
+					}
+				}
+			}
+			foreach (['wheres', 'missing', 'closures', 'defaults'] as $section) {
+				$out[$section] = (object) $out[$section];
+			}
+			echo json_encode($out);
+		`;
+
+		try {
+			const result = await ProcessRunner.laravelScript(script, { silent: true, timeout: RouteActionService.RESOLVE_TIMEOUT });
+			const output = result.stdout;
+			return JSON.parse(output.slice(output.indexOf('{'), output.lastIndexOf('}') + 1)) as RuntimeRouteTable;
+		} catch (err) {
+			LoggerService.warn('Could not read the route table from the application', err instanceof Error ? err.message : err);
+			return undefined;
+		}
+	}
+
+	/**
+	 * PSR-4 prefixes from composer.json (autoload and autoload-dev), longest first.
+	 */
+	private getPsr4Map(): [string, string[]][] {
+		if (this._psr4) {
+			return this._psr4;
+		}
+
+		const map = new Map<string, string[]>();
+		try {
+			const composer = JSON.parse(fs.readFileSync(path.join(WorkspaceService.getWorkspaceRoot(), 'composer.json'), 'utf8'));
+			for (const section of [composer.autoload, composer['autoload-dev']]) {
+				for (const [prefix, dirs] of Object.entries<string | string[]>(section?.['psr-4'] ?? {})) {
+					const list = (Array.isArray(dirs) ? dirs : [dirs]).map(dir => dir.replace(/\/+$/, ''));
+					map.set(prefix, [...(map.get(prefix) ?? []), ...list]);
+				}
+			}
+		} catch (err) {
+			LoggerService.warn('Could not read the PSR-4 map from composer.json', err);
+		}
+
+		this._psr4 = [...map.entries()].sort((a, b) => b[0].length - a[0].length);
+		return this._psr4;
+	}
+
+	/**
+	 * 1-based line of the class declaration, or 1 when there is none.
+	 */
+	public findClassLine(content: string): number {
+		const match = /^\s*(?:(?:abstract|final|readonly)\s+)*class\s+\w+/m.exec(maskComments(content));
+		return match ? lineAt(content, match.index + match[0].indexOf('class')) : 1;
+	}
+
+	/**
+	 * Contents of a PHP source, read once per instance.
+	 */
+	public readSource(file: string): string {
+		let content = this._sources.get(file);
+		if (content === undefined) {
+			content = fs.readFileSync(file, 'utf8');
+			this._sources.set(file, content);
+		}
+		return content;
+	}
+}
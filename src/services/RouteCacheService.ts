@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { ArtisanService, RouteInfo } from './ArtisanService';
+import { LoggerService } from './LoggerService';
+
+export interface RouteListResult {
+	routes: RouteInfo[];
+	error?: string;
+}
+
+/**
+ * The route list shared by the route CodeLens, the route tree, the route diagnostics and the Routes panel,
+ * so one `route:list` run serves them all until route files, controllers or service providers change,
+ * or a refresh is asked for.
+ */
+export class RouteCacheService {
+	private static readonly artisan = new ArtisanService();
+	private static readonly _onDidChange = new vscode.EventEmitter<void>();
+	private static cache: Promise<RouteListResult> | undefined;
+
+	/** Fires when the cached list is replaced or dropped. */
+	static readonly onDidChange = RouteCacheService._onDidChange.event;
+
+	/**
+	 * The cached route list, loading it from artisan when there is none. Concurrent callers share one run.
+	 * A failed load is not kept, so the next caller tries again, e.g. once the app boots again.
+	 */
+	static getRoutes(): Promise<RouteListResult> {
+		if (RouteCacheService.cache) {
+			return RouteCacheService.cache;
+		}
+
+		const loading: Promise<RouteListResult> = RouteCacheService.artisan.getRoutes().catch(err => {
+			LoggerService.warn('Failed to load routes', err);
+			return { routes: [], error: err instanceof Error ? err.message : String(err) };
+		});
+		RouteCacheService.cache = loading;
+		loading.then(result => {
+			if (result.error && RouteCacheService.cache === loading) {
+				RouteCacheService.cache = undefined;
+			}
+		});
+		return loading;
+	}
+
+	/**
+	 * Drop the cached list so the next request reloads it, e.g. after a route file changed.
+	 */
+	static invalidate(): void {
+		RouteCacheService.cache = undefined;
+		RouteCacheService._onDidChange.fire();
+	}
+}
@@ -0,0 +1,176 @@
+import { RouteInfo } from './ArtisanService';
+
+export type RouteCollectionFormat = 'postman' | 'insomnia' | 'http';
+
+/** Folder per first URI segment (after api/) or per route name prefix (before the first dot). */
+export type RouteCollectionGrouping = 'uri' | 'name';
+
+export interface RouteCollectionOptions {
+	title: string;
+	/** Seeds the `baseUrl` variable. */
+	baseUrl: string;
+	grouping: RouteCollectionGrouping;
+}
+
+interface CollectionRequest {
+	name: string;
+	method: string;
+	/** URI segments without leading slash, parameters as `{name}`. */
+	segments: string[];
+	parameters: string[];
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * Turns the route list into request collections for Postman (v2.1), Insomnia (export format 4)
+ * and REST Client `.http` files. The base URL and path parameters become variables.
+ */
+export class RouteCollectionService {
+	private static readonly POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+	public static readonly EXTENSIONS: Record<RouteCollectionFormat, string> = {
+		postman: 'postman_collection.json',
+		insomnia: 'insomnia.json',
+		http: 'http'
+	};
+
+	public export(routes: RouteInfo[], format: RouteCollectionFormat, options: RouteCollectionOptions): string {
+		const folders = this.group(routes, options.grouping);
+		switch (format) {
+			case 'postman':
+				return JSON.stringify(this.toPostman(folders, options), null, 2) + '\n';
+			case 'insomnia':
+				return JSON.stringify(this.toInsomnia(folders, options), null, 2) + '\n';
+			default:
+				return this.toHttpFile(folders, options);
+		}
+	}
+
+	/**
+	 * Requests per folder, folders sorted by name. Routes answering several methods get one request each; HEAD is skipped.
+	 */
+	private group(routes: RouteInfo[], grouping: RouteCollectionGrouping): Map<string, CollectionRequest[]> {
+		const folders = new Map<string, CollectionRequest[]>();
+
+		for (const route of routes) {
+			const methods = route.methods.filter(method => method !== 'HEAD');
+			const segments = route.uri.replace(/^\/+/, '').split('/').filter(Boolean)
+				.map(segment => segment.replace(/\{(\w+)\?\}/g, '{$1}'));
+			const parameters = segments.flatMap(segment => [...segment.matchAll(/\{(\w+)\}/g)].map(match => match[1]));
+			const folder = this.folderFor(route, grouping);
+
+			for (const method of methods) {
+				const label = route.name ?? `${method} /${segments.join('/')}`;
+				const list = folders.get(folder) ?? [];
+				list.push({ name: methods.length > 1 && route.name ? `${label} (${method})` : label, method, segments, parameters });
+				folders.set(folder, list);
+			}
+		}
+
+		return new Map([...folders.entries()].sort(([a], [b]) => a.localeCompare(b)));
+	}
+
+	private folderFor(route: RouteInfo, grouping: RouteCollectionGrouping): string {
+		if (grouping === 'name') {
+			return route.name ? route.name.split('.')[0] : 'Unnamed';
+		}
+		const segments = route.uri.replace(/^\/+/, '').split('/').filter(segment => segment && !segment.startsWith('{'));
+		if (segments[0] === 'api' && segments.length > 1) {
+			return `api/${segments[1]}`;
+		}
+		return segments[0] ?? 'root';
+	}
+
+	private toPostman(folders: Map<string, CollectionRequest[]>, options: RouteCollectionOptions): Json {
+		return {
+			info: { name: options.title, schema: RouteCollectionService.POSTMAN_SCHEMA },
+			item: [...folders.entries()].map(([folder, requests]) => ({
+				name: folder,
+				item: requests.map(request => {
+					const path = request.segments.map(segment => segment.replace(/\{(\w+)\}/g, ':$1'));
+					return {
+						name: request.name,
+						request: {
+							method: request.method,
+							header: [{ key: 'Accept', value: 'application/json' }],
+							url: {
+								raw: ['{{baseUrl}}', ...path].join('/'),
+								host: ['{{baseUrl}}'],
+								path,
+								variable: request.parameters.length > 0
+									? request.parameters.map(name => ({ key: name, value: '' }))
+									: undefined
+							}
+						}
+					};
+				})
+			})),
+			variable: [{ key: 'baseUrl', value: options.baseUrl }]
+		};
+	}
+
+	private toInsomnia(folders: Map<string, CollectionRequest[]>, options: RouteCollectionOptions): Json {
+		const workspaceId = 'wrk_laravel_hero';
+		const parameters = new Set([...folders.values()].flat().flatMap(request => request.parameters));
+		const resources: Json[] = [
+			{ _id: workspaceId, _type: 'workspace', parentId: null, name: options.title },
+			{
+				_id: 'env_laravel_hero',
+				_type: 'environment',
+				parentId: workspaceId,
+				name: 'Base Environment',
+				data: Object.fromEntries([['baseUrl', options.baseUrl], ...[...parameters].map(name => [name, ''])])
+			}
+		];
+
+		let requestIndex = 0;
+		[...folders.entries()].forEach(([folder, requests], folderIndex) => {
+			const folderId = `fld_${folderIndex + 1}`;
+			resources.push({ _id: folderId, _type: 'request_group', parentId: workspaceId, name: folder });
+			for (const request of requests) {
+				resources.push({
+					_id: `req_${++requestIndex}`,
+					_type: 'request',
+					parentId: folderId,
+					name: request.name,
+					method: request.method,
+					url: ['{{ _.baseUrl }}', ...request.segments.map(segment => segment.replace(/\{(\w+)\}/g, '{{ _.$1 }}'))].join('/'),
+					headers: [{ name: 'Accept', value: 'application/json' }],
+					body: {}
+				});
+			}
+		});
+
+		return {
+			_type: 'export',
+			__export_format: 4,
+			__export_date: new Date().toISOString(),
+			__export_source: 'laravel-hero',
+			resources
+		};
+	}
+
+	/**
+	 * REST Client / JetBrains HTTP Client format: file variables on top, one `###` block per request.
+	 */
+	private toHttpFile(folders: Map<string, CollectionRequest[]>, options: RouteCollectionOptions): string {
+		const parameters = new Set([...folders.values()].flat().flatMap(request => request.parameters));
+		const lines = [`# ${options.title}`, '', `@baseUrl = ${options.baseUrl}`, ...[...parameters].map(name => `@${name} =`)];
+
+		for (const [folder, requests] of folders) {
+			lines.push('', `# ---------- ${folder} ----------`);
+			for (const request of requests) {
+				lines.push(
+					'',
+					`### ${request.name}`,
+					`# @name ${request.name.replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '')}`,
+					`${request.method} ${['{{baseUrl}}', ...request.segments.map(segment => segment.replace(/\{(\w+)\}/g, '{{$1}}'))].join('/')}`,
+					'Accept: application/json'
+				);
+			}
+		}
+
+		return lines.join('\n') + '\n';
+	}
+}
@@ -0,0 +1,381 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { RouteInfo } from './ArtisanService';
+import { ExecutionEnvironmentService } from './ExecutionEnvironmentService';
+import { RouteActionService, RuntimeRouteTable } from './RouteActionService';
+import { WorkspaceService } from './WorkspaceService';
+import { lineAt, maskComments } from '../utils/phpSource';
+
+export type RouteLintRule = 'shadowed-route' | 'duplicate-uri' | 'duplicate-name' | 'missing-action' | 'unauthenticated' | 'missing-throttle';
+
+export type RouteLintSeverity = 'error' | 'warning' | 'info';
+
+export interface RouteLintIssue {
+	rule: RouteLintRule;
+	severity: RouteLintSeverity;
+	message: string;
+	/** Index of the route in the analyzed list. */
+	routeIndex: number;
+	/** Where the route is defined in routes/, when it could be found. */
+	location?: { file: string; line: number };
+}
+
+export interface RouteLintResult {
+	issues: RouteLintIssue[];
+	/** Checks that could not run, with the reason. */
+	skipped: string[];
+}
+
+interface RouteFile {
+	file: string;
+	content: string;
+	code: string;
+}
+
+/**
+ * Finds mistakes in the route list: routes shadowed by an earlier, broader route, duplicate URIs and names,
+ * actions pointing to missing controllers or methods, unauthenticated routes under protected prefixes
+ * (`laravelHero.protectedRoutePrefixes`) and API routes without rate limiting.
+ */
+export class RouteLintService {
+	private _routeFiles: RouteFile[] | undefined;
+
+	/**
+	 * @param actions - Shares its route table, so a caller that also resolves actions boots the application once
+	 */
+	constructor(private readonly actions = new RouteActionService()) {}
+
+	public async analyze(routes: RouteInfo[]): Promise<RouteLintResult> {
+		const runtime = await this.actions.readRuntimeTable();
+		const skipped: string[] = [];
+		if (!runtime) {
+			skipped.push('Shadowing and missing controller checks need the application to boot; see the Laravel Hero output for details.');
+		}
+
+		// Registration order decides which of two overlapping routes wins; route:list sorts by URI
+		const position = new Map((runtime?.order ?? []).map((key, index) => [key, index]));
+		const ordered = routes
+			.map((route, index) => ({ route, index, order: position.get(RouteActionService.routeKey(route)) ?? routes.length + index }))
+			.sort((a, b) => a.order - b.order);
+
+		const issues: RouteLintIssue[] = [
+			...this.checkOverlaps(ordered, runtime),
+			...this.checkNames(ordered),
+			...(runtime ? this.checkActions(routes, runtime) : []),
+			...this.checkAuthentication(routes),
+			...this.checkThrottle(routes)
+		];
+
+		for (const issue of issues) {
+			const route = routes[issue.routeIndex];
+			issue.location = this.locate(route, runtime?.closures[RouteActionService.routeKey(route)]);
+		}
+
+		const severityOrder: RouteLintSeverity[] = ['error', 'warning', 'info'];
+		issues.sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) || a.routeIndex - b.routeIndex);
+		return { issues, skipped };
+	}
+
+	/**
+	 * Route files under routes/, for placing diagnostics.
+	 */
+	public isRouteFile(file: string): boolean {
+		const relative = path.relative(path.join(WorkspaceService.getWorkspaceRoot(), 'routes'), file);
+		return !relative.startsWith('..') && !path.isAbsolute(relative) && file.endsWith('.php');
+	}
+
+	/**
+	 * Files under the PSR-4 controller directories, whose methods the missing-action check looks for.
+	 */
+	public isControllerFile(file: string): boolean {
+		const root = WorkspaceService.getWorkspaceRoot();
+		return file.endsWith('.php') && this.actions.sourceDirectories('Http/Controllers').some(directory => {
+			const relative = path.relative(path.join(root, directory), file);
+			return !relative.startsWith('..') && !path.isAbsolute(relative);
+		});
+	}
+
+	/**
+	 * A route that matches every URL of a later route with a shared method makes the later one unreachable.
+	 * Identical patterns are reported as duplicate URIs, broader ones as shadowing.
+	 */
+	private checkOverlaps(ordered: { route: RouteInfo; index: number }[], runtime: RuntimeRouteTable | undefined): RouteLintIssue[] {
+		const issues: RouteLintIssue[] = [];
+		const fallback = new Set(runtime?.fallback ?? []);
+
+		ordered.forEach((later, position) => {
+			const laterKey = RouteActionService.routeKey(later.route);
+			if (fallback.has(laterKey)) {
+				return;
+			}
+			for (const earlier of ordered.slice(0, position)) {
+				const earlierKey = RouteActionService.routeKey(earlier.route);
+				if (fallback.has(earlierKey) || !this.sharesMethodAndDomain(earlier.route, later.route)) {
+					continue;
+				}
+
+				const samePattern = this.normalizePattern(earlier.route.uri) === this.normalizePattern(later.route.uri);
+				if (samePattern) {
+					issues.push({
+						rule: 'duplicate-uri',
+						severity: 'error',
+						message: `${this.describe(later.route)} matches the same URLs as ${this.describe(earlier.route)}${runtime ? ', which is registered earlier' : ''}, so only one of them is reachable.`,
+						routeIndex: later.index
+					});
+					break;
+				}
+				if (runtime && this.covers(earlier.route, later.route, runtime.wheres[earlierKey] ?? {})) {
+					const parameters = [...earlier.route.uri.matchAll(/\{(\w+)\??\}/g)].map(match => `{${match[1]}}`);
+					issues.push({
+						rule: 'shadowed-route',
+						severity: 'error',
+						message: `${this.describe(later.route)} is shadowed by ${this.describe(earlier.route)}, which is registered earlier and matches the same URLs. `
+							+ `Register it before that route${parameters.length ? ` or constrain ${parameters.join(', ')} with where()` : ''}.`,
+						routeIndex: later.index
+					});
+					break;
+				}
+			}
+		});
+
+		return issues;
+	}
+
+	private checkNames(ordered: { route: RouteInfo; index: number }[]): RouteLintIssue[] {
+		const first = new Map<string, RouteInfo>();
+		const issues: RouteLintIssue[] = [];
+		for (const { route, index } of ordered) {
+			if (!route.name) {
+				continue;
+			}
+			const existing = first.get(route.name);
+			if (existing) {
+				issues.push({
+					rule: 'duplicate-name',
+					severity: 'error',
+					message: `Route name '${route.name}' is also used by ${this.describe(existing)}. route('${route.name}') resolves to only one of them.`,
+					routeIndex: index
+				});
+			} else {
+				first.set(route.name, route);
+			}
+		}
+		return issues;
+	}
+
+	private checkActions(routes: RouteInfo[], runtime: RuntimeRouteTable): RouteLintIssue[] {
+		return routes.flatMap((route, index) => {
+			const missing = runtime.missing[RouteActionService.routeKey(route)];
+			const action = this.actions.parseAction(route.action);
+			if (!missing || !action) {
+				return [];
+			}
+			const message = missing === 'class'
+				? `Controller class ${action.className} of ${this.describe(route)} does not exist.`
+				: `Method ${action.className.split('\\').pop()}::${action.method}() of ${this.describe(route)} does not exist.`;
+			return [{ rule: 'missing-action' as const, severity: 'error' as const, message, routeIndex: index }];
+		});
+	}
+
+	private checkAuthentication(routes: RouteInfo[]): RouteLintIssue[] {
+		const prefixes = vscode.workspace.getConfiguration('laravelHero')
+			.get<string[]>('protectedRoutePrefixes', ['admin', 'api'])
+			.map(prefix => prefix.replace(/^\/+|\/+$/g, ''))
+			.filter(Boolean);
+
+		return routes.flatMap((route, index) => {
+			const uri = route.uri.replace(/^\/+/, '');
+			const prefix = prefixes.find(candidate => uri === candidate || uri.startsWith(`${candidate}/`));
+			if (!prefix || this.isAuthenticated(route) || this.isGuestOnly(route)) {
+				return [];
+			}
+			return [{
+				rule: 'unauthenticated' as const,
+				severity: 'warning' as const,
+				message: `${this.describe(route)} is under the protected prefix '${prefix}/' but has no auth middleware.`,
+				routeIndex: index
+			}];
+		});
+	}
+
+	private checkThrottle(routes: RouteInfo[]): RouteLintIssue[] {
+		return routes.flatMap((route, index) => {
+			const isApi = /^\/?api(\/|$)/.test(route.uri) || route.middleware.includes('api');
+			const throttled = route.middleware.some(name => /^throttle(:|$)|\\ThrottleRequests(WithRedis)?(:|$)/.test(name));
+			if (!isApi || throttled) {
+				return [];
+			}
+			return [{
+				rule: 'missing-throttle' as const,
+				severity: 'info' as const,
+				message: `API route ${this.describe(route)} has no throttle middleware.`,
+				routeIndex: index
+			}];
+		});
+	}
+
+	private isAuthenticated(route: RouteInfo): boolean {
+		return route.middleware.some(name => /^auth(\.basic)?(:|$)|\\Authenticate(WithBasicAuth)?(:|$)/.test(name));
+	}
+
+	/** Login and registration routes behind `guest` are public on purpose. */
+	private isGuestOnly(route: RouteInfo): boolean {
+		return route.middleware.some(name => /^guest(:|$)|\\RedirectIfAuthenticated(:|$)/.test(name));
+	}
+
+	private sharesMethodAndDomain(a: RouteInfo, b: RouteInfo): boolean {
+		const methods = new Set(a.methods.filter(method => method !== 'HEAD'));
+		return (a.domain ?? '') === (b.domain ?? '') && b.methods.some(method => method !== 'HEAD' && methods.has(method));
+	}
+
+	/** `users/{id}` and `users/{user}` match the same URLs. */
+	private normalizePattern(uri: string): string {
+		return uri.replace(/^\/+/, '').replace(/\{\w+(\?)?\}/g, '{$1}');
+	}
+
+	/**
+	 * Whether every URL of `later` (without its optional segments) is matched by `earlier`.
+	 */
+	private covers(earlier: RouteInfo, later: RouteInfo, wheres: Record<string, string>): boolean {
+		const earlierSegments = earlier.uri.replace(/^\/+/, '').split('/').filter(Boolean);
+		const laterSegments = later.uri.replace(/^\/+/, '').split('/').filter(segment => segment && !/^\{\w+\?\}$/.test(segment));
+		const required = earlierSegments.filter(segment => !/^\{\w+\?\}$/.test(segment)).length;
+
+		for (let i = 0; i < earlierSegments.length; i++) {
+			const segment = earlierSegments[i];
+			const wholeParameter = segment.match(/^\{(\w+)\??\}$/)?.[1];
+
+			// A trailing catch-all such as where('any', '.*') also matches slashes
+			if (i === earlierSegments.length - 1 && wholeParameter && /\.[*+]/.test(wheres[wholeParameter] ?? '')) {
+				return laterSegments.length >= i + (required > i ? 1 : 0) && this.matchesSegment(segment, laterSegments.slice(i).join('/'), wheres);
+			}
+			if (i >= laterSegments.length) {
+				return i >= required;
+			}
+
+			const target = laterSegments[i];
+			if (target.includes('{')) {
+				if (!wholeParameter || wheres[wholeParameter]) {
+					return false;
+				}
+			} else if (!this.matchesSegment(segment, target, wheres)) {
+				return false;
+			}
+		}
+		return laterSegments.length === earlierSegments.length;
+	}
+
+	private matchesSegment(segment: string, value: string, wheres: Record<string, string>): boolean {
+		const source = segment.replace(/\{(\w+)\??\}|[^{]+/g, (match: string, name: string | undefined) =>
+			name ? `(?:${wheres[name] ?? '[^/]+'})` : match.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+		try {
+			return new RegExp(`^${source}$`).test(value);
+		} catch {
+			// PHP-only regex syntax: assume the constraint allows the value
+			return true;
+		}
+	}
+
+	private describe(route: RouteInfo): string {
+		const methods = route.methods.filter(method => method !== 'HEAD');
+		const uri = `/${route.uri.replace(/^\/+/, '')}`;
+		return `${methods.join('|') || 'ANY'} ${uri}${route.name ? ` (${route.name})` : ''}`;
+	}
+
+	/**
+	 * Find where a route is declared: the reflected closure, `->name()`, `Route::resource()`, or the URI literal.
+	 * Name and URI lookups drop group prefixes one part at a time.
+	 */
+	private locate(route: RouteInfo, closure: { file: string; line: number } | undefined): { file: string; line: number } | undefined {
+		if (closure) {
+			return { file: ExecutionEnvironmentService.toHostPath(closure.file), line: closure.line };
+		}
+
+		const files = this.getRouteFiles();
+		const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const segments = route.uri.replace(/^\/+/, '').split('/').filter(Boolean);
+		const lastStatic = [...segments].reverse().find(segment => !segment.startsWith('{'));
+
+		// Prefer a match whose line also mentions the last static URI segment, e.g. for duplicate names
+		const search = (pattern: RegExp) => {
+			let first: { file: string; line: number } | undefined;
+			for (const file of files) {
+				for (const match of file.code.matchAll(new RegExp(pattern.source, 'g'))) {
+					const found = { file: file.file, line: lineAt(file.content, match.index ?? 0) };
+					const text = file.code.split('\n')[found.line - 1] ?? '';
+					if (!lastStatic || text.includes(lastStatic)) {
+						return found;
+					}
+					first ??= found;
+				}
+			}
+			return first;
+		};
+
+		if (route.name) {
+			const parts = route.name.split('.');
+			for (let start = 0; start < parts.length; start++) {
+				const candidate = escape(parts.slice(start).join('.'));
+				const found = search(new RegExp(`(?:->\\s*name\\s*\\(|['"]as['"]\\s*=>)\\s*['"]${candidate}['"]`));
+				if (found) {
+					return found;
+				}
+			}
+			for (let start = 0; start < parts.length - 1; start++) {
+				const resource = escape(parts.slice(start, -1).join('.'));
+				const found = search(new RegExp(`\\b(?:apiResource|resource|apiSingleton|singleton)\\s*\\(\\s*['"]${resource}['"]`));
+				if (found) {
+					return found;
+				}
+			}
+		}
+
+		if (segments.length === 0) {
+			return search(/\b(?:get|any|match|view|redirect|inertia)\s*\([^'"]*['"]\/['"]/);
+		}
+		for (let start = 0; start < segments.length; start++) {
+			const suffix = segments.slice(start);
+			if (suffix.every(segment => segment.startsWith('{'))) {
+				break;
+			}
+			const found = search(new RegExp(`['"]/?${escape(suffix.join('/'))}/?['"]`));
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	}
+
+	private getRouteFiles(): RouteFile[] {
+		if (this._routeFiles) {
+			return this._routeFiles;
+		}
+
+		const root = path.join(WorkspaceService.getWorkspaceRoot(), 'routes');
+		const files: RouteFile[] = [];
+		const walk = (dir: string) => {
+			for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+				const full = path.join(dir, entry.name);
+				if (entry.isDirectory()) {
+					walk(full);
+				} else if (entry.name.endsWith('.php')) {
+					const content = fs.readFileSync(full, 'utf8');
+					files.push({ file: full, content, code: maskComments(content) });
+				}
+			}
+		};
+
+		try {
+			walk(root);
+		} catch (err) {
+			LoggerService.warn('Could not read route files', err);
+		}
+
+		// The usual entry points first, so ambiguous literals resolve to them
+		const rank = (file: string) => ['web.php', 'api.php'].indexOf(path.basename(file)) + 1 || 3;
+		this._routeFiles = files.sort((a, b) => rank(a.file) - rank(b.file) || a.file.localeCompare(b.file));
+		return this._routeFiles;
+	}
+}
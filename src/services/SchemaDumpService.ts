@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface SchemaDump {
+	/** Connection the dump belongs to, from the `{connection}-schema.sql` file name. */
+	connection: string;
+	/** Path relative to the workspace root (forward slashes). */
+	path: string;
+	size: number;
+	modifiedAt: string;
+	/** Migrations recorded in the dump's migrations table, in run order. */
+	migrations: string[];
+}
+
+/**
+ * Reads schema dumps written by `php artisan schema:dump` to database/schema.
+ * On an empty database Laravel loads the dump for the connection first, then runs the migrations it does not list.
+ */
+export class SchemaDumpService {
+	/** Laravel writes `{connection}-schema.sql`; older versions used `.dump` for PostgreSQL. */
+	private static readonly DUMP_FILE = /^(.+)-schema\.(sql|dump)$/;
+
+	/** Migration names as stored in the migrations table, e.g. 2014_10_12_000000_create_users_table. */
+	private static readonly MIGRATION_NAME = /\b\d{4}_\d{2}_\d{2}_\d{6}_\w+/g;
+
+	public getSchemaDir(): string {
+		return path.join(WorkspaceService.getWorkspaceRoot(), 'database', 'schema');
+	}
+
+	/**
+	 * List dumps in database/schema with the migrations each one covers.
+	 */
+	public async getDumps(): Promise<SchemaDump[]> {
+		const dir = this.getSchemaDir();
+		let entries: string[];
+		try {
+			entries = await fs.promises.readdir(dir);
+		} catch {
+			return [];
+		}
+
+		const dumps: SchemaDump[] = [];
+		for (const entry of entries.sort()) {
+			const match = entry.match(SchemaDumpService.DUMP_FILE);
+			if (!match) {
+				continue;
+			}
+
+			const file = path.join(dir, entry);
+			try {
+				const [stats, content] = await Promise.all([fs.promises.stat(file), fs.promises.readFile(file, 'utf8')]);
+				dumps.push({
+					connection: match[1],
+					path: path.relative(WorkspaceService.getWorkspaceRoot(), file).split(path.sep).join('/'),
+					size: stats.size,
+					modifiedAt: stats.mtime.toISOString(),
+					migrations: [...new Set(content.match(SchemaDumpService.MIGRATION_NAME) ?? [])].sort()
+				});
+			} catch (err) {
+				LoggerService.warn(`Could not read schema dump ${entry}`, err);
+			}
+		}
+
+		return dumps;
+	}
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerService } from './LoggerService';
+import { WorkspaceService } from './WorkspaceService';
+import { findClosing, maskComments } from '../utils/phpSource';
+
+export interface SeederInfo {
+	/** Short class name, e.g. UserSeeder. */
+	name: string;
+	/** Fully qualified class name when a namespace is declared. */
+	className: string;
+	/** File path relative to the workspace root (forward slashes). */
+	path: string;
+	/** Short names of seeders invoked via $this->call()/callWith()/callSilent()/callOnce(). */
+	calls: string[];
+	/** True when DatabaseSeeder reaches this seeder, directly or through another seeder. */
+	calledByDatabaseSeeder: boolean;
+}
+
+/**
+ * Reads seeder classes from database/seeders (database/seeds on Laravel 7 and older)
+ * and works out which of them DatabaseSeeder runs.
+ */
+export class SeederService {
+	private static readonly ROOT_SEEDER = 'DatabaseSeeder';
+
+	/**
+	 * Directory holding seeders, preferring database/seeders.
+	 */
+	public getSeedersDir(): string {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const legacy = path.join(root, 'database', 'seeds');
+		const current = path.join(root, 'database', 'seeders');
+		return !fs.existsSync(current) && fs.existsSync(legacy) ? legacy : current;
+	}
+
+	/**
+	 * Directory holding model factories.
+	 */
+	public getFactoriesDir(): string {
+		return path.join(WorkspaceService.getWorkspaceRoot(), 'database', 'factories');
+	}
+
+	/**
+	 * List seeders found on disk, sorted with DatabaseSeeder first.
+	 */
+	public async getSeeders(): Promise<SeederInfo[]> {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const seeders: SeederInfo[] = [];
+
+		for (const filePath of this.collectPhpFiles(this.getSeedersDir())) {
+			try {
+				const content = await fs.promises.readFile(filePath, 'utf8');
+				const seeder = this.parseSeeder(content, path.relative(root, filePath).split(path.sep).join('/'));
+				if (seeder) {
+					seeders.push(seeder);
+				}
+			} catch (err) {
+				LoggerService.warn(`Failed to read seeder ${filePath}`, err);
+			}
+		}
+
+		this.markReachable(seeders);
+
+		return seeders.sort((a, b) => {
+			if (a.name === SeederService.ROOT_SEEDER) {
+				return -1;
+			}
+			if (b.name === SeederService.ROOT_SEEDER) {
+				return 1;
+			}
+			return a.name.localeCompare(b.name);
+		});
+	}
+
+	/**
+	 * Extract the class declaration and seeder calls from a PHP file.
+	 * Returns undefined for files that do not declare a class.
+	 */
+	private parseSeeder(content: string, relativePath: string): SeederInfo | undefined {
+		const code = maskComments(content);
+		const classMatch = code.match(/\bclass\s+(\w+)/);
+		if (!classMatch) {
+			return undefined;
+		}
+
+		const namespaceMatch = code.match(/\bnamespace\s+([\w\\]+)\s*;/);
+		const name = classMatch[1];
+
+		return {
+			name,
+			className: namespaceMatch ? `${namespaceMatch[1]}\\${name}` : name,
+			path: relativePath,
+			calls: this.parseCalls(code),
+			calledByDatabaseSeeder: false
+		};
+	}
+
+	/**
+	 * Collect seeder names passed to $this->call([...]) and its variants.
+	 * Supports `Foo::class`, `\Namespace\Foo::class` and legacy string names.
+	 */
+	private parseCalls(code: string): string[] {
+		const calls: string[] = [];
+		const callRegex = /\$this\s*->\s*call(?:With|Silent|Once)?\s*\(/g;
+		let match: RegExpExecArray | null;
+
+		while ((match = callRegex.exec(code)) !== null) {
+			const open = match.index + match[0].length - 1;
+			const args = code.slice(open + 1, findClosing(code, open));
+			const classRefs = args.matchAll(/([\\\w]+)\s*::\s*class/g);
+			for (const ref of classRefs) {
+				calls.push(ref[1].split('\\').pop() as string);
+			}
+			const stringRefs = args.matchAll(/['"]([\\\w]+Seeder)['"]/g);
+			for (const ref of stringRefs) {
+				calls.push(ref[1].split('\\').pop() as string);
+			}
+		}
+
+		return [...new Set(calls)];
+	}
+
+	/**
+	 * Flag every seeder DatabaseSeeder reaches through call chains.
+	 */
+	private markReachable(seeders: SeederInfo[]): void {
+		const byName = new Map(seeders.map(s => [s.name, s]));
+		const root = byName.get(SeederService.ROOT_SEEDER);
+		if (!root) {
+			return;
+		}
+
+		const queue = [...root.calls];
+		while (queue.length > 0) {
+			const seeder = byName.get(queue.shift() as string);
+			if (!seeder || seeder.calledByDatabaseSeeder || seeder === root) {
+				continue;
+			}
+			seeder.calledByDatabaseSeeder = true;
+			queue.push(...seeder.calls);
+		}
+	}
+
+	private collectPhpFiles(dir: string): string[] {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(dir, { withFileTypes: true });
+		} catch {
+			return [];
+		}
+
+		const files: string[] = [];
+		for (const entry of entries) {
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				files.push(...this.collectPhpFiles(fullPath));
+			} else if (entry.isFile() && entry.name.endsWith('.php')) {
+				files.push(fullPath);
+			}
+		}
+		return files;
+	}
+}
@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { ProcessRunner, ProcessRunOptions } from './ProcessRunner';
+import { WorkspaceService } from './WorkspaceService';
+import { ExecutionEnvironmentService } from './ExecutionEnvironmentService';
+
+export interface SnapshotInfo {
+	/** Timestamp-based identifier, also the file name stem. */
+	id: string;
+	connection: string;
+	driver: string;
+	database: string;
+	/** Absolute path of the dump (.sql) or database copy (.sqlite). */
+	file: string;
+	size: number;
+	createdAt: string;
+	/** Why the snapshot was taken, e.g. "Before migrate:fresh". */
+	reason: string;
+	/** Highest batch recorded in the migrations table when the snapshot was taken. */
+	batch: number | null;
+	/** Migrations the following command was about to run or roll back. */
+	migrations: string[];
+}
+
+export interface SnapshotContext {
+	connection?: string;
+	reason: string;
+	batch: number | null;
+	migrations: string[];
+	token?: vscode.CancellationToken;
+}
+
+/**
+ * Connection settings as resolved by Laravel (including DB_URL parsing).
+ */
+interface ConnectionConfig {
+	name: string;
+	driver: string;
+	database: string;
+	host?: string;
+	port?: string | number;
+	username?: string;
+	password?: string;
+	unix_socket?: string;
+}
+
+/**
+ * Takes and restores database snapshots around migration runs.
+ * SQLite databases are copied; MySQL/MariaDB and PostgreSQL go through the configured dump and client tools.
+ * Each snapshot is stored with a JSON metadata file in laravelHero.snapshotDirectory.
+ */
+export class SnapshotService {
+	private static readonly CONFIG_TIMEOUT = 30_000;
+	private static readonly DUMP_TIMEOUT = 10 * 60_000;
+	private static readonly SQLITE_SIDECARS = ['-wal', '-shm', '-journal'];
+
+	/**
+	 * Whether "snapshot before run" is switched on for this workspace.
+	 */
+	public isEnabled(): boolean {
+		return vscode.workspace.getConfiguration('laravelHero').get<boolean>('snapshotBeforeMigrate', false);
+	}
+
+	/**
+	 * Turn "snapshot before run" on or off for this workspace.
+	 */
+	public async setEnabled(enabled: boolean): Promise<void> {
+		await vscode.workspace.getConfiguration('laravelHero')
+			.update('snapshotBeforeMigrate', enabled, vscode.ConfigurationTarget.Workspace);
+	}
+
+	/**
+	 * Absolute snapshot directory. Defaults to storage/app/laravel-hero/snapshots, which Laravel's
+	 * storage/app/.gitignore already keeps out of version control.
+	 */
+	public getSnapshotDir(): string {
+		const configured = vscode.workspace.getConfiguration('laravelHero').get<string>('snapshotDirectory')
+			|| path.join('storage', 'app', 'laravel-hero', 'snapshots');
+		return path.isAbsolute(configured) ? configured : path.join(WorkspaceService.getWorkspaceRoot(), configured);
+	}
+
+	/**
+	 * List snapshots, newest first.
+	 */
+	public async getSnapshots(): Promise<SnapshotInfo[]> {
+		const dir = this.getSnapshotDir();
+		let entries: string[];
+		try {
+			entries = await fs.promises.readdir(dir);
+		} catch {
+			return [];
+		}
+
+		const snapshots: SnapshotInfo[] = [];
+		for (const entry of entries.filter(name => name.endsWith('.json'))) {
+			try {
+				const snapshot = JSON.parse(await fs.promises.readFile(path.join(dir, entry), 'utf8')) as SnapshotInfo;
+				if (fs.existsSync(snapshot.file)) {
+					snapshots.push(snapshot);
+				}
+			} catch (err) {
+				LoggerService.warn(`Skipping unreadable snapshot metadata ${entry}`, err);
+			}
+		}
+
+		return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	/**
+	 * Snapshot the given connection and write its metadata.
+	 */
+	public async createSnapshot(context: SnapshotContext): Promise<SnapshotInfo> {
+		const config = await this.getConnectionConfig(context.connection);
+		const dir = this.getSnapshotDir();
+		await fs.promises.mkdir(dir, { recursive: true });
+
+		const createdAt = new Date();
+		const id = `${createdAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}_${config.name}`;
+		const file = path.join(dir, `${id}.${config.driver === 'sqlite' ? 'sqlite' : 'sql'}`);
+
+		LoggerService.info(`Creating ${config.driver} snapshot of ${config.name}`, { file });
+
+		try {
+			switch (config.driver) {
+				case 'sqlite': {
+					const database = this.resolveSqlitePath(config);
+					await this.checkpointSqlite(config);
+					await fs.promises.copyFile(database, file);
+					break;
+				}
+				case 'mysql':
+				case 'mariadb':
+					await ProcessRunner.databaseTool(this.getTool('mysqldumpCommand', 'mysqldump'), [
+						...this.mysqlConnectionArgs(config),
+						'--single-transaction',
+						'--routines',
+						'--triggers',
+						'--no-tablespaces',
+						'--add-drop-database',
+						'--databases',
+						config.database
+					], { ...this.toolOptions(config, context.token), stdoutFile: file }, 'laravelHero.mysqldumpCommand');
+					break;
+				case 'pgsql':
+					await ProcessRunner.databaseTool(this.getTool('pgDumpCommand', 'pg_dump'), [
+						...this.pgsqlConnectionArgs(config),
+						'--clean',
+						'--if-exists',
+						'--no-owner'
+					], { ...this.toolOptions(config, context.token), stdoutFile: file }, 'laravelHero.pgDumpCommand');
+					break;
+				default:
+					throw new Error(`Snapshots are not supported for the ${config.driver} driver`);
+			}
+		} catch (err) {
+			await fs.promises.rm(file, { force: true });
+			throw err;
+		}
+
+		const snapshot: SnapshotInfo = {
+			id,
+			connection: config.name,
+			driver: config.driver,
+			database: config.database,
+			file,
+			size: (await fs.promises.stat(file)).size,
+			createdAt: createdAt.toISOString(),
+			reason: context.reason,
+			batch: context.batch,
+			migrations: context.migrations
+		};
+
+		await fs.promises.writeFile(path.join(dir, `${id}.json`), JSON.stringify(snapshot, null, 2) + '\n', 'utf8');
+		LoggerService.info(`Snapshot ${id} created (${snapshot.size} bytes)`);
+		return snapshot;
+	}
+
+	/**
+	 * Restore a snapshot onto the connection it was taken from.
+	 */
+	public async restoreSnapshot(snapshot: SnapshotInfo, token?: vscode.CancellationToken): Promise<void> {
+		const config = await this.getConnectionConfig(snapshot.connection);
+		if (config.driver !== snapshot.driver) {
+			throw new Error(`Connection '${snapshot.connection}' now uses ${config.driver}, but the snapshot was taken from ${snapshot.driver}`);
+		}
+
+		LoggerService.info(`Restoring snapshot ${snapshot.id} onto ${config.name}`);
+
+		switch (config.driver) {
+			case 'sqlite': {
+				const database = this.resolveSqlitePath(config);
+				await fs.promises.copyFile(snapshot.file, database);
+				// A leftover write-ahead log would be replayed over the restored file
+				for (const sidecar of SnapshotService.SQLITE_SIDECARS) {
+					await fs.promises.rm(database + sidecar, { force: true });
+				}
+				break;
+			}
+			case 'mysql':
+			case 'mariadb':
+				await ProcessRunner.databaseTool(this.getTool('mysqlCommand', 'mysql'), this.mysqlConnectionArgs(config),
+					{ ...this.toolOptions(config, token), stdinFile: snapshot.file }, 'laravelHero.mysqlCommand');
+				break;
+			case 'pgsql':
+				await ProcessRunner.databaseTool(this.getTool('psqlCommand', 'psql'), [
+					...this.pgsqlConnectionArgs(config),
+					'--set=ON_ERROR_STOP=1',
+					'--quiet'
+				], { ...this.toolOptions(config, token), stdinFile: snapshot.file }, 'laravelHero.psqlCommand');
+				break;
+			default:
+				throw new Error(`Snapshots are not supported for the ${config.driver} driver`);
+		}
+	}
+
+	/**
+	 * Delete a snapshot and its metadata.
+	 */
+	public async deleteSnapshot(snapshot: SnapshotInfo): Promise<void> {
+		await fs.promises.rm(snapshot.file, { force: true });
+		await fs.promises.rm(path.join(this.getSnapshotDir(), `${snapshot.id}.json`), { force: true });
+		LoggerService.info(`Snapshot ${snapshot.id} deleted`);
+	}
+
+	/**
+	 * Find a snapshot by id.
+	 */
+	public async findSnapshot(id: string): Promise<SnapshotInfo | undefined> {
+		return (await this.getSnapshots()).find(snapshot => snapshot.id === id);
+	}
+
+	/**
+	 * Read the connection settings Laravel resolved, so DB_URL and config overrides are honored.
+	 */
+	private async getConnectionConfig(connection?: string): Promise<ConnectionConfig> {
+		if (connection && !/^[\w.-]+$/.test(connection)) {
+			throw new Error(`Invalid connection name: ${connection}`);
+		}
+
+		const connectionArg = connection ? `'${connection}'` : 'null';
+		const result = await ProcessRunner.laravelScript(
+			`$db = $app->make('db')->connection(${connectionArg}); echo json_encode(['name' => $db->getName()] + $db->getConfig());`,
+			{ silent: true, timeout: SnapshotService.CONFIG_TIMEOUT }
+		);
+		const start = result.stdout.indexOf('{');
+		const end = result.stdout.lastIndexOf('}');
+		const config = (start >= 0 && end > start ? JSON.parse(result.stdout.slice(start, end + 1)) : {}) as ConnectionConfig;
+		if (!config.driver || !config.database) {
+			throw new Error(`Could not read the configuration of connection '${connection ?? 'default'}'`);
+		}
+		return config;
+	}
+
+	private resolveSqlitePath(config: ConnectionConfig): string {
+		if (config.database === ':memory:') {
+			throw new Error('In-memory SQLite databases cannot be snapshotted');
+		}
+		const file = ExecutionEnvironmentService.toHostPath(config.database);
+		if (!fs.existsSync(file)) {
+			throw new Error(`SQLite database not found: ${file}`);
+		}
+		return file;
+	}
+
+	/**
+	 * Move committed pages out of the write-ahead log into the main file, so copying that file captures them.
+	 */
+	private async checkpointSqlite(config: ConnectionConfig): Promise<void> {
+		const result = await ProcessRunner.laravelScript(
+			`echo json_encode($app->make('db')->connection('${config.name}')->select('PRAGMA wal_checkpoint(TRUNCATE)'));`,
+			{ silent: true, timeout: SnapshotService.CONFIG_TIMEOUT }
+		);
+		const start = result.stdout.indexOf('[');
+		const end = result.stdout.lastIndexOf(']');
+		const rows = (start >= 0 && end > start ? JSON.parse(result.stdout.slice(start, end + 1)) : []) as Array<{ busy?: number }>;
+		if (rows[0]?.busy) {
+			throw new Error(`SQLite database '${config.name}' is busy; close other connections and try again`);
+		}
+	}
+
+	private mysqlConnectionArgs(config: ConnectionConfig): string[] {
+		const args: string[] = [];
+		if (config.unix_socket) {
+			args.push(`--socket=${config.unix_socket}`);
+		} else {
+			args.push(`--host=${config.host || '127.0.0.1'}`, `--port=${config.port || 3306}`);
+		}
+		if (config.username) {
+			args.push(`--user=${config.username}`);
+		}
+		return args;
+	}
+
+	private pgsqlConnectionArgs(config: ConnectionConfig): string[] {
+		const args = [`--host=${config.host || '127.0.0.1'}`, `--port=${config.port || 5432}`, `--dbname=${config.database}`];
+		if (config.username) {
+			args.push(`--username=${config.username}`);
+		}
+		return args;
+	}
+
+	/**
+	 * Pass passwords through the environment so they never show up in logged command lines.
+	 */
+	private toolOptions(config: ConnectionConfig, token?: vscode.CancellationToken): ProcessRunOptions {
+		const env: Record<string, string> = {};
+		if (config.password) {
+			env[config.driver === 'pgsql' ? 'PGPASSWORD' : 'MYSQL_PWD'] = String(config.password);
+		}
+		return { env, token, timeout: SnapshotService.DUMP_TIMEOUT };
+	}
+
+	private getTool(setting: string, fallback: string): string {
+		return vscode.workspace.getConfiguration('laravelHero').get<string>(setting) || fallback;
+	}
+}
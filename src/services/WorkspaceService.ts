@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { LoggerService } from './LoggerService';
+import { ProcessRunner } from './ProcessRunner';
 
 /**
  * Handles workspace context and Laravel project detection.
@@ -33,6 +35,65 @@ export class WorkspaceService {
 		}
 	}
 
+	/**
+	 * Parse the workspace .env file into key/value pairs.
+	 * Returns an empty object when the file is missing or unreadable.
+	 */
+	static readEnv(): Record<string, string> {
+		const envVars: Record<string, string> = {};
+
+		try {
+			const root = WorkspaceService.getWorkspaceRoot();
+			const envPath = path.join(root, '.env');
+			if (!fs.existsSync(envPath)) {
+				return envVars;
+			}
+
+			const content = fs.readFileSync(envPath, 'utf8');
+			for (const line of content.split(/\r?\n/)) {
+				if (!line || line.trim().startsWith('#')) {
+					continue;
+				}
+				const [key, ...rest] = line.split('=');
+				if (!key || rest.length === 0) {
+					continue;
+				}
+				const value = rest.join('=').trim().replace(/^['"]|['"]$/g, '');
+				envVars[key.trim()] = value;
+			}
+		} catch (err) {
+			LoggerService.warn('Failed to parse .env file', err);
+		}
+
+		return envVars;
+	}
+
+	/**
+	 * Resolve a display name for the project without booting Laravel.
+	 * Uses APP_NAME, then composer.json name, then the folder name.
+	 */
+	static getProjectName(): string {
+		const root = WorkspaceService.getWorkspaceRoot();
+		const appName = WorkspaceService.readEnv().APP_NAME;
+		if (appName) {
+			return appName;
+		}
+
+		try {
+			const composerPath = path.join(root, 'composer.json');
+			if (fs.existsSync(composerPath)) {
+				const composer = JSON.parse(fs.readFileSync(composerPath, 'utf8'));
+				if (composer.name) {
+					return composer.name;
+				}
+			}
+		} catch (err) {
+			LoggerService.warn('Failed to read project name from composer.json', err);
+		}
+
+		return path.basename(root);
+	}
+
 	/**
 	 * Get the configured PHP command from settings.
 	 * Falls back to 'php' if not configured.
@@ -47,10 +108,8 @@ export class WorkspaceService {
 	 * Check if PHP is available in the system.
 	 */
 	static async isPhpAvailable(): Promise<boolean> {
-		const { execSync } = await import('child_process');
 		try {
-			const phpCmd = WorkspaceService.getPhpCommand();
-			execSync(`${phpCmd} -v`, { stdio: 'pipe', timeout: 5000 });
+			await ProcessRunner.php(['-v'], { silent: true, timeout: 5000 });
 			return true;
 		} catch {
 			return false;
@@ -0,0 +1,220 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs = require('sql.js');
+import { DatabaseInspectorService, DriftItem, LiveSchema } from '../services/DatabaseInspectorService';
+import { MigrationFile } from '../services/MigrationPathService';
+import { MigrationSchemaResult, MigrationSchemaService } from '../services/MigrationSchemaService';
+import { ProcessResult } from '../services/ProcessRunner';
+
+// Two levels up is the repository root both from src/test and from the compiled out/test
+const FIXTURE = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures', 'drift');
+
+type Row = initSqlJs.ParamsObject;
+
+function fixtureMigrations(): MigrationFile[] {
+	const directory = path.join(FIXTURE, 'database', 'migrations');
+	return fs.readdirSync(directory).filter(file => file.endsWith('.php')).sort().map(file => ({
+		name: path.basename(file, '.php'),
+		path: path.join(directory, file),
+		relativePath: `database/migrations/${file}`,
+		directory: 'database/migrations'
+	}));
+}
+
+function query(db: initSqlJs.Database, sql: string, params: initSqlJs.SqlValue[] = []): Row[] {
+	const statement = db.prepare(sql, params);
+	const rows: Row[] = [];
+	while (statement.step()) {
+		rows.push(statement.getAsObject());
+	}
+	statement.free();
+	return rows;
+}
+
+/**
+ * What DatabaseInspectorService's Schema builder script prints for a SQLite database: the pragmas
+ * Laravel's SQLite schema grammar queries, shaped the way its SQLite processor returns them.
+ */
+function schemaBuilderOutput(db: initSqlJs.Database, file: string): string {
+	const tables = query(db, "select name from sqlite_master where type = 'table' and name not like 'sqlite_%' order by name").map(({ name }) => {
+		const table = String(name);
+		const columns = query(db, 'select * from pragma_table_xinfo(?) order by cid', [table]);
+		const primary = columns.filter(column => Number(column.pk) > 0).sort((a, b) => Number(a.pk) - Number(b.pk));
+		const indexes = query(db, 'select * from pragma_index_list(?) order by seq', [table]).map(index => ({
+			name: String(index.name).toLowerCase(),
+			columns: query(db, 'select name from pragma_index_info(?) order by seqno', [index.name]).map(column => column.name),
+			unique: Boolean(index.unique),
+			primary: index.origin === 'pk'
+		}));
+		const foreignKeys = new Map<number, Row[]>();
+		for (const reference of query(db, 'select * from pragma_foreign_key_list(?) order by id desc, seq', [table])) {
+			foreignKeys.set(Number(reference.id), [...(foreignKeys.get(Number(reference.id)) ?? []), reference]);
+		}
+
+		return {
+			name: table,
+			schema: 'main',
+			size: null,
+			rows: Number(query(db, `select count(*) as count from "${table}"`)[0].count),
+			columns: columns.map(column => ({
+				name: column.name,
+				type_name: String(column.type).toLowerCase().replace(/\(.*$/, ''),
+				type: String(column.type).toLowerCase(),
+				nullable: !column.notnull,
+				default: column.dflt_value,
+				auto_increment: primary.length === 1 && Number(column.pk) > 0 && String(column.type).toLowerCase() === 'integer',
+				comment: null
+			})),
+			indexes: [
+				...(primary.length > 0 ? [{ name: 'primary', columns: primary.map(column => column.name), unique: true, primary: true }] : []),
+				...indexes
+			],
+			foreignKeys: [...foreignKeys.values()].map(references => ({
+				name: null,
+				columns: references.map(reference => reference.from),
+				foreign_table: references[0].table,
+				foreign_columns: references.map(reference => reference.to),
+				on_update: String(references[0].on_update).toLowerCase(),
+				on_delete: String(references[0].on_delete).toLowerCase()
+			}))
+		};
+	});
+
+	return JSON.stringify({ connection: 'sqlite', driver: 'sqlite', database: file, tables });
+}
+
+function find(drift: DriftItem[], table: string, kind: DriftItem['kind']): DriftItem[] {
+	return drift.filter(item => item.table === table && item.kind === kind);
+}
+
+suite('DatabaseInspectorService drift', () => {
+	let SQL: initSqlJs.SqlJsStatic;
+	let directory: string;
+	let expected: MigrationSchemaResult;
+
+	suiteSetup(async () => {
+		SQL = await initSqlJs();
+		directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'laravel-hero-drift-'));
+		expected = await new MigrationSchemaService().getSchema(fixtureMigrations());
+	});
+
+	suiteTeardown(async () => {
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	});
+
+	/**
+	 * Create a SQLite file from a fixture script and read it back through getLiveSchema().
+	 */
+	async function liveSchema(script: string): Promise<LiveSchema> {
+		const file = path.join(directory, script.replace(/\.sql$/, '.sqlite'));
+		const db = new SQL.Database();
+		db.run(fs.readFileSync(path.join(FIXTURE, script), 'utf8'));
+		await fs.promises.writeFile(file, db.export());
+		db.close();
+
+		const inspector = new DatabaseInspectorService(async (): Promise<ProcessResult> => {
+			const opened = new SQL.Database(await fs.promises.readFile(file));
+			try {
+				// PHP notices around the JSON are skipped
+				const stdout = `PHP Deprecated:  Something in vendor on line 1\n${schemaBuilderOutput(opened, file)}\n`;
+				return { command: 'php', args: [], exitCode: 0, signal: null, stdout, stderr: '', durationMs: 0, timedOut: false, cancelled: false };
+			} finally {
+				opened.close();
+			}
+		});
+		return inspector.getLiveSchema();
+	}
+
+	test('reads tables, row counts, columns, indexes and foreign keys from the database', async () => {
+		const live = await liveSchema('drifted.sql');
+
+		assert.strictEqual(live.driver, 'sqlite');
+		assert.deepStrictEqual(live.tables.map(table => [table.name, table.rows]), [['audit_log', 0], ['migrations', 2], ['posts', 1], ['users', 2]]);
+
+		const posts = live.tables.find(table => table.name === 'posts')!;
+		assert.deepStrictEqual(posts.columns[0], {
+			name: 'id', typeName: 'integer', type: 'integer', nullable: false, default: null, autoIncrement: true, comment: null
+		});
+		assert.deepStrictEqual(posts.columns.find(column => column.name === 'editor_id'), {
+			name: 'editor_id', typeName: 'integer', type: 'integer', nullable: true, default: null, autoIncrement: false, comment: null
+		});
+		assert.deepStrictEqual(posts.indexes.map(index => [index.name, index.columns, index.unique, index.primary]), [
+			['primary', ['id'], true, true],
+			['posts_created_at_index', ['created_at'], false, false],
+			['posts_title_index', ['title'], false, false]
+		]);
+		assert.deepStrictEqual(posts.foreignKeys, [
+			{ name: null, columns: ['editor_id'], foreignTable: 'users', foreignColumns: ['id'], onUpdate: 'no action', onDelete: 'no action' }
+		]);
+	});
+
+	test('reports no drift when the database matches the migrations', async () => {
+		assert.deepStrictEqual(new DatabaseInspectorService().compare(await liveSchema('matching.sql'), expected), []);
+	});
+
+	test('reports missing and extra tables, ignoring the migrations table', async () => {
+		const drift = new DatabaseInspectorService().compare(await liveSchema('drifted.sql'), expected);
+
+		const missing = drift.filter(item => item.kind === 'missing-table');
+		assert.deepStrictEqual(missing.map(item => item.table), ['comments']);
+		assert.strictEqual(missing[0].source?.migration, '2024_01_03_000000_create_comments_table');
+
+		assert.deepStrictEqual(drift.filter(item => item.kind === 'extra-table').map(item => item.table), ['audit_log']);
+		assert.strictEqual(drift.some(item => item.table === 'migrations' || item.table === 'sqlite_sequence'), false);
+	});
+
+	test('reports column drift and accepts types SQLite stores differently', async () => {
+		const drift = new DatabaseInspectorService().compare(await liveSchema('drifted.sql'), expected);
+
+		const missing = find(drift, 'posts', 'missing-column');
+		assert.strictEqual(missing.length, 1);
+		assert.match(missing[0].message, /'body'/);
+		assert.strictEqual(missing[0].source?.line, 15);
+
+		assert.deepStrictEqual(
+			[...find(drift, 'users', 'extra-column'), ...find(drift, 'posts', 'extra-column')].map(item => item.message),
+			["Column 'nickname' (varchar) is not defined in migrations", "Column 'editor_id' (integer) is not defined in migrations"]
+		);
+
+		const types = find(drift, 'posts', 'type-mismatch');
+		assert.strictEqual(types.length, 1);
+		assert.match(types[0].message, /'title' is integer in the database, migrations define string/);
+
+		const nullability = find(drift, 'users', 'nullability-mismatch');
+		assert.strictEqual(nullability.length, 1);
+		assert.match(nullability[0].message, /'email_verified_at' is NOT NULL in the database/);
+
+		// json → text, timestamp → datetime and bigInteger → integer are how SQLite stores these columns
+		assert.strictEqual(drift.some(item => /'(meta|created_at|id|user_id)'/.test(item.message)), false);
+	});
+
+	test('reports index drift by columns and uniqueness, not by name', async () => {
+		const drift = new DatabaseInspectorService().compare(await liveSchema('drifted.sql'), expected);
+
+		const missing = find(drift, 'users', 'missing-index');
+		assert.strictEqual(missing.length, 1);
+		assert.strictEqual(missing[0].message, 'Unique index on (email) is missing');
+
+		assert.deepStrictEqual(find(drift, 'posts', 'missing-index'), []);
+		assert.deepStrictEqual(
+			find(drift, 'posts', 'extra-index').map(item => item.message),
+			["Index 'posts_created_at_index' on (created_at) is not defined in migrations"]
+		);
+	});
+
+	test('reports missing and extra foreign keys', async () => {
+		const drift = new DatabaseInspectorService().compare(await liveSchema('drifted.sql'), expected);
+
+		const missing = find(drift, 'posts', 'missing-foreign-key');
+		assert.strictEqual(missing.length, 1);
+		assert.strictEqual(missing[0].message, 'Foreign key (user_id) → users is missing');
+		assert.strictEqual(missing[0].source?.migration, '2024_01_02_000000_create_posts_table');
+
+		assert.deepStrictEqual(
+			find(drift, 'posts', 'extra-foreign-key').map(item => item.message),
+			['Foreign key (editor_id) → users is not defined in migrations']
+		);
+	});
+});
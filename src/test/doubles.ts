@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+
+/**
+ * In-memory workspace state.
+ */
+export class MemoryState implements vscode.Memento {
+	readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string): T | undefined;
+	get<T>(key: string, defaultValue: T): T;
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+/**
+ * In-memory secret storage.
+ */
+export class MemorySecrets implements vscode.SecretStorage {
+	readonly values = new Map<string, string>();
+	readonly onDidChange = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>().event;
+
+	async keys(): Promise<string[]> {
+		return [...this.values.keys()];
+	}
+
+	async get(key: string): Promise<string | undefined> {
+		return this.values.get(key);
+	}
+
+	async store(key: string, value: string): Promise<void> {
+		this.values.set(key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.values.delete(key);
+	}
+}
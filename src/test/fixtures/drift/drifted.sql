@@ -0,0 +1,13 @@
+-- The fixture migrations' database after changes made outside migrations:
+-- comments never created, audit_log added by hand, users.email lost its unique index, gained nickname
+-- and email_verified_at became NOT NULL; posts.body dropped, title turned into an integer,
+-- editor_id with its foreign key and an index on created_at added, the user_id foreign key dropped
+create table "migrations" ("id" integer primary key autoincrement not null, "migration" varchar not null, "batch" integer not null);
+create table "users" ("id" integer primary key autoincrement not null, "name" varchar not null, "email" varchar not null, "email_verified_at" datetime not null, "created_at" datetime, "updated_at" datetime, "nickname" varchar);
+create table "posts" ("id" integer primary key autoincrement not null, "user_id" integer not null, "title" integer not null, "meta" text, "created_at" datetime, "updated_at" datetime, "editor_id" integer, foreign key("editor_id") references "users"("id"));
+create index "posts_title_index" on "posts" ("title");
+create index "posts_created_at_index" on "posts" ("created_at");
+create table "audit_log" ("id" integer primary key autoincrement not null, "event" varchar not null);
+insert into "migrations" ("migration", "batch") values ('2024_01_01_000000_create_users_table', 1), ('2024_01_02_000000_create_posts_table', 1);
+insert into "users" ("name", "email", "email_verified_at") values ('Taylor', 'taylor@example.com', '2024-01-01 00:00:00'), ('Abigail', 'abigail@example.com', '2024-01-02 00:00:00');
+insert into "posts" ("user_id", "title") values (1, 42);
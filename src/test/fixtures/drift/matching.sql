@@ -0,0 +1,8 @@
+-- What Laravel's SQLite grammar creates for the fixture migrations
+create table "migrations" ("id" integer primary key autoincrement not null, "migration" varchar not null, "batch" integer not null);
+create table "users" ("id" integer primary key autoincrement not null, "name" varchar not null, "email" varchar not null, "email_verified_at" datetime, "created_at" datetime, "updated_at" datetime);
+create unique index "users_email_unique" on "users" ("email");
+create table "posts" ("id" integer primary key autoincrement not null, "user_id" integer not null, "title" varchar not null, "body" text, "meta" text, "created_at" datetime, "updated_at" datetime, foreign key("user_id") references "users"("id") on delete cascade);
+create index "posts_title_index" on "posts" ("title");
+create table "comments" ("id" integer primary key autoincrement not null, "post_id" integer not null, "body" text not null, foreign key("post_id") references "posts"("id"));
+insert into "migrations" ("migration", "batch") values ('2024_01_01_000000_create_users_table', 1), ('2024_01_02_000000_create_posts_table', 1), ('2024_01_03_000000_create_comments_table', 1);
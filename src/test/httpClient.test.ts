@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClientService, HttpRequestDefinition } from '../services/HttpClientService';
+import { MemorySecrets, MemoryState } from './doubles';
+
+interface ReceivedRequest {
+	method?: string;
+	url?: string;
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+suite('HttpClientService', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let received: ReceivedRequest;
+	let state: MemoryState;
+	let secrets: MemorySecrets;
+	let client: HttpClientService;
+
+	// Stub application: records the request, answers /slow after a delay and everything else with JSON
+	suiteSetup(async () => {
+		server = http.createServer((request, response) => {
+			const chunks: Buffer[] = [];
+			request.on('data', (chunk: Buffer) => chunks.push(chunk));
+			request.on('end', () => {
+				received = { method: request.method, url: request.url, headers: request.headers, body: Buffer.concat(chunks).toString('utf8') };
+				const reply = () => {
+					response.writeHead(201, 'Created', { 'Content-Type': 'application/json', 'X-Test': 'yes' });
+					response.end('{"ok":true,"items":[1,2]}');
+				};
+				if (request.url?.startsWith('/slow')) {
+					setTimeout(reply, 60);
+				} else {
+					reply();
+				}
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	suiteTeardown(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	setup(() => {
+		state = new MemoryState();
+		secrets = new MemorySecrets();
+		client = new HttpClientService(state, secrets);
+	});
+
+	function definition(overrides: Partial<HttpRequestDefinition> = {}): HttpRequestDefinition {
+		return {
+			method: 'GET',
+			url: `${baseUrl}/users`,
+			pathParams: {},
+			query: [],
+			headers: [],
+			bodyType: 'none',
+			auth: { type: 'none' },
+			...overrides
+		};
+	}
+
+	test('fills path parameters and drops empty optional ones', async () => {
+		await client.send(definition({
+			url: `${baseUrl}/users/{user}/posts/{post?}`,
+			pathParams: { user: 'a b/c', post: '' }
+		}));
+		assert.strictEqual(received.url, '/users/a%20b%2Fc/posts');
+
+		await assert.rejects(
+			client.send(definition({ url: `${baseUrl}/users/{user}`, pathParams: { user: ' ' } })),
+			/Fill in the route parameter: user/
+		);
+	});
+
+	test('appends enabled query parameters only', async () => {
+		await client.send(definition({
+			url: `${baseUrl}/users?sort=name`,
+			query: [
+				{ key: 'page', value: '2' },
+				{ key: 'q', value: 'x y&z' },
+				{ key: 'skip', value: '1', enabled: false }
+			]
+		}));
+		assert.strictEqual(received.url, '/users?sort=name&page=2&q=x+y%26z');
+	});
+
+	test('sends JSON bodies as-is and rejects invalid JSON', async () => {
+		await client.send(definition({ method: 'POST', bodyType: 'json', body: '{ "name": "Taylor" }' }));
+		assert.strictEqual(received.method, 'POST');
+		assert.strictEqual(received.headers['content-type'], 'application/json');
+		assert.strictEqual(received.headers['content-length'], String(Buffer.byteLength('{ "name": "Taylor" }')));
+		assert.strictEqual(received.body, '{ "name": "Taylor" }');
+
+		await assert.rejects(
+			client.send(definition({ method: 'POST', bodyType: 'json', body: '{ name: }' })),
+			/not valid JSON/
+		);
+
+		await client.send(definition({ method: 'GET', bodyType: 'json', body: '{"ignored":true}' }));
+		assert.strictEqual(received.body, '');
+	});
+
+	test('encodes form bodies and skips disabled fields', async () => {
+		await client.send(definition({
+			method: 'PUT',
+			bodyType: 'form',
+			form: [
+				{ key: 'name', value: 'Taylor Otwell' },
+				{ key: 'role', value: 'a&b=c' },
+				{ key: 'draft', value: '1', enabled: false }
+			]
+		}));
+		assert.strictEqual(received.headers['content-type'], 'application/x-www-form-urlencoded');
+		assert.strictEqual(received.body, 'name=Taylor+Otwell&role=a%26b%3Dc');
+	});
+
+	test('applies each auth mode, with headers entered by hand taking precedence', async () => {
+		await client.send(definition());
+		assert.strictEqual(received.headers.authorization, undefined);
+		assert.strictEqual(received.headers.accept, 'application/json');
+
+		await client.send(definition({ auth: { type: 'bearer', token: ' secret-token ' } }));
+		assert.strictEqual(received.headers.authorization, 'Bearer secret-token');
+
+		await client.send(definition({ auth: { type: 'basic', username: 'taylor', password: 'p@ss:word' } }));
+		assert.strictEqual(received.headers.authorization, `Basic ${Buffer.from('taylor:p@ss:word').toString('base64')}`);
+
+		await client.send(definition({ auth: { type: 'cookie', cookie: 'laravel_session=abc; XSRF-TOKEN=def' } }));
+		assert.strictEqual(received.headers.cookie, 'laravel_session=abc; XSRF-TOKEN=def');
+
+		await client.send(definition({
+			auth: { type: 'bearer', token: 'from-auth' },
+			headers: [{ key: 'authorization', value: 'Bearer from-header' }, { key: 'Accept', value: 'text/html' }]
+		}));
+		assert.strictEqual(received.headers.authorization, 'Bearer from-header');
+		assert.strictEqual(received.headers.accept, 'text/html');
+	});
+
+	test('reports status, headers, timing, size and a pretty-printed JSON body', async () => {
+		const response = await client.send(definition({ url: `${baseUrl}/slow` }));
+
+		assert.strictEqual(response.url, `${baseUrl}/slow`);
+		assert.strictEqual(response.status, 201);
+		assert.strictEqual(response.statusText, 'Created');
+		assert.strictEqual(response.headers['x-test'], 'yes');
+		assert.strictEqual(response.contentType, 'application/json');
+		assert.ok(response.durationMs >= 50, `expected at least 50ms, got ${response.durationMs}ms`);
+		assert.strictEqual(response.size, Buffer.byteLength('{"ok":true,"items":[1,2]}'));
+		assert.strictEqual(response.truncated, false);
+		assert.strictEqual(response.body, JSON.stringify({ ok: true, items: [1, 2] }, null, 2));
+	});
+
+	test('keeps saved credentials in secret storage, not workspace state', async () => {
+		const request = definition({ auth: { type: 'basic', username: 'taylor', password: 'hunter2' } });
+		const [saved] = await client.save('users.index', 'Admin', request);
+		assert.deepStrictEqual(saved.request.auth, request.auth);
+
+		const stored = JSON.stringify([...state.values.values()]);
+		assert.ok(!stored.includes('hunter2'), 'password written to workspace state');
+		assert.ok(stored.includes('taylor'), 'username should stay with the request');
+		assert.strictEqual(secrets.values.size, 1);
+
+		await client.deleteSaved('users.index', 'Admin');
+		assert.strictEqual(secrets.values.size, 0);
+	});
+
+	test('falls back to blank credentials when a saved secret is unreadable', async () => {
+		await client.save('users.index', 'Admin', definition({ auth: { type: 'bearer', token: 'secret-token' } }));
+		await client.save('users.index', 'Guest', definition());
+		const [key] = secrets.values.keys();
+		secrets.values.set(key, '{not json');
+
+		const saved = await client.getSaved('users.index');
+		assert.deepStrictEqual(saved.map(entry => [entry.label, entry.request.auth]), [
+			['Guest', { type: 'none' }],
+			['Admin', { type: 'bearer', token: '' }]
+		]);
+
+		assert.strictEqual((await client.deleteSaved('users.index', 'Admin')).length, 1);
+		assert.strictEqual(secrets.values.size, 0);
+	});
+});
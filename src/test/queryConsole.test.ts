@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { QueryConsoleService } from '../services/QueryConsoleService';
+import { MemoryState } from './doubles';
+
+suite('QueryConsoleService read-only checks', () => {
+	const service = new QueryConsoleService(new MemoryState());
+
+	test('accepts statements that only read', () => {
+		for (const sql of [
+			'SELECT * FROM users',
+			'  (select id from users) union (select id from admins)',
+			'WITH recent AS (SELECT * FROM posts) SELECT count(*) FROM recent',
+			'SHOW TABLES',
+			'DESCRIBE users',
+			'EXPLAIN SELECT * FROM users',
+			'PRAGMA foreign_keys',
+			'PRAGMA main.table_info(users)',
+			"SELECT * FROM users WHERE bio = 'drop table users; delete from posts'"
+		]) {
+			assert.strictEqual(service.isReadOnly(sql, 'pgsql'), true, sql);
+			assert.strictEqual(service.isReadOnly(sql, 'mysql'), true, sql);
+		}
+	});
+
+	test('rejects statements that write or change settings', () => {
+		for (const sql of [
+			'INSERT INTO users (name) VALUES (1)',
+			'update users set name = null',
+			'DROP TABLE users',
+			'SELECT * INTO backup FROM users',
+			'WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone',
+			'EXPLAIN ANALYZE DELETE FROM users',
+			'PRAGMA journal_mode = WAL',
+			'PRAGMA user_version(3)',
+			'/* SELECT */ DELETE FROM users',
+			''
+		]) {
+			assert.strictEqual(service.isReadOnly(sql, 'pgsql'), false, sql);
+			assert.strictEqual(service.isReadOnly(sql, 'mysql'), false, sql);
+		}
+	});
+
+	test('rejects functions whose effects a rollback does not undo', () => {
+		for (const sql of [
+			"SELECT setval('users_id_seq', 1)",
+			"SELECT nextval ('users_id_seq')",
+			'SELECT pg_terminate_backend(pid) FROM pg_stat_activity',
+			'SELECT pg_cancel_backend(42)',
+			'SELECT pg_advisory_lock(1)',
+			"SELECT GET_LOCK('deploy', 10)"
+		]) {
+			assert.strictEqual(service.isReadOnly(sql, 'pgsql'), false, sql);
+		}
+		assert.strictEqual(service.isReadOnly("SELECT 'setval(1)' AS label, nextval_count FROM stats", 'pgsql'), true);
+	});
+
+	test('treats # as a comment only on MySQL and MariaDB', () => {
+		assert.strictEqual(service.stripLiterals('SELECT 1 # DROP TABLE users', 'mysql').trim(), 'SELECT 1');
+		assert.strictEqual(service.stripLiterals('SELECT 1 # DROP TABLE users', 'mariadb').trim(), 'SELECT 1');
+		assert.strictEqual(service.stripLiterals("SELECT data #> '{a,b}' FROM t", 'pgsql'), "SELECT data #> '' FROM t");
+		assert.strictEqual(service.isReadOnly("SELECT data #>> '{a}' FROM events", 'pgsql'), true);
+		assert.strictEqual(service.isReadOnly('SELECT 1 # DELETE', 'pgsql'), false);
+	});
+
+	test('blanks comments, strings and quoted identifiers', () => {
+		assert.strictEqual(
+			service.stripLiterals(`SELECT "drop", \`delete\` FROM t -- update\nWHERE a = 'it''s' /* insert */`, 'pgsql'),
+			"SELECT \"\", `` FROM t  \nWHERE a = ''  "
+		);
+		assert.strictEqual(service.stripLiterals("SELECT E'a\\'b; drop' FROM t", 'pgsql'), "SELECT '' FROM t");
+		assert.strictEqual(service.stripLiterals("SELECT 'a\\'b; drop' FROM t", 'mysql'), "SELECT '' FROM t");
+		assert.strictEqual(service.stripLiterals('SELECT 1 /* unterminated; drop', 'pgsql'), 'SELECT 1  ');
+	});
+
+	test('does not read comment markers inside strings', () => {
+		// The string starts first, so the -- and # inside it cannot hide the statement after it
+		assert.strictEqual(service.stripLiterals("SELECT '--', 1; DROP TABLE users", 'pgsql'), "SELECT '', 1; DROP TABLE users");
+		assert.strictEqual(service.stripLiterals("SELECT '#', 1; DROP TABLE users", 'mysql'), "SELECT '', 1; DROP TABLE users");
+	});
+
+	test('keeps backslashes literal in standard PostgreSQL strings', () => {
+		assert.strictEqual(
+			service.stripLiterals("SELECT 'C:\\'; DROP TABLE users; --'", 'pgsql'),
+			"SELECT ''; DROP TABLE users;  "
+		);
+	});
+
+	test('refuses several statements and writes before starting PHP', async () => {
+		await assert.rejects(service.execute("SELECT '--', 1; DROP TABLE users"), /Run one statement at a time/);
+		await assert.rejects(service.execute('DELETE FROM users'), /Read-only mode/);
+		await assert.rejects(service.execute('  ;  '), /Enter a SQL statement/);
+	});
+});
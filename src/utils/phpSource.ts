@@ -0,0 +1,274 @@
+/**
+ * Lightweight helpers for scanning PHP source (migrations, seeders, routes) without a full parser.
+ * Offsets are preserved wherever possible so matches can be mapped back to file lines.
+ */
+
+/** One `->method(args)` link of a fluent chain. */
+export interface ChainCall {
+	method: string;
+	args: string[];
+}
+
+/**
+ * Blank out comments while keeping offsets and line breaks, so positions map back to the file.
+ */
+export function maskComments(content: string): string {
+	const chars = content.split('');
+	let quote: string | undefined;
+
+	for (let i = 0; i < chars.length; i++) {
+		const char = chars[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+		if (char === '\'' || char === '"') {
+			quote = char;
+			continue;
+		}
+
+		const lineComment = (char === '/' && chars[i + 1] === '/') || (char === '#' && chars[i + 1] !== '[');
+		if (lineComment) {
+			while (i < chars.length && chars[i] !== '\n') {
+				chars[i++] = ' ';
+			}
+		} else if (char === '/' && chars[i + 1] === '*') {
+			while (i < chars.length && !(chars[i] === '*' && chars[i + 1] === '/')) {
+				if (chars[i] !== '\n') {
+					chars[i] = ' ';
+				}
+				i++;
+			}
+			if (i < chars.length) {
+				chars[i] = ' ';
+				chars[i + 1] = ' ';
+				i++;
+			}
+		}
+	}
+
+	return chars.join('');
+}
+
+/**
+ * Index of the bracket closing the one at `open`, skipping string contents.
+ */
+export function findClosing(code: string, open: number): number {
+	const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+	const openChar = code[open];
+	const closeChar = pairs[openChar];
+	let depth = 0;
+	let quote: string | undefined;
+
+	for (let i = open; i < code.length; i++) {
+		const char = code[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+		if (char === '\'' || char === '"') {
+			quote = char;
+		} else if (char === openChar) {
+			depth++;
+		} else if (char === closeChar) {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+
+	return code.length;
+}
+
+/**
+ * Find the `;` ending a statement that starts at `start`, ignoring nested brackets and strings.
+ */
+export function findStatementEnd(code: string, start: number, limit: number): number {
+	let depth = 0;
+	let quote: string | undefined;
+
+	for (let i = start; i < limit; i++) {
+		const char = code[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+		if (char === '\'' || char === '"') {
+			quote = char;
+		} else if ('([{'.includes(char)) {
+			depth++;
+		} else if (')]}'.includes(char)) {
+			depth--;
+			if (depth < 0) {
+				return i;
+			}
+		} else if (char === ';' && depth === 0) {
+			return i;
+		}
+	}
+
+	return limit;
+}
+
+/**
+ * Split an argument list on top-level commas. Named arguments keep only their value unless `keepNames` is set.
+ */
+export function splitArguments(text: string, keepNames = false): string[] {
+	const args: string[] = [];
+	let depth = 0;
+	let current = '';
+	let quote: string | undefined;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			current += char;
+			if (char === '\\') {
+				current += text[++i] ?? '';
+			} else if (char === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+		if (char === '\'' || char === '"') {
+			quote = char;
+		} else if ('([{'.includes(char)) {
+			depth++;
+		} else if (')]}'.includes(char)) {
+			depth--;
+		} else if (char === ',' && depth === 0) {
+			args.push(current);
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+
+	if (current.trim()) {
+		args.push(current);
+	}
+
+	return args
+		.map(arg => keepNames ? arg.trim() : arg.trim().replace(/^\w+\s*:(?!:)\s*/, ''))
+		.filter(arg => arg.length > 0);
+}
+
+/**
+ * Parse `->a(...)->b(...)` into method calls. Property accesses are skipped.
+ */
+export function parseChain(text: string): ChainCall[] {
+	const calls: ChainCall[] = [];
+	const link = /\s*->\s*(\w+)\s*/y;
+	let position = 0;
+
+	while (position < text.length) {
+		link.lastIndex = position;
+		const match = link.exec(text);
+		if (!match) {
+			break;
+		}
+		position = link.lastIndex;
+
+		if (text[position] === '(') {
+			const close = findClosing(text, position);
+			calls.push({ method: match[1], args: splitArguments(text.slice(position + 1, close)) });
+			position = close + 1;
+		} else if (text[position] === '=') {
+			// Property assignment such as $table->engine = 'InnoDB'
+			calls.push({ method: match[1], args: [] });
+			break;
+		}
+	}
+
+	return calls;
+}
+
+/**
+ * Value of a PHP string literal argument, or undefined for anything else.
+ */
+export function stringArg(arg: string | undefined): string | undefined {
+	const match = arg?.trim().match(/^(['"])(.*)\1$/s);
+	return match ? match[2].replace(/\\(['"\\])/g, '$1') : undefined;
+}
+
+/**
+ * Read a string or an array of strings, e.g. 'email' or ['email', 'team_id'].
+ */
+export function stringListArg(arg: string | undefined): string[] {
+	const trimmed = arg?.trim() ?? '';
+	const arrayMatch = trimmed.match(/^(?:\[|array\s*\()([\s\S]*)(?:\]|\))$/);
+	if (arrayMatch) {
+		return stringListArgs(splitArguments(arrayMatch[1]));
+	}
+	const value = stringArg(trimmed);
+	return value ? [value] : [];
+}
+
+/**
+ * Flatten variadic or array arguments (dropColumn('a', 'b') and dropColumn(['a', 'b'])).
+ */
+export function stringListArgs(args: string[]): string[] {
+	return args.flatMap(arg => stringListArg(arg));
+}
+
+/**
+ * Turn the table argument into a name. Supports literals and `$this->property` set in the class.
+ */
+export function resolveTableName(arg: string | undefined, code: string): string | undefined {
+	const literal = stringArg(arg);
+	if (literal) {
+		return literal;
+	}
+
+	const propertyMatch = arg?.trim().match(/^\$this\s*->\s*(\w+)$/);
+	if (propertyMatch) {
+		const declaration = code.match(new RegExp(`\\$${propertyMatch[1]}\\s*=\\s*['"]([^'"]+)['"]`));
+		return declaration?.[1];
+	}
+
+	return undefined;
+}
+
+/**
+ * Resolve a class name as written in a file through its `use` imports and namespace.
+ */
+export function resolveClassName(name: string, code: string): string {
+	if (name.startsWith('\\')) {
+		return name.slice(1);
+	}
+	const [first, ...rest] = name.split('\\');
+	for (const match of code.matchAll(/^\s*use\s+([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm)) {
+		const alias = match[2] ?? match[1].split('\\').pop();
+		if (alias === first) {
+			return [match[1], ...rest].join('\\');
+		}
+	}
+	const namespace = code.match(/^\s*namespace\s+([\w\\]+)\s*;/m)?.[1];
+	return namespace ? `${namespace}\\${name}` : name;
+}
+
+/**
+ * 1-based line number of an offset in the file.
+ */
+export function lineAt(content: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset; i++) {
+		if (content.charCodeAt(i) === 10) {
+			line++;
+		}
+	}
+	return line;
+}
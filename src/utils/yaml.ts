@@ -0,0 +1,59 @@
+/**
+ * Minimal YAML writer for JSON-compatible values (objects, arrays, strings, numbers, booleans, null).
+ * Strings that could be read back as another type are double-quoted using JSON escaping, which YAML accepts.
+ */
+export function toYaml(value: unknown): string {
+	return (isBlock(value) ? renderBlock(value, 0) : [scalar(value)]).join('\n') + '\n';
+}
+
+function renderBlock(value: unknown, indent: number): string[] {
+	const pad = '  '.repeat(indent);
+
+	if (Array.isArray(value)) {
+		return value.flatMap(item => {
+			if (isBlock(item)) {
+				const [first, ...rest] = renderBlock(item, indent + 1);
+				return [`${pad}- ${first.trimStart()}`, ...rest];
+			}
+			return [`${pad}- ${scalar(item)}`];
+		});
+	}
+
+	return Object.entries(value as Record<string, unknown>)
+		.filter(([, item]) => item !== undefined)
+		.flatMap(([key, item]) => isBlock(item)
+			? [`${pad}${plainOrQuoted(key)}:`, ...renderBlock(item, indent + 1)]
+			: [`${pad}${plainOrQuoted(key)}: ${scalar(item)}`]);
+}
+
+/** Non-empty objects and arrays are written as indented blocks; everything else fits on one line. */
+function isBlock(value: unknown): boolean {
+	if (value === null || typeof value !== 'object') {
+		return false;
+	}
+	return Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0;
+}
+
+function scalar(value: unknown): string {
+	if (value === null || value === undefined) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return '[]';
+	}
+	if (typeof value === 'object') {
+		return '{}';
+	}
+	if (typeof value === 'string') {
+		return plainOrQuoted(value);
+	}
+	return String(value);
+}
+
+function plainOrQuoted(text: string): string {
+	const plain = /^[A-Za-z_/.][\w ./-]*$/.test(text)
+		&& !/\s$/.test(text)
+		&& !/^(true|false|yes|no|on|off|null|~|\.inf|\.nan)$/i.test(text)
+		&& !/^\.\d/.test(text);
+	return plain ? text : JSON.stringify(text);
+}
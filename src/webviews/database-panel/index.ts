@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WebviewUtils } from '../lib/webviewUtils';
+import { LoggerService } from '../../services/LoggerService';
+import { MigrationSchemaService } from '../../services/MigrationSchemaService';
+import { DatabaseInspectorService } from '../../services/DatabaseInspectorService';
+import { ArtisanService } from '../../services/ArtisanService';
+import { WorkspaceService } from '../../services/WorkspaceService';
+
+export class DatabasePanel {
+	public static currentPanel: DatabasePanel | undefined;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private readonly _schemaService: MigrationSchemaService;
+	private readonly _inspector: DatabaseInspectorService;
+	private readonly _artisan: ArtisanService;
+	private _connection: string | undefined;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._schemaService = new MigrationSchemaService();
+		this._inspector = new DatabaseInspectorService();
+		this._artisan = new ArtisanService();
+
+		LoggerService.info('DatabasePanel created');
+
+		this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+		this._panel.webview.onDidReceiveMessage(
+			(message) => this._handleWebviewMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	/**
+	 * Create or reveal the Database panel.
+	 */
+	public static createOrShow(extensionUri: vscode.Uri): void {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (DatabasePanel.currentPanel) {
+			DatabasePanel.currentPanel._panel.reveal(column);
+			return;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			'laravelHeroDatabase',
+			'Laravel: Database',
+			column || vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+				retainContextWhenHidden: true
+			}
+		);
+
+		DatabasePanel.currentPanel = new DatabasePanel(panel, extensionUri);
+	}
+
+	public dispose(): void {
+		DatabasePanel.currentPanel = undefined;
+		this._panel.dispose();
+
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	/**
+	 * Read the live database, compare it with the migrations and push both to the webview.
+	 */
+	private async _loadDatabase(): Promise<void> {
+		this._panel.webview.postMessage({ command: 'loading' });
+
+		try {
+			const [live, expected] = await Promise.all([
+				this._inspector.getLiveSchema(this._connection),
+				this._schemaService.getSchema()
+			]);
+			const drift = this._inspector.compare(live, expected);
+			LoggerService.info(`Database inspected: ${live.tables.length} tables on ${live.connection || 'default'}, ${drift.length} drift items`);
+
+			this._panel.webview.postMessage({
+				command: 'database-loaded',
+				data: live,
+				drift
+			});
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to inspect database', err);
+			this._panel.webview.postMessage({
+				command: 'error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Populate the connection picker from config/database.php.
+	 */
+	private async _loadConnections(): Promise<void> {
+		try {
+			const result = await this._artisan.getDatabaseConnections();
+			this._panel.webview.postMessage({
+				command: 'connections-loaded',
+				default: result.default,
+				connections: result.connections,
+				selected: this._connection ?? null
+			});
+		} catch (err) {
+			LoggerService.warn('Failed to load database connections', err);
+		}
+	}
+
+	/**
+	 * Handle messages from the webview.
+	 */
+	private async _handleWebviewMessage(message: any): Promise<void> {
+		try {
+			switch (message.command) {
+				case 'ready':
+					await this._loadConnections();
+					await this._loadDatabase();
+					break;
+
+				case 'refresh':
+					await this._loadDatabase();
+					break;
+
+				case 'select-connection':
+					this._connection = message.connection || undefined;
+					LoggerService.info(`Database connection set to ${this._connection ?? 'default'}`);
+					await this._loadDatabase();
+					break;
+
+				case 'open-source':
+					await this._openSource(message.path, message.line);
+					break;
+			}
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`DatabasePanel message failed: ${message.command}`, err);
+			this._panel.webview.postMessage({
+				command: 'error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Open the migration line behind a drift item.
+	 */
+	private async _openSource(relativePath: string | undefined, line: number | undefined): Promise<void> {
+		if (!relativePath) {
+			return;
+		}
+
+		try {
+			const root = vscode.Uri.file(WorkspaceService.getWorkspaceRoot());
+			const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(root, ...relativePath.split('/')));
+			const position = new vscode.Position(Math.max((line ?? 1) - 1, 0), 0);
+			await vscode.window.showTextDocument(document, {
+				selection: new vscode.Range(position, position),
+				viewColumn: vscode.ViewColumn.Beside
+			});
+		} catch (err) {
+			LoggerService.error(`Failed to open ${relativePath}`, err);
+			const message = err instanceof Error ? err.message : String(err);
+			vscode.window.showErrorMessage(`Could not open file: ${message}`);
+		}
+	}
+
+	/**
+	 * Assemble HTML for the webview from template assets.
+	 */
+	private _getHtmlForWebview(webview: vscode.Webview): string {
+		const panelDir = vscode.Uri.joinPath(this._extensionUri, 'dist', 'webviews', 'database-panel');
+		const templatePath = panelDir.fsPath;
+		const templateFile = path.join(templatePath, 'template.html');
+		let bodyContent = '';
+
+		try {
+			bodyContent = fs.readFileSync(templateFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read database template.html:', err instanceof Error ? err.message : String(err));
+			bodyContent = '<h1>Error loading template</h1>';
+		}
+
+		const iconMap: Record<string, string> = {
+			'icon-refresh': 'arrow-path.svg'
+		};
+
+		for (const [token, fileName] of Object.entries(iconMap)) {
+			const iconUri = webview.asWebviewUri(
+				vscode.Uri.joinPath(this._extensionUri, 'media', 'icons', fileName)
+			);
+			bodyContent = bodyContent.replaceAll(`{{${token}}}`, iconUri.toString());
+		}
+
+		const cssFile = path.join(templatePath, 'styles.css');
+		let additionalStyles = '';
+
+		try {
+			additionalStyles = fs.readFileSync(cssFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read database styles.css:', err instanceof Error ? err.message : String(err));
+		}
+
+		const jsFile = path.join(templatePath, 'script.js');
+		let scriptContent = '';
+
+		try {
+			scriptContent = fs.readFileSync(jsFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read database script.js:', err instanceof Error ? err.message : String(err));
+		}
+
+		return WebviewUtils.generateHtmlTemplate(
+			webview,
+			this._extensionUri,
+			'Laravel Database',
+			bodyContent,
+			scriptContent,
+			additionalStyles
+		);
+	}
+}
@@ -0,0 +1,341 @@
+const vscode = acquireVsCodeApi();
+
+let tables = [];
+let drift = [];
+let selectedTable = null;
+
+const tableList = document.getElementById('table-list');
+const tableDetail = document.getElementById('table-detail');
+const errorContainer = document.getElementById('error-container');
+const driftContainer = document.getElementById('drift-container');
+const searchInput = document.getElementById('search-input');
+const searchResults = document.getElementById('search-results');
+const driftOnly = document.getElementById('drift-only');
+const summary = document.getElementById('database-summary');
+const refreshBtn = document.getElementById('refresh-btn');
+const connectionSelect = document.getElementById('connection-select');
+
+const DRIFT_LABELS = {
+	'missing-table': 'Missing table',
+	'extra-table': 'Extra table',
+	'missing-column': 'Missing column',
+	'extra-column': 'Extra column',
+	'type-mismatch': 'Type',
+	'nullability-mismatch': 'Nullability',
+	'missing-index': 'Missing index',
+	'extra-index': 'Extra index',
+	'missing-foreign-key': 'Missing FK',
+	'extra-foreign-key': 'Extra FK'
+};
+
+refreshBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'refresh' });
+});
+
+connectionSelect.addEventListener('change', () => {
+	vscode.postMessage({ command: 'select-connection', connection: connectionSelect.value });
+});
+
+searchInput.addEventListener('input', () => {
+	renderTableList();
+});
+
+driftOnly.addEventListener('change', () => {
+	renderTableList();
+});
+
+// Source links are rendered as HTML strings, so listen once on the page
+document.addEventListener('click', (e) => {
+	const link = e.target.closest('.source-link');
+	if (!link) {
+		return;
+	}
+	e.preventDefault();
+	vscode.postMessage({
+		command: 'open-source',
+		path: link.getAttribute('data-path'),
+		line: parseInt(link.getAttribute('data-line'), 10)
+	});
+});
+
+function escapeHtml(str) {
+	return String(str ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function sourceLink(source) {
+	if (!source) {
+		return '';
+	}
+	return `<a class="source-link" href="#" data-path="${escapeHtml(source.path)}" data-line="${source.line}" title="${escapeHtml(source.path)}:${source.line}">${escapeHtml(source.migration)}:${source.line}</a>`;
+}
+
+function formatBytes(bytes) {
+	if (bytes === null || bytes === undefined) {
+		return '—';
+	}
+	const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatRows(rows) {
+	return rows === null || rows === undefined ? '—' : rows.toLocaleString();
+}
+
+function driftFor(tableName) {
+	return drift.filter(item => item.table === tableName);
+}
+
+function renderDriftItems(items) {
+	return `<ul class="drift-list">${items.map(item => `
+		<li>
+			<span class="drift-kind">${escapeHtml(DRIFT_LABELS[item.kind] || item.kind)}</span>
+			${escapeHtml(item.message)}
+			${sourceLink(item.source)}
+		</li>
+	`).join('')}</ul>`;
+}
+
+function renderDriftSummary() {
+	if (drift.length === 0) {
+		driftContainer.innerHTML = '<div class="drift-card clean">✓ The database matches your migrations.</div>';
+		return;
+	}
+
+	const tableCount = new Set(drift.map(item => item.table)).size;
+	const missingTables = drift.filter(item => item.kind === 'missing-table');
+
+	driftContainer.innerHTML = `
+		<div class="drift-card">
+			<details class="warnings-details">
+				<summary>⚠ ${drift.length} difference${drift.length === 1 ? '' : 's'} between the database and your migrations across ${tableCount} table${tableCount === 1 ? '' : 's'}</summary>
+				${missingTables.length > 0 ? renderDriftItems(missingTables) : ''}
+				<p class="detail-meta">Select a table to see its differences. Use "Drift only" to hide tables that match.</p>
+			</details>
+		</div>
+	`;
+}
+
+function matchesFilter(table, term) {
+	if (driftOnly.checked && driftFor(table.name).length === 0) {
+		return false;
+	}
+	if (!term) {
+		return true;
+	}
+	return table.name.toLowerCase().includes(term) ||
+		table.columns.some(column => column.name.toLowerCase().includes(term));
+}
+
+function renderTableList() {
+	const term = searchInput.value.trim().toLowerCase();
+	const visible = tables.filter(table => matchesFilter(table, term));
+
+	searchResults.textContent = term || driftOnly.checked ? `${visible.length} of ${tables.length} tables` : '';
+
+	if (visible.length === 0) {
+		tableList.innerHTML = `<div class="no-results">${tables.length === 0 ? 'No tables found in the database' : 'No tables match your filter'}</div>`;
+		tableDetail.innerHTML = '';
+		return;
+	}
+
+	if (!selectedTable || !visible.some(table => table.name === selectedTable)) {
+		selectedTable = visible[0].name;
+	}
+
+	tableList.innerHTML = '';
+	visible.forEach(table => {
+		const items = driftFor(table.name);
+		const extra = items.some(item => item.kind === 'extra-table');
+		const badge = items.length > 0
+			? `<span class="drift-badge${extra ? ' missing' : ''}" title="${extra ? 'Not created by any migration' : 'Differs from migrations'}">${extra ? 'untracked' : items.length}</span>`
+			: '';
+
+		const item = document.createElement('button');
+		item.className = `table-list-item${table.name === selectedTable ? ' active' : ''}`;
+		item.innerHTML = `
+			<span>${escapeHtml(table.name)}</span>
+			<span class="table-list-meta">${badge}<span class="table-list-count" title="Rows">${escapeHtml(formatRows(table.rows))}</span></span>
+		`;
+		item.addEventListener('click', () => {
+			selectedTable = table.name;
+			renderTableList();
+		});
+		tableList.appendChild(item);
+	});
+
+	renderTableDetail(tables.find(table => table.name === selectedTable));
+}
+
+function renderTableDetail(table) {
+	if (!table) {
+		tableDetail.innerHTML = '';
+		return;
+	}
+
+	const primary = new Set(table.indexes.filter(i => i.primary).flatMap(i => i.columns));
+	const foreign = new Set(table.foreignKeys.flatMap(fk => fk.columns));
+	const items = driftFor(table.name);
+
+	const columnRows = table.columns.map(column => {
+		const badges = [
+			primary.has(column.name) ? '<span class="key-badge">PK</span>' : '',
+			foreign.has(column.name) ? '<span class="key-badge">FK</span>' : ''
+		].join('');
+		const attributes = [
+			column.autoIncrement ? 'auto increment' : '',
+			column.comment ? `comment: ${column.comment}` : ''
+		].filter(Boolean).map(attr => `<span class="modifier">${escapeHtml(attr)}</span>`).join('');
+
+		return `
+			<tr>
+				<td class="column-name"><code>${escapeHtml(column.name)}</code>${badges}</td>
+				<td><code>${escapeHtml(column.type)}</code></td>
+				<td>${column.nullable ? 'Yes' : '<span class="muted">No</span>'}</td>
+				<td>${column.default !== null && column.default !== undefined ? `<code>${escapeHtml(column.default)}</code>` : '<span class="muted">—</span>'}</td>
+				<td>${attributes || '<span class="muted">—</span>'}</td>
+			</tr>
+		`;
+	}).join('');
+
+	const indexRows = table.indexes.map(index => `
+		<tr>
+			<td><code>${escapeHtml(index.name)}</code></td>
+			<td>${index.primary ? 'primary' : index.unique ? 'unique' : 'index'}</td>
+			<td><code>${escapeHtml(index.columns.join(', '))}</code></td>
+		</tr>
+	`).join('');
+
+	const foreignRows = table.foreignKeys.map(fk => `
+		<tr>
+			<td><code>${escapeHtml(fk.name || '—')}</code></td>
+			<td><code>${escapeHtml(fk.columns.join(', '))}</code></td>
+			<td><code>${escapeHtml(fk.foreignTable)}(${escapeHtml(fk.foreignColumns.join(', '))})</code></td>
+			<td>${escapeHtml(fk.onDelete || '—')} / ${escapeHtml(fk.onUpdate || '—')}</td>
+		</tr>
+	`).join('');
+
+	tableDetail.innerHTML = `
+		<div class="detail-header">
+			<h2>${escapeHtml(table.name)}</h2>
+			<p class="detail-meta">${escapeHtml(formatRows(table.rows))} rows · ${escapeHtml(formatBytes(table.size))}${table.schema ? ` · schema ${escapeHtml(table.schema)}` : ''}</p>
+		</div>
+
+		${items.length > 0 ? `
+			<div>
+				<h3 class="section-title">Drift (${items.length})</h3>
+				<div class="drift-card">${renderDriftItems(items)}</div>
+			</div>
+		` : ''}
+
+		<div>
+			<h3 class="section-title">Columns (${table.columns.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Type</th><th>Nullable</th><th>Default</th><th>Attributes</th></tr>
+					</thead>
+					<tbody>${columnRows || '<tr><td colspan="5" class="no-results">No columns</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+
+		<div>
+			<h3 class="section-title">Indexes (${table.indexes.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Type</th><th>Columns</th></tr>
+					</thead>
+					<tbody>${indexRows || '<tr><td colspan="3" class="no-results">No indexes</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+
+		<div>
+			<h3 class="section-title">Foreign Keys (${table.foreignKeys.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Columns</th><th>References</th><th>On delete / update</th></tr>
+					</thead>
+					<tbody>${foreignRows || '<tr><td colspan="4" class="no-results">No foreign keys</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+	`;
+}
+
+function renderConnections(connections, defaultConnection, selected) {
+	const options = [new Option(defaultConnection ? `Default (${defaultConnection})` : 'Default', '')];
+	connections.forEach(name => {
+		options.push(new Option(name, name));
+	});
+	connectionSelect.replaceChildren(...options);
+	connectionSelect.value = selected || '';
+}
+
+function setLoading(loading) {
+	refreshBtn.disabled = loading;
+	connectionSelect.disabled = loading;
+	if (loading) {
+		tableList.innerHTML = `
+			<div class="loading-row">
+				<div class="spinner"></div>
+				<span>Connecting to the database...</span>
+			</div>
+		`;
+	}
+}
+
+function showError(msg) {
+	errorContainer.innerHTML = `
+		<div class="error-banner">
+			<strong>Error:</strong> ${escapeHtml(msg)}
+		</div>
+	`;
+}
+
+window.addEventListener('message', event => {
+	const message = event.data;
+
+	switch (message.command) {
+		case 'loading':
+			setLoading(true);
+			break;
+
+		case 'connections-loaded':
+			renderConnections(message.connections || [], message.default, message.selected);
+			break;
+
+		case 'database-loaded': {
+			setLoading(false);
+			tables = message.data.tables || [];
+			drift = message.drift || [];
+			errorContainer.innerHTML = '';
+			const name = message.data.database ? `${message.data.database} (${message.data.driver})` : message.data.driver;
+			summary.textContent = `${tables.length} table${tables.length === 1 ? '' : 's'} in ${name || 'the database'}, compared with what your migrations define.`;
+			renderDriftSummary();
+			renderTableList();
+			break;
+		}
+
+		case 'error':
+			setLoading(false);
+			tableList.innerHTML = '<div class="no-results">Could not read the database</div>';
+			showError(message.error);
+			break;
+	}
+});
+
+vscode.postMessage({ command: 'ready' });
@@ -3,15 +3,83 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { WebviewUtils } from '../lib/webviewUtils';
 import { LoggerService } from '../../services/LoggerService';
-import { ArtisanService } from '../../services/ArtisanService';
+import { ArtisanService, MigrationLifecycleCommand, MigrationRunOptions, MigrationStatus } from '../../services/ArtisanService';
+import { ProcessError, ProcessResult } from '../../services/ProcessRunner';
+import { SqlPreviewProvider } from '../../providers/SqlPreviewProvider';
+import { MigrationCodeLensProvider } from '../../providers/MigrationCodeLensProvider';
+import { DestructiveAction, GuardrailService } from '../../services/GuardrailService';
+import { WorkspaceService } from '../../services/WorkspaceService';
+import { SeederService } from '../../services/SeederService';
+import { SnapshotContext, SnapshotInfo, SnapshotService } from '../../services/SnapshotService';
+import { MigrationRunService } from '../../services/MigrationRunService';
+import { MigrationSchemaService } from '../../services/MigrationSchemaService';
+import { MigrationGeneratorService, MigrationWizardDefinition } from '../../services/MigrationGeneratorService';
+import { MigrationRisk, MigrationRiskService } from '../../services/MigrationRiskService';
+import { MigrationPathService } from '../../services/MigrationPathService';
+import { MigrationInsightService } from '../../services/MigrationInsightService';
+import { SchemaDump, SchemaDumpService } from '../../services/SchemaDumpService';
+
+/**
+ * Captured output of a migration command, kept per migration after the run finishes.
+ */
+interface MigrationTranscript {
+	title: string;
+	startedAt: string;
+	status: 'running' | 'success' | 'failed' | 'cancelled';
+	durationMs?: number;
+	exitCode?: number | null;
+	output: string;
+}
 
 export class MigrationPanel {
 
 	public static currentPanel: MigrationPanel | undefined;
 
+	/** Actions that need the production guardrails. */
+	private static readonly DESTRUCTIVE_ACTIONS = new Set([
+		'force-run-migration',
+		'force-run-all',
+		'rollback-migration',
+		'rollback-all',
+		'rollback-to-batch',
+		'migrate-fresh',
+		'migrate-refresh',
+		'migrate-reset',
+		'seed'
+	]);
+
+	/** Actions preceded by a snapshot when "snapshot before run" is on. */
+	private static readonly SNAPSHOT_ACTIONS = new Set([
+		'run-migration',
+		'force-run-migration',
+		'run-all',
+		'force-run-all',
+		'rollback-migration',
+		'rollback-all',
+		'rollback-to-batch',
+		'migrate-fresh',
+		'migrate-refresh',
+		'migrate-reset'
+	]);
+
 	private readonly _panel: vscode.WebviewPanel;
 	private readonly _extensionUri: vscode.Uri;
 	private readonly _artisan: ArtisanService;
+	private readonly _seeders: SeederService;
+	private readonly _snapshots: SnapshotService;
+	private readonly _generator: MigrationGeneratorService;
+	private readonly _riskAnalyzer: MigrationRiskService;
+	private readonly _insights: MigrationInsightService;
+	private readonly _schemaDumps: SchemaDumpService;
+	/** Last loaded status, used to describe what a snapshot protects. */
+	private _migrations: MigrationStatus[] = [];
+	/** Rollback risk per migration, read from each down() method. */
+	private _risks = new Map<string, MigrationRisk>();
+	private readonly _transcripts = new Map<string, MigrationTranscript>();
+	/** Run started from this panel; MigrationRunService keeps it to one run per workspace. */
+	private _activeRun: vscode.CancellationTokenSource | undefined;
+	/** Selected `--database` connection; undefined means the app default. */
+	private _connection: string | undefined;
 	private _disposables: vscode.Disposable[] = [];
 
 	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
@@ -19,6 +87,12 @@ export class MigrationPanel {
 		this._panel = panel;
 		this._extensionUri = extensionUri;
 		this._artisan = new ArtisanService();
+		this._seeders = new SeederService();
+		this._snapshots = new SnapshotService();
+		this._generator = new MigrationGeneratorService();
+		this._riskAnalyzer = new MigrationRiskService();
+		this._insights = new MigrationInsightService();
+		this._schemaDumps = new SchemaDumpService();
 
 		LoggerService.info('MigrationPanel created');
 
@@ -64,11 +138,19 @@ export class MigrationPanel {
 		MigrationPanel.currentPanel._loadMigrations();
 	}
 
+	/**
+	 * Reload the migration list, e.g. after a migration ran from the editor.
+	 */
+	public async reload(): Promise<void> {
+		await this._loadMigrations();
+	}
+
 	/**
 	 * Dispose resources.
 	 */
 	public dispose(): void {
 		MigrationPanel.currentPanel = undefined;
+		this._activeRun?.cancel();
 		this._panel.dispose();
 		this._artisan.dispose();
 
@@ -85,14 +167,26 @@ export class MigrationPanel {
 	 */
 	private async _loadMigrations(): Promise<void> {
 		try {
-			const result = await this._artisan.getMigrations();
+			const result = await this._artisan.getMigrations(this._connection);
+			this._migrations = result.migrations;
 			LoggerService.info(`Loaded ${result.migrations.length} migrations`);
+			if (!this._connection) {
+				MigrationCodeLensProvider.update(result.migrations, result.error);
+			}
+			await this._loadRisks();
 
 			this._panel.webview.postMessage({
 				command: 'migrations-loaded',
 				data: result.migrations,
+				transcripts: Array.from(this._transcripts.keys()),
+				risks: Object.fromEntries(this._risks),
+				schemaDumps: await this._loadSchemaDumps(),
+				environment: GuardrailService.getEnvironment(),
+				connection: this._connection ?? null,
 				error: result.error
 			});
+
+			await this._loadInsights();
 		} catch (err) {
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error('Failed to load migrations', err);
@@ -103,6 +197,40 @@ export class MigrationPanel {
 		}
 	}
 
+	/**
+	 * Analyze each migration's down() so rollbacks can warn about data loss.
+	 * A failure only hides the risk badges.
+	 */
+	private async _loadRisks(): Promise<void> {
+		try {
+			this._risks = await this._riskAnalyzer.analyzeMigrations(await MigrationPathService.getMigrationFiles());
+		} catch (err) {
+			LoggerService.warn('Failed to analyze rollback risks', err);
+			this._risks.clear();
+		}
+	}
+
+	private async _loadSchemaDumps(): Promise<SchemaDump[]> {
+		try {
+			return await this._schemaDumps.getDumps();
+		} catch (err) {
+			LoggerService.warn('Failed to read schema dumps', err);
+			return [];
+		}
+	}
+
+	/**
+	 * Branch, ordering and duplicate checks. Posted after the list so git never delays it.
+	 */
+	private async _loadInsights(): Promise<void> {
+		try {
+			const report = await this._insights.getInsights(this._migrations);
+			this._panel.webview.postMessage({ command: 'insights-loaded', report });
+		} catch (err) {
+			LoggerService.warn('Failed to compute migration insights', err);
+		}
+	}
+
 	/**
 	 * Handle messages from webview.
 	 */
@@ -110,6 +238,54 @@ export class MigrationPanel {
 		try {
 			switch (message.command) {
 				case 'ready':
+					await this._loadMigrations();
+					await this._loadConnections();
+					await this._loadSeeders();
+					await this._loadSnapshots();
+					break;
+
+				case 'refresh-snapshots':
+					await this._loadSnapshots();
+					break;
+
+				case 'set-snapshot-before-run':
+					await this._snapshots.setEnabled(Boolean(message.enabled));
+					LoggerService.info(`Snapshot before run ${message.enabled ? 'enabled' : 'disabled'}`);
+					break;
+
+				case 'create-snapshot':
+					await this._takeSnapshot({ action: 'manual' });
+					await this._loadSnapshots();
+					break;
+
+				case 'restore-snapshot':
+					await this._restoreSnapshot(message.id);
+					break;
+
+				case 'delete-snapshot':
+					await this._deleteSnapshot(message.id);
+					break;
+
+				case 'refresh-seeders':
+					await this._loadSeeders();
+					break;
+
+				case 'show-create-seeder-dialog':
+					await this._showCreateSeederDialog();
+					break;
+
+				case 'show-create-factory-dialog':
+					await this._showCreateFactoryDialog();
+					break;
+
+				case 'open-seeder-file':
+				case 'open-schema-dump':
+					await this._openWorkspaceFile(message.path);
+					break;
+
+				case 'select-connection':
+					this._connection = message.connection || undefined;
+					LoggerService.info(`Migration connection set to ${this._connection ?? 'default'}`);
 					await this._loadMigrations();
 					break;
 
@@ -122,11 +298,19 @@ export class MigrationPanel {
 					break;
 
 				case 'show-create-dialog':
-					await this._showCreateMigrationDialog();
+					await this._openMigrationWizard();
+					break;
+
+				case 'schema-dump':
+					await this._dumpSchema();
+					break;
+
+				case 'preview-wizard':
+					this._previewWizard(message.definition);
 					break;
 
 				case 'create-migration':
-					await this._createMigration(message.name);
+					await this._createMigration(message.definition ?? { name: message.name, mode: 'blank', columns: [] });
 					break;
 
 				case 'open-migration-file':
@@ -134,7 +318,19 @@ export class MigrationPanel {
 					break;
 
 			case 'rollback-all':
-				await this._rollbackAllMigrations(message.steps);
+				await this._handleConfirmRequest({ ...message, action: 'rollback-all' });
+				break;
+
+			case 'preview-sql':
+				await this._previewSql(message);
+				break;
+
+			case 'cancel-run':
+				this._cancelActiveRun();
+				break;
+
+			case 'show-transcript':
+				this._showTranscript(message.migration);
 				break;
 			}
 		} catch (err) {
@@ -149,19 +345,41 @@ export class MigrationPanel {
 
 	/**
 	 * Handle confirmation requests from webview.
+	 * Destructive actions go through the environment-aware guardrails.
 	 */
 	private async _handleConfirmRequest(message: any): Promise<void> {
 		const action = message.action;
-		const confirmed = await vscode.window.showInformationMessage(
-			message.message,
-			{ modal: true },
-			'Yes'
-		);
+		let confirmed: boolean;
+
+		if (action === 'rollback-to-batch') {
+			message.steps = await this._stepsAboveBatch(Number(message.batch));
+		}
+
+		if (MigrationPanel.DESTRUCTIVE_ACTIONS.has(action)) {
+			confirmed = await GuardrailService.confirmDestructive(this._describeDestructiveAction(message));
+		} else {
+			const environment = GuardrailService.getEnvironment();
+			const answer = await vscode.window.showInformationMessage(
+				message.message,
+				{ modal: true, detail: `Environment: ${environment.name}\nConnection: ${this._connection ?? 'default'}` },
+				'Yes'
+			);
+			confirmed = answer === 'Yes';
+		}
 
 		if (!confirmed) {
 			return;
 		}
 
+		if (MigrationPanel.SNAPSHOT_ACTIONS.has(action)) {
+			if (!(await MigrationRunService.snapshotBeforeRun(this._snapshotContext(message)))) {
+				return;
+			}
+			if (this._snapshots.isEnabled()) {
+				await this._loadSnapshots();
+			}
+		}
+
 		switch (action) {
 			case 'run-migration':
 				await this._runMigration(message.migration, false);
@@ -186,6 +404,111 @@ export class MigrationPanel {
 			case 'rollback-all':
 				await this._rollbackAllMigrations(message.steps);
 				break;
+
+			case 'rollback-to-batch':
+				if (message.steps > 0) {
+					await this._rollbackAllMigrations(message.steps);
+				}
+				break;
+
+			case 'migrate-fresh':
+				await this._runLifecycle('fresh', Boolean(message.seed));
+				break;
+
+			case 'migrate-refresh':
+				await this._runLifecycle('refresh', Boolean(message.seed));
+				break;
+
+			case 'migrate-reset':
+				await this._runLifecycle('reset', false);
+				break;
+
+			case 'migrate-install':
+				await this._runLifecycle('install', false);
+				break;
+
+			case 'seed':
+				await this._runSeeder(message.seeder || undefined);
+				break;
+		}
+	}
+
+	/**
+	 * Build the label and explanation shown by the guardrail confirmation.
+	 */
+	private _describeDestructiveAction(message: any): DestructiveAction {
+		const action = this._describeActionWithoutConnection(message);
+		const connection = this._connection ? `Connection: ${this._connection}.` : 'Connection: default.';
+		return { label: action.label, detail: [action.detail, connection, this._describeRollbackRisk(message)].filter(Boolean).join('\n') };
+	}
+
+	/**
+	 * Risk summary of the down() methods an action will run, for the confirmation dialog.
+	 */
+	private _describeRollbackRisk(message: any): string | undefined {
+		if (!['rollback-migration', 'rollback-all', 'rollback-to-batch', 'migrate-refresh', 'migrate-reset'].includes(message.action)) {
+			return undefined;
+		}
+
+		const risks = this._affectedMigrations(message)
+			.map(name => this._risks.get(name))
+			.filter((risk): risk is MigrationRisk => risk !== undefined);
+		const summary = this._riskAnalyzer.describe(risks);
+		return summary ? `\n${summary}` : undefined;
+	}
+
+	private _describeActionWithoutConnection(message: any): DestructiveAction {
+		switch (message.action) {
+			case 'seed':
+				return {
+					label: message.seeder ? `Run seeder '${message.seeder}'` : 'Run db:seed (DatabaseSeeder)',
+					detail: 'Seeders write data into the database and may duplicate or overwrite existing rows.'
+				};
+			case 'migrate-fresh':
+				return {
+					label: `Run migrate:fresh${message.seed ? ' --seed' : ''}`,
+					detail: 'Drops ALL tables and re-runs every migration. All data is lost.'
+				};
+			case 'migrate-refresh':
+				return {
+					label: `Run migrate:refresh${message.seed ? ' --seed' : ''}`,
+					detail: 'Rolls back every migration and runs them again. Data in dropped tables is lost.'
+				};
+			case 'migrate-reset':
+				return {
+					label: 'Run migrate:reset',
+					detail: 'Rolls back every migration. Data in dropped tables is lost.'
+				};
+			case 'force-run-migration':
+				return {
+					label: `Force run migration '${message.migration}'`,
+					detail: 'Runs with --force, bypassing the production prompt and re-running it even if already executed.'
+				};
+			case 'force-run-all':
+				return {
+					label: 'Force run all migrations',
+					detail: 'Runs `migrate --force`, bypassing the production prompt.'
+				};
+			case 'rollback-migration':
+				return {
+					label: `Rollback migration '${message.migration}'`,
+					detail: 'Runs the migration\'s down() method. Dropped tables and columns lose their data.'
+				};
+			case 'rollback-to-batch': {
+				const batches = this._batchesAbove(Number(message.batch));
+				const missing = message.steps - this._affectedMigrations(message).length;
+				return {
+					label: `Roll back to batch ${message.batch}`,
+					detail: `Rolls back ${batches.length} batch(es) (${batches.join(', ')}) with ${message.steps} migration(s), ` +
+						(missing > 0 ? `${missing} of them without a migration file, ` : '') +
+						'newest first. Dropped tables and columns lose their data.'
+				};
+			}
+			default:
+				return {
+					label: message.steps ? `Rollback ${message.steps} step(s)` : 'Rollback all migrations',
+					detail: 'Runs down() for each affected migration. Dropped tables and columns lose their data.'
+				};
 		}
 	}
 
@@ -201,13 +524,23 @@ export class MigrationPanel {
 				name
 			});
 
-			await this._artisan.runMigration(name, force);
+			await this._runTracked(
+				`${force ? 'Force running' : 'Running'} migration ${name}`,
+				[name],
+				(options) => this._artisan.runMigration(name, force, options)
+			);
 
 			vscode.window.showInformationMessage(`✓ Migration '${name}' completed successfully`);
 
 			// Refresh the list
 			await this._loadMigrations();
 		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage(`Migration '${name}' was cancelled. Check the transcript: the schema may be partially migrated.`);
+				await this._loadMigrations();
+				return;
+			}
+
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error(`Failed to run migration: ${name}`, err);
 			vscode.window.showErrorMessage(`Failed to run migration '${name}': ${errorMsg}`);
@@ -231,13 +564,23 @@ export class MigrationPanel {
 				command: 'all-migrations-running'
 			});
 
-			await this._artisan.runAllMigrations(force);
+			await this._runTracked(
+				force ? 'Force running all migrations' : 'Running all pending migrations',
+				[],
+				(options) => this._artisan.runAllMigrations(force, options)
+			);
 
 			vscode.window.showInformationMessage('✓ All pending migrations completed successfully');
 
 			// Refresh the list
 			await this._loadMigrations();
 		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage('Migration run was cancelled. Migrations that finished before cancelling stay applied.');
+				await this._loadMigrations();
+				return;
+			}
+
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error('Failed to run all migrations', err);
 			vscode.window.showErrorMessage(`Failed to run all migrations: ${errorMsg}`);
@@ -250,49 +593,526 @@ export class MigrationPanel {
 	}
 
 	/**
-	 * Show input dialog for creating a migration.
+	 * Run migrate:fresh / refresh / reset / install against the selected connection.
+	 */
+	private async _runLifecycle(command: MigrationLifecycleCommand, seed: boolean): Promise<void> {
+		const label = `migrate:${command}${seed ? ' --seed' : ''}`;
+		const connectionLabel = this._connection ?? 'default connection';
+		LoggerService.info(`Running ${label}`, { connection: connectionLabel });
+
+		try {
+			await this._runTracked(
+				`Running ${label} (${connectionLabel})`,
+				[],
+				(options) => this._artisan.runLifecycleCommand(command, { ...options, seed })
+			);
+
+			vscode.window.showInformationMessage(`✓ ${label} completed on ${connectionLabel}`);
+			await this._loadMigrations();
+		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage(`${label} was cancelled. The database may be partially migrated.`);
+				await this._loadMigrations();
+				return;
+			}
+
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to run ${label}`, err);
+			vscode.window.showErrorMessage(`Failed to run ${label}: ${errorMsg}`);
+
+			this._panel.webview.postMessage({
+				command: 'migration-error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Run `schema:dump` for the selected connection, asking whether to prune the migrations it covers.
+	 */
+	private async _dumpSchema(): Promise<void> {
+		const choice = await vscode.window.showQuickPick([
+			{ label: 'Dump schema', description: 'schema:dump', prune: false },
+			{
+				label: 'Dump schema and prune migrations',
+				description: 'schema:dump --prune',
+				detail: 'Deletes the migration files in database/migrations once the dump is written',
+				prune: true
+			}
+		], { title: 'Schema Dump', placeHolder: `Dump the ${this._connection ?? 'default'} connection to database/schema` });
+
+		if (!choice) {
+			return;
+		}
+
+		if (choice.prune) {
+			const answer = await vscode.window.showWarningMessage(
+				'Prune migrations after dumping the schema?',
+				{
+					modal: true,
+					detail: 'Every migration file in database/migrations is deleted. Fresh databases load the dump first, ' +
+						'then run newer migrations. Commit your migrations first so they can be restored from git.'
+				},
+				'Dump and Prune'
+			);
+			if (answer !== 'Dump and Prune') {
+				return;
+			}
+		}
+
+		const label = `schema:dump${choice.prune ? ' --prune' : ''}`;
+		const connectionLabel = this._connection ?? 'default connection';
+
+		try {
+			await this._runTracked(
+				`Running ${label} (${connectionLabel})`,
+				[],
+				(options) => this._artisan.dumpSchema({ ...options, prune: choice.prune })
+			);
+
+			vscode.window.showInformationMessage(`✓ ${label} completed on ${connectionLabel}`);
+			await this._loadMigrations();
+		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage(`${label} was cancelled.`);
+				return;
+			}
+
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to run ${label}`, err);
+			vscode.window.showErrorMessage(`Failed to run ${label}: ${errorMsg}`);
+
+			this._panel.webview.postMessage({
+				command: 'migration-error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Run `db:seed`, or a single seeder class, against the selected connection.
+	 */
+	private async _runSeeder(className?: string): Promise<void> {
+		const label = className ? `seeder ${className}` : 'db:seed';
+		const connectionLabel = this._connection ?? 'default connection';
+		LoggerService.info(`Running ${label}`, { connection: connectionLabel });
+
+		try {
+			await this._runTracked(
+				`Running ${label} (${connectionLabel})`,
+				[],
+				(options) => this._artisan.runSeeder(className, options)
+			);
+
+			vscode.window.showInformationMessage(`✓ ${label} completed on ${connectionLabel}`);
+		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage(`${label} was cancelled. Some rows may already have been inserted.`);
+				return;
+			}
+
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to run ${label}`, err);
+			vscode.window.showErrorMessage(`Failed to run ${label}: ${errorMsg}`);
+
+			this._panel.webview.postMessage({
+				command: 'migration-error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Send the snapshots on disk and the "snapshot before run" setting to the webview.
+	 */
+	private async _loadSnapshots(): Promise<void> {
+		try {
+			const snapshots = await this._snapshots.getSnapshots();
+			this._panel.webview.postMessage({
+				command: 'snapshots-loaded',
+				data: snapshots,
+				enabled: this._snapshots.isEnabled()
+			});
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to load snapshots', err);
+			this._panel.webview.postMessage({
+				command: 'snapshots-loaded',
+				data: [],
+				enabled: this._snapshots.isEnabled(),
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Snapshot the selected connection before `message.action` runs.
+	 * @returns the snapshot, or undefined when it failed or was cancelled
+	 */
+	private async _takeSnapshot(message: any): Promise<SnapshotInfo | undefined> {
+		return MigrationRunService.takeSnapshot(this._snapshotContext(message));
+	}
+
+	/**
+	 * What a snapshot taken before `message.action` records about the run.
+	 */
+	private _snapshotContext(message: any): Omit<SnapshotContext, 'token'> {
+		const batches = this._migrations.filter(m => m.ran && m.batch !== undefined).map(m => m.batch as number);
+		return {
+			connection: this._connection,
+			reason: this._describeSnapshotReason(message),
+			batch: batches.length > 0 ? Math.max(...batches) : null,
+			migrations: this._affectedMigrations(message)
+		};
+	}
+
+	/**
+	 * Ran batches newer than the given one, newest first.
+	 */
+	private _batchesAbove(batch: number): number[] {
+		return [...new Set(this._migrations.filter(m => m.ran).map(m => m.batch ?? 0))]
+			.filter(b => b > batch)
+			.sort((a, b) => b - a);
+	}
+
+	/**
+	 * The `--step` count that rolls back every batch newer than the given one. --step counts rows in the
+	 * migrations table, including those whose file is gone, so they are counted there rather than in the status list.
+	 */
+	private async _stepsAboveBatch(batch: number): Promise<number> {
+		const batches = await this._artisan.getMigrationBatches(this._connection);
+		return Object.values(batches).filter(b => Number(b) > batch).length;
+	}
+
+	private _describeSnapshotReason(message: any): string {
+		switch (message.action) {
+			case 'manual':
+				return 'Manual snapshot';
+			case 'run-migration':
+			case 'force-run-migration':
+				return `Before running ${message.migration}`;
+			case 'run-all':
+			case 'force-run-all':
+				return 'Before running pending migrations';
+			case 'rollback-migration':
+				return `Before rolling back ${message.migration}`;
+			case 'rollback-all':
+				return message.steps ? `Before rolling back ${message.steps} step(s)` : 'Before rolling back all migrations';
+			case 'rollback-to-batch':
+				return `Before rolling back to batch ${message.batch}`;
+			default:
+				return `Before migrate:${String(message.action).replace(/^migrate-/, '')}`;
+		}
+	}
+
+	/**
+	 * Migrations an action is expected to run or roll back, based on the last loaded status.
+	 */
+	private _affectedMigrations(message: any): string[] {
+		const ran = this._migrations.filter(m => m.ran);
+
+		switch (message.action) {
+			case 'run-migration':
+			case 'force-run-migration':
+			case 'rollback-migration':
+				return [message.migration];
+			case 'run-all':
+			case 'force-run-all':
+				return this._migrations.filter(m => !m.ran).map(m => m.name);
+			case 'rollback-all': {
+				if (!message.steps) {
+					return ran.map(m => m.name);
+				}
+				// --step counts migrations, rolled back newest batch first and in reverse order within a batch
+				return [...ran]
+					.sort((a, b) => (b.batch ?? 0) - (a.batch ?? 0) || b.name.localeCompare(a.name))
+					.slice(0, Number(message.steps))
+					.map(m => m.name);
+			}
+			case 'rollback-to-batch': {
+				const batches = this._batchesAbove(Number(message.batch));
+				return ran.filter(m => batches.includes(m.batch ?? 0)).map(m => m.name);
+			}
+			case 'migrate-fresh':
+			case 'migrate-refresh':
+			case 'migrate-reset':
+				return ran.map(m => m.name);
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Restore a snapshot after a guarded confirmation, then reload the migration status.
+	 */
+	private async _restoreSnapshot(id: string): Promise<void> {
+		const snapshot = await this._snapshots.findSnapshot(id);
+		if (!snapshot) {
+			vscode.window.showErrorMessage('Snapshot not found. It may have been deleted.');
+			await this._loadSnapshots();
+			return;
+		}
+		if (MigrationRunService.isRunning()) {
+			vscode.window.showWarningMessage('Wait for the running migration command to finish before restoring a snapshot.');
+			return;
+		}
+
+		const confirmed = await GuardrailService.confirmDestructive({
+			label: `Restore snapshot from ${new Date(snapshot.createdAt).toLocaleString()}`,
+			detail: `Replaces the ${snapshot.database} database on connection '${snapshot.connection}' with the snapshot (${snapshot.reason}). Changes made since then are lost.`
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		try {
+			await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: `Restoring snapshot onto ${snapshot.connection}`, cancellable: true },
+				(_progress, token) => this._snapshots.restoreSnapshot(snapshot, token)
+			);
+			vscode.window.showInformationMessage(`✓ Snapshot restored onto ${snapshot.connection}`);
+			await this._loadMigrations();
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to restore snapshot ${snapshot.id}`, err);
+			vscode.window.showErrorMessage(`Failed to restore snapshot: ${errorMsg}`);
+		}
+	}
+
+	private async _deleteSnapshot(id: string): Promise<void> {
+		const snapshot = await this._snapshots.findSnapshot(id);
+		if (!snapshot) {
+			await this._loadSnapshots();
+			return;
+		}
+
+		const answer = await vscode.window.showWarningMessage(
+			`Delete snapshot from ${new Date(snapshot.createdAt).toLocaleString()}?`,
+			{ modal: true, detail: `${snapshot.reason} · ${path.basename(snapshot.file)}` },
+			'Delete'
+		);
+		if (answer !== 'Delete') {
+			return;
+		}
+
+		await this._snapshots.deleteSnapshot(snapshot);
+		await this._loadSnapshots();
+	}
+
+	/**
+	 * Send the seeders found on disk to the webview.
+	 */
+	private async _loadSeeders(): Promise<void> {
+		try {
+			const seeders = await this._seeders.getSeeders();
+			this._panel.webview.postMessage({
+				command: 'seeders-loaded',
+				data: seeders
+			});
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to load seeders', err);
+			this._panel.webview.postMessage({
+				command: 'seeders-loaded',
+				data: [],
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Ask for a seeder name and run make:seeder.
 	 */
-	private async _showCreateMigrationDialog(): Promise<void> {
+	private async _showCreateSeederDialog(): Promise<void> {
 		const name = await vscode.window.showInputBox({
-			prompt: 'Enter migration name',
-			placeHolder: 'e.g., create_users_table',
+			prompt: 'Enter seeder name',
+			placeHolder: 'e.g., UserSeeder',
 			validateInput: (value) => {
 				if (!value || value.trim().length === 0) {
-					return 'Migration name cannot be empty';
+					return 'Seeder name cannot be empty';
 				}
-				if (!/^[a-z0-9_]+$/.test(value)) {
-					return 'Migration name can only contain lowercase letters, numbers, and underscores';
+				if (!/^[A-Z][A-Za-z0-9_]*(\/[A-Z][A-Za-z0-9_]*)*$/.test(value)) {
+					return 'Seeder name must be a StudlyCase class name, optionally prefixed with a folder (e.g., Tenant/PlanSeeder)';
 				}
 				return undefined;
 			}
 		});
 
-		if (name) {
-			await this._createMigration(name);
+		if (!name) {
+			return;
+		}
+
+		try {
+			const output = await this._artisan.createSeeder(name);
+			vscode.window.showInformationMessage(`✓ Seeder '${name}' created successfully`);
+			await this._openGeneratedFile(output, this._seeders.getSeedersDir(), path.basename(name));
+			await this._loadSeeders();
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to create seeder: ${name}`, err);
+			vscode.window.showErrorMessage(`Failed to create seeder: ${errorMsg}`);
 		}
 	}
 
 	/**
-	 * Create a new migration.
+	 * Ask for a factory name and optional model, then run make:factory.
 	 */
-	private async _createMigration(name: string): Promise<void> {
-		if (!name || name.trim().length === 0) {
-			vscode.window.showErrorMessage('Migration name cannot be empty');
+	private async _showCreateFactoryDialog(): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			prompt: 'Enter factory name',
+			placeHolder: 'e.g., PostFactory',
+			validateInput: (value) => {
+				if (!value || value.trim().length === 0) {
+					return 'Factory name cannot be empty';
+				}
+				if (!/^[A-Z][A-Za-z0-9_]*$/.test(value)) {
+					return 'Factory name must be a StudlyCase class name';
+				}
+				return undefined;
+			}
+		});
+
+		if (!name) {
 			return;
 		}
 
-		LoggerService.info(`Creating migration: ${name}`);
+		const model = await vscode.window.showInputBox({
+			prompt: 'Model the factory creates (optional)',
+			placeHolder: 'e.g., Post',
+			value: name.replace(/Factory$/, '')
+		});
+
+		if (model === undefined) {
+			return;
+		}
 
 		try {
+			const output = await this._artisan.createFactory(name, model.trim() || undefined);
+			vscode.window.showInformationMessage(`✓ Factory '${name}' created successfully`);
+			// make:factory appends "Factory" to the class name when it is missing
+			const fileName = name.endsWith('Factory') ? name : `${name}Factory`;
+			await this._openGeneratedFile(output, this._seeders.getFactoriesDir(), fileName);
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`Failed to create factory: ${name}`, err);
+			vscode.window.showErrorMessage(`Failed to create factory: ${errorMsg}`);
+		}
+	}
+
+	/**
+	 * Open the file a make:* command reported, if it can be found.
+	 */
+	private async _openGeneratedFile(output: string, directory: string, suffix: string): Promise<void> {
+		const createdFile = this._artisan.resolveGeneratedFile(output, directory, suffix);
+		if (createdFile) {
+			const document = await vscode.workspace.openTextDocument(createdFile);
+			await vscode.window.showTextDocument(document);
+		}
+	}
+
+	/**
+	 * Open a file given relative to the workspace root.
+	 */
+	private async _openWorkspaceFile(relativePath: string): Promise<void> {
+		if (!relativePath) {
+			return;
+		}
+
+		const root = vscode.Uri.file(WorkspaceService.getWorkspaceRoot());
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(root, ...relativePath.split('/')));
+		await vscode.window.showTextDocument(document);
+	}
+
+	/**
+	 * Send the configured database connections to the webview.
+	 */
+	private async _loadConnections(): Promise<void> {
+		try {
+			const result = await this._artisan.getDatabaseConnections();
 			this._panel.webview.postMessage({
-				command: 'migration-creating'
+				command: 'connections-loaded',
+				default: result.default,
+				connections: result.connections,
+				selected: this._connection ?? null
 			});
+		} catch (err) {
+			LoggerService.warn('Failed to load database connections', err);
+		}
+	}
+
+	/**
+	 * Open the migration wizard with the tables known from existing migrations.
+	 */
+	private async _openMigrationWizard(): Promise<void> {
+		let tables: { name: string; columns: string[] }[] = [];
+		try {
+			const schema = await new MigrationSchemaService().getSchema();
+			tables = schema.tables.map(table => ({ name: table.name, columns: table.columns.map(column => column.name) }));
+		} catch (err) {
+			LoggerService.warn('Could not read tables for the migration wizard', err);
+		}
 
-			const output = await this._artisan.createMigration(name);
+		this._panel.webview.postMessage({
+			command: 'wizard-opened',
+			tables,
+			types: MigrationGeneratorService.COLUMN_TYPES
+		});
+	}
 
-			vscode.window.showInformationMessage(`✓ Migration '${name}' created successfully`);
+	/**
+	 * Render the Blueprint code the wizard would write, for the review step.
+	 */
+	private _previewWizard(definition: MigrationWizardDefinition): void {
+		const error = this._generator.validate(definition);
+		this._panel.webview.postMessage({
+			command: 'wizard-preview',
+			error,
+			up: error ? [] : this._generator.renderUp(definition.columns),
+			down: error || definition.mode !== 'alter' ? [] : this._generator.renderDown(definition.columns)
+		});
+	}
+
+	/**
+	 * Run make:migration (with --create/--table from the wizard), write the columns into the new file and open it.
+	 */
+	private async _createMigration(definition: MigrationWizardDefinition): Promise<void> {
+		const error = this._generator.validate(definition);
+		if (error) {
+			this._panel.webview.postMessage({ command: 'wizard-error', error });
+			return;
+		}
+
+		const name = definition.name;
+		LoggerService.info(`Creating migration: ${name}`, { mode: definition.mode, table: definition.table, columns: definition.columns.length });
+
+		try {
+			this._panel.webview.postMessage({
+				command: 'migration-creating'
+			});
+
+			const output = await this._artisan.createMigration(name, {
+				create: definition.mode === 'create' ? definition.table : undefined,
+				table: definition.mode === 'alter' ? definition.table : undefined
+			});
 			LoggerService.info(`Migration created: ${output}`);
 
+			const createdFile = this._artisan.resolveGeneratedFile(output, WorkspaceService.getMigrationsDir(), `_${name}`);
+			const hasColumns = definition.mode !== 'blank' && definition.columns.length > 0;
+			if (!createdFile && hasColumns) {
+				vscode.window.showWarningMessage(`Migration '${name}' was created, but the generated file could not be found, so the columns were not applied. Add them manually.`);
+			} else if (createdFile && !(await this._generator.applyToFile(createdFile, definition))) {
+				vscode.window.showWarningMessage(`Migration '${name}' was created, but its layout was not recognised. Add the columns manually.`);
+			} else {
+				vscode.window.showInformationMessage(`✓ Migration '${name}' created successfully`);
+			}
+
+			this._panel.webview.postMessage({ command: 'wizard-closed' });
+
+			if (createdFile) {
+				const document = await vscode.workspace.openTextDocument(createdFile);
+				await vscode.window.showTextDocument(document);
+			}
+
 			// Refresh the list
 			await this._loadMigrations();
 		} catch (err) {
@@ -387,19 +1207,18 @@ export class MigrationPanel {
 
 			const workspaceRoot = workspaceFolders[0].uri;
 
-			// Construct the migration file path
-			// Migrations are typically in database/migrations/
-			const migrationPath = vscode.Uri.joinPath(workspaceRoot, 'database', 'migrations', `${migrationName}.php`);
-
-			// Check if file exists
+			// Resolve the file across database/migrations, nested folders and registered paths
+			let relativePath: string;
 			try {
-				await vscode.workspace.fs.stat(migrationPath);
+				relativePath = await this._artisan.getMigrationPath(migrationName);
 			} catch (err) {
-				LoggerService.error(`Migration file not found: ${migrationPath.fsPath}`);
-				vscode.window.showErrorMessage(`Migration file not found: database/migrations/${migrationName}.php`);
+				LoggerService.error(`Migration file not found: ${migrationName}`);
+				vscode.window.showErrorMessage(`Migration file not found: ${migrationName}.php`);
 				return;
 			}
 
+			const migrationPath = vscode.Uri.joinPath(workspaceRoot, ...relativePath.split('/'));
+
 			// Open the file in the editor
 			const document = await vscode.workspace.openTextDocument(migrationPath);
 			await vscode.window.showTextDocument(document);
@@ -424,13 +1243,23 @@ export class MigrationPanel {
 				name
 			});
 
-			await this._artisan.rollbackMigration(name);
+			await this._runTracked(
+				`Rolling back migration ${name}`,
+				[name],
+				(options) => this._artisan.rollbackMigration(name, options)
+			);
 
 			vscode.window.showInformationMessage(`✓ Migration '${name}' rolled back successfully`);
 
 			// Refresh the list
 			await this._loadMigrations();
 		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage(`Rollback of '${name}' was cancelled.`);
+				await this._loadMigrations();
+				return;
+			}
+
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error(`Failed to rollback migration: ${name}`, err);
 			vscode.window.showErrorMessage(`Failed to rollback migration: ${errorMsg}`);
@@ -455,7 +1284,11 @@ export class MigrationPanel {
 				command: 'all-migrations-rolling-back'
 			});
 
-			await this._artisan.rollbackAllMigrations(steps);
+			await this._runTracked(
+				steps === null ? 'Rolling back all migrations' : `Rolling back ${steps} step(s)`,
+				[],
+				(options) => this._artisan.rollbackAllMigrations(steps, options)
+			);
 
 			const message = steps === null 
 				? '✓ All migrations rolled back successfully'
@@ -466,6 +1299,12 @@ export class MigrationPanel {
 			// Refresh the list
 			await this._loadMigrations();
 		} catch (err) {
+			if (this._isCancellation(err)) {
+				vscode.window.showWarningMessage('Rollback was cancelled. Migrations rolled back before cancelling stay rolled back.');
+				await this._loadMigrations();
+				return;
+			}
+
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error(`Failed to rollback migrations`, err);
 			vscode.window.showErrorMessage(`Failed to rollback migrations: ${errorMsg}`);
@@ -476,4 +1315,146 @@ export class MigrationPanel {
 			});
 		}
 	}
+
+	/**
+	 * Run a migration command with a cancellable progress notification, streaming
+	 * output to the webview and recording a transcript for every migration it touched.
+	 * @param migrations - Migrations known up front; names found in the output are added.
+	 */
+	private async _runTracked(
+		title: string,
+		migrations: string[],
+		run: (options: MigrationRunOptions) => Promise<ProcessResult>
+	): Promise<ProcessResult> {
+		const source = MigrationRunService.start();
+		this._activeRun = source;
+
+		const transcript: MigrationTranscript = {
+			title,
+			startedAt: new Date().toISOString(),
+			status: 'running',
+			output: ''
+		};
+
+		this._panel.webview.postMessage({ command: 'output-started', title });
+
+		try {
+			return await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title, cancellable: true },
+				async (progress, progressToken) => {
+					const link = progressToken.onCancellationRequested(() => source.cancel());
+
+					try {
+						const result = await run({
+							token: source.token,
+							database: this._connection,
+							onOutput: (chunk) => {
+								transcript.output += chunk;
+								this._panel.webview.postMessage({ command: 'output-chunk', text: chunk });
+
+								const lastLine = chunk.split(/\r?\n/).map(l => l.trim()).filter(Boolean).pop();
+								if (lastLine) {
+									progress.report({ message: lastLine.slice(0, 120) });
+								}
+							}
+						});
+
+						transcript.status = 'success';
+						transcript.exitCode = result.exitCode;
+						transcript.durationMs = result.durationMs;
+						return result;
+					} finally {
+						link.dispose();
+					}
+				}
+			);
+		} catch (err) {
+			transcript.status = this._isCancellation(err) ? 'cancelled' : 'failed';
+			if (err instanceof ProcessError) {
+				transcript.exitCode = err.result.exitCode;
+				transcript.durationMs = err.result.durationMs;
+			}
+			if (!transcript.output) {
+				transcript.output = err instanceof Error ? err.message : String(err);
+			}
+			throw err;
+		} finally {
+			this._activeRun = undefined;
+			MigrationRunService.finish(source);
+
+			const touched = new Set([...migrations, ...this._extractMigrationNames(transcript.output)]);
+			for (const name of touched) {
+				this._transcripts.set(name, transcript);
+			}
+
+			this._panel.webview.postMessage({
+				command: 'output-finished',
+				status: transcript.status,
+				durationMs: transcript.durationMs,
+				exitCode: transcript.exitCode
+			});
+		}
+	}
+
+	/**
+	 * Show the SQL a run or rollback would execute in a read-only editor.
+	 */
+	private async _previewSql(message: any): Promise<void> {
+		const rollback = Boolean(message.rollback);
+		const migration: string | undefined = message.migration || undefined;
+		const steps: number | null = typeof message.steps === 'number' && message.steps > 0 ? message.steps : null;
+
+		const target = migration ?? (rollback ? (steps ? `rollback-${steps}-steps` : 'rollback-last-batch') : 'pending-migrations');
+
+		try {
+			const { args, previews } = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'Generating SQL preview…' },
+				() => this._artisan.pretendMigrations({ migration, rollback, steps, database: this._connection })
+			);
+			await SqlPreviewProvider.show(target, args.join(' '), previews);
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to preview migration SQL', err);
+			vscode.window.showErrorMessage(`Failed to preview SQL: ${errorMsg}`);
+		}
+	}
+
+	/**
+	 * Cancel the running migration command, if any.
+	 */
+	private _cancelActiveRun(): void {
+		if (!this._activeRun) {
+			return;
+		}
+		LoggerService.info('Cancelling active migration command');
+		this._activeRun.cancel();
+	}
+
+	/**
+	 * Send the stored transcript for a migration to the webview.
+	 */
+	private _showTranscript(name: string): void {
+		const transcript = this._transcripts.get(name);
+		if (!transcript) {
+			vscode.window.showWarningMessage(`No output recorded for '${name}' in this session.`);
+			return;
+		}
+
+		this._panel.webview.postMessage({
+			command: 'transcript',
+			migration: name,
+			transcript
+		});
+	}
+
+	/**
+	 * Find migration names (timestamp-prefixed) mentioned in artisan output.
+	 */
+	private _extractMigrationNames(output: string): string[] {
+		return output.match(/\b\d{4}_\d{2}_\d{2}_\d{6}_\w+/g) || [];
+	}
+
+	private _isCancellation(err: unknown): boolean {
+		return err instanceof ProcessError && err.result.cancelled;
+	}
 }
@@ -2,17 +2,76 @@ const vscode = acquireVsCodeApi();
 let migrations = [];
 let filteredMigrations = [];
 let currentSort = { column: 'index', direction: 'asc' };
+let transcriptNames = new Set();
+// Rollback risk per migration name, from the extension's down() analysis
+let rollbackRisks = {};
+// Branch, ordering and duplicate findings per migration name
+let migrationInsights = {};
+// When each migration file was added (git) or last changed (mtime)
+let migrationDates = {};
+// Dumps from database/schema and the connection they apply to when none is selected
+let schemaDumps = [];
+let defaultConnection = '';
 
 // DOM Elements
 const list = document.getElementById('migration-list');
 const errorContainer = document.getElementById('error-container');
+const environmentBanner = document.getElementById('environment-banner');
 const searchInput = document.getElementById('search-input');
+const insightSummary = document.getElementById('insight-summary');
+const batchTimeline = document.getElementById('batch-timeline');
+const batchSummary = document.getElementById('batch-summary');
 const searchResults = document.getElementById('search-results');
 const refreshBtn = document.getElementById('refresh-btn');
 const runAllBtn = document.getElementById('run-all-btn');
 const runAllForcedBtn = document.getElementById('run-all-forced-btn');
 const rollbackAllBtn = document.getElementById('rollback-all-btn');
 const createBtn = document.getElementById('create-migration-btn');
+const previewAllBtn = document.getElementById('preview-all-btn');
+
+// Lifecycle Elements
+const connectionSelect = document.getElementById('connection-select');
+const seedCheckbox = document.getElementById('lifecycle-seed');
+const freshBtn = document.getElementById('migrate-fresh-btn');
+const refreshAllBtn = document.getElementById('migrate-refresh-btn');
+const resetBtn = document.getElementById('migrate-reset-btn');
+const installBtn = document.getElementById('migrate-install-btn');
+const schemaDumpBtn = document.getElementById('schema-dump-btn');
+
+// Tab and Seeder Elements
+const migrationActions = document.getElementById('migration-actions');
+const lifecycleToolbar = document.querySelector('.lifecycle-toolbar');
+const seederList = document.getElementById('seeder-list');
+const seederSummary = document.getElementById('seeder-summary');
+const refreshSeedersBtn = document.getElementById('refresh-seeders-btn');
+const createSeederBtn = document.getElementById('create-seeder-btn');
+const createFactoryBtn = document.getElementById('create-factory-btn');
+const seedAllBtn = document.getElementById('seed-all-btn');
+const snapshotList = document.getElementById('snapshot-list');
+const snapshotBeforeRun = document.getElementById('snapshot-before-run');
+const refreshSnapshotsBtn = document.getElementById('refresh-snapshots-btn');
+const createSnapshotBtn = document.getElementById('create-snapshot-btn');
+
+// Wizard Elements
+const wizardModal = document.getElementById('wizard-modal');
+const wizardError = document.getElementById('wizard-error');
+const wizardTableGroup = document.getElementById('wizard-table-group');
+const wizardTable = document.getElementById('wizard-table');
+const wizardTableOptions = document.getElementById('wizard-table-options');
+const wizardName = document.getElementById('wizard-name');
+const wizardColumnList = document.getElementById('wizard-column-list');
+const wizardReferenceOptions = document.getElementById('wizard-reference-options');
+const wizardSummary = document.getElementById('wizard-summary');
+const wizardPreview = document.getElementById('wizard-preview');
+const wizardBackBtn = document.getElementById('wizard-back-btn');
+const wizardNextBtn = document.getElementById('wizard-next-btn');
+const wizardCreateBtn = document.getElementById('wizard-create-btn');
+
+let wizardStep = 1;
+let wizardTypes = [];
+let wizardTables = [];
+// Stop suggesting a migration name once the user edits it
+let wizardNameEdited = false;
 
 // Modal Elements
 const rollbackModal = document.getElementById('rollback-modal');
@@ -20,6 +79,22 @@ const rollbackStepsInput = document.getElementById('rollback-steps');
 const modalCloseBtn = document.getElementById('modal-close-btn');
 const modalCancelBtn = document.getElementById('modal-cancel-btn');
 const modalRollbackBtn = document.getElementById('modal-rollback-btn');
+const modalPreviewBtn = document.getElementById('modal-preview-btn');
+
+// Live output Elements
+const outputCard = document.getElementById('output-card');
+const outputTitle = document.getElementById('output-title');
+const outputStatus = document.getElementById('output-status');
+const outputLog = document.getElementById('output-log');
+const outputCancelBtn = document.getElementById('output-cancel-btn');
+const outputHideBtn = document.getElementById('output-hide-btn');
+
+// Transcript modal Elements
+const transcriptModal = document.getElementById('transcript-modal');
+const transcriptTitle = document.getElementById('transcript-title');
+const transcriptMeta = document.getElementById('transcript-meta');
+const transcriptLog = document.getElementById('transcript-log');
+const transcriptCloseBtn = document.getElementById('transcript-close-btn');
 
 // Event Listeners
 refreshBtn.addEventListener('click', () => {
@@ -39,10 +114,115 @@ rollbackAllBtn.addEventListener('click', () => {
 	showRollbackModal();
 });
 
+previewAllBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'preview-sql', rollback: false });
+});
+
 createBtn.addEventListener('click', () => {
+	// The extension answers with wizard-opened once the known tables are loaded
 	vscode.postMessage({ command: 'show-create-dialog' });
 });
 
+connectionSelect.addEventListener('change', () => {
+	vscode.postMessage({ command: 'select-connection', connection: connectionSelect.value });
+});
+
+freshBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'request-confirm', action: 'migrate-fresh', seed: seedCheckbox.checked, message: 'Drop all tables and re-run all migrations?' });
+});
+
+refreshAllBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'request-confirm', action: 'migrate-refresh', seed: seedCheckbox.checked, message: 'Roll back and re-run all migrations?' });
+});
+
+resetBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'request-confirm', action: 'migrate-reset', message: 'Roll back all migrations?' });
+});
+
+installBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'request-confirm', action: 'migrate-install', message: 'Create the migration repository table?' });
+});
+
+schemaDumpBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'schema-dump' });
+});
+
+// Tabs
+document.querySelectorAll('.panel-tab').forEach(tab => {
+	tab.addEventListener('click', () => showTab(tab.getAttribute('data-tab')));
+});
+
+// Seeder Event Listeners
+refreshSeedersBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'refresh-seeders' });
+});
+
+createSeederBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'show-create-seeder-dialog' });
+});
+
+createFactoryBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'show-create-factory-dialog' });
+});
+
+seedAllBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'request-confirm', action: 'seed', message: 'Run db:seed?' });
+});
+
+// Snapshot Event Listeners
+snapshotBeforeRun.addEventListener('change', () => {
+	vscode.postMessage({ command: 'set-snapshot-before-run', enabled: snapshotBeforeRun.checked });
+});
+
+refreshSnapshotsBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'refresh-snapshots' });
+});
+
+createSnapshotBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'create-snapshot' });
+});
+
+// Wizard Event Listeners
+document.getElementById('wizard-close-btn').addEventListener('click', closeWizard);
+document.getElementById('wizard-cancel-btn').addEventListener('click', closeWizard);
+document.getElementById('wizard-add-column-btn').addEventListener('click', () => addWizardColumn());
+
+document.querySelectorAll('input[name="wizard-mode"]').forEach(radio => {
+	radio.addEventListener('change', () => {
+		updateWizardMode();
+		suggestMigrationName();
+	});
+});
+
+wizardTable.addEventListener('input', suggestMigrationName);
+
+wizardName.addEventListener('input', () => {
+	wizardNameEdited = true;
+});
+
+wizardBackBtn.addEventListener('click', () => {
+	showWizardStep(wizardStep - 1);
+});
+
+wizardNextBtn.addEventListener('click', () => {
+	if (wizardStep === 2) {
+		vscode.postMessage({ command: 'preview-wizard', definition: readWizardDefinition() });
+		return;
+	}
+	showWizardStep(wizardStep + 1);
+});
+
+wizardModal.addEventListener('click', (e) => {
+	if (e.target === wizardModal || e.target.classList.contains('modal-overlay')) {
+		closeWizard();
+	}
+});
+
+wizardCreateBtn.addEventListener('click', () => {
+	wizardCreateBtn.disabled = true;
+	vscode.postMessage({ command: 'create-migration', definition: readWizardDefinition() });
+});
+
 // Modal Event Listeners
 modalCloseBtn.addEventListener('click', closeRollbackModal);
 modalCancelBtn.addEventListener('click', closeRollbackModal);
@@ -53,9 +233,12 @@ rollbackModal.addEventListener('click', (e) => {
 	}
 });
 
+modalPreviewBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'preview-sql', rollback: true, steps: readRollbackSteps() });
+});
+
 modalRollbackBtn.addEventListener('click', () => {
-	const steps = rollbackStepsInput.value.trim();
-	const stepsValue = steps === '' || steps === '0' ? null : parseInt(steps);
+	const stepsValue = readRollbackSteps();
 	closeRollbackModal();
 	vscode.postMessage({ 
 		command: 'rollback-all', 
@@ -64,6 +247,23 @@ modalRollbackBtn.addEventListener('click', () => {
 	});
 });
 
+outputCancelBtn.addEventListener('click', () => {
+	outputCancelBtn.disabled = true;
+	vscode.postMessage({ command: 'cancel-run' });
+});
+
+outputHideBtn.addEventListener('click', () => {
+	outputCard.classList.add('hidden');
+});
+
+transcriptCloseBtn.addEventListener('click', closeTranscriptModal);
+
+transcriptModal.addEventListener('click', (e) => {
+	if (e.target === transcriptModal || e.target.classList.contains('modal-overlay')) {
+		closeTranscriptModal();
+	}
+});
+
 // Search functionality
 searchInput.addEventListener('input', (e) => {
 	const searchTerm = e.target.value.toLowerCase();
@@ -103,6 +303,7 @@ function filterAndRender(searchTerm) {
 	} else {
 		filteredMigrations = migrations.filter(m => 
 			m.name.toLowerCase().includes(searchTerm) ||
+			(m.directory && m.directory.toLowerCase().includes(searchTerm)) ||
 			(m.batch && m.batch.toString().includes(searchTerm)) ||
 			(m.ran ? 'migrated' : 'pending').includes(searchTerm)
 		);
@@ -159,6 +360,11 @@ function updateSearchResults() {
 }
 
 // Modal Functions
+function readRollbackSteps() {
+	const steps = rollbackStepsInput.value.trim();
+	return steps === '' || steps === '0' ? null : parseInt(steps);
+}
+
 function showRollbackModal() {
 	rollbackModal.classList.remove('hidden');
 	rollbackStepsInput.focus();
@@ -168,6 +374,69 @@ function closeRollbackModal() {
 	rollbackModal.classList.add('hidden');
 }
 
+function closeTranscriptModal() {
+	transcriptModal.classList.add('hidden');
+}
+
+// Live output Functions
+function startOutput(title) {
+	outputTitle.textContent = title;
+	outputStatus.className = 'output-status running';
+	outputLog.textContent = '';
+	outputCancelBtn.disabled = false;
+	outputCancelBtn.classList.remove('hidden');
+	outputHideBtn.disabled = true;
+	outputCard.classList.remove('hidden');
+	setActionsDisabled(true);
+}
+
+function appendOutput(text) {
+	const atBottom = outputLog.scrollTop + outputLog.clientHeight >= outputLog.scrollHeight - 4;
+	outputLog.textContent += text;
+	if (atBottom) {
+		outputLog.scrollTop = outputLog.scrollHeight;
+	}
+}
+
+function finishOutput(status, durationMs) {
+	outputStatus.className = `output-status ${status}`;
+	const duration = typeof durationMs === 'number' ? ` in ${formatDuration(durationMs)}` : '';
+	const labels = { success: 'Completed', failed: 'Failed', cancelled: 'Cancelled' };
+	outputTitle.textContent = `${outputTitle.textContent} — ${labels[status] || status}${duration}`;
+	outputCancelBtn.disabled = true;
+	outputHideBtn.disabled = false;
+	setActionsDisabled(false);
+}
+
+function setActionsDisabled(disabled) {
+	[runAllBtn, runAllForcedBtn, rollbackAllBtn, freshBtn, refreshAllBtn, resetBtn, installBtn, connectionSelect, seedAllBtn, createSnapshotBtn].forEach(btn => {
+		btn.disabled = disabled;
+	});
+	document.querySelectorAll('.migration-action-button, .seeder-run-button, .snapshot-action-button').forEach(btn => {
+		if (disabled) {
+			btn.setAttribute('data-was-disabled', btn.disabled ? 'true' : 'false');
+			btn.disabled = true;
+		} else if (btn.hasAttribute('data-was-disabled')) {
+			btn.disabled = btn.getAttribute('data-was-disabled') === 'true';
+			btn.removeAttribute('data-was-disabled');
+		}
+	});
+}
+
+function showTranscript(name, transcript) {
+	transcriptTitle.textContent = transcript.title || name;
+	const started = new Date(transcript.startedAt).toLocaleString();
+	const duration = typeof transcript.durationMs === 'number' ? ` · ${formatDuration(transcript.durationMs)}` : '';
+	const exitCode = transcript.exitCode !== undefined && transcript.exitCode !== null ? ` · exit code ${transcript.exitCode}` : '';
+	transcriptMeta.textContent = `${transcript.status.toUpperCase()} · ${started}${duration}${exitCode}`;
+	transcriptLog.textContent = transcript.output || '(no output)';
+	transcriptModal.classList.remove('hidden');
+}
+
+function formatDuration(ms) {
+	return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
 // Handle messages from extension
 window.addEventListener('message', event => {
 	const message = event.data;
@@ -180,12 +449,60 @@ window.addEventListener('message', event => {
 				_originalIndex: idx + 1
 			}));
 			filteredMigrations = [...migrations];
+			transcriptNames = new Set(message.transcripts || []);
+			rollbackRisks = message.risks || {};
+			schemaDumps = message.schemaDumps || [];
+			renderEnvironment(message.environment);
+			if (typeof message.connection !== 'undefined') {
+				connectionSelect.value = message.connection || '';
+			}
 			errorContainer.innerHTML = '';
 			if (message.error) {
 				showWarning(message.error);
 			}
 			searchInput.value = '';
 			filterAndRender('');
+			renderBatches();
+			break;
+
+		case 'insights-loaded':
+			migrationInsights = message.report.insights || {};
+			migrationDates = message.report.dates || {};
+			renderInsightSummary(message.report);
+			filterAndRender(searchInput.value.toLowerCase());
+			renderBatches();
+			break;
+
+		case 'seeders-loaded':
+			renderSeeders(message.data || [], message.error);
+			break;
+
+		case 'connections-loaded':
+			defaultConnection = message.default || '';
+			renderConnections(message.connections || [], message.default, message.selected);
+			filterAndRender(searchInput.value.toLowerCase());
+			break;
+
+		case 'wizard-opened':
+			openWizard(message.tables || [], message.types || []);
+			break;
+
+		case 'wizard-preview':
+			showWizardPreview(message);
+			break;
+
+		case 'wizard-error':
+			wizardCreateBtn.disabled = false;
+			showWizardError(message.error);
+			break;
+
+		case 'wizard-closed':
+			closeWizard();
+			break;
+
+		case 'snapshots-loaded':
+			snapshotBeforeRun.checked = Boolean(message.enabled);
+			renderSnapshots(message.data || [], message.error);
 			break;
 
 		case 'migration-running':
@@ -194,15 +511,457 @@ window.addEventListener('message', event => {
 			// Show loading state
 			break;
 
+		case 'output-started':
+			startOutput(message.title);
+			break;
+
+		case 'output-chunk':
+			appendOutput(message.text);
+			break;
+
+		case 'output-finished':
+			finishOutput(message.status, message.durationMs);
+			break;
+
+		case 'transcript':
+			showTranscript(message.migration, message.transcript);
+			break;
+
 		case 'error':
 		case 'migration-error':
 		case 'all-migrations-error':
-		case 'creation-error':
 			showError(message.error);
 			break;
+
+		case 'creation-error':
+			wizardCreateBtn.disabled = false;
+			if (!wizardModal.classList.contains('hidden')) {
+				showWizardError(message.error);
+			} else {
+				showError(message.error);
+			}
+			break;
 	}
 });
 
+/**
+ * Insert a header row per source directory when migrations come from more than one place.
+ * Directories keep the order in which they first appear; rows keep the current sort inside each group.
+ */
+function groupByDirectory(items) {
+	const directories = [...new Set(migrations.map(m => m.directory || ''))];
+	if (directories.length <= 1) {
+		return items;
+	}
+
+	const result = [];
+	directories.forEach(directory => {
+		const rows = items.filter(m => (m.directory || '') === directory);
+		if (rows.length === 0) {
+			return;
+		}
+		result.push({ _groupHeader: true, directory: directory || 'database/migrations', count: rows.length });
+		result.push(...rows);
+	});
+	return result;
+}
+
+function showTab(name) {
+	document.querySelectorAll('.panel-tab').forEach(tab => {
+		tab.classList.toggle('active', tab.getAttribute('data-tab') === name);
+	});
+	document.getElementById('migrations-tab').classList.toggle('hidden', name !== 'migrations');
+	document.getElementById('batches-tab').classList.toggle('hidden', name !== 'batches');
+	document.getElementById('seeders-tab').classList.toggle('hidden', name !== 'seeders');
+	document.getElementById('snapshots-tab').classList.toggle('hidden', name !== 'snapshots');
+	migrationActions.classList.toggle('hidden', name !== 'migrations');
+	// The connection picker stays visible: seeders run against the selected connection too
+	lifecycleToolbar.querySelector('.lifecycle-actions').classList.toggle('hidden', name !== 'migrations');
+}
+
+function formatDate(iso) {
+	return iso ? new Date(iso).toLocaleDateString() : '—';
+}
+
+function renderBatches() {
+	const ran = migrations.filter(m => m.ran);
+	const pending = migrations.filter(m => !m.ran);
+	const batches = [...new Set(ran.map(m => m.batch || 0))].sort((a, b) => b - a);
+
+	batchSummary.textContent = `${batches.length} batch${batches.length === 1 ? '' : 'es'} · ${ran.length} ran · ${pending.length} pending`;
+
+	if (migrations.length === 0) {
+		batchTimeline.innerHTML = '<div class="no-results">No migrations found</div>';
+		return;
+	}
+
+	const cards = [];
+	if (pending.length > 0) {
+		cards.push(renderBatchCard('Pending', pending, 'pending'));
+	}
+	batches.forEach((batch, index) => {
+		const items = ran.filter(m => (m.batch || 0) === batch);
+		cards.push(renderBatchCard(`Batch ${batch}`, items, 'ran'));
+		// Boundary below this batch: rolling back to the next older batch removes this one and everything newer
+		const target = batches[index + 1] || 0;
+		const above = ran.filter(m => (m.batch || 0) > target).length;
+		const label = target === 0 ? 'Roll back everything' : `Roll back to batch ${target}`;
+		cards.push(`
+			<div class="batch-boundary">
+				<span class="muted">${target === 0 ? 'Empty database' : `After batch ${target}`}</span>
+				<button class="inline-button rollback" data-batch="${target}" title="Runs migrate:rollback --step=${above}">${label} (${above} migration${above === 1 ? '' : 's'})</button>
+			</div>
+		`);
+	});
+
+	batchTimeline.innerHTML = cards.join('');
+	batchTimeline.querySelectorAll('[data-batch]').forEach(button => {
+		button.addEventListener('click', () => {
+			const batch = Number(button.getAttribute('data-batch'));
+			vscode.postMessage({ command: 'request-confirm', action: 'rollback-to-batch', batch, message: `Roll back to batch ${batch}?` });
+		});
+	});
+}
+
+function renderBatchCard(title, items, kind) {
+	// Laravel runs a batch in file name order, so that is the order within each card
+	const sorted = [...items].sort((a, b) => a.name.localeCompare(b.name));
+	const dates = sorted.map(m => migrationDates[m.name]).filter(Boolean).sort();
+	const range = dates.length === 0
+		? ''
+		: ` · ${formatDate(dates[0])}${dates.length > 1 && formatDate(dates[0]) !== formatDate(dates[dates.length - 1]) ? ` – ${formatDate(dates[dates.length - 1])}` : ''}`;
+
+	const rows = sorted.map((m, index) => `
+		<li>
+			<span class="batch-order">${index + 1}</span>
+			<code title="${escapeHtml(m.path || m.name)}">${escapeHtml(m.name)}</code>
+			<span class="muted">${formatDate(migrationDates[m.name])}</span>
+			${kind === 'ran' ? renderRiskBadge(rollbackRisks[m.name]) : ''}
+		</li>
+	`).join('');
+
+	return `
+		<div class="batch-card batch-${kind}">
+			<div class="batch-header">
+				<strong>${escapeHtml(title)}</strong>
+				<span class="muted">${sorted.length} migration${sorted.length === 1 ? '' : 's'}${range}</span>
+			</div>
+			<ol class="batch-migrations">${rows}</ol>
+		</div>
+	`;
+}
+
+function renderSeeders(seeders, error) {
+	seederList.innerHTML = '';
+
+	const reachable = seeders.filter(s => s.calledByDatabaseSeeder).length;
+	seederSummary.textContent = seeders.length > 0
+		? `${seeders.length} seeder${seeders.length === 1 ? '' : 's'} · ${reachable} run by DatabaseSeeder`
+		: '';
+
+	if (seeders.length === 0) {
+		seederList.innerHTML = `
+			<tr>
+				<td colspan="5" class="empty-state">
+					<span class="empty-state-icon">🌱</span>
+					<strong>${error ? 'Could not read seeders' : 'No seeders found'}</strong>
+					<p>${error ? escapeHtml(error) : 'Create one with "Create Seeder" or php artisan make:seeder'}</p>
+				</td>
+			</tr>
+		`;
+		return;
+	}
+
+	seeders.forEach(seeder => {
+		const tr = document.createElement('tr');
+		const isRoot = seeder.name === 'DatabaseSeeder';
+		const calls = seeder.calls.length > 0
+			? seeder.calls.map(call => `<code>${escapeHtml(call)}</code>`).join('')
+			: '—';
+
+		tr.innerHTML = `
+			<td><code title="${escapeHtml(seeder.className)}">${escapeHtml(seeder.name)}</code></td>
+			<td>${escapeHtml(seeder.path)}</td>
+			<td>${isRoot ? 'Entry point' : (seeder.calledByDatabaseSeeder ? '<span class="status-ran">✓ Yes</span>' : '<span class="status-pending">○ No</span>')}</td>
+			<td class="seeder-calls">${calls}</td>
+			<td>
+				<button class="inline-button secondary" data-action="open-seeder"> Open </button>
+				<button class="inline-button seeder-run-button" data-action="run-seeder"> Run </button>
+			</td>
+		`;
+
+		tr.querySelector('[data-action="open-seeder"]').addEventListener('click', () => {
+			vscode.postMessage({ command: 'open-seeder-file', path: seeder.path });
+		});
+
+		tr.querySelector('[data-action="run-seeder"]').addEventListener('click', () => {
+			vscode.postMessage({
+				command: 'request-confirm',
+				action: 'seed',
+				// DatabaseSeeder is the default, so run plain db:seed for it
+				seeder: isRoot ? null : seeder.className,
+				message: `Run seeder '${seeder.name}'?`
+			});
+		});
+
+		seederList.appendChild(tr);
+	});
+}
+
+function getWizardMode() {
+	return document.querySelector('input[name="wizard-mode"]:checked').value;
+}
+
+function openWizard(tables, types) {
+	wizardTables = tables;
+	wizardTypes = types;
+	wizardNameEdited = false;
+	wizardTable.value = '';
+	wizardName.value = '';
+	wizardColumnList.innerHTML = '';
+	wizardCreateBtn.disabled = false;
+	document.querySelector('input[name="wizard-mode"][value="create"]').checked = true;
+
+	wizardTableOptions.replaceChildren(...tables.map(table => new Option(table.name)));
+	wizardReferenceOptions.replaceChildren(...tables.map(table => new Option(table.name)));
+
+	addWizardColumn({ name: '', type: 'string' });
+	updateWizardMode();
+	showWizardStep(1);
+	wizardModal.classList.remove('hidden');
+	wizardTable.focus();
+}
+
+function closeWizard() {
+	wizardModal.classList.add('hidden');
+}
+
+function updateWizardMode() {
+	const blank = getWizardMode() === 'blank';
+	wizardTableGroup.classList.toggle('hidden', blank);
+	wizardNextBtn.classList.toggle('hidden', blank);
+	wizardCreateBtn.classList.toggle('hidden', !blank);
+}
+
+function suggestMigrationName() {
+	if (wizardNameEdited) {
+		return;
+	}
+	const table = wizardTable.value.trim().toLowerCase();
+	switch (getWizardMode()) {
+		case 'create':
+			wizardName.value = table ? `create_${table}_table` : '';
+			break;
+		case 'alter':
+			wizardName.value = table ? `add_columns_to_${table}_table` : '';
+			break;
+		default:
+			wizardName.value = '';
+	}
+}
+
+function showWizardStep(step) {
+	wizardStep = step;
+	hideWizardError();
+	[1, 2, 3].forEach(n => {
+		document.getElementById(`wizard-step-${n}`).classList.toggle('hidden', n !== step);
+	});
+	document.querySelectorAll('.wizard-step').forEach(label => {
+		label.classList.toggle('active', Number(label.getAttribute('data-step')) === step);
+	});
+	wizardBackBtn.classList.toggle('hidden', step === 1);
+	wizardNextBtn.classList.toggle('hidden', step === 3 || getWizardMode() === 'blank');
+	wizardCreateBtn.classList.toggle('hidden', step !== 3 && getWizardMode() !== 'blank');
+}
+
+function addWizardColumn(column = { name: '', type: 'string' }) {
+	const tr = document.createElement('tr');
+	const typeOptions = wizardTypes.map(type => `<option value="${type}"${type === column.type ? ' selected' : ''}>${type}</option>`).join('');
+	tr.innerHTML = `
+		<td><input class="modal-input" data-field="name" placeholder="column" /></td>
+		<td><select class="modal-input" data-field="type">${typeOptions}</select></td>
+		<td><input class="modal-input wizard-short" data-field="params" placeholder="255" title="Extra arguments, e.g. 100 or 8, 2" /></td>
+		<td><input class="modal-input wizard-short" data-field="default" placeholder="—" /></td>
+		<td class="wizard-modifiers">
+			<label><input type="checkbox" data-field="nullable" /> nullable</label>
+			<label><input type="checkbox" data-field="unsigned" /> unsigned</label>
+			<label><input type="checkbox" data-field="unique" /> unique</label>
+			<label><input type="checkbox" data-field="index" /> index</label>
+		</td>
+		<td class="wizard-reference">
+			<input class="modal-input wizard-short" data-field="foreignTable" list="wizard-reference-options" placeholder="table" />
+			<input class="modal-input wizard-short" data-field="foreignColumn" placeholder="id" />
+			<select class="modal-input" data-field="onDelete" title="On delete">
+				<option value="">on delete…</option>
+				<option value="cascade">cascade</option>
+				<option value="restrict">restrict</option>
+				<option value="set null">set null</option>
+				<option value="no action">no action</option>
+			</select>
+		</td>
+		<td><button class="inline-button rollback" title="Remove column">✕</button></td>
+	`;
+	tr.querySelector('[data-field="name"]').value = column.name;
+	tr.querySelector('button').addEventListener('click', () => tr.remove());
+	wizardColumnList.appendChild(tr);
+}
+
+function readWizardDefinition() {
+	const field = (row, name) => row.querySelector(`[data-field="${name}"]`);
+	const columns = [...wizardColumnList.querySelectorAll('tr')]
+		.filter(row => field(row, 'name').value.trim())
+		.map(row => {
+			const foreignTable = field(row, 'foreignTable').value.trim();
+			return {
+				name: field(row, 'name').value.trim(),
+				type: field(row, 'type').value,
+				params: field(row, 'params').value.trim() || undefined,
+				default: field(row, 'default').value.trim() || undefined,
+				nullable: field(row, 'nullable').checked,
+				unsigned: field(row, 'unsigned').checked,
+				unique: field(row, 'unique').checked,
+				index: field(row, 'index').checked,
+				foreign: foreignTable
+					? { table: foreignTable, column: field(row, 'foreignColumn').value.trim() || undefined, onDelete: field(row, 'onDelete').value || undefined }
+					: undefined
+			};
+		});
+
+	return {
+		name: wizardName.value.trim(),
+		mode: getWizardMode(),
+		table: wizardTable.value.trim(),
+		columns
+	};
+}
+
+function showWizardPreview(message) {
+	if (message.error) {
+		showWizardError(message.error);
+		return;
+	}
+
+	const definition = readWizardDefinition();
+	const known = wizardTables.some(table => table.name === definition.table);
+	const target = definition.mode === 'create'
+		? `Creates table '${definition.table}'${known ? ' (a migration already creates a table with this name)' : ''}`
+		: `Changes table '${definition.table}'${known ? '' : ' (not created by any known migration)'}`;
+	wizardSummary.textContent = `${target} in ${definition.name}.`;
+
+	const up = message.up.length > 0 ? message.up.join('\n') : '// no columns';
+	wizardPreview.textContent = message.down.length > 0
+		? `// up()\n${up}\n\n// down()\n${message.down.join('\n')}`
+		: `// up()\n${up}`;
+	showWizardStep(3);
+}
+
+function showWizardError(msg) {
+	wizardError.textContent = msg;
+	wizardError.classList.remove('hidden');
+}
+
+function hideWizardError() {
+	wizardError.textContent = '';
+	wizardError.classList.add('hidden');
+}
+
+function renderSnapshots(snapshots, error) {
+	snapshotList.innerHTML = '';
+
+	if (snapshots.length === 0) {
+		snapshotList.innerHTML = `
+			<tr>
+				<td colspan="7" class="empty-state">
+					<span class="empty-state-icon">📸</span>
+					<strong>${error ? 'Could not read snapshots' : 'No snapshots yet'}</strong>
+					<p>${error ? escapeHtml(error) : 'Take one now, or enable "Snapshot before each run"'}</p>
+				</td>
+			</tr>
+		`;
+		return;
+	}
+
+	snapshots.forEach(snapshot => {
+		const tr = document.createElement('tr');
+		const migrationList = snapshot.migrations.length > 0
+			? `<span title="${escapeHtml(snapshot.migrations.join('\n'))}">${snapshot.migrations.length} migration${snapshot.migrations.length === 1 ? '' : 's'}</span>`
+			: '<span class="muted">—</span>';
+		tr.innerHTML = `
+			<td>${escapeHtml(new Date(snapshot.createdAt).toLocaleString())}</td>
+			<td><code>${escapeHtml(snapshot.connection)}</code> <span class="muted">${escapeHtml(snapshot.driver)}</span></td>
+			<td>${escapeHtml(snapshot.reason)}</td>
+			<td>${snapshot.batch ?? '—'}</td>
+			<td>${migrationList}</td>
+			<td>${formatBytes(snapshot.size)}</td>
+			<td>
+				<button class="inline-button snapshot-action-button" data-action="restore-snapshot"> Restore </button>
+				<button class="inline-button rollback snapshot-action-button" data-action="delete-snapshot"> Delete </button>
+			</td>
+		`;
+
+		tr.querySelector('[data-action="restore-snapshot"]').addEventListener('click', () => {
+			vscode.postMessage({ command: 'restore-snapshot', id: snapshot.id });
+		});
+
+		tr.querySelector('[data-action="delete-snapshot"]').addEventListener('click', () => {
+			vscode.postMessage({ command: 'delete-snapshot', id: snapshot.id });
+		});
+
+		snapshotList.appendChild(tr);
+	});
+}
+
+function formatBytes(bytes) {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function escapeHtml(str) {
+	return String(str ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function renderConnections(connections, defaultConnection, selected) {
+	const options = [new Option(defaultConnection ? `Default (${defaultConnection})` : 'Default', '')];
+	connections.forEach(name => {
+		options.push(new Option(name, name));
+	});
+	connectionSelect.replaceChildren(...options);
+	connectionSelect.value = selected || '';
+}
+
+function renderEnvironment(environment) {
+	if (!environment || !environment.isProtected) {
+		environmentBanner.classList.add('hidden');
+		environmentBanner.innerHTML = '';
+		return;
+	}
+
+	const note = environment.blocksDestructive
+		? 'Rollbacks and force runs are blocked in this environment.'
+		: 'Rollbacks and force runs require typing the project name to confirm.';
+
+	const badge = document.createElement('span');
+	badge.className = 'environment-badge';
+	badge.textContent = environment.name;
+
+	const text = document.createElement('span');
+	text.textContent = `Protected environment. ${note}`;
+
+	environmentBanner.replaceChildren(badge, text);
+	environmentBanner.classList.remove('hidden');
+}
+
 function showError(msg) {
 	errorContainer.innerHTML = `
 		<div class="error-banner">
@@ -219,6 +978,109 @@ function showWarning(msg) {
 	`;
 }
 
+function activeSchemaDump() {
+	const connection = connectionSelect.value || defaultConnection;
+	return schemaDumps.find(dump => dump.connection === connection);
+}
+
+function renderDumpBadge(name) {
+	const dump = activeSchemaDump();
+	if (!dump || !dump.migrations.includes(name)) {
+		return '';
+	}
+	return ` <span class="dump-badge" title="Recorded in ${escapeHtml(dump.path)}: a fresh database gets it from the dump instead of running it">🗃 In dump</span>`;
+}
+
+/**
+ * Schema dumps precede regular migrations: Laravel loads the dump on an empty database,
+ * then runs only the migrations it does not record.
+ */
+function renderSchemaDumpRows() {
+	const active = activeSchemaDump();
+	const rows = schemaDumps.map(dump => {
+		const names = new Set(migrations.map(m => m.name));
+		const withFiles = dump.migrations.filter(name => names.has(name)).length;
+		const pruned = dump.migrations.length - withFiles;
+		const last = dump.migrations[dump.migrations.length - 1];
+		const isActive = dump === active;
+
+		const tr = document.createElement('tr');
+		tr.className = `dump-row${isActive ? '' : ' inactive'}`;
+		tr.innerHTML = `
+			<td>🗃</td>
+			<td colspan="3">
+				<strong>Schema dump</strong> <code>${escapeHtml(dump.path)}</code>
+				<span class="muted">· ${escapeHtml(dump.connection)} · updated ${escapeHtml(new Date(dump.modifiedAt).toLocaleString())}</span>
+				<div class="dump-explanation">
+					${isActive
+						? `Loaded first when migrating an empty database. Covers ${dump.migrations.length} migration${dump.migrations.length === 1 ? '' : 's'}${last ? ` up to <code>${escapeHtml(last)}</code>` : ''}` +
+							`${pruned > 0 ? ` (${pruned} pruned from disk)` : ''}; rows marked "In dump" are skipped, later ones run after it.`
+						: `Applies to the ${escapeHtml(dump.connection)} connection, not the one selected.`}
+				</div>
+			</td>
+			<td><button class="inline-button secondary" data-path="${escapeHtml(dump.path)}"> Open </button></td>
+			<td></td>
+		`;
+		tr.querySelector('[data-path]').addEventListener('click', () => {
+			vscode.postMessage({ command: 'open-schema-dump', path: dump.path });
+		});
+		return tr;
+	});
+	list.prepend(...rows);
+}
+
+const INSIGHT_LABELS = {
+	'new-on-branch': '🌿 New on branch',
+	'out-of-order': '⇅ Out of order',
+	'duplicate-class': '⧉ Duplicate class',
+	'duplicate-table': '⧉ Duplicate table',
+	'modified-after-run': '✎ Edited after run'
+};
+
+function renderInsightBadges(insights) {
+	if (!insights || insights.length === 0) {
+		return '';
+	}
+	const kinds = [...new Set(insights.map(insight => insight.kind))];
+	return kinds.map(kind => {
+		const matching = insights.filter(insight => insight.kind === kind);
+		const title = matching.map(insight => insight.message).join('\n');
+		return ` <span class="insight-badge insight-${matching[0].severity}" title="${escapeHtml(title)}">${INSIGHT_LABELS[kind]}</span>`;
+	}).join('');
+}
+
+function renderInsightSummary(report) {
+	const counts = {};
+	Object.values(report.insights || {}).forEach(insights => {
+		new Set(insights.map(insight => insight.kind)).forEach(kind => {
+			counts[kind] = (counts[kind] || 0) + 1;
+		});
+	});
+
+	const parts = Object.keys(INSIGHT_LABELS)
+		.filter(kind => counts[kind])
+		.map(kind => `<span class="insight-count">${INSIGHT_LABELS[kind]}: <strong>${counts[kind]}</strong></span>`);
+	const branch = report.branch && report.baseBranch
+		? `<code>${escapeHtml(report.branch)}</code> vs <code>${escapeHtml(report.baseBranch)}</code>`
+		: '';
+	const gitNote = report.gitError ? `<span class="muted">Git checks skipped: ${escapeHtml(report.gitError)}</span>` : '';
+
+	if (parts.length === 0 && !gitNote) {
+		insightSummary.classList.add('hidden');
+		return;
+	}
+	insightSummary.innerHTML = [branch, ...parts, gitNote].filter(Boolean).join('');
+	insightSummary.classList.remove('hidden');
+}
+
+function renderRiskBadge(risk) {
+	if (!risk || risk.level === 'none') {
+		return '';
+	}
+	const details = risk.findings.map(finding => `• ${finding.message} (line ${finding.line})`).join('\n');
+	return ` <span class="risk-badge risk-${risk.level}" title="Rolling back:\n${escapeHtml(details)}">⚠ ${risk.level} risk</span>`;
+}
+
 function renderTable(items) {
 	list.innerHTML = '';
 
@@ -242,26 +1104,49 @@ function renderTable(items) {
 				</tr>
 			`;
 		}
+		renderSchemaDumpRows();
 		return;
 	}
 
-	items.forEach((m, index) => {
+	renderSchemaDumpRows();
+
+	const grouped = groupByDirectory(items);
+
+	grouped.forEach((m, index) => {
+		if (m._groupHeader) {
+			const header = document.createElement('tr');
+			header.className = 'group-row';
+			const cell = document.createElement('td');
+			cell.colSpan = 6;
+			const label = document.createElement('code');
+			label.textContent = m.directory;
+			const count = document.createElement('span');
+			count.className = 'group-count';
+			count.textContent = `${m.count} migration${m.count === 1 ? '' : 's'}`;
+			cell.replaceChildren(label, count);
+			header.appendChild(cell);
+			list.appendChild(header);
+			return;
+		}
+
 		const tr = document.createElement('tr');
 		const isRanAttr = m.ran ? 'disabled' : '';
 		const isNotRanAttr = !m.ran ? 'disabled' : '';
 		
 		tr.innerHTML = `
 			<td>${m._originalIndex}</td>
-			<td><code>${m.name}</code></td>
-			<td><span class="${m.ran ? 'status-ran' : 'status-pending'}">${m.ran ? '✓ Migrated' : '○ Pending'}</span></td>
+			<td><code title="${escapeHtml(m.path || m.name)}">${escapeHtml(m.name)}</code>${renderDumpBadge(m.name)}${renderInsightBadges(migrationInsights[m.name])}</td>
+			<td><span class="${m.ran ? 'status-ran' : 'status-pending'}">${m.ran ? '✓ Migrated' : '○ Pending'}</span>${renderRiskBadge(rollbackRisks[m.name])}</td>
 			<td>${m.batch || '-'}</td>
 			<td>
-				<button class="inline-button secondary" data-action="open-file" data-migration="${m.name}"> Open </button>
+				<button class="inline-button secondary" data-action="open-file" data-migration="${escapeHtml(m.name)}"> Open </button>
+				${transcriptNames.has(m.name) ? `<button class="inline-button secondary" data-action="show-log" data-migration="${escapeHtml(m.name)}" title="Show output from the last run"> Log </button>` : ''}
 			</td>
 			<td>
-				<button class="inline-button migration-action-button" ${isRanAttr} data-action="run" data-migration="${m.name}"> Run </button>
-				<button class="inline-button migration-action-button secondary" data-action="force-run" data-migration="${m.name}"> Force </button>
-				<button class="inline-button migration-action-button rollback" ${isNotRanAttr} data-action="rollback" data-migration="${m.name}"> Rollback </button>
+				<button class="inline-button migration-action-button" ${isRanAttr} data-action="run" data-migration="${escapeHtml(m.name)}"> Run </button>
+				<button class="inline-button migration-action-button secondary" data-action="force-run" data-migration="${escapeHtml(m.name)}"> Force </button>
+				<button class="inline-button migration-action-button rollback" ${isNotRanAttr} data-action="rollback" data-migration="${escapeHtml(m.name)}"> Rollback </button>
+				<button class="inline-button secondary" data-action="preview-sql" data-migration="${escapeHtml(m.name)}" data-ran="${m.ran ? 'true' : 'false'}" title="${m.ran ? 'Preview the SQL a rollback would run' : 'Preview the SQL this migration would run'}"> SQL </button>
 			</td>
 		`;
 		
@@ -289,6 +1174,23 @@ function renderTable(items) {
 			vscode.postMessage({ command: 'open-migration-file', migration: migName });
 		});
 		
+		const previewBtn = tr.querySelector('[data-action="preview-sql"]');
+		previewBtn.addEventListener('click', (e) => {
+			e.preventDefault();
+			const migName = e.target.getAttribute('data-migration');
+			const rollback = e.target.getAttribute('data-ran') === 'true';
+			vscode.postMessage({ command: 'preview-sql', migration: migName, rollback });
+		});
+
+		const logBtn = tr.querySelector('[data-action="show-log"]');
+		if (logBtn) {
+			logBtn.addEventListener('click', (e) => {
+				e.preventDefault();
+				const migName = e.target.getAttribute('data-migration');
+				vscode.postMessage({ command: 'show-transcript', migration: migName });
+			});
+		}
+		
 		rollbackBtn.addEventListener('click', (e) => {
 			e.preventDefault();
 			const migName = e.target.getAttribute('data-migration');
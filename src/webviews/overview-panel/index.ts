@@ -4,6 +4,7 @@ import * as vscode from 'vscode';
 import { WebviewUtils } from '../lib/webviewUtils';
 import { LoggerService } from '../../services/LoggerService';
 import { OverviewService } from '../../services/OverviewService';
+import { GuardrailService } from '../../services/GuardrailService';
 
 export class OverviewPanel {
 	public static currentPanel: OverviewPanel | undefined;
@@ -113,6 +114,17 @@ export class OverviewPanel {
 			return;
 		}
 
+		const definition = this._overview.getArtisanCommands().find(cmd => cmd.id === commandId);
+		if (definition?.destructive) {
+			const confirmed = await GuardrailService.confirmDestructive({
+				label: `Run ${definition.label}`,
+				detail: definition.description
+			});
+			if (!confirmed) {
+				return;
+			}
+		}
+
 		this._panel.webview.postMessage({
 			command: 'artisan-started',
 			id: commandId
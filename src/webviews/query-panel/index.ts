@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WebviewUtils } from '../lib/webviewUtils';
+import { LoggerService } from '../../services/LoggerService';
+import { QueryConsoleService, QueryResult } from '../../services/QueryConsoleService';
+import { ArtisanService } from '../../services/ArtisanService';
+import { GuardrailService } from '../../services/GuardrailService';
+import { WorkspaceService } from '../../services/WorkspaceService';
+
+export class QueryPanel {
+	public static currentPanel: QueryPanel | undefined;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private readonly _queries: QueryConsoleService;
+	private readonly _artisan: ArtisanService;
+	private _connection: string | undefined;
+	private _allowWrites = false;
+	private _lastResult: QueryResult | undefined;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, state: vscode.Memento) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._queries = new QueryConsoleService(state);
+		this._artisan = new ArtisanService();
+
+		LoggerService.info('QueryPanel created');
+
+		this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+		this._panel.webview.onDidReceiveMessage(
+			(message) => this._handleWebviewMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	/**
+	 * Create or reveal the Query Console panel.
+	 * @param state - Workspace state used to keep query history per project
+	 */
+	public static createOrShow(extensionUri: vscode.Uri, state: vscode.Memento): void {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (QueryPanel.currentPanel) {
+			QueryPanel.currentPanel._panel.reveal(column);
+			return;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			'laravelHeroQuery',
+			'Laravel: Query Console',
+			column || vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+				retainContextWhenHidden: true
+			}
+		);
+
+		QueryPanel.currentPanel = new QueryPanel(panel, extensionUri, state);
+	}
+
+	public dispose(): void {
+		QueryPanel.currentPanel = undefined;
+		this._panel.dispose();
+
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	/**
+	 * Run a statement and push the result grid to the webview.
+	 */
+	private async _runQuery(sql: string): Promise<void> {
+		this._panel.webview.postMessage({ command: 'query-running' });
+
+		try {
+			const result = await this._queries.execute(sql, {
+				connection: this._connection,
+				allowWrites: this._allowWrites
+			});
+			this._lastResult = result;
+			LoggerService.info(`Query returned ${result.total} rows in ${result.time}ms`);
+
+			const history = await this._queries.addToHistory(sql, this._connection);
+			this._panel.webview.postMessage({ command: 'query-result', data: result });
+			this._panel.webview.postMessage({ command: 'history-loaded', history });
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.warn('Query failed', errorMsg);
+			this._panel.webview.postMessage({
+				command: 'query-error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Switch between read-only and write mode. Unlocking goes through the environment guardrails.
+	 */
+	private async _setWriteMode(enabled: boolean): Promise<void> {
+		if (enabled && !this._allowWrites) {
+			enabled = await GuardrailService.confirmDestructive({
+				label: 'Unlock write queries',
+				detail: `INSERT, UPDATE, DELETE and DDL statements will run against the ${this._connection ?? 'default'} connection without a rollback.`
+			});
+		}
+
+		this._allowWrites = enabled;
+		LoggerService.info(`Query console ${enabled ? 'unlocked for writes' : 'set to read-only'}`);
+		this._panel.webview.postMessage({ command: 'mode-changed', allowWrites: this._allowWrites });
+	}
+
+	/**
+	 * Save the last result as CSV or JSON.
+	 */
+	private async _exportResult(format: 'csv' | 'json'): Promise<void> {
+		if (!this._lastResult || this._lastResult.columns.length === 0) {
+			vscode.window.showWarningMessage('Run a query that returns rows before exporting.');
+			return;
+		}
+
+		const root = vscode.Uri.file(WorkspaceService.getWorkspaceRoot());
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(root, `query-result.${format}`),
+			filters: format === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] }
+		});
+		if (!target) {
+			return;
+		}
+
+		const content = format === 'csv' ? this._queries.toCsv(this._lastResult) : this._queries.toJson(this._lastResult);
+		await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+		LoggerService.info(`Query result exported to ${target.fsPath}`);
+		vscode.window.showInformationMessage(`✓ Exported ${this._lastResult.rows.length} rows to ${path.basename(target.fsPath)}`);
+	}
+
+	/**
+	 * Populate the connection picker from config/database.php.
+	 */
+	private async _loadConnections(): Promise<void> {
+		try {
+			const result = await this._artisan.getDatabaseConnections();
+			this._panel.webview.postMessage({
+				command: 'connections-loaded',
+				default: result.default,
+				connections: result.connections,
+				selected: this._connection ?? null
+			});
+		} catch (err) {
+			LoggerService.warn('Failed to load database connections', err);
+		}
+	}
+
+	/**
+	 * Handle messages from the webview.
+	 */
+	private async _handleWebviewMessage(message: any): Promise<void> {
+		try {
+			switch (message.command) {
+				case 'ready':
+					this._panel.webview.postMessage({
+						command: 'history-loaded',
+						history: this._queries.getHistory()
+					});
+					this._panel.webview.postMessage({ command: 'mode-changed', allowWrites: this._allowWrites });
+					await this._loadConnections();
+					break;
+
+				case 'select-connection':
+					this._connection = message.connection || undefined;
+					LoggerService.info(`Query console connection set to ${this._connection ?? 'default'}`);
+					break;
+
+				case 'run-query':
+					await this._runQuery(String(message.sql ?? ''));
+					break;
+
+				case 'set-write-mode':
+					await this._setWriteMode(Boolean(message.enabled));
+					break;
+
+				case 'export':
+					await this._exportResult(message.format === 'json' ? 'json' : 'csv');
+					break;
+
+				case 'clear-history':
+					await this._queries.clearHistory();
+					this._panel.webview.postMessage({ command: 'history-loaded', history: [] });
+					break;
+			}
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`QueryPanel message failed: ${message.command}`, err);
+			this._panel.webview.postMessage({
+				command: 'error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Assemble HTML for the webview from template assets.
+	 */
+	private _getHtmlForWebview(webview: vscode.Webview): string {
+		const panelDir = vscode.Uri.joinPath(this._extensionUri, 'dist', 'webviews', 'query-panel');
+		const templatePath = panelDir.fsPath;
+		const templateFile = path.join(templatePath, 'template.html');
+		let bodyContent = '';
+
+		try {
+			bodyContent = fs.readFileSync(templateFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read query template.html:', err instanceof Error ? err.message : String(err));
+			bodyContent = '<h1>Error loading template</h1>';
+		}
+
+		const iconMap: Record<string, string> = {
+			'icon-play': 'play.svg'
+		};
+
+		for (const [token, fileName] of Object.entries(iconMap)) {
+			const iconUri = webview.asWebviewUri(
+				vscode.Uri.joinPath(this._extensionUri, 'media', 'icons', fileName)
+			);
+			bodyContent = bodyContent.replaceAll(`{{${token}}}`, iconUri.toString());
+		}
+
+		const cssFile = path.join(templatePath, 'styles.css');
+		let additionalStyles = '';
+
+		try {
+			additionalStyles = fs.readFileSync(cssFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read query styles.css:', err instanceof Error ? err.message : String(err));
+		}
+
+		const jsFile = path.join(templatePath, 'script.js');
+		let scriptContent = '';
+
+		try {
+			scriptContent = fs.readFileSync(jsFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read query script.js:', err instanceof Error ? err.message : String(err));
+		}
+
+		return WebviewUtils.generateHtmlTemplate(
+			webview,
+			this._extensionUri,
+			'Laravel Query Console',
+			bodyContent,
+			scriptContent,
+			additionalStyles
+		);
+	}
+}
@@ -0,0 +1,294 @@
+const vscode = acquireVsCodeApi();
+
+const PAGE_SIZE = 100;
+
+let result = null;
+let sortColumn = null;
+let sortDirection = 'asc';
+let page = 0;
+let running = false;
+
+const sqlInput = document.getElementById('sql-input');
+const runBtn = document.getElementById('run-btn');
+const exportCsvBtn = document.getElementById('export-csv-btn');
+const exportJsonBtn = document.getElementById('export-json-btn');
+const connectionSelect = document.getElementById('connection-select');
+const writeToggle = document.getElementById('write-toggle');
+const modeLabel = document.getElementById('mode-label');
+const errorContainer = document.getElementById('error-container');
+const resultStatus = document.getElementById('result-status');
+const resultCard = document.getElementById('result-card');
+const resultTable = document.getElementById('result-table');
+const pagination = document.getElementById('pagination');
+const pageInfo = document.getElementById('page-info');
+const prevPage = document.getElementById('prev-page');
+const nextPage = document.getElementById('next-page');
+const historyList = document.getElementById('history-list');
+const clearHistoryBtn = document.getElementById('clear-history-btn');
+
+// Restore the editor contents when the panel is reopened
+const saved = vscode.getState();
+if (saved && saved.sql) {
+	sqlInput.value = saved.sql;
+}
+
+sqlInput.addEventListener('input', () => {
+	vscode.setState({ sql: sqlInput.value });
+});
+
+sqlInput.addEventListener('keydown', (e) => {
+	if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+		e.preventDefault();
+		runQuery();
+	}
+});
+
+runBtn.addEventListener('click', () => {
+	runQuery();
+});
+
+exportCsvBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'export', format: 'csv' });
+});
+
+exportJsonBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'export', format: 'json' });
+});
+
+connectionSelect.addEventListener('change', () => {
+	vscode.postMessage({ command: 'select-connection', connection: connectionSelect.value });
+});
+
+writeToggle.addEventListener('change', () => {
+	// The extension confirms first and answers with mode-changed
+	const enabled = writeToggle.checked;
+	writeToggle.checked = !enabled;
+	vscode.postMessage({ command: 'set-write-mode', enabled });
+});
+
+prevPage.addEventListener('click', () => {
+	page = Math.max(page - 1, 0);
+	renderResult();
+});
+
+nextPage.addEventListener('click', () => {
+	page++;
+	renderResult();
+});
+
+clearHistoryBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'clear-history' });
+});
+
+resultTable.addEventListener('click', (e) => {
+	const header = e.target.closest('th.sortable');
+	if (!header) {
+		return;
+	}
+	const index = parseInt(header.getAttribute('data-index'), 10);
+	if (sortColumn === index) {
+		sortDirection = sortDirection === 'asc' ? 'desc' : 'asc';
+	} else {
+		sortColumn = index;
+		sortDirection = 'asc';
+	}
+	page = 0;
+	renderResult();
+});
+
+function escapeHtml(str) {
+	return String(str ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function runQuery() {
+	const sql = sqlInput.value.trim();
+	if (!sql || running) {
+		return;
+	}
+	vscode.postMessage({ command: 'run-query', sql });
+}
+
+function setRunning(value) {
+	running = value;
+	runBtn.disabled = value;
+	connectionSelect.disabled = value;
+	if (value) {
+		errorContainer.innerHTML = '';
+		resultStatus.innerHTML = '<div class="spinner"></div>Running query...';
+	}
+}
+
+function compareValues(a, b) {
+	if (a === b) {
+		return 0;
+	}
+	if (a === null || a === undefined) {
+		return -1;
+	}
+	if (b === null || b === undefined) {
+		return 1;
+	}
+	const numA = Number(a);
+	const numB = Number(b);
+	if (!Number.isNaN(numA) && !Number.isNaN(numB) && a !== '' && b !== '') {
+		return numA - numB;
+	}
+	return String(a).localeCompare(String(b));
+}
+
+function sortedRows() {
+	if (sortColumn === null) {
+		return result.rows;
+	}
+	const direction = sortDirection === 'asc' ? 1 : -1;
+	return [...result.rows].sort((a, b) => compareValues(a[sortColumn], b[sortColumn]) * direction);
+}
+
+function formatCell(value) {
+	if (value === null || value === undefined) {
+		return '<span class="null-value">NULL</span>';
+	}
+	const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	return `<span title="${escapeHtml(text)}">${escapeHtml(text)}</span>`;
+}
+
+function renderResult() {
+	const hasRows = result && result.columns.length > 0;
+	exportCsvBtn.disabled = !hasRows;
+	exportJsonBtn.disabled = !hasRows;
+
+	if (!result) {
+		return;
+	}
+
+	if (result.affected !== undefined) {
+		resultStatus.textContent = `✓ ${result.affected} row${result.affected === 1 ? '' : 's'} affected on ${result.connection} in ${result.time} ms`;
+		resultCard.classList.add('hidden');
+		pagination.classList.add('hidden');
+		return;
+	}
+
+	const truncated = result.truncated ? ` (showing the first ${result.rows.length})` : '';
+	resultStatus.textContent = `${result.total} row${result.total === 1 ? '' : 's'}${truncated} from ${result.connection} in ${result.time} ms`;
+
+	if (!hasRows) {
+		resultCard.classList.add('hidden');
+		pagination.classList.add('hidden');
+		return;
+	}
+
+	const rows = sortedRows();
+	const pageCount = Math.max(Math.ceil(rows.length / PAGE_SIZE), 1);
+	page = Math.min(page, pageCount - 1);
+	const visible = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+	const headers = result.columns.map((column, index) => {
+		const sortClass = sortColumn === index ? ` sort-${sortDirection}` : '';
+		return `<th class="sortable${sortClass}" data-index="${index}">${escapeHtml(column)}</th>`;
+	}).join('');
+
+	const body = visible.map(row => `<tr>${row.map(value => `<td>${formatCell(value)}</td>`).join('')}</tr>`).join('');
+
+	resultTable.innerHTML = `<thead><tr>${headers}</tr></thead><tbody>${body}</tbody>`;
+	resultCard.classList.remove('hidden');
+
+	pagination.classList.toggle('hidden', pageCount <= 1);
+	pageInfo.textContent = `Page ${page + 1} of ${pageCount}`;
+	prevPage.disabled = page === 0;
+	nextPage.disabled = page >= pageCount - 1;
+}
+
+function renderHistory(history) {
+	if (!history || history.length === 0) {
+		historyList.innerHTML = '<div class="no-results">No queries yet</div>';
+		return;
+	}
+
+	historyList.innerHTML = '';
+	history.forEach(entry => {
+		const item = document.createElement('button');
+		item.className = 'history-item';
+		item.title = entry.sql;
+		item.innerHTML = `
+			<span class="history-sql">${escapeHtml(entry.sql)}</span>
+			<span class="history-meta">${escapeHtml(entry.connection || 'default')} · ${escapeHtml(new Date(entry.ranAt).toLocaleString())}</span>
+		`;
+		item.addEventListener('click', () => {
+			sqlInput.value = entry.sql;
+			vscode.setState({ sql: sqlInput.value });
+			sqlInput.focus();
+		});
+		historyList.appendChild(item);
+	});
+}
+
+function renderMode(allowWrites) {
+	writeToggle.checked = allowWrites;
+	modeLabel.textContent = allowWrites ? '🔓 Writes unlocked' : '🔒 Read-only';
+	modeLabel.classList.toggle('unlocked', allowWrites);
+}
+
+function renderConnections(connections, defaultConnection, selected) {
+	const options = [new Option(defaultConnection ? `Default (${defaultConnection})` : 'Default', '')];
+	connections.forEach(name => {
+		options.push(new Option(name, name));
+	});
+	connectionSelect.replaceChildren(...options);
+	connectionSelect.value = selected || '';
+}
+
+function showError(msg) {
+	errorContainer.innerHTML = `
+		<div class="error-banner">
+			<strong>Error:</strong> ${escapeHtml(msg)}
+		</div>
+	`;
+}
+
+window.addEventListener('message', event => {
+	const message = event.data;
+
+	switch (message.command) {
+		case 'connections-loaded':
+			renderConnections(message.connections || [], message.default, message.selected);
+			break;
+
+		case 'history-loaded':
+			renderHistory(message.history);
+			break;
+
+		case 'mode-changed':
+			renderMode(message.allowWrites);
+			break;
+
+		case 'query-running':
+			setRunning(true);
+			break;
+
+		case 'query-result':
+			setRunning(false);
+			result = message.data;
+			sortColumn = null;
+			page = 0;
+			renderResult();
+			break;
+
+		case 'query-error':
+			setRunning(false);
+			resultStatus.textContent = '';
+			showError(message.error);
+			break;
+
+		case 'error':
+			setRunning(false);
+			showError(message.error);
+			break;
+	}
+});
+
+vscode.postMessage({ command: 'ready' });
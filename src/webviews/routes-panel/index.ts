@@ -4,6 +4,15 @@ import * as vscode from 'vscode';
 import { WebviewUtils } from '../lib/webviewUtils';
 import { LoggerService } from '../../services/LoggerService';
 import { ArtisanService } from '../../services/ArtisanService';
+import { HttpClientService, HttpRequestDefinition } from '../../services/HttpClientService';
+import { MiddlewareService } from '../../services/MiddlewareService';
+import { OpenApiFormat, OpenApiService } from '../../services/OpenApiService';
+import { RouteActionLocation, RouteActionService } from '../../services/RouteActionService';
+import { RouteCacheService } from '../../services/RouteCacheService';
+import { RouteCollectionFormat, RouteCollectionGrouping, RouteCollectionService } from '../../services/RouteCollectionService';
+import { RouteLintIssue, RouteLintService } from '../../services/RouteLintService';
+import { WorkspaceService } from '../../services/WorkspaceService';
+import { RouteDiagnosticsProvider } from '../../providers/RouteDiagnosticsProvider';
 
 export class RoutesPanel {
 
@@ -12,13 +21,20 @@ export class RoutesPanel {
 	private readonly _panel: vscode.WebviewPanel;
 	private readonly _extensionUri: vscode.Uri;
 	private readonly _artisan: ArtisanService;
+	private readonly _http: HttpClientService;
 	private _routes: any[] = [];
+	private _locations: (RouteActionLocation | undefined)[] = [];
+	/** Resolves actions for the loaded routes; its route table is shared by the lint and the OpenAPI export. */
+	private _actions = new RouteActionService();
+	private _issues: RouteLintIssue[] = [];
+	private _activeRequest: vscode.CancellationTokenSource | undefined;
 	private _disposables: vscode.Disposable[] = [];
 
-	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, state: vscode.Memento, secrets: vscode.SecretStorage) {
 		this._panel = panel;
 		this._extensionUri = extensionUri;
 		this._artisan = new ArtisanService();
+		this._http = new HttpClientService(state, secrets);
 
 		LoggerService.info('RoutesPanel created');
 
@@ -33,7 +49,12 @@ export class RoutesPanel {
 		);
 	}
 
-	public static createOrShow(extensionUri: vscode.Uri): void {
+	/**
+	 * Create or reveal the Routes panel.
+	 * @param state - Workspace state used to keep saved requests per route
+	 * @param secrets - Secret storage for the credentials of saved requests
+	 */
+	public static createOrShow(extensionUri: vscode.Uri, state: vscode.Memento, secrets: vscode.SecretStorage): void {
 		const column = vscode.window.activeTextEditor
 			? vscode.window.activeTextEditor.viewColumn
 			: undefined;
@@ -54,12 +75,13 @@ export class RoutesPanel {
 			}
 		);
 
-		RoutesPanel.currentPanel = new RoutesPanel(panel, extensionUri);
+		RoutesPanel.currentPanel = new RoutesPanel(panel, extensionUri, state, secrets);
 		RoutesPanel.currentPanel._loadRoutes();
 	}
 
 	public dispose(): void {
 		RoutesPanel.currentPanel = undefined;
+		this._activeRequest?.cancel();
 		this._panel.dispose();
 		this._artisan.dispose();
 
@@ -71,17 +93,30 @@ export class RoutesPanel {
 		}
 	}
 
-	private async _loadRoutes(): Promise<void> {
+	/**
+	 * @param refresh - Reload the shared route cache from artisan instead of reusing it
+	 */
+	private async _loadRoutes(refresh = false): Promise<void> {
 		try {
-			const result = await this._artisan.getRoutes();
+			if (refresh) {
+				RouteCacheService.invalidate();
+			}
+			const result = await RouteCacheService.getRoutes();
 			LoggerService.info(`Loaded ${result.routes.length} routes`);
 			this._routes = result.routes;
+			this._actions = new RouteActionService();
 
 			this._panel.webview.postMessage({
 				command: 'routes-loaded',
 				data: result.routes,
 				error: result.error
 			});
+
+			this._loadMiddleware();
+			await this._loadLocations();
+			if (!result.error) {
+				await this._loadIssues();
+			}
 		} catch (err) {
 			const errorMsg = err instanceof Error ? err.message : String(err);
 			LoggerService.error('Failed to load routes', err);
@@ -92,12 +127,78 @@ export class RoutesPanel {
 		}
 	}
 
+	/**
+	 * Map each route's middleware back to the groups and aliases it was declared with, for the matrix view.
+	 */
+	private _loadMiddleware(): void {
+		try {
+			const service = new MiddlewareService();
+			const definitions = service.getDefinitions();
+			this._panel.webview.postMessage({
+				command: 'middleware-loaded',
+				groups: service.describeGroups(definitions),
+				source: definitions.source,
+				profiles: this._routes.map(route => service.profile(route, definitions))
+			});
+		} catch (err) {
+			LoggerService.warn('Failed to resolve middleware groups', err);
+		}
+	}
+
+	/**
+	 * Resolve each route's controller, closure or page so rows can open it.
+	 * Posted after the list because closures need the application to boot.
+	 */
+	private async _loadLocations(): Promise<void> {
+		try {
+			this._locations = await this._actions.resolveAll(this._routes);
+			this._panel.webview.postMessage({
+				command: 'locations-loaded',
+				locations: this._locations.map(location => location ? { kind: location.kind, label: location.label } : null)
+			});
+		} catch (err) {
+			LoggerService.warn('Failed to resolve route actions', err);
+		}
+	}
+
+	/**
+	 * Lint the loaded routes and share the findings with the route file diagnostics.
+	 */
+	private async _loadIssues(): Promise<void> {
+		try {
+			const result = await new RouteLintService(this._actions).analyze(this._routes);
+			this._issues = result.issues;
+			RouteDiagnosticsProvider.update(result.issues);
+			this._panel.webview.postMessage({
+				command: 'lint-loaded',
+				issues: result.issues.map(issue => ({
+					rule: issue.rule,
+					severity: issue.severity,
+					message: issue.message,
+					routeIndex: issue.routeIndex,
+					hasLocation: Boolean(issue.location)
+				})),
+				skipped: result.skipped
+			});
+		} catch (err) {
+			LoggerService.warn('Failed to lint routes', err);
+		}
+	}
+
 	private async _handleWebviewMessage(message: any): Promise<void> {
 		try {
 			switch (message.command) {
 				case 'ready':
 				case 'refresh':
-					await this._loadRoutes();
+					await this._loadRoutes(true);
+					break;
+
+				case 'open-action':
+					await this._openAction(Number(message.index));
+					break;
+
+				case 'open-issue':
+					await this._openIssue(Number(message.index));
 					break;
 
 				case 'copy-text':
@@ -107,6 +208,35 @@ export class RoutesPanel {
 				case 'export-csv':
 					await this._exportCsv();
 					break;
+
+				case 'export-openapi':
+					await this._exportOpenApi();
+					break;
+
+				case 'export-collection':
+					await this._exportCollection(message.indices);
+					break;
+
+				case 'load-saved-requests':
+					await this._postSavedRequests(message.routeKey);
+					break;
+
+				case 'send-request':
+					await this._sendRequest(message.request);
+					break;
+
+				case 'cancel-request':
+					this._activeRequest?.cancel();
+					break;
+
+				case 'save-request':
+					await this._saveRequest(message.routeKey, message.request, message.label);
+					break;
+
+				case 'delete-saved-request':
+					await this._http.deleteSaved(message.routeKey, message.label);
+					await this._postSavedRequests(message.routeKey);
+					break;
 			}
 		} catch (err) {
 			LoggerService.error(`Error handling webview message: ${message.command}`, err);
@@ -132,6 +262,88 @@ export class RoutesPanel {
 		}
 	}
 
+	private async _openAction(index: number): Promise<void> {
+		const location = this._locations[index];
+		if (!location) {
+			vscode.window.showWarningMessage('The action of this route could not be located in the workspace.');
+			return;
+		}
+
+		const document = await vscode.workspace.openTextDocument(location.file);
+		const position = new vscode.Position(Math.max(0, location.line - 1), 0);
+		await vscode.window.showTextDocument(document, {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	/**
+	 * Open the route declaration a lint finding points to.
+	 */
+	private async _openIssue(index: number): Promise<void> {
+		const location = this._issues[index]?.location;
+		if (!location) {
+			vscode.window.showWarningMessage('The declaration of this route could not be found under routes/.');
+			return;
+		}
+
+		const document = await vscode.workspace.openTextDocument(location.file);
+		const position = new vscode.Position(Math.max(0, location.line - 1), 0);
+		await vscode.window.showTextDocument(document, {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	/**
+	 * Send a request from the request tester and post the response back.
+	 */
+	private async _sendRequest(request: HttpRequestDefinition): Promise<void> {
+		this._activeRequest?.cancel();
+		const source = new vscode.CancellationTokenSource();
+		this._activeRequest = source;
+
+		try {
+			const response = await this._http.send(request, source.token);
+			LoggerService.info(`HTTP ${response.status} in ${response.durationMs}ms`);
+			this._panel.webview.postMessage({ command: 'request-response', response });
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.warn('HTTP request failed', err);
+			this._panel.webview.postMessage({ command: 'request-error', error: errorMsg });
+		} finally {
+			if (this._activeRequest === source) {
+				this._activeRequest = undefined;
+			}
+			source.dispose();
+		}
+	}
+
+	private async _saveRequest(routeKey: string, request: HttpRequestDefinition, currentLabel?: string): Promise<void> {
+		const label = await vscode.window.showInputBox({
+			title: `Save request for ${routeKey}`,
+			prompt: 'Name this request. Saving under an existing name replaces it.',
+			value: currentLabel || `${request.method} ${new Date().toLocaleString()}`,
+			validateInput: (value) => value.trim() ? undefined : 'Enter a name'
+		});
+		if (!label) {
+			return;
+		}
+
+		await this._http.save(routeKey, label.trim(), request);
+		await this._postSavedRequests(routeKey, label.trim());
+		vscode.window.showInformationMessage(`✓ Request '${label.trim()}' saved`);
+	}
+
+	private async _postSavedRequests(routeKey: string, selected?: string): Promise<void> {
+		this._panel.webview.postMessage({
+			command: 'saved-requests',
+			routeKey,
+			saved: await this._http.getSaved(routeKey),
+			selected
+		});
+	}
+
 	private async _exportCsv(): Promise<void> {
 		if (!this._routes || this._routes.length === 0) {
 			vscode.window.showWarningMessage('No routes to export');
@@ -182,6 +394,127 @@ export class RoutesPanel {
 		}
 	}
 
+	/**
+	 * Export the loaded routes as an OpenAPI 3.1 document, optionally limited to api/ routes.
+	 */
+	private async _exportOpenApi(): Promise<void> {
+		if (!this._routes || this._routes.length === 0) {
+			vscode.window.showWarningMessage('No routes to export');
+			return;
+		}
+
+		const openApi = new OpenApiService(this._actions);
+		const apiCount = this._routes.filter(route => openApi.isApiRoute(route)).length;
+		const scope = await vscode.window.showQuickPick([
+			{ label: 'API routes only', description: `${apiCount} routes under api/`, apiOnly: true },
+			{ label: 'All routes', description: `${this._routes.length} routes`, apiOnly: false }
+		], { placeHolder: 'Routes to include in the OpenAPI document' });
+		if (!scope) {
+			return;
+		}
+		if (scope.apiOnly && apiCount === 0) {
+			vscode.window.showWarningMessage('There are no routes under api/ to export');
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick([
+			{ label: 'YAML', format: 'yaml' as OpenApiFormat },
+			{ label: 'JSON', format: 'json' as OpenApiFormat }
+		], { placeHolder: 'OpenAPI document format' });
+		if (!format) {
+			return;
+		}
+
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(`openapi.${format.format}`),
+			filters: format.format === 'yaml' ? { YAML: ['yaml', 'yml'] } : { JSON: ['json'] },
+			saveLabel: 'Export OpenAPI'
+		});
+		if (!uri) {
+			return;
+		}
+
+		try {
+			const document = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'Building OpenAPI document…' },
+				() => openApi.build(this._routes, {
+					title: WorkspaceService.getProjectName(),
+					baseUrl: this._artisan.getBaseAppUrl(),
+					apiOnly: scope.apiOnly
+				})
+			);
+			await fs.promises.writeFile(uri.fsPath, openApi.serialize(document, format.format), 'utf8');
+
+			const action = await vscode.window.showInformationMessage(`✓ OpenAPI document exported to ${uri.fsPath}`, 'Open');
+			if (action === 'Open') {
+				await vscode.window.showTextDocument(uri);
+			}
+		} catch (err) {
+			LoggerService.error('Failed to export OpenAPI document', err);
+			const msg = err instanceof Error ? err.message : String(err);
+			vscode.window.showErrorMessage(`Export failed: ${msg}`);
+		}
+	}
+
+	/**
+	 * Export the routes matching the current search as a Postman, Insomnia or .http collection.
+	 * @param indices - Positions in the loaded route list of the rows shown in the table
+	 */
+	private async _exportCollection(indices: number[] | undefined): Promise<void> {
+		const routes = Array.isArray(indices)
+			? indices.map(index => this._routes[index]).filter(Boolean)
+			: this._routes;
+		if (routes.length === 0) {
+			vscode.window.showWarningMessage('No routes to export');
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick([
+			{ label: 'Postman', description: 'Collection v2.1', format: 'postman' as RouteCollectionFormat },
+			{ label: 'Insomnia', description: 'Export format 4', format: 'insomnia' as RouteCollectionFormat },
+			{ label: 'HTTP file', description: 'REST Client / JetBrains HTTP Client', format: 'http' as RouteCollectionFormat }
+		], { placeHolder: `Export ${routes.length} route${routes.length === 1 ? '' : 's'} as` });
+		if (!format) {
+			return;
+		}
+
+		const grouping = await vscode.window.showQuickPick([
+			{ label: 'By URI prefix', description: 'users, api/orders, …', grouping: 'uri' as RouteCollectionGrouping },
+			{ label: 'By route name prefix', description: 'users.*, admin.*, …', grouping: 'name' as RouteCollectionGrouping }
+		], { placeHolder: 'Group requests into folders' });
+		if (!grouping) {
+			return;
+		}
+
+		const extension = RouteCollectionService.EXTENSIONS[format.format];
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(`routes.${extension}`),
+			filters: format.format === 'http' ? { 'HTTP file': ['http', 'rest'] } : { JSON: ['json'] },
+			saveLabel: `Export ${format.label} Collection`
+		});
+		if (!uri) {
+			return;
+		}
+
+		try {
+			const content = new RouteCollectionService().export(routes, format.format, {
+				title: WorkspaceService.getProjectName(),
+				baseUrl: this._artisan.getBaseAppUrl(),
+				grouping: grouping.grouping
+			});
+			await fs.promises.writeFile(uri.fsPath, content, 'utf8');
+
+			const action = await vscode.window.showInformationMessage(`✓ ${routes.length} routes exported to ${uri.fsPath}`, 'Open');
+			if (action === 'Open') {
+				await vscode.window.showTextDocument(uri);
+			}
+		} catch (err) {
+			LoggerService.error('Failed to export route collection', err);
+			const msg = err instanceof Error ? err.message : String(err);
+			vscode.window.showErrorMessage(`Export failed: ${msg}`);
+		}
+	}
+
 	private _getHtmlForWebview(webview: vscode.Webview): string {
 		const panelDir = vscode.Uri.joinPath(this._extensionUri, 'dist', 'webviews', 'routes-panel');
 
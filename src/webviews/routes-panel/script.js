@@ -3,6 +3,13 @@ const vscode = acquireVsCodeApi();
 let routes = [];
 let filteredRoutes = [];
 let currentSort = { column: 'index', direction: 'asc' };
+let activeRoute = null;
+let locations = [];
+let savedRequests = [];
+let issues = [];
+let middlewareProfiles = [];
+let middlewareGroups = {};
+let currentView = 'table';
 
 const list = document.getElementById('route-list');
 const errorContainer = document.getElementById('error-container');
@@ -10,6 +17,37 @@ const searchInput = document.getElementById('search-input');
 const searchResults = document.getElementById('search-results');
 const refreshBtn = document.getElementById('refresh-btn');
 const exportBtn = document.getElementById('export-btn');
+const exportOpenApiBtn = document.getElementById('export-openapi-btn');
+const exportCollectionBtn = document.getElementById('export-collection-btn');
+
+const requestCard = document.getElementById('request-card');
+const requestRoute = document.getElementById('request-route');
+const requestMethod = document.getElementById('request-method');
+const requestUrl = document.getElementById('request-url');
+const sendRequestBtn = document.getElementById('send-request-btn');
+const saveRequestBtn = document.getElementById('save-request-btn');
+const savedSelect = document.getElementById('saved-select');
+const deleteSavedBtn = document.getElementById('delete-saved-btn');
+const pathParams = document.getElementById('path-params');
+const bodyJson = document.getElementById('body-json');
+const bodyForm = document.getElementById('body-form');
+const authType = document.getElementById('auth-type');
+const insecureTls = document.getElementById('insecure-tls');
+const requestError = document.getElementById('request-error');
+const responseCard = document.getElementById('response-card');
+
+const lintCard = document.getElementById('lint-card');
+const lintSummary = document.getElementById('lint-summary');
+const lintSkipped = document.getElementById('lint-skipped');
+const lintList = document.getElementById('lint-list');
+
+const tableCard = document.getElementById('table-card');
+const matrixCard = document.getElementById('matrix-card');
+const matrixColumns = document.getElementById('matrix-columns');
+const matrixExpand = document.getElementById('matrix-expand');
+const matrixPivot = document.getElementById('matrix-pivot');
+const matrixSummary = document.getElementById('matrix-summary');
+const matrixTable = document.getElementById('matrix-table');
 
 refreshBtn.addEventListener('click', () => {
 	vscode.postMessage({ command: 'refresh' });
@@ -19,6 +57,14 @@ exportBtn.addEventListener('click', () => {
 	vscode.postMessage({ command: 'export-csv', data: filteredRoutes });
 });
 
+exportOpenApiBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'export-openapi' });
+});
+
+exportCollectionBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'export-collection', indices: filteredRoutes.map(route => route._originalIndex - 1) });
+});
+
 searchInput.addEventListener('input', (e) => {
 	const term = e.target.value.toLowerCase();
 	filterAndRender(term);
@@ -104,6 +150,9 @@ function filterAndRender(searchTerm) {
 
 	sortRoutes();
 	renderTable(filteredRoutes);
+	if (currentView === 'matrix') {
+		renderMatrix();
+	}
 	updateSearchResults();
 }
 
@@ -217,20 +266,41 @@ function renderTable(items) {
 			: '—';
 
 		const safeUrl = route.fullUrl || '';
+		const routeIssues = issues.filter(issue => issue.routeIndex === route._originalIndex - 1);
+		const issueChip = routeIssues.length
+			? `<span class="issue-chip issue-${routeIssues[0].severity}" title="${escapeHtml(routeIssues.map(issue => issue.message).join('\n'))}">${routeIssues[0].severity === 'info' ? 'ℹ' : '⚠'} ${routeIssues.length}</span>`
+			: '';
+		const location = locations[route._originalIndex - 1];
+		const actionContent = location
+			? `<div class="action-link" title="Open ${escapeHtml(location.label)}">→ ${escapeHtml(location.label)}</div>`
+			: route.action ? `<div class="action-text">${escapeHtml(route.action)}</div>` : '';
 
 		tr.innerHTML = `
 			<td>${route._originalIndex}</td>
 			<td><span class="method-chip">${escapeHtml(methodsLabel)}</span></td>
-			<td class="mono-text">${escapeHtml(route.uri)}</td>
+			<td class="mono-text">${escapeHtml(route.uri)}${issueChip}${actionContent}</td>
 			<td>${escapeHtml(route.name || '—')}</td>
 			<td>${escapeHtml(permissionsLabel)}</td>
 			<td class="middleware-cell">${middlewareContent}</td>
 			<td class="url-cell mono-text">${escapeHtml(safeUrl || '—')}</td>
 			<td>
+				<button class="inline-button secondary" data-action="request">Request</button>
 				<button class="inline-button secondary" data-action="copy" data-url="${escapeHtml(safeUrl)}">Copy URL</button>
 			</td>
 		`;
 
+		tr.querySelector('[data-action="request"]').addEventListener('click', () => openRequest(route));
+
+		if (location) {
+			tr.classList.add('clickable-row');
+			tr.addEventListener('click', (e) => {
+				if (e.target.closest('button, .middleware-chip, .issue-chip')) {
+					return;
+				}
+				vscode.postMessage({ command: 'open-action', index: route._originalIndex - 1 });
+			});
+		}
+
 		const copyBtn = tr.querySelector('[data-action="copy"]');
 		copyBtn.addEventListener('click', (e) => {
 			e.preventDefault();
@@ -260,6 +330,498 @@ function renderTable(items) {
 	});
 }
 
+// Route checks
+
+function renderIssues(skipped) {
+	const errors = issues.filter(issue => issue.severity === 'error').length;
+	const warnings = issues.filter(issue => issue.severity === 'warning').length;
+	const notes = issues.length - errors - warnings;
+
+	lintCard.classList.toggle('hidden', issues.length === 0 && skipped.length === 0);
+	lintSummary.textContent = issues.length === 0
+		? 'Route checks: no problems found'
+		: `Route checks: ${[
+			errors ? `${errors} error${errors === 1 ? '' : 's'}` : '',
+			warnings ? `${warnings} warning${warnings === 1 ? '' : 's'}` : '',
+			notes ? `${notes} note${notes === 1 ? '' : 's'}` : ''
+		].filter(Boolean).join(', ')}`;
+	lintSkipped.textContent = skipped.join(' ');
+	lintSkipped.classList.toggle('hidden', skipped.length === 0);
+
+	lintList.innerHTML = issues.map((issue, index) => `
+		<li class="lint-item issue-${issue.severity}${issue.hasLocation ? ' clickable' : ''}" data-issue="${index}">
+			<span class="lint-rule">${escapeHtml(issue.rule)}</span>
+			<span>${escapeHtml(issue.message)}</span>
+		</li>
+	`).join('');
+
+	lintList.querySelectorAll('.lint-item.clickable').forEach(item => {
+		item.addEventListener('click', () => {
+			vscode.postMessage({ command: 'open-issue', index: Number(item.getAttribute('data-issue')) });
+		});
+	});
+}
+
+// Middleware matrix
+
+document.querySelectorAll('.view-tab').forEach(tab => {
+	tab.addEventListener('click', () => {
+		currentView = tab.getAttribute('data-view');
+		document.querySelectorAll('.view-tab').forEach(other => other.classList.toggle('active', other === tab));
+		tableCard.classList.toggle('hidden', currentView !== 'table');
+		matrixCard.classList.toggle('hidden', currentView !== 'matrix');
+		if (currentView === 'matrix') {
+			renderMatrix();
+		}
+	});
+});
+
+[matrixColumns, matrixExpand, matrixPivot].forEach(control => {
+	control.addEventListener('change', renderMatrix);
+});
+
+/**
+ * Columns of a route: whole groups plus the remaining middleware, or every middleware with groups expanded.
+ * Before the profiles arrive, the raw route:list middleware is used.
+ */
+function matrixLabels(route) {
+	const profile = middlewareProfiles[route._originalIndex - 1];
+	if (matrixColumns.value === 'permissions') {
+		return profile ? profile.permissions : (route.permissions || []);
+	}
+	if (!profile) {
+		return route.middleware || [];
+	}
+	return matrixExpand.checked ? profile.expanded : [...profile.groups, ...profile.middleware];
+}
+
+function hasPermission(route) {
+	const profile = middlewareProfiles[route._originalIndex - 1];
+	return (profile ? profile.permissions : (route.permissions || [])).length > 0;
+}
+
+function shortLabel(label) {
+	const [name, ...params] = label.split(':');
+	const short = name.includes('\\') ? name.split('\\').pop() : name;
+	return [short, ...params].join(':');
+}
+
+/**
+ * Group names first, then the most used middleware.
+ */
+function matrixColumnsFor(items) {
+	const counts = new Map();
+	items.forEach(route => matrixLabels(route).forEach(label => counts.set(label, (counts.get(label) || 0) + 1)));
+	return [...counts.keys()].sort((a, b) => {
+		const groupA = a in middlewareGroups ? 0 : 1;
+		const groupB = b in middlewareGroups ? 0 : 1;
+		return groupA - groupB || counts.get(b) - counts.get(a) || a.localeCompare(b);
+	});
+}
+
+function updatePivotOptions() {
+	const selected = matrixPivot.value;
+	const columns = matrixColumnsFor(routes);
+	matrixPivot.innerHTML = `
+		<option value="">All routes</option>
+		<option value="__none__">Without any permission</option>
+		${columns.map(column => `<option value="${escapeHtml(column)}">Protected by ${escapeHtml(column)}</option>`).join('')}
+	`;
+	matrixPivot.value = selected === '' || selected === '__none__' || columns.includes(selected) ? selected : '';
+}
+
+function renderMatrix() {
+	updatePivotOptions();
+	const pivot = matrixPivot.value;
+	const rows = filteredRoutes.filter(route => {
+		if (pivot === '__none__') {
+			return !hasPermission(route);
+		}
+		return !pivot || matrixLabels(route).includes(pivot);
+	});
+	const columns = matrixColumnsFor(rows);
+	matrixSummary.textContent = `${rows.length} of ${routes.length} routes`;
+
+	if (rows.length === 0) {
+		matrixTable.innerHTML = `<tbody><tr><td class="no-results">No routes match</td></tr></tbody>`;
+		return;
+	}
+
+	const header = columns.map(column => `
+		<th class="matrix-column${column === pivot ? ' active' : ''}${column in middlewareGroups ? ' group' : ''}" data-column="${escapeHtml(column)}" title="${escapeHtml(column in middlewareGroups ? `${column}: ${middlewareGroups[column].join(', ')}` : column)}">
+			<span>${escapeHtml(shortLabel(column))}</span>
+		</th>
+	`).join('');
+
+	const body = rows.map(route => {
+		const labels = matrixLabels(route);
+		const methods = normalizeMethods(route.methods);
+		const cells = columns.map(column => labels.includes(column)
+			? `<td class="matrix-cell on" title="${escapeHtml(column)}">●</td>`
+			: '<td class="matrix-cell"></td>'
+		).join('');
+		return `
+			<tr class="${locations[route._originalIndex - 1] ? 'clickable-row' : ''}" data-index="${route._originalIndex - 1}">
+				<td><span class="method-chip">${escapeHtml(methods.length ? methods.join(' | ') : 'ANY')}</span></td>
+				<td class="mono-text matrix-uri">${escapeHtml(route.uri)}${route.name ? `<div class="action-text">${escapeHtml(route.name)}</div>` : ''}</td>
+				${cells}
+			</tr>
+		`;
+	}).join('');
+
+	matrixTable.innerHTML = `
+		<thead><tr><th>Method</th><th>URI</th>${header}</tr></thead>
+		<tbody>${body}</tbody>
+	`;
+
+	matrixTable.querySelectorAll('th.matrix-column').forEach(th => {
+		th.addEventListener('click', () => {
+			const column = th.getAttribute('data-column');
+			matrixPivot.value = matrixPivot.value === column ? '' : column;
+			renderMatrix();
+		});
+	});
+	matrixTable.querySelectorAll('tr.clickable-row').forEach(tr => {
+		tr.addEventListener('click', () => {
+			vscode.postMessage({ command: 'open-action', index: Number(tr.getAttribute('data-index')) });
+		});
+	});
+}
+
+function renderMiddlewareGroups(source) {
+	document.getElementById('matrix-groups-summary').textContent = source
+		? `Middleware groups (from ${source})`
+		: 'Middleware groups (framework defaults)';
+	document.getElementById('matrix-group-list').innerHTML = Object.entries(middlewareGroups).map(([name, members]) => `
+		<dt>${escapeHtml(name)}</dt>
+		<dd>${members.length ? members.map(member => escapeHtml(member)).join('<br>') : '—'}</dd>
+	`).join('');
+}
+
+// Request tester
+
+document.getElementById('close-request-btn').addEventListener('click', () => {
+	requestCard.classList.add('hidden');
+	activeRoute = null;
+});
+
+document.querySelectorAll('.request-tab').forEach(tab => {
+	tab.addEventListener('click', () => showRequestTab(tab.getAttribute('data-request-tab')));
+});
+
+document.querySelectorAll('[data-add-row]').forEach(button => {
+	button.addEventListener('click', () => {
+		addKeyValueRow(document.getElementById(button.getAttribute('data-add-row')));
+		updateRequestUrl();
+	});
+});
+
+document.querySelectorAll('input[name="body-type"]').forEach(radio => {
+	radio.addEventListener('change', updateBodyType);
+});
+
+authType.addEventListener('change', updateAuthFields);
+requestMethod.addEventListener('change', updateBodyType);
+requestCard.addEventListener('input', updateRequestUrl);
+
+sendRequestBtn.addEventListener('click', () => {
+	if (sendRequestBtn.dataset.sending === 'true') {
+		vscode.postMessage({ command: 'cancel-request' });
+		return;
+	}
+
+	const request = readRequest();
+	const missing = pathParameters(request.url).filter(p => !p.optional && !request.pathParams[p.name].trim());
+	if (missing.length > 0) {
+		showRequestError(`Fill in the route parameter${missing.length === 1 ? '' : 's'}: ${missing.map(p => p.name).join(', ')}`);
+		return;
+	}
+
+	hideRequestError();
+	setSending(true);
+	vscode.postMessage({ command: 'send-request', request });
+});
+
+saveRequestBtn.addEventListener('click', () => {
+	vscode.postMessage({
+		command: 'save-request',
+		routeKey: routeKey(activeRoute),
+		request: readRequest(),
+		label: savedSelect.value || undefined
+	});
+});
+
+savedSelect.addEventListener('change', () => {
+	deleteSavedBtn.disabled = !savedSelect.value;
+	const entry = savedRequests.find(saved => saved.label === savedSelect.value);
+	if (entry) {
+		applyRequest(entry.request);
+	}
+});
+
+deleteSavedBtn.addEventListener('click', () => {
+	if (!savedSelect.value) {
+		return;
+	}
+	vscode.postMessage({ command: 'delete-saved-request', routeKey: routeKey(activeRoute), label: savedSelect.value });
+});
+
+/**
+ * Saved requests are kept per route name; unnamed routes use method and URI.
+ */
+function routeKey(route) {
+	if (!route) {
+		return '';
+	}
+	return route.name || `${normalizeMethods(route.methods)[0] || 'GET'} ${route.uri}`;
+}
+
+function pathParameters(url) {
+	return [...String(url).matchAll(/\{(\w+)(\?)?\}/g)].map(match => ({ name: match[1], optional: Boolean(match[2]) }));
+}
+
+function openRequest(route) {
+	activeRoute = route;
+	savedRequests = [];
+	requestRoute.textContent = `${route.name ? `${route.name} · ` : ''}${route.uri}`;
+
+	const methods = normalizeMethods(route.methods).filter(m => m !== 'HEAD');
+	requestMethod.innerHTML = (methods.length ? methods : ['GET'])
+		.map(m => `<option value="${escapeHtml(m)}">${escapeHtml(m)}</option>`)
+		.join('');
+
+	applyRequest({
+		method: requestMethod.value,
+		url: route.fullUrl || '',
+		pathParams: {},
+		query: [],
+		headers: [],
+		bodyType: ['POST', 'PUT', 'PATCH'].includes(requestMethod.value) ? 'json' : 'none',
+		body: '',
+		form: [],
+		auth: { type: 'none' },
+		insecure: false
+	});
+
+	renderSavedRequests([]);
+	hideRequestError();
+	responseCard.classList.add('hidden');
+	showRequestTab('params');
+	requestCard.classList.remove('hidden');
+	requestCard.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+	vscode.postMessage({ command: 'load-saved-requests', routeKey: routeKey(route) });
+}
+
+/**
+ * Fill the form from a request definition (a new one or a saved one).
+ */
+function applyRequest(request) {
+	if ([...requestMethod.options].some(option => option.value === request.method)) {
+		requestMethod.value = request.method;
+	}
+	requestUrl.dataset.template = activeRoute?.fullUrl || request.url || '';
+
+	pathParams.innerHTML = '';
+	pathParameters(requestUrl.dataset.template).forEach(param => {
+		const row = document.createElement('div');
+		row.className = 'kv-row';
+		row.innerHTML = `
+			<span class="kv-label mono-text">{${escapeHtml(param.name)}${param.optional ? '?' : ''}}</span>
+			<input class="kv-input" data-param="${escapeHtml(param.name)}" type="text"
+				placeholder="${param.optional ? 'optional' : 'required'}" value="${escapeHtml(request.pathParams?.[param.name] || '')}" />
+		`;
+		pathParams.appendChild(row);
+	});
+	if (!pathParams.children.length) {
+		pathParams.innerHTML = '<p class="request-hint">This route has no parameters.</p>';
+	}
+
+	fillKeyValueRows(document.getElementById('query-rows'), request.query);
+	fillKeyValueRows(document.getElementById('header-rows'), request.headers);
+	fillKeyValueRows(document.getElementById('form-rows'), request.form);
+
+	document.querySelectorAll('input[name="body-type"]').forEach(radio => {
+		radio.checked = radio.value === (request.bodyType || 'none');
+	});
+	bodyJson.value = request.body || '';
+
+	const auth = request.auth || { type: 'none' };
+	authType.value = auth.type;
+	document.getElementById('auth-token').value = auth.token || '';
+	document.getElementById('auth-username').value = auth.username || '';
+	document.getElementById('auth-password').value = auth.password || '';
+	document.getElementById('auth-cookie').value = auth.cookie || '';
+	insecureTls.checked = Boolean(request.insecure);
+
+	updateBodyType();
+	updateAuthFields();
+	updateRequestUrl();
+}
+
+/**
+ * Read the form into a request definition for the extension.
+ */
+function readRequest() {
+	const params = {};
+	pathParams.querySelectorAll('[data-param]').forEach(input => {
+		params[input.getAttribute('data-param')] = input.value;
+	});
+
+	const type = authType.value;
+	const auth = { type };
+	if (type === 'bearer') {
+		auth.token = document.getElementById('auth-token').value;
+	} else if (type === 'basic') {
+		auth.username = document.getElementById('auth-username').value;
+		auth.password = document.getElementById('auth-password').value;
+	} else if (type === 'cookie') {
+		auth.cookie = document.getElementById('auth-cookie').value;
+	}
+
+	return {
+		method: requestMethod.value,
+		url: requestUrl.dataset.template || '',
+		pathParams: params,
+		query: readKeyValueRows(document.getElementById('query-rows')),
+		headers: readKeyValueRows(document.getElementById('header-rows')),
+		bodyType: document.querySelector('input[name="body-type"]:checked')?.value || 'none',
+		body: bodyJson.value,
+		form: readKeyValueRows(document.getElementById('form-rows')),
+		auth,
+		insecure: insecureTls.checked
+	};
+}
+
+function fillKeyValueRows(container, items) {
+	container.innerHTML = '';
+	(items || []).forEach(item => addKeyValueRow(container, item));
+}
+
+function addKeyValueRow(container, item = { key: '', value: '', enabled: true }) {
+	const row = document.createElement('div');
+	row.className = 'kv-row';
+	row.innerHTML = `
+		<input type="checkbox" class="kv-enabled" title="Send this entry" ${item.enabled === false ? '' : 'checked'} />
+		<input class="kv-input kv-key" type="text" placeholder="Name" value="${escapeHtml(item.key || '')}" />
+		<input class="kv-input kv-value" type="text" placeholder="Value" value="${escapeHtml(item.value || '')}" />
+		<button class="inline-button kv-remove" title="Remove">✕</button>
+	`;
+	row.querySelector('.kv-remove').addEventListener('click', () => {
+		row.remove();
+		updateRequestUrl();
+	});
+	container.appendChild(row);
+}
+
+function readKeyValueRows(container) {
+	return [...container.querySelectorAll('.kv-row')]
+		.map(row => ({
+			key: row.querySelector('.kv-key').value,
+			value: row.querySelector('.kv-value').value,
+			enabled: row.querySelector('.kv-enabled').checked
+		}))
+		.filter(item => item.key.trim() || item.value.trim());
+}
+
+/**
+ * Show the URL that will be requested, with filled parameters and the query string.
+ */
+function updateRequestUrl() {
+	if (!activeRoute) {
+		return;
+	}
+
+	const request = readRequest();
+	let url = request.url.replace(/(\/?)\{(\w+)(\?)?\}/g, (match, slash, name, optional) => {
+		const value = (request.pathParams[name] || '').trim();
+		if (value) {
+			return `${slash}${encodeURIComponent(value)}`;
+		}
+		return optional ? '' : match;
+	});
+
+	const query = new URLSearchParams();
+	request.query.filter(item => item.enabled && item.key.trim()).forEach(item => query.append(item.key.trim(), item.value));
+	const search = query.toString();
+	if (search) {
+		url += `${url.includes('?') ? '&' : '?'}${search}`;
+	}
+	requestUrl.value = url;
+}
+
+function updateBodyType() {
+	const type = document.querySelector('input[name="body-type"]:checked')?.value || 'none';
+	bodyJson.classList.toggle('hidden', type !== 'json');
+	bodyForm.classList.toggle('hidden', type !== 'form');
+}
+
+function updateAuthFields() {
+	document.querySelectorAll('.auth-field').forEach(field => {
+		field.classList.toggle('hidden', field.getAttribute('data-auth') !== authType.value);
+	});
+}
+
+function showRequestTab(name) {
+	document.querySelectorAll('.request-tab').forEach(tab => {
+		tab.classList.toggle('active', tab.getAttribute('data-request-tab') === name);
+	});
+	document.querySelectorAll('.request-section').forEach(section => {
+		section.classList.toggle('hidden', section.getAttribute('data-request-section') !== name);
+	});
+}
+
+function renderSavedRequests(saved, selected) {
+	savedRequests = saved || [];
+	savedSelect.innerHTML = '<option value="">Saved requests…</option>' + savedRequests
+		.map(entry => `<option value="${escapeHtml(entry.label)}">${escapeHtml(entry.label)}</option>`)
+		.join('');
+	savedSelect.value = selected && savedRequests.some(entry => entry.label === selected) ? selected : '';
+	deleteSavedBtn.disabled = !savedSelect.value;
+}
+
+function setSending(sending) {
+	sendRequestBtn.dataset.sending = sending ? 'true' : 'false';
+	sendRequestBtn.textContent = sending ? 'Cancel' : 'Send';
+}
+
+function showRequestError(msg) {
+	requestError.innerHTML = `<strong>Request failed:</strong> ${escapeHtml(msg)}`;
+	requestError.classList.remove('hidden');
+}
+
+function hideRequestError() {
+	requestError.classList.add('hidden');
+	requestError.innerHTML = '';
+}
+
+function formatBytes(bytes) {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function renderResponse(response) {
+	const status = document.getElementById('response-status');
+	status.textContent = `${response.status} ${response.statusText}`.trim();
+	status.className = `status-chip status-${String(response.status).charAt(0)}xx`;
+	document.getElementById('response-time').textContent = `${response.durationMs} ms`;
+	document.getElementById('response-size').textContent = formatBytes(response.size) + (response.truncated ? ' (truncated)' : '');
+
+	const headers = Object.entries(response.headers || {});
+	document.getElementById('response-headers-summary').textContent = `Headers (${headers.length})`;
+	document.getElementById('response-headers').innerHTML = headers
+		.map(([name, value]) => `<div class="header-row"><span class="header-name">${escapeHtml(name)}</span><span>${escapeHtml(value)}</span></div>`)
+		.join('');
+
+	document.getElementById('response-body').textContent = response.body || '(empty body)';
+	responseCard.classList.remove('hidden');
+}
+
 window.addEventListener('message', event => {
 	const message = event.data;
 
@@ -270,6 +832,10 @@ window.addEventListener('message', event => {
 				_originalIndex: idx + 1
 			}));
 			filteredRoutes = [...routes];
+			locations = [];
+			issues = [];
+			middlewareProfiles = [];
+			renderIssues([]);
 			errorContainer.innerHTML = '';
 			if (message.error) {
 				showWarning(message.error);
@@ -278,7 +844,43 @@ window.addEventListener('message', event => {
 			filterAndRender('');
 			break;
 
+		case 'middleware-loaded':
+			middlewareProfiles = message.profiles || [];
+			middlewareGroups = message.groups || {};
+			renderMiddlewareGroups(message.source);
+			filterAndRender(searchInput.value.toLowerCase());
+			break;
+
+		case 'locations-loaded':
+			locations = message.locations || [];
+			filterAndRender(searchInput.value.toLowerCase());
+			break;
+
+		case 'lint-loaded':
+			issues = message.issues || [];
+			renderIssues(message.skipped || []);
+			filterAndRender(searchInput.value.toLowerCase());
+			break;
+
+		case 'saved-requests':
+			if (activeRoute && routeKey(activeRoute) === message.routeKey) {
+				renderSavedRequests(message.saved, message.selected);
+			}
+			break;
+
+		case 'request-response':
+			setSending(false);
+			hideRequestError();
+			renderResponse(message.response);
+			break;
+
+		case 'request-error':
+			setSending(false);
+			showRequestError(message.error);
+			break;
+
 		case 'error':
+			setSending(false);
 			showError(message.error);
 			break;
 	}
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WebviewUtils } from '../lib/webviewUtils';
+import { LoggerService } from '../../services/LoggerService';
+import { MigrationSchemaService } from '../../services/MigrationSchemaService';
+import { WorkspaceService } from '../../services/WorkspaceService';
+
+export class SchemaPanel {
+	public static currentPanel: SchemaPanel | undefined;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private readonly _schemaService: MigrationSchemaService;
+	private _disposables: vscode.Disposable[] = [];
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._schemaService = new MigrationSchemaService();
+
+		LoggerService.info('SchemaPanel created');
+
+		this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+		this._panel.webview.onDidReceiveMessage(
+			(message) => this._handleWebviewMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	/**
+	 * Create or reveal the Schema panel.
+	 */
+	public static createOrShow(extensionUri: vscode.Uri): void {
+		const column = vscode.window.activeTextEditor
+			? vscode.window.activeTextEditor.viewColumn
+			: undefined;
+
+		if (SchemaPanel.currentPanel) {
+			SchemaPanel.currentPanel._panel.reveal(column);
+			return;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			'laravelHeroSchema',
+			'Laravel: Schema',
+			column || vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+				retainContextWhenHidden: true
+			}
+		);
+
+		SchemaPanel.currentPanel = new SchemaPanel(panel, extensionUri);
+	}
+
+	public dispose(): void {
+		SchemaPanel.currentPanel = undefined;
+		this._panel.dispose();
+
+		while (this._disposables.length) {
+			const x = this._disposables.pop();
+			if (x) {
+				x.dispose();
+			}
+		}
+	}
+
+	/**
+	 * Replay the migrations and push the computed schema to the webview.
+	 */
+	private async _loadSchema(): Promise<void> {
+		try {
+			const result = await this._schemaService.getSchema();
+			LoggerService.info(`Schema computed: ${result.tables.length} tables from ${result.migrationCount} migrations`);
+
+			this._panel.webview.postMessage({
+				command: 'schema-loaded',
+				data: result
+			});
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error('Failed to compute schema from migrations', err);
+			this._panel.webview.postMessage({
+				command: 'error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Handle messages from the webview.
+	 */
+	private async _handleWebviewMessage(message: any): Promise<void> {
+		try {
+			switch (message.command) {
+				case 'ready':
+				case 'refresh':
+					await this._loadSchema();
+					break;
+
+				case 'open-source':
+					await this._openSource(message.path, message.line);
+					break;
+			}
+		} catch (err) {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			LoggerService.error(`SchemaPanel message failed: ${message.command}`, err);
+			this._panel.webview.postMessage({
+				command: 'error',
+				error: errorMsg
+			});
+		}
+	}
+
+	/**
+	 * Open a migration at the line that defined a column, index or foreign key.
+	 */
+	private async _openSource(relativePath: string | undefined, line: number | undefined): Promise<void> {
+		if (!relativePath) {
+			return;
+		}
+
+		try {
+			const root = vscode.Uri.file(WorkspaceService.getWorkspaceRoot());
+			const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(root, ...relativePath.split('/')));
+			const position = new vscode.Position(Math.max((line ?? 1) - 1, 0), 0);
+			await vscode.window.showTextDocument(document, {
+				selection: new vscode.Range(position, position),
+				viewColumn: vscode.ViewColumn.Beside
+			});
+		} catch (err) {
+			LoggerService.error(`Failed to open ${relativePath}`, err);
+			const message = err instanceof Error ? err.message : String(err);
+			vscode.window.showErrorMessage(`Could not open file: ${message}`);
+		}
+	}
+
+	/**
+	 * Assemble HTML for the webview from template assets.
+	 */
+	private _getHtmlForWebview(webview: vscode.Webview): string {
+		const panelDir = vscode.Uri.joinPath(this._extensionUri, 'dist', 'webviews', 'schema-panel');
+		const templatePath = panelDir.fsPath;
+		const templateFile = path.join(templatePath, 'template.html');
+		let bodyContent = '';
+
+		try {
+			bodyContent = fs.readFileSync(templateFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read schema template.html:', err instanceof Error ? err.message : String(err));
+			bodyContent = '<h1>Error loading template</h1>';
+		}
+
+		const iconMap: Record<string, string> = {
+			'icon-refresh': 'arrow-path.svg'
+		};
+
+		for (const [token, fileName] of Object.entries(iconMap)) {
+			const iconUri = webview.asWebviewUri(
+				vscode.Uri.joinPath(this._extensionUri, 'media', 'icons', fileName)
+			);
+			bodyContent = bodyContent.replaceAll(`{{${token}}}`, iconUri.toString());
+		}
+
+		const cssFile = path.join(templatePath, 'styles.css');
+		let additionalStyles = '';
+
+		try {
+			additionalStyles = fs.readFileSync(cssFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read schema styles.css:', err instanceof Error ? err.message : String(err));
+		}
+
+		const jsFile = path.join(templatePath, 'script.js');
+		let scriptContent = '';
+
+		try {
+			scriptContent = fs.readFileSync(jsFile, 'utf8');
+		} catch (err) {
+			LoggerService.error('Failed to read schema script.js:', err instanceof Error ? err.message : String(err));
+		}
+
+		return WebviewUtils.generateHtmlTemplate(
+			webview,
+			this._extensionUri,
+			'Laravel Schema',
+			bodyContent,
+			scriptContent,
+			additionalStyles
+		);
+	}
+}
@@ -0,0 +1,242 @@
+const vscode = acquireVsCodeApi();
+
+let tables = [];
+let selectedTable = null;
+
+const tableList = document.getElementById('table-list');
+const tableDetail = document.getElementById('table-detail');
+const errorContainer = document.getElementById('error-container');
+const warningContainer = document.getElementById('warning-container');
+const searchInput = document.getElementById('search-input');
+const searchResults = document.getElementById('search-results');
+const summary = document.getElementById('schema-summary');
+const refreshBtn = document.getElementById('refresh-btn');
+
+refreshBtn.addEventListener('click', () => {
+	vscode.postMessage({ command: 'refresh' });
+});
+
+searchInput.addEventListener('input', () => {
+	renderTableList();
+});
+
+// Source links are rendered as HTML strings, so listen once on the container
+tableDetail.addEventListener('click', (e) => {
+	const link = e.target.closest('.source-link');
+	if (!link) {
+		return;
+	}
+	e.preventDefault();
+	vscode.postMessage({
+		command: 'open-source',
+		path: link.getAttribute('data-path'),
+		line: parseInt(link.getAttribute('data-line'), 10)
+	});
+});
+
+function escapeHtml(str) {
+	return String(str ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function sourceLink(source, label) {
+	if (!source) {
+		return '<span class="muted">—</span>';
+	}
+	const text = label || `${source.migration}:${source.line}`;
+	return `<a class="source-link" href="#" data-path="${escapeHtml(source.path)}" data-line="${source.line}" title="${escapeHtml(source.path)}:${source.line}">${escapeHtml(text)}</a>`;
+}
+
+function matchesFilter(table, term) {
+	if (!term) {
+		return true;
+	}
+	return table.name.toLowerCase().includes(term) ||
+		table.columns.some(column => column.name.toLowerCase().includes(term));
+}
+
+function renderTableList() {
+	const term = searchInput.value.trim().toLowerCase();
+	const visible = tables.filter(table => matchesFilter(table, term));
+
+	searchResults.textContent = term ? `${visible.length} of ${tables.length} tables` : '';
+
+	if (visible.length === 0) {
+		tableList.innerHTML = `<div class="no-results">${tables.length === 0 ? 'No tables found in migrations' : 'No tables match your filter'}</div>`;
+		return;
+	}
+
+	if (!selectedTable || !visible.some(table => table.name === selectedTable)) {
+		selectedTable = visible[0].name;
+	}
+
+	tableList.innerHTML = '';
+	visible.forEach(table => {
+		const item = document.createElement('button');
+		item.className = `table-list-item${table.name === selectedTable ? ' active' : ''}`;
+		item.innerHTML = `<span>${escapeHtml(table.name)}</span><span class="table-list-count">${table.columns.length}</span>`;
+		item.addEventListener('click', () => {
+			selectedTable = table.name;
+			renderTableList();
+		});
+		tableList.appendChild(item);
+	});
+
+	renderTableDetail(tables.find(table => table.name === selectedTable));
+}
+
+function formatType(column) {
+	const params = column.params ? `(${column.params})` : '';
+	return `${column.type}${params}`;
+}
+
+function renderTableDetail(table) {
+	if (!table) {
+		tableDetail.innerHTML = '';
+		return;
+	}
+
+	const primary = new Set(table.indexes.filter(i => i.type === 'primary').flatMap(i => i.columns));
+	const foreign = new Set(table.foreignKeys.flatMap(fk => fk.columns));
+	const modified = table.modifiedBy.length > 0
+		? ` · altered by ${table.modifiedBy.map(source => sourceLink(source, source.migration)).join(', ')}`
+		: '';
+
+	const columnRows = table.columns.map(column => {
+		const badges = [
+			primary.has(column.name) ? '<span class="key-badge">PK</span>' : '',
+			foreign.has(column.name) ? '<span class="key-badge">FK</span>' : ''
+		].join('');
+		const attributes = [
+			column.unsigned ? 'unsigned' : '',
+			column.autoIncrement ? 'auto increment' : '',
+			...column.modifiers
+		].filter(Boolean).map(attr => `<span class="modifier">${escapeHtml(attr)}</span>`).join('');
+		const changed = column.changedBy.length > 0
+			? `<span class="changed-note">changed in ${column.changedBy.map(source => sourceLink(source)).join(', ')}</span>`
+			: '';
+
+		return `
+			<tr>
+				<td class="column-name"><code>${escapeHtml(column.name)}</code>${badges}</td>
+				<td><code>${escapeHtml(formatType(column))}</code></td>
+				<td>${column.nullable ? 'Yes' : '<span class="muted">No</span>'}</td>
+				<td>${column.default !== undefined ? `<code>${escapeHtml(column.default)}</code>` : '<span class="muted">—</span>'}</td>
+				<td>${attributes || '<span class="muted">—</span>'}</td>
+				<td>${sourceLink(column.source)}${changed}</td>
+			</tr>
+		`;
+	}).join('');
+
+	const indexRows = table.indexes.map(index => `
+		<tr>
+			<td><code>${escapeHtml(index.name)}</code></td>
+			<td>${escapeHtml(index.type)}</td>
+			<td><code>${escapeHtml(index.columns.join(', '))}</code></td>
+			<td>${sourceLink(index.source)}</td>
+		</tr>
+	`).join('');
+
+	const foreignRows = table.foreignKeys.map(fk => `
+		<tr>
+			<td><code>${escapeHtml(fk.name)}</code></td>
+			<td><code>${escapeHtml(fk.columns.join(', '))}</code></td>
+			<td><code>${escapeHtml(fk.on)}(${escapeHtml(fk.references.join(', '))})</code></td>
+			<td>${escapeHtml(fk.onDelete || '—')} / ${escapeHtml(fk.onUpdate || '—')}</td>
+			<td>${sourceLink(fk.source)}</td>
+		</tr>
+	`).join('');
+
+	tableDetail.innerHTML = `
+		<div class="detail-header">
+			<h2>${escapeHtml(table.name)}</h2>
+			<p class="detail-meta">
+				${table.createdBy ? `Created by ${sourceLink(table.createdBy, table.createdBy.migration)}` : 'Created outside the scanned migrations'}${modified}
+			</p>
+		</div>
+
+		<div>
+			<h3 class="section-title">Columns (${table.columns.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Type</th><th>Nullable</th><th>Default</th><th>Attributes</th><th>Introduced in</th></tr>
+					</thead>
+					<tbody>${columnRows || '<tr><td colspan="6" class="no-results">No columns</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+
+		<div>
+			<h3 class="section-title">Indexes (${table.indexes.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Type</th><th>Columns</th><th>Defined in</th></tr>
+					</thead>
+					<tbody>${indexRows || '<tr><td colspan="4" class="no-results">No indexes</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+
+		<div>
+			<h3 class="section-title">Foreign Keys (${table.foreignKeys.length})</h3>
+			<div class="table-card">
+				<table>
+					<thead>
+						<tr><th>Name</th><th>Columns</th><th>References</th><th>On delete / update</th><th>Defined in</th></tr>
+					</thead>
+					<tbody>${foreignRows || '<tr><td colspan="5" class="no-results">No foreign keys</td></tr>'}</tbody>
+				</table>
+			</div>
+		</div>
+	`;
+}
+
+function renderWarnings(warnings) {
+	if (!warnings || warnings.length === 0) {
+		warningContainer.innerHTML = '';
+		return;
+	}
+
+	warningContainer.innerHTML = `
+		<div class="warning-banner">
+			<details class="warnings-details">
+				<summary>⚠ ${warnings.length} statement${warnings.length === 1 ? '' : 's'} could not be interpreted</summary>
+				<ul>${warnings.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul>
+			</details>
+		</div>
+	`;
+}
+
+function showError(msg) {
+	errorContainer.innerHTML = `
+		<div class="error-banner">
+			<strong>Error:</strong> ${escapeHtml(msg)}
+		</div>
+	`;
+}
+
+window.addEventListener('message', event => {
+	const message = event.data;
+
+	switch (message.command) {
+		case 'schema-loaded':
+			tables = message.data.tables || [];
+			errorContainer.innerHTML = '';
+			summary.textContent = `${tables.length} table${tables.length === 1 ? '' : 's'} computed from ${message.data.migrationCount} migration${message.data.migrationCount === 1 ? '' : 's'}. No database connection needed.`;
+			renderWarnings(message.data.warnings);
+			renderTableList();
+			break;
+
+		case 'error':
+			showError(message.error);
+			break;
+	}
+});
+
+vscode.postMessage({ command: 'ready' });